@@ -52,6 +52,8 @@ import {
   Volume2,
   RefreshCw,
 } from 'lucide-react';
+import type { VoiceProviderName } from '@/db/schema';
+import { voiceProviderInfo } from '@/lib/voice-providers';
 
 interface OutboundCampaign {
   id: string;
@@ -61,6 +63,7 @@ interface OutboundCampaign {
   description: string | null;
   webhookUuid: string;
   status: 'draft' | 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
+  voiceProvider: VoiceProviderName;
   vapiAssistantId: string | null;
   vapiPhoneNumberId: string | null;
   vapiPhoneNumber: string | null;
@@ -68,6 +71,8 @@ interface OutboundCampaign {
   maxConcurrentCalls: number;
   maxRetries: number;
   retryDelayHours: number;
+  hasWebhookSecret: boolean;
+  webhookSecretPreviousExpiresAt: string | null;
   totalContacts: number;
   contactsCalled: number;
   contactsAnswered: number;
@@ -143,6 +148,7 @@ export default function OutboundCampaignDetailPage({
   const [resultFilter, setResultFilter] = useState<string>('all');
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [newWebhookSecret, setNewWebhookSecret] = useState<string | null>(null);
 
   useEffect(() => {
     fetchCampaign();
@@ -208,6 +214,25 @@ export default function OutboundCampaignDetailPage({
     }
   }
 
+  async function rotateWebhookSecret() {
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/outbound-campaigns/${id}/webhook-secret`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setNewWebhookSecret(data.data.webhookSecret);
+        fetchCampaign();
+      }
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
   function formatDuration(seconds: number | null): string {
     if (seconds === null || seconds === undefined) return '-';
     const mins = Math.floor(seconds / 60);
@@ -631,7 +656,11 @@ export default function OutboundCampaignDetailPage({
             <CardContent className="space-y-4">
               <div className="grid gap-4 md:grid-cols-2">
                 <div>
-                  <h4 className="text-sm font-medium text-muted-foreground">VAPI Phone Number</h4>
+                  <h4 className="text-sm font-medium text-muted-foreground">Voice Provider</h4>
+                  <p>{voiceProviderInfo(campaign.voiceProvider).label}</p>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-muted-foreground">Calling From</h4>
                   <p className="font-mono">{campaign.vapiPhoneNumber || '-'}</p>
                 </div>
                 <div>
@@ -657,6 +686,31 @@ export default function OutboundCampaignDetailPage({
                   </p>
                 </div>
               </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-muted-foreground">Webhook Signing</h4>
+                <p className="text-sm">
+                  {campaign.hasWebhookSecret
+                    ? campaign.voiceProvider === 'vapi'
+                      ? 'Enforced. Set this secret as the server secret on the VAPI assistant.'
+                      : `Enforced. ${voiceProviderInfo(campaign.voiceProvider).label} must sign its webhooks with this secret.`
+                    : 'Off. Any request to the webhook URL is accepted.'}
+                </p>
+                {campaign.webhookSecretPreviousExpiresAt &&
+                  new Date(campaign.webhookSecretPreviousExpiresAt) > new Date() && (
+                  <p className="text-sm text-muted-foreground">
+                    The previous secret is accepted until{' '}
+                    {new Date(campaign.webhookSecretPreviousExpiresAt).toLocaleString()}.
+                  </p>
+                )}
+                {newWebhookSecret && (
+                  <p className="font-mono text-xs break-all bg-muted px-3 py-2 rounded">
+                    {newWebhookSecret}
+                  </p>
+                )}
+                <Button variant="outline" size="sm" onClick={rotateWebhookSecret} disabled={actionLoading}>
+                  {campaign.hasWebhookSecret ? 'Rotate Secret' : 'Generate Secret'}
+                </Button>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -43,8 +43,14 @@ import {
   AlertCircle,
   CheckCircle,
   XCircle,
+  PhoneOff,
+  Plus,
+  Trash2,
+  X,
 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { VoiceProviderName } from '@/db/schema';
+import { VOICE_PROVIDERS, isVoiceProviderAllowed, voiceProviderInfo } from '@/lib/voice-providers';
 
 interface Organization {
   id: string;
@@ -112,9 +118,11 @@ function WizardContent() {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [organizationId, setOrganizationId] = useState('');
+  const [voiceProvider, setVoiceProvider] = useState<VoiceProviderName>('vapi');
 
   // Step 2: VAPI Connection
   const [vapiApiKey, setVapiApiKey] = useState('');
+  const [savedVapiKeyHint, setSavedVapiKeyHint] = useState<string | null>(null); // Set when the client has a saved key
   const [vapiConnected, setVapiConnected] = useState(false);
   const [vapiTesting, setVapiTesting] = useState(false);
   const [assistants, setAssistants] = useState<VapiAssistant[]>([]);
@@ -133,6 +141,7 @@ function WizardContent() {
   const [parsedContacts, setParsedContacts] = useState<ParsedContact[]>([]);
   const [invalidContacts, setInvalidContacts] = useState<ParsedContact[]>([]);
   const [duplicateContacts, setDuplicateContacts] = useState<ParsedContact[]>([]);
+  const [dncCount, setDncCount] = useState(0);
   const [uploadProgress, setUploadProgress] = useState(0);
 
   // Step 5: Scheduling
@@ -145,6 +154,9 @@ function WizardContent() {
       isEnabled: i >= 1 && i <= 5, // Mon-Fri enabled by default
     }))
   );
+  const [callingTimezone, setCallingTimezone] = useState('America/New_York');
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([]);
+  const [newBlackoutDate, setNewBlackoutDate] = useState('');
   const [maxConcurrentCalls, setMaxConcurrentCalls] = useState(10);
   const [maxRetries, setMaxRetries] = useState(3);
   const [retryDelayHours, setRetryDelayHours] = useState(4);
@@ -169,6 +181,27 @@ function WizardContent() {
     }
   }, [campaignId]);
 
+  // A saved VAPI key lets the client's campaigns connect without entering it again
+  useEffect(() => {
+    setSavedVapiKeyHint(null);
+    if (organizationId) {
+      fetchSavedVapiKey(organizationId);
+    }
+  }, [organizationId]);
+
+  async function fetchSavedVapiKey(orgId: string) {
+    try {
+      const response = await fetch(`/api/organizations/${orgId}/credentials`);
+      if (response.ok) {
+        const data = await response.json();
+        const vapi = (data.data || []).find((c: { provider: string }) => c.provider === 'vapi');
+        setSavedVapiKeyHint(vapi ? vapi.hint : null);
+      }
+    } catch (error) {
+      console.error('Error fetching saved credentials:', error);
+    }
+  }
+
   async function fetchOrganizations() {
     try {
       const response = await fetch('/api/organizations');
@@ -193,6 +226,7 @@ function WizardContent() {
         setName(campaign.name || '');
         setDescription(campaign.description || '');
         setOrganizationId(campaign.organizationId || '');
+        setVoiceProvider(campaign.voiceProvider || 'vapi');
         setSelectedAssistantId(campaign.vapiAssistantId || '');
         setSelectedPhoneNumberId(campaign.vapiPhoneNumberId || '');
         setSelectedPhoneNumber(campaign.vapiPhoneNumber || '');
@@ -200,20 +234,32 @@ function WizardContent() {
         setMaxConcurrentCalls(campaign.maxConcurrentCalls || 10);
         setMaxRetries(campaign.maxRetries || 3);
         setRetryDelayHours(campaign.retryDelayHours || 4);
+        setBlackoutDates(campaign.blackoutDates || []);
         setCurrentStep(campaign.currentStep || 1);
 
         if (data.schedules && data.schedules.length > 0) {
-          const loadedSchedules = DAYS_OF_WEEK.map((_, i) => {
-            const existing = data.schedules.find((s: Schedule) => s.dayOfWeek === i);
-            return existing || {
-              dayOfWeek: i,
-              startTime: '09:00',
-              endTime: '17:00',
-              timezone: 'America/New_York',
-              isEnabled: false,
-            };
+          const savedSchedules: Array<Omit<Schedule, 'isEnabled'> & { isActive: boolean }> = data.schedules;
+          const loadedSchedules = DAYS_OF_WEEK.flatMap((_, i) => {
+            const existing = savedSchedules.filter((s) => s.dayOfWeek === i);
+            if (existing.length === 0) {
+              return [{
+                dayOfWeek: i,
+                startTime: '09:00',
+                endTime: '17:00',
+                timezone: savedSchedules[0].timezone,
+                isEnabled: false,
+              }];
+            }
+            return existing.map((s) => ({
+              dayOfWeek: s.dayOfWeek,
+              startTime: s.startTime,
+              endTime: s.endTime,
+              timezone: s.timezone,
+              isEnabled: s.isActive,
+            }));
           });
           setSchedules(loadedSchedules);
+          setCallingTimezone(savedSchedules[0].timezone);
         }
       }
     } catch (error) {
@@ -237,6 +283,7 @@ function WizardContent() {
             name: name || 'Untitled Campaign',
             description,
             organizationId,
+            voiceProvider,
           }),
         });
 
@@ -257,6 +304,7 @@ function WizardContent() {
         if (step >= 1) {
           updates.name = name;
           updates.description = description;
+          updates.voiceProvider = voiceProvider;
         }
 
         if (step >= 2) {
@@ -272,6 +320,7 @@ function WizardContent() {
           updates.maxConcurrentCalls = maxConcurrentCalls;
           updates.maxRetries = maxRetries;
           updates.retryDelayHours = retryDelayHours;
+          updates.blackoutDates = blackoutDates;
         }
 
         if (step >= 6) {
@@ -295,7 +344,9 @@ function WizardContent() {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              schedules: schedules.filter((s) => s.isEnabled),
+              schedules: schedules
+                .filter((s) => s.isEnabled)
+                .map((s) => ({ ...s, timezone: callingTimezone })),
             }),
           });
         }
@@ -306,22 +357,71 @@ function WizardContent() {
       setSaving(false);
     }
   }, [
-    savedCampaignId, name, description, organizationId, selectedAssistantId,
+    savedCampaignId, name, description, organizationId, voiceProvider, selectedAssistantId,
     selectedPhoneNumberId, selectedPhoneNumber, maxConcurrentCalls, maxRetries,
-    retryDelayHours, twilioPhoneNumber, schedules, router
+    retryDelayHours, blackoutDates, twilioPhoneNumber, schedules, callingTimezone, router
   ]);
 
+  function updateWindow(index: number, changes: Partial<Schedule>) {
+    setSchedules(schedules.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  }
+
+  function toggleDay(dayOfWeek: number, enabled: boolean) {
+    setSchedules(schedules.map((s) => (s.dayOfWeek === dayOfWeek ? { ...s, isEnabled: enabled } : s)));
+  }
+
+  function addWindow(dayOfWeek: number) {
+    const lastIndex = schedules.map((s) => s.dayOfWeek).lastIndexOf(dayOfWeek);
+    const last = schedules[lastIndex];
+    const newWindow = {
+      dayOfWeek,
+      startTime: last?.endTime ?? '09:00',
+      endTime: '20:00',
+      timezone: callingTimezone,
+      isEnabled: true,
+    };
+    setSchedules([...schedules.slice(0, lastIndex + 1), newWindow, ...schedules.slice(lastIndex + 1)]);
+  }
+
+  function removeWindow(index: number) {
+    setSchedules(schedules.filter((_, i) => i !== index));
+  }
+
+  function addBlackoutDate() {
+    if (!newBlackoutDate || blackoutDates.includes(newBlackoutDate)) return;
+    setBlackoutDates([...blackoutDates, newBlackoutDate].sort());
+    setNewBlackoutDate('');
+  }
+
   async function testVapiConnection() {
-    if (!vapiApiKey) return;
+    if (!vapiApiKey && savedVapiKeyHint === null) return;
 
     setVapiTesting(true);
     setError(null);
 
     try {
+      // A new key is checked with VAPI and saved encrypted for the client; it isn't sent again
+      if (vapiApiKey) {
+        const saveRes = await fetch(`/api/organizations/${organizationId}/credentials`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ provider: 'vapi', apiKey: vapiApiKey }),
+        });
+        const saved = await saveRes.json();
+
+        if (!saveRes.ok) {
+          setError(saved.error || 'Failed to save VAPI key');
+          return;
+        }
+
+        setSavedVapiKeyHint(saved.data.hint);
+        setVapiApiKey('');
+      }
+
       const response = await fetch('/api/vapi/test-connection', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ apiKey: vapiApiKey }),
+        body: JSON.stringify({ organizationId }),
       });
 
       const data = await response.json();
@@ -333,7 +433,7 @@ function WizardContent() {
         const assistantsRes = await fetch('/api/vapi/assistants', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ apiKey: vapiApiKey }),
+          body: JSON.stringify({ organizationId }),
         });
 
         if (assistantsRes.ok) {
@@ -345,7 +445,7 @@ function WizardContent() {
         const phoneRes = await fetch('/api/vapi/phone-numbers', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ apiKey: vapiApiKey }),
+          body: JSON.stringify({ organizationId }),
         });
 
         if (phoneRes.ok) {
@@ -437,6 +537,7 @@ function WizardContent() {
       setParsedContacts(data.contacts || []);
       setInvalidContacts(data.invalidPreview || []);
       setDuplicateContacts(data.duplicatePreview || []);
+      setDncCount(data.dncContacts || 0);
       setUploadStep('preview');
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Processing failed');
@@ -514,9 +615,9 @@ function WizardContent() {
       case 1:
         return name.trim() && organizationId;
       case 2:
-        return vapiConnected && selectedAssistantId;
+        return voiceProvider === 'vapi' ? vapiConnected && selectedAssistantId : selectedAssistantId.trim();
       case 3:
-        return selectedPhoneNumberId;
+        return selectedPhoneNumberId.trim();
       case 4:
         return parsedContacts.length > 0 || uploadStep !== 'preview';
       case 5:
@@ -543,6 +644,8 @@ function WizardContent() {
     }
   };
 
+  const providerInfo = voiceProviderInfo(voiceProvider);
+
   if (loading && !savedCampaignId) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -557,7 +660,7 @@ function WizardContent() {
       <div className="flex items-center justify-between mb-8">
         {[
           { num: 1, label: 'Campaign Info', icon: FileText },
-          { num: 2, label: 'VAPI Assistant', icon: Phone },
+          { num: 2, label: voiceProvider === 'vapi' ? 'VAPI Assistant' : 'Voice Agent', icon: Phone },
           { num: 3, label: 'Phone Number', icon: Phone },
           { num: 4, label: 'Contacts', icon: Upload },
           { num: 5, label: 'Schedule', icon: Calendar },
@@ -602,7 +705,7 @@ function WizardContent() {
         <CardHeader>
           <CardTitle>
             {currentStep === 1 && 'Campaign Information'}
-            {currentStep === 2 && 'Connect VAPI & Select Assistant'}
+            {currentStep === 2 && (voiceProvider === 'vapi' ? 'Connect VAPI & Select Assistant' : `${providerInfo.label} Agent`)}
             {currentStep === 3 && 'Select Phone Number'}
             {currentStep === 4 && 'Upload Contacts'}
             {currentStep === 5 && 'Call Schedule'}
@@ -611,7 +714,9 @@ function WizardContent() {
           </CardTitle>
           <CardDescription>
             {currentStep === 1 && 'Enter basic campaign details and select a client'}
-            {currentStep === 2 && 'Enter your VAPI API key and select an AI assistant'}
+            {currentStep === 2 && (voiceProvider === 'vapi'
+              ? 'Enter your VAPI API key and select an AI assistant'
+              : `Enter the ${providerInfo.agentLabel.toLowerCase()} that runs the calls`)}
             {currentStep === 3 && 'Choose which phone number to use for outbound calls'}
             {currentStep === 4 && 'Upload your contact list (CSV or Excel)'}
             {currentStep === 5 && 'Set calling hours and retry settings'}
@@ -659,26 +764,78 @@ function WizardContent() {
                   rows={3}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="voiceProvider">Voice Provider *</Label>
+                <Select
+                  value={voiceProvider}
+                  onValueChange={(value) => {
+                    setVoiceProvider(value as VoiceProviderName);
+                    setSelectedAssistantId('');
+                    setSelectedPhoneNumberId('');
+                    setSelectedPhoneNumber('');
+                  }}
+                >
+                  <SelectTrigger id="voiceProvider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VOICE_PROVIDERS.filter((entry) => isVoiceProviderAllowed(entry.provider)).map((entry) => (
+                      <SelectItem key={entry.provider} value={entry.provider}>
+                        {entry.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{providerInfo.description}</p>
+              </div>
+            </>
+          )}
+
+          {/* Step 2: Agent at another provider, entered by ID */}
+          {currentStep === 2 && voiceProvider !== 'vapi' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="agentId">{providerInfo.agentLabel} *</Label>
+                <Input
+                  id="agentId"
+                  value={selectedAssistantId}
+                  onChange={(e) => setSelectedAssistantId(e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {voiceProvider === 'fake'
+                    ? 'Calls are simulated and nobody is dialed. Numbers ending in 0-5 answer, 6-7 don\'t, 8 reaches voicemail and 9 is busy.'
+                    : `Calls use the client's ${providerInfo.label} key from their Credentials page, or the platform's key if they haven't connected one.`}
+                </AlertDescription>
+              </Alert>
             </>
           )}
 
           {/* Step 2: VAPI Connection */}
-          {currentStep === 2 && (
+          {currentStep === 2 && voiceProvider === 'vapi' && (
             <>
               <div className="space-y-2">
-                <Label htmlFor="vapiKey">VAPI Private API Key *</Label>
+                <Label htmlFor="vapiKey">VAPI Private API Key {savedVapiKeyHint === null && '*'}</Label>
                 <div className="flex gap-2">
                   <Input
                     id="vapiKey"
                     type="password"
                     value={vapiApiKey}
                     onChange={(e) => setVapiApiKey(e.target.value)}
-                    placeholder="Enter your VAPI private API key"
+                    placeholder={
+                      savedVapiKeyHint !== null
+                        ? 'Enter a new key to replace the saved one'
+                        : 'Enter your VAPI private API key'
+                    }
                     className="flex-1"
                   />
                   <Button
                     onClick={testVapiConnection}
-                    disabled={!vapiApiKey || vapiTesting}
+                    disabled={(!vapiApiKey && savedVapiKeyHint === null) || vapiTesting}
                   >
                     {vapiTesting ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
@@ -690,7 +847,9 @@ function WizardContent() {
                   </Button>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Your API key is not stored and must be entered each session
+                  {savedVapiKeyHint !== null
+                    ? `Using the key saved for this client${savedVapiKeyHint ? ` (ending in ${savedVapiKeyHint})` : ''}.`
+                    : 'The key is saved encrypted for this client and is never shown again.'}
                 </p>
               </div>
 
@@ -743,8 +902,25 @@ function WizardContent() {
             </>
           )}
 
+          {/* Step 3: Number at another provider, entered by hand */}
+          {currentStep === 3 && voiceProvider !== 'vapi' && (
+            <div className="space-y-2">
+              <Label htmlFor="fromNumber">{providerInfo.phoneNumberLabel} *</Label>
+              <Input
+                id="fromNumber"
+                value={selectedPhoneNumberId}
+                onChange={(e) => {
+                  setSelectedPhoneNumberId(e.target.value);
+                  setSelectedPhoneNumber(e.target.value);
+                }}
+                placeholder={providerInfo.phoneNumberHint}
+                className="font-mono"
+              />
+            </div>
+          )}
+
           {/* Step 3: Phone Number */}
-          {currentStep === 3 && (
+          {currentStep === 3 && voiceProvider === 'vapi' && (
             <>
               {phoneNumbers.length > 0 ? (
                 <div className="space-y-2">
@@ -945,7 +1121,7 @@ function WizardContent() {
 
               {uploadStep === 'preview' && (
                 <div className="space-y-4">
-                  <div className="grid gap-4 md:grid-cols-3">
+                  <div className="grid gap-4 md:grid-cols-4">
                     <Card>
                       <CardContent className="pt-4">
                         <div className="flex items-center gap-2">
@@ -975,6 +1151,16 @@ function WizardContent() {
                         <p className="text-sm text-muted-foreground">Duplicates</p>
                       </CardContent>
                     </Card>
+
+                    <Card>
+                      <CardContent className="pt-4">
+                        <div className="flex items-center gap-2">
+                          <PhoneOff className="h-5 w-5 text-orange-500" />
+                          <span className="text-2xl font-bold">{dncCount}</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">Do Not Call</p>
+                      </CardContent>
+                    </Card>
                   </div>
 
                   {parsedContacts.length > 0 && (
@@ -1031,6 +1217,7 @@ function WizardContent() {
                         setParsedContacts([]);
                         setInvalidContacts([]);
                         setDuplicateContacts([]);
+                        setDncCount(0);
                       }}
                     >
                       Upload Different File
@@ -1051,70 +1238,127 @@ function WizardContent() {
               <div className="space-y-4">
                 <h4 className="font-medium">Calling Hours</h4>
                 <p className="text-sm text-muted-foreground">
-                  Set when calls can be made. Times are enforced per contact&apos;s timezone.
+                  Set when calls can be made, in each contact&apos;s local time. State calling-hour laws
+                  (8am-9pm federally, stricter in some states) always apply on top of these windows.
                 </p>
 
-                {schedules.map((schedule, index) => (
-                  <div
-                    key={index}
-                    className={`flex items-center gap-4 p-3 rounded-lg ${
-                      schedule.isEnabled ? 'bg-muted/50' : 'opacity-50'
-                    }`}
-                  >
-                    <Checkbox
-                      checked={schedule.isEnabled}
-                      onCheckedChange={(checked) => {
-                        const newSchedules = [...schedules];
-                        newSchedules[index].isEnabled = checked as boolean;
-                        setSchedules(newSchedules);
-                      }}
-                    />
-                    <span className="w-24 font-medium">{DAYS_OF_WEEK[index]}</span>
-                    <Input
-                      type="time"
-                      value={schedule.startTime}
-                      onChange={(e) => {
-                        const newSchedules = [...schedules];
-                        newSchedules[index].startTime = e.target.value;
-                        setSchedules(newSchedules);
-                      }}
-                      className="w-32"
-                      disabled={!schedule.isEnabled}
-                    />
-                    <span>to</span>
-                    <Input
-                      type="time"
-                      value={schedule.endTime}
-                      onChange={(e) => {
-                        const newSchedules = [...schedules];
-                        newSchedules[index].endTime = e.target.value;
-                        setSchedules(newSchedules);
-                      }}
-                      className="w-32"
-                      disabled={!schedule.isEnabled}
-                    />
-                    <Select
-                      value={schedule.timezone}
-                      onValueChange={(v) => {
-                        const newSchedules = [...schedules];
-                        newSchedules[index].timezone = v;
-                        setSchedules(newSchedules);
-                      }}
-                      disabled={!schedule.isEnabled}
+                <div className="flex items-center gap-4">
+                  <Label className="w-48">Timezone for contacts without one</Label>
+                  <Select value={callingTimezone} onValueChange={setCallingTimezone}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIMEZONES.map((tz) => (
+                        <SelectItem key={tz.value} value={tz.value}>
+                          {tz.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {DAYS_OF_WEEK.map((day, dayOfWeek) => {
+                  const windows = schedules
+                    .map((schedule, index) => ({ schedule, index }))
+                    .filter(({ schedule }) => schedule.dayOfWeek === dayOfWeek);
+                  const isEnabled = windows.some(({ schedule }) => schedule.isEnabled);
+
+                  return (
+                    <div
+                      key={day}
+                      className={`flex items-start gap-4 p-3 rounded-lg ${
+                        isEnabled ? 'bg-muted/50' : 'opacity-50'
+                      }`}
                     >
-                      <SelectTrigger className="w-48">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {TIMEZONES.map((tz) => (
-                          <SelectItem key={tz.value} value={tz.value}>
-                            {tz.label}
-                          </SelectItem>
+                      <Checkbox
+                        className="mt-2.5"
+                        checked={isEnabled}
+                        onCheckedChange={(checked) => {
+                          if (windows.length === 0) addWindow(dayOfWeek);
+                          else toggleDay(dayOfWeek, checked as boolean);
+                        }}
+                      />
+                      <span className="w-24 font-medium mt-2">{day}</span>
+                      <div className="space-y-2">
+                        {windows.map(({ schedule, index }) => (
+                          <div key={index} className="flex items-center gap-4">
+                            <Input
+                              type="time"
+                              value={schedule.startTime}
+                              onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                              className="w-32"
+                              disabled={!isEnabled}
+                            />
+                            <span>to</span>
+                            <Input
+                              type="time"
+                              value={schedule.endTime}
+                              onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                              className="w-32"
+                              disabled={!isEnabled}
+                            />
+                            {windows.length > 1 && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeWindow(index)}
+                                disabled={!isEnabled}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
                         ))}
-                      </SelectContent>
-                    </Select>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto"
+                        onClick={() => addWindow(dayOfWeek)}
+                        disabled={!isEnabled}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Window
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="font-medium">Blackout Dates</h4>
+                <p className="text-sm text-muted-foreground">
+                  No calls are made on these dates, in each contact&apos;s local time. Add holidays here.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={newBlackoutDate}
+                    onChange={(e) => setNewBlackoutDate(e.target.value)}
+                    className="w-48"
+                  />
+                  <Button variant="outline" onClick={addBlackoutDate} disabled={!newBlackoutDate}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Date
+                  </Button>
+                </div>
+                {blackoutDates.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {blackoutDates.map((date) => (
+                      <Badge key={date} variant="secondary" className="gap-1">
+                        {date}
+                        <button
+                          type="button"
+                          onClick={() => setBlackoutDates(blackoutDates.filter((d) => d !== date))}
+                          aria-label={`Remove ${date}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
                   </div>
-                ))}
+                )}
               </div>
 
               <div className="grid gap-4 md:grid-cols-3">
@@ -1210,7 +1454,9 @@ function WizardContent() {
                 </div>
 
                 <div className="space-y-1">
-                  <Label className="text-muted-foreground">VAPI Assistant</Label>
+                  <Label className="text-muted-foreground">
+                    {voiceProvider === 'vapi' ? 'VAPI Assistant' : `${providerInfo.label} ${providerInfo.agentLabel}`}
+                  </Label>
                   <p className="font-medium">
                     {assistants.find((a) => a.id === selectedAssistantId)?.name || selectedAssistantId}
                   </p>
@@ -1229,9 +1475,9 @@ function WizardContent() {
                 <div className="space-y-1">
                   <Label className="text-muted-foreground">Calling Days</Label>
                   <p className="font-medium">
-                    {schedules
-                      .filter((s) => s.isEnabled)
-                      .map((s) => DAYS_OF_WEEK[s.dayOfWeek].slice(0, 3))
+                    {DAYS_OF_WEEK
+                      .filter((_, i) => schedules.some((s) => s.dayOfWeek === i && s.isEnabled))
+                      .map((day) => day.slice(0, 3))
                       .join(', ') || 'None'}
                   </p>
                 </div>
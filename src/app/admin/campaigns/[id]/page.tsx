@@ -27,6 +27,7 @@ import {
   ChevronLeft,
   ChevronRight,
   RefreshCw,
+  RotateCcw,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -48,7 +49,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import type { Campaign, Organization, Interaction } from '@/db/schema';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Campaign, Organization, Interaction, ReanalysisJob } from '@/db/schema';
 import { formatDateTime, formatDuration, formatPhoneNumber } from '@/lib/utils';
 
 interface PageProps {
@@ -92,6 +103,10 @@ interface WebhookLog {
   callStatus?: string;
   errorType?: string;
   errorMessage?: string;
+  replayable?: boolean;
+  replayStatus?: 'queued' | 'succeeded' | 'failed' | null;
+  replayInteractionId?: string | null;
+  replayError?: string | null;
   rawPayload: unknown;
   createdAt: string;
 }
@@ -133,6 +148,19 @@ export default function CampaignDetailPage({ params }: PageProps) {
   const [webhooksLoading, setWebhooksLoading] = useState(false);
   const [webhookFilter, setWebhookFilter] = useState<'all' | 'success' | 'error'>('all');
   const [expandedWebhook, setExpandedWebhook] = useState<string | null>(null);
+  const [replayingWebhook, setReplayingWebhook] = useState<string | null>(null);
+  const [isBulkReplayOpen, setIsBulkReplayOpen] = useState(false);
+  const [bulkReplayStart, setBulkReplayStart] = useState('');
+  const [bulkReplayEnd, setBulkReplayEnd] = useState('');
+  const [isBulkReplaying, setIsBulkReplaying] = useState(false);
+
+  // Re-analysis state
+  const [reanalysisJobs, setReanalysisJobs] = useState<ReanalysisJob[]>([]);
+  const [isStartingReanalysis, setIsStartingReanalysis] = useState(false);
+
+  // Webhook signing state
+  const [newWebhookSecret, setNewWebhookSecret] = useState<string | null>(null);
+  const [isUpdatingSecret, setIsUpdatingSecret] = useState(false);
 
   const limit = 20;
 
@@ -196,10 +224,29 @@ export default function CampaignDetailPage({ params }: PageProps) {
     }
   }, [id]);
 
+  const fetchReanalysisJobs = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${id}/reanalyze`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch re-analysis jobs');
+      }
+
+      setReanalysisJobs(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch re-analysis jobs');
+    }
+  }, [id]);
+
   useEffect(() => {
     fetchStats();
   }, [fetchStats]);
 
+  useEffect(() => {
+    fetchReanalysisJobs();
+  }, [fetchReanalysisJobs]);
+
   useEffect(() => {
     fetchCalls(callsPage);
   }, [fetchCalls, callsPage]);
@@ -208,6 +255,138 @@ export default function CampaignDetailPage({ params }: PageProps) {
     fetchWebhooks(webhooksPage, webhookFilter);
   }, [fetchWebhooks, webhooksPage, webhookFilter]);
 
+  const replayWebhook = async (logId: string) => {
+    setReplayingWebhook(logId);
+    try {
+      const response = await fetch(`/api/campaigns/${id}/webhooks/${logId}/replay`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to replay webhook');
+      }
+
+      toast.success('Webhook replayed successfully');
+      fetchWebhooks(webhooksPage, webhookFilter);
+      fetchCalls(callsPage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to replay webhook');
+      fetchWebhooks(webhooksPage, webhookFilter);
+    } finally {
+      setReplayingWebhook(null);
+    }
+  };
+
+  const handleBulkReplay = async () => {
+    if (!bulkReplayStart || !bulkReplayEnd) {
+      toast.error('Select a start and end time');
+      return;
+    }
+
+    setIsBulkReplaying(true);
+    try {
+      const response = await fetch(`/api/campaigns/${id}/webhooks/replay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate: new Date(bulkReplayStart).toISOString(),
+          endDate: new Date(bulkReplayEnd).toISOString(),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to queue replays');
+      }
+
+      toast.success(
+        result.data.queued > 0
+          ? `${result.data.queued} webhook(s) queued for replay`
+          : 'No replayable webhooks in that range'
+      );
+      setIsBulkReplayOpen(false);
+      fetchWebhooks(webhooksPage, webhookFilter);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to queue replays');
+    } finally {
+      setIsBulkReplaying(false);
+    }
+  };
+
+  const startReanalysis = async (onlyMissing: boolean) => {
+    setIsStartingReanalysis(true);
+    try {
+      const response = await fetch(`/api/campaigns/${id}/reanalyze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ onlyMissing }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start re-analysis');
+      }
+
+      toast.success(`Re-analysis queued for ${result.data.totalCount} interaction(s)`);
+      fetchReanalysisJobs();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start re-analysis');
+    } finally {
+      setIsStartingReanalysis(false);
+    }
+  };
+
+  const rotateWebhookSecret = async () => {
+    setIsUpdatingSecret(true);
+    try {
+      const response = await fetch(`/api/campaigns/${id}/webhook-secret`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to generate secret');
+      }
+
+      setNewWebhookSecret(result.data.webhookSecret);
+      toast.success(
+        result.data.previousSecretExpiresAt
+          ? `Secret rotated. The old secret works until ${formatDateTime(result.data.previousSecretExpiresAt)}`
+          : 'Signing secret generated'
+      );
+      fetchStats();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate secret');
+    } finally {
+      setIsUpdatingSecret(false);
+    }
+  };
+
+  const removeWebhookSecret = async () => {
+    setIsUpdatingSecret(true);
+    try {
+      const response = await fetch(`/api/campaigns/${id}/webhook-secret`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove secret');
+      }
+
+      setNewWebhookSecret(null);
+      toast.success('Signature verification turned off');
+      fetchStats();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove secret');
+    } finally {
+      setIsUpdatingSecret(false);
+    }
+  };
+
+  const copyWebhookSecret = () => {
+    if (!newWebhookSecret) return;
+    navigator.clipboard.writeText(newWebhookSecret);
+    toast.success('Signing secret copied to clipboard');
+  };
+
   const copyWebhookUrl = () => {
     if (!statsData?.campaign) return;
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || window.location.origin;
@@ -633,6 +812,14 @@ export default function CampaignDetailPage({ params }: PageProps) {
                     <SelectItem value="error">Errors</SelectItem>
                   </SelectContent>
                 </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsBulkReplayOpen(true)}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Replay Failed
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -692,6 +879,20 @@ export default function CampaignDetailPage({ params }: PageProps) {
                                   <span className="text-sm text-muted-foreground truncate max-w-[300px]">
                                     {webhook.errorMessage}
                                   </span>
+                                  {webhook.replayStatus && (
+                                    <Badge
+                                      variant={
+                                        webhook.replayStatus === 'succeeded'
+                                          ? 'success'
+                                          : webhook.replayStatus === 'failed'
+                                            ? 'destructive'
+                                            : 'secondary'
+                                      }
+                                      className="text-xs"
+                                    >
+                                      replay {webhook.replayStatus}
+                                    </Badge>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -702,22 +903,59 @@ export default function CampaignDetailPage({ params }: PageProps) {
                         </div>
                         {expandedWebhook === webhook.id && webhook.rawPayload != null && (
                           <div className="border-t bg-muted/30 p-3">
+                            {webhook.type === 'error' && (webhook.replayError || webhook.replayInteractionId) && (
+                              <div className="mb-2 text-xs">
+                                {webhook.replayInteractionId ? (
+                                  <Link
+                                    href={`/admin/interactions/${webhook.replayInteractionId}`}
+                                    className="text-primary hover:underline"
+                                  >
+                                    View replayed interaction
+                                  </Link>
+                                ) : (
+                                  <span className="text-destructive">
+                                    Replay failed: {webhook.replayError}
+                                  </span>
+                                )}
+                              </div>
+                            )}
                             <div className="flex items-center justify-between mb-2">
                               <span className="text-xs font-medium">Raw Payload</span>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  navigator.clipboard.writeText(
-                                    JSON.stringify(webhook.rawPayload, null, 2)
-                                  );
-                                  toast.success('Payload copied');
-                                }}
-                              >
-                                <Copy className="h-3 w-3 mr-1" />
-                                Copy
-                              </Button>
+                              <div className="flex items-center gap-1">
+                                {webhook.type === 'error' && webhook.replayable &&
+                                  webhook.replayStatus !== 'succeeded' && webhook.replayStatus !== 'queued' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={replayingWebhook === webhook.id}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      replayWebhook(webhook.id);
+                                    }}
+                                  >
+                                    {replayingWebhook === webhook.id ? (
+                                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                    ) : (
+                                      <RotateCcw className="h-3 w-3 mr-1" />
+                                    )}
+                                    Replay
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    navigator.clipboard.writeText(
+                                      JSON.stringify(webhook.rawPayload, null, 2)
+                                    );
+                                    toast.success('Payload copied');
+                                  }}
+                                >
+                                  <Copy className="h-3 w-3 mr-1" />
+                                  Copy
+                                </Button>
+                              </div>
                             </div>
                             <pre className="text-xs font-mono bg-background p-3 rounded overflow-auto max-h-[300px]">
                               {JSON.stringify(webhook.rawPayload, null, 2)}
@@ -840,8 +1078,180 @@ export default function CampaignDetailPage({ params }: PageProps) {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CardTitle>Webhook Signing</CardTitle>
+                <Badge variant={campaign.webhookSecret ? 'success' : 'secondary'}>
+                  {campaign.webhookSecret ? 'Enforced' : 'Off'}
+                </Badge>
+              </div>
+              <CardDescription>
+                Once a secret is set, unsigned or forged requests are rejected and logged.
+                Senders can sign with an <code>X-Webhook-Signature: sha256=&lt;HMAC of body&gt;</code> header,
+                send the secret as VAPI&apos;s server secret, or rely on Twilio&apos;s own signature.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {newWebhookSecret && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">
+                    New secret (copy it now, it will not be shown again)
+                  </label>
+                  <div className="flex items-center gap-2 mt-1">
+                    <code className="flex-1 bg-muted px-3 py-2 rounded text-sm font-mono break-all">
+                      {newWebhookSecret}
+                    </code>
+                    <Button variant="outline" size="sm" onClick={copyWebhookSecret}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {campaign.webhookSecretPrevious && campaign.webhookSecretPreviousExpiresAt &&
+                new Date(campaign.webhookSecretPreviousExpiresAt) > new Date() && (
+                <p className="text-sm text-muted-foreground">
+                  The previous secret is accepted until {formatDateTime(campaign.webhookSecretPreviousExpiresAt)}.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={rotateWebhookSecret} disabled={isUpdatingSecret}>
+                  {isUpdatingSecret && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {campaign.webhookSecret ? 'Rotate Secret' : 'Generate Secret'}
+                </Button>
+                {campaign.webhookSecret && (
+                  <Button variant="ghost" onClick={removeWebhookSecret} disabled={isUpdatingSecret}>
+                    Turn Off
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Re-analyze Interactions</CardTitle>
+                <CardDescription>
+                  Re-run AI analysis on stored payloads using the current extraction hints.
+                  Previous extractions are kept in each interaction&apos;s history. SMS triggers are not re-sent.
+                </CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" onClick={fetchReanalysisJobs}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => startReanalysis(true)}
+                  disabled={isStartingReanalysis}
+                >
+                  Missing Summaries Only
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => startReanalysis(false)}
+                  disabled={isStartingReanalysis}
+                >
+                  {isStartingReanalysis && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  All Interactions
+                </Button>
+              </div>
+
+              {reanalysisJobs.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Scope</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Progress</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reanalysisJobs.map((job) => (
+                      <TableRow key={job.id}>
+                        <TableCell>{formatDateTime(job.createdAt)}</TableCell>
+                        <TableCell>{job.onlyMissing ? 'Missing only' : 'All'}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              job.status === 'completed'
+                                ? 'success'
+                                : job.status === 'failed'
+                                  ? 'destructive'
+                                  : 'secondary'
+                            }
+                          >
+                            {job.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {job.processedCount} / {job.totalCount}
+                          {job.failedCount > 0 && (
+                            <span className="text-destructive ml-2">({job.failedCount} failed)</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
+
+      {/* Bulk Replay Dialog */}
+      <Dialog open={isBulkReplayOpen} onOpenChange={setIsBulkReplayOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replay Failed Webhooks</DialogTitle>
+            <DialogDescription>
+              Re-run AI analysis, contact linking and SMS triggers for every failed
+              webhook received in this time range. Replays are processed in the background.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input
+                type="datetime-local"
+                value={bulkReplayStart}
+                onChange={(e) => setBulkReplayStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input
+                type="datetime-local"
+                value={bulkReplayEnd}
+                onChange={(e) => setBulkReplayEnd(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsBulkReplayOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleBulkReplay} disabled={isBulkReplaying}>
+              {isBulkReplaying ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Queuing...
+                </>
+              ) : (
+                'Queue Replays'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
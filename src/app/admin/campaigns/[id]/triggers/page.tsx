@@ -13,7 +13,6 @@ import {
   Power,
   PowerOff,
   Loader2,
-  AlertTriangle,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -55,17 +54,84 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import type { SmsTrigger, Campaign } from '@/db/schema';
+import type { DeliveryStats } from '@/services/sms-delivery';
+import { SmsMessagePreview } from '@/components/campaigns/sms-message-preview';
+import {
+  SmsSequenceEditor,
+  SequenceStepDraft,
+  toStepDrafts,
+  toSequenceSteps,
+} from '@/components/campaigns/sms-sequence-editor';
+import { formatDelay } from '@/lib/sms-sequence';
+import { RefirePolicyFields } from '@/components/campaigns/refire-policy-fields';
+import { describeRefirePolicy, RefirePolicy } from '@/lib/sms-trigger-policy';
+import { TriggerTestPanel } from '@/components/campaigns/trigger-test-panel';
+import { TriggerBacktest } from '@/components/campaigns/trigger-backtest';
+import {
+  TriggerActionsEditor,
+  TriggerActionDraft,
+  toActionDrafts,
+  toTriggerActions,
+} from '@/components/campaigns/trigger-actions-editor';
+import { describeTriggerAction } from '@/lib/trigger-actions';
 import Link from 'next/link';
 
 interface PageProps {
   params: Promise<{ id: string }>;
 }
 
+type TriggerWithStats = SmsTrigger & {
+  deliveryStats: DeliveryStats | null;
+  pendingFollowUps: number;
+};
+
+const emptyForm = {
+  name: '',
+  intentDescription: '',
+  smsMessage: '',
+  actions: [] as TriggerActionDraft[],
+  priority: 100,
+  followUpSteps: [] as SequenceStepDraft[],
+  quietHoursStart: '',
+  quietHoursEnd: '',
+  refirePolicy: 'once' as RefirePolicy,
+  cooldownDays: 30,
+  maxFires: 3,
+};
+
+function DeliveryCell({ stats }: { stats: DeliveryStats | null }) {
+  if (!stats || stats.total === 0) {
+    return <span className="text-sm text-muted-foreground">No messages</span>;
+  }
+
+  const rate = stats.deliveryRate;
+  const details = [
+    `${stats.delivered} delivered`,
+    stats.undelivered > 0 && `${stats.undelivered} undelivered`,
+    stats.failed > 0 && `${stats.failed} failed`,
+    stats.queued + stats.sent > 0 && `${stats.queued + stats.sent} in flight`,
+    stats.blocked > 0 && `${stats.blocked} opted out`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div>
+      {rate === null ? (
+        <Badge variant="secondary">Pending</Badge>
+      ) : (
+        <Badge variant={rate >= 0.95 ? 'success' : rate >= 0.8 ? 'warning' : 'destructive'}>
+          {Math.round(rate * 100)}% delivered
+        </Badge>
+      )}
+      <p className="text-xs text-muted-foreground mt-1">{details}</p>
+    </div>
+  );
+}
+
 export default function TriggersPage({ params }: PageProps) {
   const { id: campaignId } = use(params);
   const router = useRouter();
   const [campaign, setCampaign] = useState<Campaign | null>(null);
-  const [triggers, setTriggers] = useState<SmsTrigger[]>([]);
+  const [triggers, setTriggers] = useState<TriggerWithStats[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showInactive, setShowInactive] = useState(false);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
@@ -75,11 +141,13 @@ export default function TriggersPage({ params }: PageProps) {
   const [isSaving, setIsSaving] = useState(false);
 
   // Form state
-  const [formData, setFormData] = useState({
-    name: '',
-    intentDescription: '',
-    smsMessage: '',
-    priority: 100,
+  const [formData, setFormData] = useState(emptyForm);
+
+  const formBody = () => JSON.stringify({
+    ...formData,
+    smsMessage: formData.smsMessage.trim() || null,
+    actions: toTriggerActions(formData.actions),
+    followUpSteps: toSequenceSteps(formData.followUpSteps),
   });
 
   const fetchCampaign = useCallback(async () => {
@@ -136,8 +204,8 @@ export default function TriggersPage({ params }: PageProps) {
       toast.error('Intent description is required');
       return;
     }
-    if (!formData.smsMessage.trim()) {
-      toast.error('SMS message is required');
+    if (!formData.smsMessage.trim() && formData.actions.length === 0) {
+      toast.error('Add an SMS message or at least one action');
       return;
     }
 
@@ -146,7 +214,7 @@ export default function TriggersPage({ params }: PageProps) {
       const response = await fetch(`/api/campaigns/${campaignId}/triggers`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: formBody(),
       });
 
       const result = await response.json();
@@ -157,7 +225,7 @@ export default function TriggersPage({ params }: PageProps) {
 
       toast.success('SMS trigger created successfully');
       setIsCreateOpen(false);
-      setFormData({ name: '', intentDescription: '', smsMessage: '', priority: 100 });
+      setFormData(emptyForm);
       fetchTriggers();
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to create trigger');
@@ -169,8 +237,12 @@ export default function TriggersPage({ params }: PageProps) {
   const handleUpdate = async () => {
     if (!selectedTrigger) return;
 
-    if (!formData.name.trim() || !formData.intentDescription.trim() || !formData.smsMessage.trim()) {
-      toast.error('All fields are required');
+    if (!formData.name.trim() || !formData.intentDescription.trim()) {
+      toast.error('Name and intent description are required');
+      return;
+    }
+    if (!formData.smsMessage.trim() && formData.actions.length === 0) {
+      toast.error('Add an SMS message or at least one action');
       return;
     }
 
@@ -179,7 +251,7 @@ export default function TriggersPage({ params }: PageProps) {
       const response = await fetch(`/api/triggers/${selectedTrigger.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: formBody(),
       });
 
       const result = await response.json();
@@ -249,8 +321,15 @@ export default function TriggersPage({ params }: PageProps) {
     setFormData({
       name: trigger.name,
       intentDescription: trigger.intentDescription,
-      smsMessage: trigger.smsMessage,
+      smsMessage: trigger.smsMessage ?? '',
+      actions: toActionDrafts(trigger.actions),
       priority: trigger.priority,
+      followUpSteps: toStepDrafts(trigger.followUpSteps),
+      quietHoursStart: trigger.quietHoursStart ?? '',
+      quietHoursEnd: trigger.quietHoursEnd ?? '',
+      refirePolicy: trigger.refirePolicy,
+      cooldownDays: trigger.cooldownDays ?? emptyForm.cooldownDays,
+      maxFires: trigger.maxFires ?? emptyForm.maxFires,
     });
     setIsEditOpen(true);
   };
@@ -260,15 +339,6 @@ export default function TriggersPage({ params }: PageProps) {
     setIsDeleteOpen(true);
   };
 
-  const getSmsLengthWarning = (message: string) => {
-    const length = message.length;
-    if (length === 0) return null;
-    if (length <= 160) return { type: 'success', text: `${length}/160 characters (1 segment)` };
-    if (length <= 306) return { type: 'warning', text: `${length} characters (2 segments)` };
-    if (length <= 459) return { type: 'warning', text: `${length} characters (3 segments)` };
-    return { type: 'error', text: `${length} characters (${Math.ceil(length / 153)} segments) - Consider shortening` };
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -288,7 +358,7 @@ export default function TriggersPage({ params }: PageProps) {
           </p>
         </div>
         <Button onClick={() => {
-          setFormData({ name: '', intentDescription: '', smsMessage: '', priority: 100 });
+          setFormData(emptyForm);
           setIsCreateOpen(true);
         }}>
           <Plus className="mr-2 h-4 w-4" />
@@ -338,7 +408,9 @@ export default function TriggersPage({ params }: PageProps) {
                   <TableHead>Name</TableHead>
                   <TableHead>Intent Description</TableHead>
                   <TableHead>SMS Message</TableHead>
+                  <TableHead>Actions</TableHead>
                   <TableHead>Priority</TableHead>
+                  <TableHead>Delivery</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="w-[50px]"></TableHead>
                 </TableRow>
@@ -346,21 +418,52 @@ export default function TriggersPage({ params }: PageProps) {
               <TableBody>
                 {triggers.map((trigger) => (
                   <TableRow key={trigger.id}>
-                    <TableCell className="font-medium">{trigger.name}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{trigger.name}</div>
+                      <span className="text-xs text-muted-foreground">
+                        Fires: {describeRefirePolicy(trigger)}
+                      </span>
+                    </TableCell>
                     <TableCell className="max-w-xs truncate" title={trigger.intentDescription}>
                       {trigger.intentDescription}
                     </TableCell>
                     <TableCell className="max-w-xs">
-                      <div className="truncate" title={trigger.smsMessage}>
-                        {trigger.smsMessage}
-                      </div>
-                      <span className="text-xs text-muted-foreground">
-                        {trigger.smsMessage.length} chars
-                      </span>
+                      {trigger.smsMessage ? (
+                        <>
+                          <div className="truncate" title={trigger.smsMessage}>
+                            {trigger.smsMessage}
+                          </div>
+                          <span className="text-xs text-muted-foreground">
+                            {trigger.smsMessage.length} chars
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">No SMS</span>
+                      )}
+                      {(trigger.followUpSteps?.length ?? 0) > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Follow-ups at {trigger.followUpSteps!.map((step) => `+${formatDelay(step.delayMinutes)}`).join(', ')}
+                          {trigger.pendingFollowUps > 0 && ` (${trigger.pendingFollowUps} scheduled)`}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      {(trigger.actions?.length ?? 0) > 0 ? (
+                        trigger.actions!.map((action, index) => (
+                          <div key={index} className="truncate text-sm">
+                            {describeTriggerAction(action)}
+                          </div>
+                        ))
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline">{trigger.priority}</Badge>
                     </TableCell>
+                    <TableCell>
+                      <DeliveryCell stats={trigger.deliveryStats} />
+                    </TableCell>
                     <TableCell>
                       <Badge variant={trigger.isActive ? 'success' : 'secondary'}>
                         {trigger.isActive ? 'Active' : 'Inactive'}
@@ -410,6 +513,10 @@ export default function TriggersPage({ params }: PageProps) {
         </CardContent>
       </Card>
 
+      {triggers.length > 0 && (
+        <TriggerTestPanel campaignId={campaignId} includeInactive={showInactive} />
+      )}
+
       {/* Create Dialog */}
       <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
         <DialogContent className="max-w-2xl">
@@ -441,33 +548,58 @@ export default function TriggersPage({ params }: PageProps) {
               <p className="text-xs text-muted-foreground">
                 The AI will evaluate call transcripts and summaries against this description to decide whether to send the SMS.
               </p>
+              <TriggerBacktest campaignId={campaignId} intentDescription={formData.intentDescription} />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="smsMessage">SMS Message *</Label>
+              <Label htmlFor="smsMessage">SMS Message</Label>
               <Textarea
                 id="smsMessage"
                 value={formData.smsMessage}
                 onChange={(e) => setFormData({ ...formData, smsMessage: e.target.value })}
-                placeholder="Enter the SMS message to send. Keep it concise and include a clear call-to-action."
+                placeholder="Hi {{firstName|there}}, here's the link to book your {{service}}: ..."
                 rows={4}
               />
-              {(() => {
-                const warning = getSmsLengthWarning(formData.smsMessage);
-                if (!warning) return null;
-                return (
-                  <div className={`flex items-center gap-2 text-xs ${
-                    warning.type === 'success' ? 'text-green-600' :
-                    warning.type === 'warning' ? 'text-amber-600' : 'text-red-600'
-                  }`}>
-                    {warning.type !== 'success' && <AlertTriangle className="h-3 w-3" />}
-                    {warning.text}
-                  </div>
-                );
-              })()}
+              <SmsMessagePreview campaignId={campaignId} message={formData.smsMessage} />
+              <p className="text-xs text-muted-foreground">
+                Use {'{{variable}}'} to merge in the caller&apos;s name, campaign name or any extracted field, and{' '}
+                {'{{variable|fallback}}'} for a default when the value is missing. Standard SMS is 160 characters;
+                longer messages are split into multiple segments and may cost more. Leave empty for a trigger that only
+                runs actions.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Actions</Label>
+              <TriggerActionsEditor
+                actions={formData.actions}
+                onChange={(actions) => setFormData({ ...formData, actions })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Re-fire Policy</Label>
+              <RefirePolicyFields
+                refirePolicy={formData.refirePolicy}
+                cooldownDays={formData.cooldownDays}
+                maxFires={formData.maxFires}
+                onChange={(changes) => setFormData({ ...formData, ...changes })}
+              />
               <p className="text-xs text-muted-foreground">
-                Standard SMS is 160 characters. Longer messages are split into multiple segments and may cost more.
+                Whether this trigger can message a contact it has already messaged, e.g. a repeat caller asking about pricing again.
               </p>
             </div>
+            <div className="space-y-2">
+              <Label>Follow-up Messages</Label>
+              <SmsSequenceEditor
+                campaignId={campaignId}
+                steps={formData.followUpSteps}
+                quietHoursStart={formData.quietHoursStart}
+                quietHoursEnd={formData.quietHoursEnd}
+                onChange={({ steps, ...quietHours }) => setFormData({
+                  ...formData,
+                  ...quietHours,
+                  ...(steps && { followUpSteps: steps }),
+                })}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="priority">Priority</Label>
               <Input
@@ -529,9 +661,10 @@ export default function TriggersPage({ params }: PageProps) {
                 placeholder="Describe the caller intent that should trigger this SMS."
                 rows={3}
               />
+              <TriggerBacktest campaignId={campaignId} intentDescription={formData.intentDescription} />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-smsMessage">SMS Message *</Label>
+              <Label htmlFor="edit-smsMessage">SMS Message</Label>
               <Textarea
                 id="edit-smsMessage"
                 value={formData.smsMessage}
@@ -539,19 +672,40 @@ export default function TriggersPage({ params }: PageProps) {
                 placeholder="Enter the SMS message to send."
                 rows={4}
               />
-              {(() => {
-                const warning = getSmsLengthWarning(formData.smsMessage);
-                if (!warning) return null;
-                return (
-                  <div className={`flex items-center gap-2 text-xs ${
-                    warning.type === 'success' ? 'text-green-600' :
-                    warning.type === 'warning' ? 'text-amber-600' : 'text-red-600'
-                  }`}>
-                    {warning.type !== 'success' && <AlertTriangle className="h-3 w-3" />}
-                    {warning.text}
-                  </div>
-                );
-              })()}
+              <SmsMessagePreview campaignId={campaignId} message={formData.smsMessage} />
+            </div>
+            <div className="space-y-2">
+              <Label>Actions</Label>
+              <TriggerActionsEditor
+                actions={formData.actions}
+                onChange={(actions) => setFormData({ ...formData, actions })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Re-fire Policy</Label>
+              <RefirePolicyFields
+                refirePolicy={formData.refirePolicy}
+                cooldownDays={formData.cooldownDays}
+                maxFires={formData.maxFires}
+                onChange={(changes) => setFormData({ ...formData, ...changes })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Whether this trigger can message a contact it has already messaged, e.g. a repeat caller asking about pricing again.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Follow-up Messages</Label>
+              <SmsSequenceEditor
+                campaignId={campaignId}
+                steps={formData.followUpSteps}
+                quietHoursStart={formData.quietHoursStart}
+                quietHoursEnd={formData.quietHoursEnd}
+                onChange={({ steps, ...quietHours }) => setFormData({
+                  ...formData,
+                  ...quietHours,
+                  ...(steps && { followUpSteps: steps }),
+                })}
+              />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-priority">Priority</Label>
@@ -57,7 +57,9 @@ import {
 } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import type { Campaign, Organization } from '@/db/schema';
+import type { Campaign, Organization, ExtractionSchemaField, QualityRubricCriterion } from '@/db/schema';
+import { ExtractionSchemaEditor, cleanExtractionSchema } from '@/components/campaigns/extraction-schema-editor';
+import { QualityRubricEditor, cleanQualityRubric } from '@/components/campaigns/quality-rubric-editor';
 
 interface CampaignWithOrg extends Campaign {
   organization: Organization;
@@ -77,6 +79,8 @@ export default function CampaignsPage() {
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [selectedCampaign, setSelectedCampaign] = useState<CampaignWithOrg | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [extractionSchema, setExtractionSchema] = useState<ExtractionSchemaField[]>([]);
+  const [qualityRubric, setQualityRubric] = useState<QualityRubricCriterion[]>([]);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -84,6 +88,7 @@ export default function CampaignsPage() {
     name: '',
     description: '',
     twilioPhoneNumber: '',
+    aiModel: '',
   });
 
   const fetchOrganizations = useCallback(async () => {
@@ -151,7 +156,7 @@ export default function CampaignsPage() {
 
       toast.success('Campaign created successfully');
       setIsCreateOpen(false);
-      setFormData({ organizationId: '', name: '', description: '', twilioPhoneNumber: '' });
+      setFormData({ organizationId: '', name: '', description: '', twilioPhoneNumber: '', aiModel: '' });
       fetchCampaigns();
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to create campaign');
@@ -175,6 +180,9 @@ export default function CampaignsPage() {
           name: formData.name,
           description: formData.description,
           twilioPhoneNumber: formData.twilioPhoneNumber,
+          aiModel: formData.aiModel,
+          extractionSchema: cleanExtractionSchema(extractionSchema),
+          qualityRubric: cleanQualityRubric(qualityRubric),
         }),
       });
 
@@ -240,7 +248,10 @@ export default function CampaignsPage() {
       name: campaign.name,
       description: campaign.description || '',
       twilioPhoneNumber: campaign.twilioPhoneNumber || '',
+      aiModel: campaign.aiModel || '',
     });
+    setExtractionSchema(campaign.extractionSchema || []);
+    setQualityRubric(campaign.qualityRubric || []);
     setIsEditOpen(true);
   };
 
@@ -431,7 +442,7 @@ export default function CampaignsPage() {
             <button
               onClick={() => {
                 setIsTypeSelectOpen(false);
-                setFormData({ organizationId: '', name: '', description: '', twilioPhoneNumber: '' });
+                setFormData({ organizationId: '', name: '', description: '', twilioPhoneNumber: '', aiModel: '' });
                 setIsCreateOpen(true);
               }}
               className="flex flex-col items-center gap-3 p-6 rounded-lg border-2 border-muted hover:border-primary hover:bg-primary/5 transition-colors"
@@ -547,7 +558,7 @@ export default function CampaignsPage() {
 
       {/* Edit Dialog */}
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Campaign</DialogTitle>
             <DialogDescription>
@@ -583,6 +594,32 @@ export default function CampaignsPage() {
                 placeholder="+1234567890"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-aiModel">AI Model</Label>
+              <Input
+                id="edit-aiModel"
+                value={formData.aiModel}
+                onChange={(e) => setFormData({ ...formData, aiModel: e.target.value })}
+                placeholder="Default (set by AI_MODEL)"
+              />
+              <p className="text-xs text-muted-foreground">
+                Model used to analyze this campaign&apos;s interactions. Leave blank to use the default.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Extraction Schema</Label>
+              <p className="text-xs text-muted-foreground">
+                Typed fields the AI must extract from every interaction. Values are validated before they are saved.
+              </p>
+              <ExtractionSchemaEditor fields={extractionSchema} onChange={setExtractionSchema} />
+            </div>
+            <div className="space-y-2">
+              <Label>Quality Rubric</Label>
+              <p className="text-xs text-muted-foreground">
+                Criteria the agent is scored on (0-10 each, weighted) to produce each call&apos;s quality score.
+              </p>
+              <QualityRubricEditor criteria={qualityRubric} onChange={setQualityRubric} />
+            </div>
             {selectedCampaign && (
               <div className="space-y-2">
                 <Label>Webhook URL</Label>
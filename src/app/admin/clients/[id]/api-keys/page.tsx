@@ -0,0 +1,460 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, Ban, Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import type { ApiKey, ApiKeyScope, Organization } from '@/db/schema';
+import { API_KEY_SCOPES, DEFAULT_API_RATE_LIMIT } from '@/lib/api-keys';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+type ApiKeyRow = Omit<ApiKey, 'keyHash'>;
+
+const emptyForm = {
+  name: '',
+  scopes: ['interactions:read', 'campaigns:read'] as ApiKeyScope[],
+};
+
+export default function ClientApiKeysPage({ params }: PageProps) {
+  const { id: organizationId } = use(params);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [apiKeys, setApiKeys] = useState<ApiKeyRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isRevokeOpen, setIsRevokeOpen] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<ApiKeyRow | null>(null);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [rateLimit, setRateLimit] = useState('');
+  const [isSavingRateLimit, setIsSavingRateLimit] = useState(false);
+
+  const fetchOrganization = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}`);
+      const result = await response.json();
+      if (response.ok) {
+        setOrganization(result.data);
+        setRateLimit(result.data.apiRateLimit?.toString() ?? '');
+      } else {
+        toast.error(result.error || 'Client not found');
+      }
+    } catch (error) {
+      toast.error('Failed to fetch client');
+    }
+  }, [organizationId]);
+
+  const fetchApiKeys = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/api-keys`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch API keys');
+      }
+
+      setApiKeys(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const openCreateDialog = () => {
+    setFormData(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setFormData({
+      ...formData,
+      scopes: checked ? [...formData.scopes, scope] : formData.scopes.filter((s) => s !== scope),
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (formData.scopes.length === 0) {
+      toast.error('Choose at least one scope');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/api-keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = result.details ? Object.values(result.details).flat().join(', ') : null;
+        throw new Error(details || result.error || 'Failed to create API key');
+      }
+
+      setIsFormOpen(false);
+      setCreatedKey(result.data.key);
+      fetchApiKeys();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!selectedKey) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/api-keys/${selectedKey.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to revoke API key');
+      }
+
+      toast.success('API key revoked');
+      setIsRevokeOpen(false);
+      setSelectedKey(null);
+      fetchApiKeys();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveRateLimit = async () => {
+    const apiRateLimit = rateLimit.trim() ? Number(rateLimit) : null;
+    if (apiRateLimit !== null && (!Number.isInteger(apiRateLimit) || apiRateLimit < 10 || apiRateLimit > 10000)) {
+      toast.error('Rate limit must be a whole number between 10 and 10,000');
+      return;
+    }
+
+    setIsSavingRateLimit(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiRateLimit }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save rate limit');
+      }
+
+      setOrganization(result.data);
+      toast.success('Rate limit saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save rate limit');
+    } finally {
+      setIsSavingRateLimit(false);
+    }
+  };
+
+  const copyCreatedKey = () => {
+    if (!createdKey) return;
+    navigator.clipboard.writeText(createdKey);
+    toast.success('API key copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/admin/clients">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Clients
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">API Keys</h1>
+          <p className="text-muted-foreground">
+            {organization ? `Client: ${organization.name}` : 'Loading...'}
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create API Key
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keys</CardTitle>
+          <CardDescription>
+            Keys authenticate requests to the /api/v1 REST API with an Authorization: Bearer header and only see this
+            client&apos;s data.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <KeyRound className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No API keys</h3>
+              <p className="text-muted-foreground mb-4 max-w-md">
+                Let this client pull interactions and campaign stats into their BI tools or push outbound contacts
+                from their own systems.
+              </p>
+              <Button onClick={openCreateDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create API Key
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.map((apiKey) => (
+                  <TableRow key={apiKey.id}>
+                    <TableCell>
+                      <div className="font-medium">{apiKey.name}</div>
+                      <span className="font-mono text-xs text-muted-foreground">{apiKey.keyPrefix}…</span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(apiKey.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={apiKey.revokedAt ? 'secondary' : 'success'}>
+                        {apiKey.revokedAt ? 'Revoked' : 'Active'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {!apiKey.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Revoke"
+                          onClick={() => {
+                            setSelectedKey(apiKey);
+                            setIsRevokeOpen(true);
+                          }}
+                        >
+                          <Ban className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate Limit</CardTitle>
+          <CardDescription>
+            Requests per minute shared by all of this client&apos;s keys. Leave empty for the default of{' '}
+            {DEFAULT_API_RATE_LIMIT}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={10}
+              max={10000}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+              placeholder={DEFAULT_API_RATE_LIMIT.toString()}
+              className="w-40"
+            />
+            <span className="text-sm text-muted-foreground">requests / minute</span>
+            <Button
+              variant="outline"
+              onClick={handleSaveRateLimit}
+              disabled={isSavingRateLimit || rateLimit === (organization?.apiRateLimit?.toString() ?? '')}
+            >
+              {isSavingRateLimit && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>
+              Name the key after the system that will use it and grant only the scopes it needs.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Nightly BI export"
+              />
+            </div>
+            <div className="space-y-3">
+              <Label>Scopes *</Label>
+              {API_KEY_SCOPES.map((entry) => (
+                <div key={entry.scope} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`scope-${entry.scope}`}
+                    checked={formData.scopes.includes(entry.scope)}
+                    onCheckedChange={(checked) => toggleScope(entry.scope, checked === true)}
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`scope-${entry.scope}`} className="font-mono">{entry.scope}</Label>
+                    <p className="text-xs text-muted-foreground">{entry.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                'Create Key'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Key (shown once) */}
+      <Dialog open={createdKey !== null} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>API Key Created</DialogTitle>
+            <DialogDescription>
+              Copy the key now and share it with the client securely. It is stored hashed and cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 py-4">
+            <Input readOnly value={createdKey ?? ''} className="font-mono text-sm" />
+            <Button variant="outline" size="icon" onClick={copyCreatedKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation */}
+      <AlertDialog open={isRevokeOpen} onOpenChange={setIsRevokeOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using &quot;{selectedKey?.name}&quot; will be rejected immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Revoking...
+                </>
+              ) : (
+                'Revoke'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, LockKeyhole, Unplug } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import type { CredentialProvider, Organization, OrganizationCredential } from '@/db/schema';
+import { CREDENTIAL_PROVIDERS } from '@/lib/credential-crypto';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+type CredentialRow = Omit<OrganizationCredential, 'secret' | 'keyId'>;
+
+const emptyForm = {
+  apiKey: '',
+  accountSid: '',
+  authToken: '',
+};
+
+export default function ClientCredentialsPage({ params }: PageProps) {
+  const { id: organizationId } = use(params);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [credentials, setCredentials] = useState<CredentialRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingProvider, setEditingProvider] = useState<CredentialProvider | null>(null);
+  const [removingProvider, setRemovingProvider] = useState<CredentialProvider | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchOrganization = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}`);
+      const result = await response.json();
+      if (response.ok) {
+        setOrganization(result.data);
+      } else {
+        toast.error(result.error || 'Client not found');
+      }
+    } catch (error) {
+      toast.error('Failed to fetch client');
+    }
+  }, [organizationId]);
+
+  const fetchCredentials = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/credentials`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch credentials');
+      }
+
+      setCredentials(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch credentials');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  useEffect(() => {
+    fetchCredentials();
+  }, [fetchCredentials]);
+
+  const openConnectDialog = (provider: CredentialProvider) => {
+    setFormData(emptyForm);
+    setEditingProvider(provider);
+  };
+
+  const handleSave = async () => {
+    if (!editingProvider) return;
+
+    const body = editingProvider === 'twilio'
+      ? { provider: 'twilio', accountSid: formData.accountSid, authToken: formData.authToken }
+      : { provider: editingProvider, apiKey: formData.apiKey };
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/credentials`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = result.details ? Object.values(result.details).flat().join(', ') : null;
+        throw new Error(details || result.error || 'Failed to save credentials');
+      }
+
+      toast.success('Credentials saved');
+      setEditingProvider(null);
+      setFormData(emptyForm);
+      fetchCredentials();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save credentials');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingProvider) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/credentials/${removingProvider}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to disconnect account');
+      }
+
+      toast.success('Account disconnected');
+      setRemovingProvider(null);
+      fetchCredentials();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to disconnect account');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const providerLabel = (provider: CredentialProvider | null) =>
+    CREDENTIAL_PROVIDERS.find((entry) => entry.provider === provider)?.label ?? '';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/admin/clients">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Clients
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold">Credentials</h1>
+        <p className="text-muted-foreground">
+          {organization ? `Client: ${organization.name}` : 'Loading...'}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {CREDENTIAL_PROVIDERS.map((entry) => {
+            const credential = credentials.find((c) => c.provider === entry.provider);
+
+            return (
+              <Card key={entry.provider}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>{entry.label}</CardTitle>
+                    <Badge variant={credential ? 'success' : 'secondary'}>
+                      {credential ? 'Client account' : 'Platform account'}
+                    </Badge>
+                  </div>
+                  <CardDescription>{entry.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {credential ? (
+                    <div className="space-y-1 text-sm">
+                      {credential.accountId && (
+                        <p className="font-mono">{credential.accountId}</p>
+                      )}
+                      <p className="text-muted-foreground">
+                        {credential.hint ? `Secret ending in ${credential.hint}` : 'Secret saved'} · updated{' '}
+                        {new Date(credential.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Not connected; this client&apos;s campaigns use the platform&apos;s {entry.label} account.
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => openConnectDialog(entry.provider)}>
+                      <LockKeyhole className="mr-2 h-4 w-4" />
+                      {credential ? 'Replace' : 'Connect'}
+                    </Button>
+                    {credential && (
+                      <Button variant="ghost" onClick={() => setRemovingProvider(entry.provider)}>
+                        <Unplug className="mr-2 h-4 w-4 text-destructive" />
+                        Disconnect
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Connect Dialog */}
+      <Dialog open={editingProvider !== null} onOpenChange={(open) => !open && setEditingProvider(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Connect {providerLabel(editingProvider)}</DialogTitle>
+            <DialogDescription>
+              The credentials are checked with {providerLabel(editingProvider)}, stored encrypted and never shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {editingProvider === 'twilio' ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="accountSid">Account SID *</Label>
+                  <Input
+                    id="accountSid"
+                    value={formData.accountSid}
+                    onChange={(e) => setFormData({ ...formData, accountSid: e.target.value })}
+                    placeholder="AC..."
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="authToken">Auth Token *</Label>
+                  <Input
+                    id="authToken"
+                    type="password"
+                    value={formData.authToken}
+                    onChange={(e) => setFormData({ ...formData, authToken: e.target.value })}
+                    placeholder="Enter auth token"
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="apiKey">{editingProvider === 'vapi' ? 'Private API Key *' : 'API Key *'}</Label>
+                <Input
+                  id="apiKey"
+                  type="password"
+                  value={formData.apiKey}
+                  onChange={(e) => setFormData({ ...formData, apiKey: e.target.value })}
+                  placeholder={`Enter the client's ${providerLabel(editingProvider)} API key`}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingProvider(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Checking...
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Disconnect Confirmation */}
+      <AlertDialog open={removingProvider !== null} onOpenChange={(open) => !open && setRemovingProvider(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disconnect {providerLabel(removingProvider)}</AlertDialogTitle>
+            <AlertDialogDescription>
+              This client&apos;s campaigns will use the platform&apos;s {providerLabel(removingProvider)} account from
+              now on. Assistants and phone numbers from the client&apos;s own account will stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Disconnecting...
+                </>
+              ) : (
+                'Disconnect'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,653 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  Copy,
+  KeyRound,
+  List,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Power,
+  PowerOff,
+  RefreshCw,
+  Send,
+  Trash2,
+  Webhook,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import type { EventType, Organization, WebhookDelivery, WebhookSubscription } from '@/db/schema';
+import { EVENT_TYPES } from '@/lib/event-webhooks';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+type SubscriptionWithStats = WebhookSubscription & {
+  stats: { delivered: number; pending: number; failed: number };
+};
+
+type DeliveryRow = Omit<WebhookDelivery, 'subscriptionId' | 'payload' | 'lockedAt' | 'updatedAt'>;
+
+const emptyForm = {
+  url: '',
+  description: '',
+  events: ['interaction.created'] as EventType[],
+};
+
+const DELIVERY_STATUS_VARIANTS: Record<DeliveryRow['status'], 'success' | 'warning' | 'destructive' | 'secondary'> = {
+  delivered: 'success',
+  pending: 'warning',
+  delivering: 'secondary',
+  failed: 'destructive',
+};
+
+function DeliveryLog({ subscription }: { subscription: WebhookSubscription }) {
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDeliveries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/webhook-subscriptions/${subscription.id}/deliveries`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch deliveries');
+      }
+
+      setDeliveries(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch deliveries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [subscription.id]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Delivery Log</CardTitle>
+            <CardDescription>Last 50 deliveries to {subscription.url}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchDeliveries} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && deliveries.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No deliveries yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>
+                    <div className="font-mono text-sm">{delivery.eventType}</div>
+                    <span className="text-xs text-muted-foreground">{delivery.eventId}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                    {delivery.status === 'pending' && delivery.attempts > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Retry at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    {delivery.responseStatus !== null && (
+                      <span className="font-mono text-sm">HTTP {delivery.responseStatus}</span>
+                    )}
+                    {delivery.durationMs !== null && (
+                      <span className="text-xs text-muted-foreground"> in {delivery.durationMs}ms</span>
+                    )}
+                    {delivery.lastError && (
+                      <p className="truncate text-xs text-red-600" title={delivery.lastError}>
+                        {delivery.lastError}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {delivery.attempts} / {delivery.maxAttempts}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClientWebhooksPage({ params }: PageProps) {
+  const { id: organizationId } = use(params);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [subscriptions, setSubscriptions] = useState<SubscriptionWithStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedSubscription, setSelectedSubscription] = useState<WebhookSubscription | null>(null);
+  const [logSubscription, setLogSubscription] = useState<WebhookSubscription | null>(null);
+  const [logKey, setLogKey] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchOrganization = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}`);
+      const result = await response.json();
+      if (response.ok) {
+        setOrganization(result.data);
+      } else {
+        toast.error(result.error || 'Client not found');
+      }
+    } catch (error) {
+      toast.error('Failed to fetch client');
+    }
+  }, [organizationId]);
+
+  const fetchSubscriptions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/webhook-subscriptions`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch webhooks');
+      }
+
+      setSubscriptions(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  const openCreateDialog = () => {
+    setSelectedSubscription(null);
+    setFormData(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (subscription: WebhookSubscription) => {
+    setSelectedSubscription(subscription);
+    setFormData({
+      url: subscription.url,
+      description: subscription.description ?? '',
+      events: subscription.events,
+    });
+    setIsFormOpen(true);
+  };
+
+  const toggleEvent = (type: EventType, checked: boolean) => {
+    setFormData({
+      ...formData,
+      events: checked ? [...formData.events, type] : formData.events.filter((event) => event !== type),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.url.trim()) {
+      toast.error('Endpoint URL is required');
+      return;
+    }
+    if (formData.events.length === 0) {
+      toast.error('Choose at least one event');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        selectedSubscription
+          ? `/api/webhook-subscriptions/${selectedSubscription.id}`
+          : `/api/organizations/${organizationId}/webhook-subscriptions`,
+        {
+          method: selectedSubscription ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = result.details ? Object.values(result.details).flat().join(', ') : null;
+        throw new Error(details || result.error || 'Failed to save webhook');
+      }
+
+      toast.success(selectedSubscription ? 'Webhook updated' : 'Webhook created. Copy its signing secret from the menu.');
+      setIsFormOpen(false);
+      setSelectedSubscription(null);
+      fetchSubscriptions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateSubscription = async (subscription: WebhookSubscription, changes: Record<string, unknown>, message: string) => {
+    try {
+      const response = await fetch(`/api/webhook-subscriptions/${subscription.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to update webhook');
+      }
+
+      toast.success(message);
+      fetchSubscriptions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleSendTest = async (subscription: WebhookSubscription) => {
+    setTestingId(subscription.id);
+    try {
+      const response = await fetch(`/api/webhook-subscriptions/${subscription.id}/test`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send test event');
+      }
+
+      const delivery: WebhookDelivery = result.data;
+      if (delivery.status === 'delivered') {
+        toast.success(`Test event delivered (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error(`Test event failed: ${delivery.lastError || 'No response'}`);
+      }
+
+      setLogSubscription(subscription);
+      setLogKey((key) => key + 1);
+      fetchSubscriptions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send test event');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedSubscription) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/webhook-subscriptions/${selectedSubscription.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete webhook');
+      }
+
+      toast.success('Webhook deleted');
+      if (logSubscription?.id === selectedSubscription.id) {
+        setLogSubscription(null);
+      }
+      setIsDeleteOpen(false);
+      setSelectedSubscription(null);
+      fetchSubscriptions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copySecret = (subscription: WebhookSubscription) => {
+    navigator.clipboard.writeText(subscription.secret);
+    toast.success('Signing secret copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/admin/clients">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Clients
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Event Webhooks</h1>
+          <p className="text-muted-foreground">
+            {organization ? `Client: ${organization.name}` : 'Loading...'}
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Webhook
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+          <CardDescription>
+            Events are POSTed as JSON within a minute, signed with HMAC-SHA256 in the x-webhook-signature header.
+            Failed deliveries are retried with exponential backoff for about two hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : subscriptions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <Webhook className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No webhooks configured</h3>
+              <p className="text-muted-foreground mb-4 max-w-md">
+                Push new interactions, call results and more to this client&apos;s CRM or other systems.
+              </p>
+              <Button onClick={openCreateDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Webhook
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Last 24 Hours</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subscriptions.map((subscription) => (
+                  <TableRow key={subscription.id}>
+                    <TableCell className="max-w-xs">
+                      <div className="truncate font-medium" title={subscription.url}>
+                        {subscription.url}
+                      </div>
+                      {subscription.description && (
+                        <span className="text-xs text-muted-foreground">{subscription.description}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {subscription.events.map((event) => (
+                          <Badge key={event} variant="outline" className="font-mono">
+                            {event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <span className="text-green-600">{subscription.stats.delivered} delivered</span>
+                      {subscription.stats.pending > 0 && (
+                        <span className="text-muted-foreground">, {subscription.stats.pending} pending</span>
+                      )}
+                      {subscription.stats.failed > 0 && (
+                        <span className="text-red-600">, {subscription.stats.failed} failed</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={subscription.isActive ? 'success' : 'secondary'}>
+                        {subscription.isActive ? 'Active' : 'Disabled'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={testingId === subscription.id}>
+                            {testingId === subscription.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <MoreHorizontal className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => handleSendTest(subscription)}>
+                            <Send className="mr-2 h-4 w-4" />
+                            Send Test Event
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setLogSubscription(subscription)}>
+                            <List className="mr-2 h-4 w-4" />
+                            View Deliveries
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => copySecret(subscription)}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            Copy Signing Secret
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => openEditDialog(subscription)}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => updateSubscription(subscription, { rotateSecret: true }, 'Signing secret rotated')}
+                          >
+                            <KeyRound className="mr-2 h-4 w-4" />
+                            Rotate Secret
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => updateSubscription(
+                              subscription,
+                              { isActive: !subscription.isActive },
+                              `Webhook ${subscription.isActive ? 'disabled' : 'enabled'}`
+                            )}
+                          >
+                            {subscription.isActive ? (
+                              <>
+                                <PowerOff className="mr-2 h-4 w-4" />
+                                Disable
+                              </>
+                            ) : (
+                              <>
+                                <Power className="mr-2 h-4 w-4" />
+                                Enable
+                              </>
+                            )}
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            className="text-destructive"
+                            onClick={() => {
+                              setSelectedSubscription(subscription);
+                              setIsDeleteOpen(true);
+                            }}
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {logSubscription && <DeliveryLog key={`${logSubscription.id}-${logKey}`} subscription={logSubscription} />}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedSubscription ? 'Edit Webhook' : 'Add Webhook'}</DialogTitle>
+            <DialogDescription>
+              Choose the endpoint and the events it should receive.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="url">Endpoint URL *</Label>
+              <Input
+                id="url"
+                value={formData.url}
+                onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                placeholder="https://crm.example.com/webhooks/botmakers"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Input
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="e.g., HubSpot sync"
+              />
+            </div>
+            <div className="space-y-3">
+              <Label>Events *</Label>
+              {EVENT_TYPES.map((event) => (
+                <div key={event.type} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`event-${event.type}`}
+                    checked={formData.events.includes(event.type)}
+                    onCheckedChange={(checked) => toggleEvent(event.type, checked === true)}
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`event-${event.type}`} className="font-mono">{event.type}</Label>
+                    <p className="text-xs text-muted-foreground">{event.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : selectedSubscription ? (
+                'Save Changes'
+              ) : (
+                'Add Webhook'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stop sending events to &quot;{selectedSubscription?.url}&quot;? Queued deliveries and the delivery log are
+              deleted too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -13,6 +13,9 @@ import {
   RotateCcw,
   Loader2,
   Eye,
+  Webhook,
+  KeyRound,
+  LockKeyhole,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -44,6 +47,7 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import type { Organization } from '@/db/schema';
+import Link from 'next/link';
 
 export default function ClientsPage() {
   const router = useRouter();
@@ -336,6 +340,24 @@ export default function ClientsPage() {
                             <Pencil className="mr-2 h-4 w-4" />
                             Edit
                           </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <Link href={`/admin/clients/${org.id}/webhooks`}>
+                              <Webhook className="mr-2 h-4 w-4" />
+                              Event Webhooks
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <Link href={`/admin/clients/${org.id}/api-keys`}>
+                              <KeyRound className="mr-2 h-4 w-4" />
+                              API Keys
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <Link href={`/admin/clients/${org.id}/credentials`}>
+                              <LockKeyhole className="mr-2 h-4 w-4" />
+                              Credentials
+                            </Link>
+                          </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           {org.isActive ? (
                             <DropdownMenuItem
@@ -308,6 +308,18 @@ export default function HelpPage() {
             </pre>
           </div>
 
+          <div>
+            <p className="font-medium mb-2">Twilio Inbound SMS (STOP/HELP)</p>
+            <p className="text-sm text-muted-foreground mb-2">
+              Set each Twilio number&apos;s &quot;A message comes in&quot; webhook to{' '}
+              <code className="bg-muted px-1 rounded">/api/twilio/sms</code>. Replies are recorded on the campaign
+              that sends from the number. STOP, START and HELP update the opt-out list (Settings &rarr; SMS Opt-Outs)
+              and are answered automatically. Delivery receipts arrive at{' '}
+              <code className="bg-muted px-1 rounded">/api/twilio/status</code>, which is registered on every message
+              when NEXT_PUBLIC_APP_URL is set.
+            </p>
+          </div>
+
           <div>
             <p className="font-medium mb-2">Autocalls.ai Webhook</p>
             <pre className="bg-muted p-4 rounded-lg text-sm overflow-x-auto">
@@ -364,17 +376,71 @@ export default function HelpPage() {
               </code>
               <span className="text-sm text-muted-foreground">OpenAI API key for AI processing</span>
             </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                AI_PROVIDER
+              </code>
+              <span className="text-sm text-muted-foreground">AI backend: openai (default) or mock for rule-based analysis without an API key</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                OPENAI_BASE_URL
+              </code>
+              <span className="text-sm text-muted-foreground">Optional OpenAI-compatible endpoint for self-hosted models</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                AI_MODEL
+              </code>
+              <span className="text-sm text-muted-foreground">Default model name (gpt-4o-mini); campaigns can override it</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                AI_MODEL_PRICING
+              </code>
+              <span className="text-sm text-muted-foreground">Optional JSON of USD per million tokens for models without built-in prices, e.g. {'{"llama3": {"input": 0, "output": 0}}'}</span>
+            </div>
             <div className="flex items-start gap-3">
               <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
                 TWILIO_ACCOUNT_SID
               </code>
-              <span className="text-sm text-muted-foreground">Twilio account SID for SMS</span>
+              <span className="text-sm text-muted-foreground">Platform Twilio account SID, used for clients without their own account</span>
             </div>
             <div className="flex items-start gap-3">
               <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
                 TWILIO_AUTH_TOKEN
               </code>
-              <span className="text-sm text-muted-foreground">Twilio auth token</span>
+              <span className="text-sm text-muted-foreground">Platform Twilio auth token</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                VAPI_PRIVATE_KEY
+              </code>
+              <span className="text-sm text-muted-foreground">Platform VAPI key, used for clients without their own account</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                RETELL_API_KEY / BLAND_API_KEY / AUTOCALLS_API_KEY
+              </code>
+              <span className="text-sm text-muted-foreground">Platform keys for the other voice providers, used the same way</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                AUTOCALLS_API_URL
+              </code>
+              <span className="text-sm text-muted-foreground">Base URL of the Autocalls API, when not the hosted one</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                VAPI_MAX_CALLS_PER_PHONE_NUMBER
+              </code>
+              <span className="text-sm text-muted-foreground">Live outbound calls allowed per phone number across all campaigns (default 10)</span>
+            </div>
+            <div className="flex items-start gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
+                CREDENTIAL_ENCRYPTION_KEYS
+              </code>
+              <span className="text-sm text-muted-foreground">Master keys for stored client credentials, as comma-separated id:base64key pairs (32 bytes each), newest first; after adding a key, re-encrypt with POST /api/credentials/rotate</span>
             </div>
             <div className="flex items-start gap-3">
               <code className="bg-muted px-2 py-1 rounded text-sm font-mono min-w-[280px]">
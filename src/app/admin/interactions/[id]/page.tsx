@@ -22,15 +22,26 @@ import {
   Check,
   X,
   AlertCircle,
+  RefreshCw,
+  Ban,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
-import type { Interaction, Campaign, Organization, Contact, SmsLog, SmsTrigger } from '@/db/schema';
+import type {
+  Interaction,
+  Campaign,
+  Organization,
+  Contact,
+  SmsLog,
+  SmsTrigger,
+  InteractionAnalysisHistory,
+} from '@/db/schema';
 import Link from 'next/link';
 import { formatDateTime, formatDuration, formatPhoneNumber } from '@/lib/utils';
+import { ConversationScoresCard, TurnSentimentBadge } from '@/components/interactions/conversation-scores';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -46,6 +57,7 @@ type InteractionDetail = Interaction & {
   };
   contact: Contact | null;
   smsLogs: SmsLogWithTrigger[];
+  analysisHistory: InteractionAnalysisHistory[];
 };
 
 export default function InteractionDetailPage({ params }: PageProps) {
@@ -53,6 +65,7 @@ export default function InteractionDetailPage({ params }: PageProps) {
   const router = useRouter();
   const [interaction, setInteraction] = useState<InteractionDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
 
   const fetchInteraction = useCallback(async () => {
     try {
@@ -97,6 +110,27 @@ export default function InteractionDetailPage({ params }: PageProps) {
     }
   };
 
+  const handleReanalyze = async () => {
+    setIsReanalyzing(true);
+    try {
+      const response = await fetch(`/api/interactions/${id}/reanalyze`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to re-analyze interaction');
+      }
+
+      toast.success('Interaction re-analyzed');
+      fetchInteraction();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to re-analyze interaction');
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     toast.success(`${label} copied to clipboard`);
@@ -131,7 +165,10 @@ export default function InteractionDetailPage({ params }: PageProps) {
       case 'sent':
         return <Send className="h-4 w-4 text-blue-500" />;
       case 'failed':
+      case 'undelivered':
         return <X className="h-4 w-4 text-red-500" />;
+      case 'blocked':
+        return <Ban className="h-4 w-4 text-amber-500" />;
       default:
         return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
@@ -183,6 +220,15 @@ export default function InteractionDetailPage({ params }: PageProps) {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReanalyze}
+            disabled={isReanalyzing || !interaction.rawPayload}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${isReanalyzing ? 'animate-spin' : ''}`} />
+            Re-analyze
+          </Button>
           <Button
             variant={interaction.flagged ? 'default' : 'outline'}
             size="sm"
@@ -267,6 +313,14 @@ export default function InteractionDetailPage({ params }: PageProps) {
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="history">
+            Analysis History
+            {interaction.analysisHistory.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {interaction.analysisHistory.length}
+              </Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="raw">Raw Payload</TabsTrigger>
         </TabsList>
 
@@ -289,6 +343,12 @@ export default function InteractionDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          <ConversationScoresCard
+            sentiment={interaction.sentiment}
+            qualityScore={interaction.qualityScore}
+            analysis={interaction.conversationAnalysis}
+          />
+
           {interaction.recordingUrl && (
             <Card>
               <CardHeader>
@@ -363,6 +423,7 @@ export default function InteractionDetailPage({ params }: PageProps) {
                       <div className="flex-1">
                         <p className="text-xs font-medium text-muted-foreground mb-1 capitalize">
                           {turn.role}
+                          <TurnSentimentBadge analysis={interaction.conversationAnalysis} index={i} />
                         </p>
                         <p className="text-sm">{turn.content}</p>
                       </div>
@@ -440,7 +501,8 @@ export default function InteractionDetailPage({ params }: PageProps) {
                           {getSmsStatusIcon(log.status)}
                           <Badge variant={
                             log.status === 'delivered' ? 'success' :
-                            log.status === 'failed' ? 'destructive' : 'secondary'
+                            log.status === 'failed' || log.status === 'undelivered' ? 'destructive' :
+                            log.status === 'blocked' ? 'warning' : 'secondary'
                           }>
                             {log.status}
                           </Badge>
@@ -460,9 +522,14 @@ export default function InteractionDetailPage({ params }: PageProps) {
                         {log.errorMessage && (
                           <div className="flex items-center gap-2 text-destructive text-xs mt-2">
                             <AlertCircle className="h-4 w-4" />
-                            {log.errorMessage}
+                            {log.errorCode ? `${log.errorMessage} (code ${log.errorCode})` : log.errorMessage}
                           </div>
                         )}
+                        {log.deliveredAt && (
+                          <p className="text-xs text-muted-foreground mt-2">
+                            Delivered {formatDateTime(log.deliveredAt)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -474,6 +541,50 @@ export default function InteractionDetailPage({ params }: PageProps) {
           </Card>
         </TabsContent>
 
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Analysis History</CardTitle>
+              <CardDescription>
+                Previous AI extractions replaced by a re-analysis
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {interaction.analysisHistory.length > 0 ? (
+                <div className="space-y-4">
+                  {interaction.analysisHistory.map((entry) => (
+                    <div key={entry.id} className="border rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{entry.reason}</Badge>
+                          {entry.sourcePlatform && (
+                            <Badge variant="secondary">{entry.sourcePlatform}</Badge>
+                          )}
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          Replaced {formatDateTime(entry.createdAt)}
+                        </span>
+                      </div>
+                      <p className="text-sm mb-2">
+                        {entry.aiSummary || (
+                          <span className="text-muted-foreground">No summary</span>
+                        )}
+                      </p>
+                      {entry.aiExtractedData && Object.keys(entry.aiExtractedData).length > 0 && (
+                        <pre className="text-xs font-mono bg-muted p-3 rounded overflow-auto max-h-[300px]">
+                          {JSON.stringify(entry.aiExtractedData, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground">This interaction has not been re-analyzed</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="raw">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
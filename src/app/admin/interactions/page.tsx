@@ -38,6 +38,18 @@ import {
 import type { Interaction, Campaign, Organization } from '@/db/schema';
 import Link from 'next/link';
 import { formatDateTime, formatDuration, formatPhoneNumber } from '@/lib/utils';
+import {
+  appendExtractedFieldParams,
+  getExtractedFieldValue,
+  formatExtractedFieldValue,
+  ExtractedFieldFilter,
+  ExtractedFieldSort,
+} from '@/lib/extracted-field-params';
+import { ExtractedFieldFilters, useExtractedFields } from '@/components/interactions/extracted-field-filters';
+import { SentimentBadge } from '@/components/interactions/conversation-scores';
+
+// Extracted fields shown as table columns when a campaign is selected
+const MAX_FIELD_COLUMNS = 4;
 
 type InteractionWithRelations = Interaction & {
   campaign: Campaign & {
@@ -60,7 +72,13 @@ export default function InteractionsPage() {
   const [campaignFilter, setCampaignFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [sourceFilter, setSourceFilter] = useState<string>('all');
+  const [sentimentFilter, setSentimentFilter] = useState<string>('all');
   const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [fieldFilters, setFieldFilters] = useState<ExtractedFieldFilter[]>([]);
+  const [fieldSort, setFieldSort] = useState<ExtractedFieldSort | null>(null);
+
+  const extractedFields = useExtractedFields(campaignFilter !== 'all' ? campaignFilter : null);
+  const fieldColumns = extractedFields.slice(0, MAX_FIELD_COLUMNS);
 
   const fetchInteractions = useCallback(async () => {
     setIsLoading(true);
@@ -74,7 +92,9 @@ export default function InteractionsPage() {
       if (campaignFilter !== 'all') params.set('campaignId', campaignFilter);
       if (statusFilter !== 'all') params.set('status', statusFilter);
       if (sourceFilter !== 'all') params.set('sourceType', sourceFilter);
+      if (sentimentFilter !== 'all') params.set('sentiment', sentimentFilter);
       if (flaggedOnly) params.set('flaggedOnly', 'true');
+      appendExtractedFieldParams(params, fieldFilters, fieldSort);
 
       const response = await fetch(`/api/interactions?${params}`);
       const result = await response.json();
@@ -90,7 +110,7 @@ export default function InteractionsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [page, limit, search, orgFilter, campaignFilter, statusFilter, sourceFilter, flaggedOnly]);
+  }, [page, limit, search, orgFilter, campaignFilter, statusFilter, sourceFilter, sentimentFilter, flaggedOnly, fieldFilters, fieldSort]);
 
   const fetchOrganizations = useCallback(async () => {
     try {
@@ -243,6 +263,8 @@ export default function InteractionsPage() {
                 value={campaignFilter}
                 onValueChange={(value) => {
                   setCampaignFilter(value);
+                  setFieldFilters([]);
+                  setFieldSort(null);
                   setPage(1);
                 }}
               >
@@ -297,6 +319,24 @@ export default function InteractionsPage() {
                 </SelectContent>
               </Select>
 
+              <Select
+                value={sentimentFilter}
+                onValueChange={(value) => {
+                  setSentimentFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue placeholder="Sentiment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Sentiment</SelectItem>
+                  <SelectItem value="positive">Positive</SelectItem>
+                  <SelectItem value="neutral">Neutral</SelectItem>
+                  <SelectItem value="negative">Negative</SelectItem>
+                </SelectContent>
+              </Select>
+
               <Button
                 variant={flaggedOnly ? 'default' : 'outline'}
                 size="sm"
@@ -309,6 +349,20 @@ export default function InteractionsPage() {
                 {flaggedOnly ? 'Showing Flagged' : 'Flagged Only'}
               </Button>
             </div>
+
+            <ExtractedFieldFilters
+              fields={extractedFields}
+              filters={fieldFilters}
+              sort={fieldSort}
+              onFiltersChange={(filters) => {
+                setFieldFilters(filters);
+                setPage(1);
+              }}
+              onSortChange={(sort) => {
+                setFieldSort(sort);
+                setPage(1);
+              }}
+            />
           </div>
         </CardHeader>
         <CardContent>
@@ -321,7 +375,7 @@ export default function InteractionsPage() {
               <PhoneIncoming className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-medium mb-2">No interactions found</h3>
               <p className="text-muted-foreground">
-                {search || statusFilter !== 'all' || campaignFilter !== 'all'
+                {search || statusFilter !== 'all' || campaignFilter !== 'all' || fieldFilters.length > 0
                   ? 'Try adjusting your filters'
                   : 'Interactions will appear here as webhooks are received'}
               </p>
@@ -335,6 +389,10 @@ export default function InteractionsPage() {
                     <TableHead>Phone / Source</TableHead>
                     <TableHead>Campaign</TableHead>
                     <TableHead>Summary</TableHead>
+                    {fieldColumns.map((field) => (
+                      <TableHead key={field.name}>{field.name}</TableHead>
+                    ))}
+                    <TableHead>Sentiment</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Duration</TableHead>
                     <TableHead>Date</TableHead>
@@ -382,6 +440,14 @@ export default function InteractionsPage() {
                           {interaction.aiSummary || 'No summary available'}
                         </p>
                       </TableCell>
+                      {fieldColumns.map((field) => (
+                        <TableCell key={field.name} className="text-sm">
+                          {formatExtractedFieldValue(getExtractedFieldValue(interaction.aiExtractedData, field.name)) || '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <SentimentBadge sentiment={interaction.sentiment} />
+                      </TableCell>
                       <TableCell>
                         <Badge variant={getStatusVariant(interaction.callStatus)}>
                           {interaction.callStatus || 'pending'}
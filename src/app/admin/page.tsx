@@ -1,8 +1,10 @@
 import { db } from '@/db';
 import { organizations, campaigns, interactions, smsLogs, users } from '@/db/schema';
-import { count, eq, and, gte, sql } from 'drizzle-orm';
+import { count, eq, and, gte, sql, inArray } from 'drizzle-orm';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Building2, Megaphone, MessageSquare, Users, Send, PhoneIncoming, FileText, Bot } from 'lucide-react';
+import { Building2, Megaphone, MessageSquare, Users, Send, PhoneIncoming, FileText, Bot, Cpu } from 'lucide-react';
+import { getUsageRollup } from '@/services/usage-ledger';
+import { formatMicrosAsUsd } from '@/lib/ai-pricing';
 
 async function getStats() {
   const now = new Date();
@@ -37,7 +39,7 @@ async function getStats() {
     db.select({ count: count() }).from(interactions).where(gte(interactions.createdAt, startOfMonth)),
     db.select({ count: count() }).from(smsLogs),
     db.select({ count: count() }).from(smsLogs).where(eq(smsLogs.status, 'delivered')),
-    db.select({ count: count() }).from(smsLogs).where(eq(smsLogs.status, 'failed')),
+    db.select({ count: count() }).from(smsLogs).where(inArray(smsLogs.status, ['failed', 'undelivered'])),
     db.select({
       sourceType: interactions.sourceType,
       count: count(),
@@ -77,9 +79,15 @@ async function getRecentInteractions() {
   });
 }
 
+async function getMonthUsage() {
+  const now = new Date();
+  return getUsageRollup({ start: new Date(now.getFullYear(), now.getMonth(), 1), end: now });
+}
+
 export default async function AdminDashboard() {
   const stats = await getStats();
   const recentInteractions = await getRecentInteractions();
+  const usage = await getMonthUsage();
 
   return (
     <div className="space-y-6">
@@ -181,6 +189,47 @@ export default async function AdminDashboard() {
         </Card>
       </div>
 
+      {/* Usage This Month */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Usage This Month</CardTitle>
+          <Cpu className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="rounded-lg border p-4">
+              <p className="text-2xl font-bold">{usage.totals.aiRequests}</p>
+              <p className="text-xs text-muted-foreground">AI requests</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-2xl font-bold">{formatMicrosAsUsd(usage.totals.aiCostMicros)}</p>
+              <p className="text-xs text-muted-foreground">Estimated AI cost</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-2xl font-bold">{(usage.totals.voiceSeconds / 60).toFixed(1)}</p>
+              <p className="text-xs text-muted-foreground">Voice minutes</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-2xl font-bold">{formatMicrosAsUsd(usage.totals.voiceCostMicros)}</p>
+              <p className="text-xs text-muted-foreground">Voice cost</p>
+            </div>
+          </div>
+          {usage.byOrganization.length > 0 && (
+            <div className="space-y-2">
+              {usage.byOrganization.slice(0, 5).map((org) => (
+                <div key={org.organizationId} className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{org.organizationName}</span>
+                  <span className="text-muted-foreground">
+                    {org.aiRequests} AI requests ({formatMicrosAsUsd(org.aiCostMicros)}) &middot;{' '}
+                    {(org.voiceSeconds / 60).toFixed(1)} min ({formatMicrosAsUsd(org.voiceCostMicros)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Source Breakdown */}
       <Card>
         <CardHeader>
@@ -13,6 +13,7 @@ import {
   XCircle,
   TrendingUp,
   Calendar,
+  Cpu,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -25,8 +26,24 @@ import {
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import type { Organization, Campaign } from '@/db/schema';
 import { formatDuration } from '@/lib/utils';
+import { formatMicrosAsUsd } from '@/lib/ai-pricing';
+import type { UsageRollup } from '@/services/usage-ledger';
+import {
+  appendExtractedFieldParams,
+  ExtractedFieldFilter,
+  ExtractedFieldSort,
+} from '@/lib/extracted-field-params';
+import { ExtractedFieldFilters, useExtractedFields } from '@/components/interactions/extracted-field-filters';
 
 interface ReportSummary {
   totalInteractions: number;
@@ -52,12 +69,16 @@ export default function ReportsPage() {
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [usageData, setUsageData] = useState<UsageRollup | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
 
   // Filters
   const [orgFilter, setOrgFilter] = useState<string>('all');
   const [campaignFilter, setCampaignFilter] = useState<string>('all');
+  const [fieldFilters, setFieldFilters] = useState<ExtractedFieldFilter[]>([]);
+  const [fieldSort, setFieldSort] = useState<ExtractedFieldSort | null>(null);
+  const extractedFields = useExtractedFields(campaignFilter !== 'all' ? campaignFilter : null);
   const [startDate, setStartDate] = useState(
     new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
   );
@@ -67,20 +88,23 @@ export default function ReportsPage() {
     setIsLoading(true);
     try {
       const params = new URLSearchParams();
-      params.set('type', 'summary');
       params.set('startDate', startDate);
       params.set('endDate', endDate);
       if (orgFilter !== 'all') params.set('organizationId', orgFilter);
       if (campaignFilter !== 'all') params.set('campaignId', campaignFilter);
 
-      const response = await fetch(`/api/reports?${params}`);
-      const result = await response.json();
+      const [response, usageResponse] = await Promise.all([
+        fetch(`/api/reports?type=summary&${params}`),
+        fetch(`/api/reports?type=usage&${params}`),
+      ]);
+      const [result, usageResult] = await Promise.all([response.json(), usageResponse.json()]);
 
       if (!response.ok) {
         throw new Error(result.error || 'Failed to fetch report');
       }
 
       setReportData(result.data);
+      setUsageData(usageResponse.ok ? usageResult.data : null);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to fetch report');
     } finally {
@@ -137,6 +161,7 @@ export default function ReportsPage() {
       params.set('endDate', endDate);
       if (orgFilter !== 'all') params.set('organizationId', orgFilter);
       if (campaignFilter !== 'all') params.set('campaignId', campaignFilter);
+      appendExtractedFieldParams(params, fieldFilters, fieldSort);
 
       const response = await fetch(`/api/reports/export?${params}`);
 
@@ -164,6 +189,35 @@ export default function ReportsPage() {
     }
   };
 
+  const exportUsage = () => {
+    if (!usageData) return;
+
+    const header = ['Organization', 'Campaign', 'AI Requests', 'Prompt Tokens', 'Completion Tokens', 'AI Cost (USD)', 'Voice Calls', 'Voice Minutes', 'Voice Cost (USD)'];
+    const rows = usageData.byCampaign.map((row) => [
+      row.organizationName ?? '',
+      row.campaignName ?? '',
+      row.aiRequests,
+      row.promptTokens,
+      row.completionTokens,
+      (row.aiCostMicros / 1_000_000).toFixed(6),
+      row.voiceCalls,
+      (row.voiceSeconds / 60).toFixed(2),
+      (row.voiceCostMicros / 1_000_000).toFixed(6),
+    ]);
+    const csv = [header, ...rows]
+      .map((row) => row.map((value) => `"${String(value).replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const url = window.URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `usage-${startDate}-to-${endDate}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    a.remove();
+  };
+
   const maxDailyCount = Math.max(...(reportData?.dailyTrend.map(d => d.count) || [1]));
 
   return (
@@ -228,7 +282,14 @@ export default function ReportsPage() {
             </div>
             <div className="space-y-2">
               <Label>Campaign</Label>
-              <Select value={campaignFilter} onValueChange={setCampaignFilter}>
+              <Select
+                value={campaignFilter}
+                onValueChange={(value) => {
+                  setCampaignFilter(value);
+                  setFieldFilters([]);
+                  setFieldSort(null);
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue placeholder="All Campaigns" />
                 </SelectTrigger>
@@ -259,6 +320,18 @@ export default function ReportsPage() {
               />
             </div>
           </div>
+          {extractedFields.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <Label>Extracted Fields (applied to exports)</Label>
+              <ExtractedFieldFilters
+                fields={extractedFields}
+                filters={fieldFilters}
+                sort={fieldSort}
+                onFiltersChange={setFieldFilters}
+                onSortChange={setFieldSort}
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -435,6 +508,86 @@ export default function ReportsPage() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Usage & Costs */}
+          {usageData && (
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <Cpu className="h-5 w-5" />
+                    Usage &amp; Costs
+                  </CardTitle>
+                  <CardDescription>
+                    AI requests and voice call costs. AI costs are estimated from token counts; voice costs are reported by the provider.
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={exportUsage} disabled={usageData.byCampaign.length === 0}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export Usage
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div className="rounded-lg border p-4">
+                    <p className="text-xs text-muted-foreground">AI Requests</p>
+                    <p className="text-2xl font-bold">{usageData.totals.aiRequests}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {(usageData.totals.promptTokens + usageData.totals.completionTokens).toLocaleString()} tokens
+                    </p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-xs text-muted-foreground">AI Cost</p>
+                    <p className="text-2xl font-bold">{formatMicrosAsUsd(usageData.totals.aiCostMicros)}</p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-xs text-muted-foreground">Voice Minutes</p>
+                    <p className="text-2xl font-bold">{(usageData.totals.voiceSeconds / 60).toFixed(1)}</p>
+                    <p className="text-xs text-muted-foreground">{usageData.totals.voiceCalls} calls</p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-xs text-muted-foreground">Voice Cost</p>
+                    <p className="text-2xl font-bold">{formatMicrosAsUsd(usageData.totals.voiceCostMicros)}</p>
+                  </div>
+                </div>
+
+                {usageData.byCampaign.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Campaign</TableHead>
+                        <TableHead>Organization</TableHead>
+                        <TableHead className="text-right">AI Requests</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">AI Cost</TableHead>
+                        <TableHead className="text-right">Voice Minutes</TableHead>
+                        <TableHead className="text-right">Voice Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usageData.byCampaign.map((row) => (
+                        <TableRow key={`${row.campaignId}-${row.outboundCampaignId}`}>
+                          <TableCell>{row.campaignName ?? 'Deleted campaign'}</TableCell>
+                          <TableCell>{row.organizationName}</TableCell>
+                          <TableCell className="text-right">{row.aiRequests}</TableCell>
+                          <TableCell className="text-right">
+                            {(row.promptTokens + row.completionTokens).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMicrosAsUsd(row.aiCostMicros)}</TableCell>
+                          <TableCell className="text-right">{(row.voiceSeconds / 60).toFixed(1)}</TableCell>
+                          <TableCell className="text-right">{formatMicrosAsUsd(row.voiceCostMicros)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center text-sm text-muted-foreground py-4">
+                    No usage recorded for the selected period
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </>
       ) : (
         <div className="flex flex-col items-center justify-center py-12 text-center">
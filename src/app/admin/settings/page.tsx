@@ -2,13 +2,15 @@
 
 import { useState } from 'react';
 import { toast } from 'sonner';
-import { Loader2, Save, Key, Bell, Shield, Database } from 'lucide-react';
+import { Loader2, Save, Key, Bell, Shield, Database, MessageSquareOff, PhoneOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
+import { SmsOptOutManager } from '@/components/sms/sms-opt-out-manager';
+import { DncManager } from '@/components/outbound/dnc-manager';
 
 export default function SettingsPage() {
   const [isSaving, setIsSaving] = useState(false);
@@ -72,6 +74,14 @@ export default function SettingsPage() {
             <Shield className="h-4 w-4" />
             Security
           </TabsTrigger>
+          <TabsTrigger value="sms" className="flex items-center gap-2">
+            <MessageSquareOff className="h-4 w-4" />
+            SMS Opt-Outs
+          </TabsTrigger>
+          <TabsTrigger value="dnc" className="flex items-center gap-2">
+            <PhoneOff className="h-4 w-4" />
+            Do Not Call
+          </TabsTrigger>
           <TabsTrigger value="system" className="flex items-center gap-2">
             <Database className="h-4 w-4" />
             System
@@ -243,6 +253,14 @@ export default function SettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="sms" className="space-y-4">
+          <SmsOptOutManager />
+        </TabsContent>
+
+        <TabsContent value="dnc" className="space-y-4">
+          <DncManager />
+        </TabsContent>
+
         <TabsContent value="system" className="space-y-4">
           <Card>
             <CardHeader>
@@ -25,7 +25,7 @@ export async function PUT(
     log.info('Updating commission', { userId: admin.id, commissionId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-commission-put', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-commission-put', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -14,7 +14,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching commissions', { userId: admin.id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(admin.id, 'admin-commissions-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(admin.id, 'admin-commissions-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -133,7 +133,7 @@ export async function POST(request: NextRequest) {
     log.info('Creating commission', { userId: admin.id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-commissions-post', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-commissions-post', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
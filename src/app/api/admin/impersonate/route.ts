@@ -16,7 +16,7 @@ export async function POST(request: NextRequest) {
     log.info('Impersonation request', { adminId: admin.id });
 
     // Rate limiting - stricter for sensitive operations
-    const rateLimit = withRateLimit(admin.id, 'admin-impersonate-post', RATE_LIMITS.auth);
+    const rateLimit = await withRateLimit(admin.id, 'admin-impersonate-post', RATE_LIMITS.auth);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded for impersonation', { adminId: admin.id });
       return rateLimit.response;
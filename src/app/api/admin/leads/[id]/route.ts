@@ -6,6 +6,7 @@ import { eq, desc } from 'drizzle-orm';
 import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
 import { createApiLogger } from '@/lib/logger';
 import { adminUpdateLeadSchema, validateRequest, uuidSchema } from '@/lib/validations/admin';
+import { publishEvent } from '@/services/event-webhooks';
 
 export async function GET(
   request: NextRequest,
@@ -25,7 +26,7 @@ export async function GET(
     log.info('Fetching lead', { userId: admin.id, leadId: id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(admin.id, 'admin-lead-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(admin.id, 'admin-lead-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -114,7 +115,7 @@ export async function PUT(
     log.info('Updating lead', { userId: admin.id, leadId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-lead-put', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-lead-put', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -205,6 +206,22 @@ export async function PUT(
         description: `Lead moved to ${stageName} by administrator`,
         metadata: { newStageId: stageId, newStageName: stageName },
       });
+
+      // Leads from a client's callers are pushed back to that client
+      if (updated.organizationId) {
+        await publishEvent(updated.organizationId, 'lead.stage_changed', {
+          leadId: updated.id,
+          leadNumber: updated.leadNumber,
+          firstName: updated.firstName,
+          lastName: updated.lastName,
+          phone: updated.phone,
+          email: updated.email,
+          previousStageId: existingLead.stageId,
+          stageId: updated.stageId,
+          stageName,
+          status: updated.status,
+        });
+      }
     }
 
     // Log status change activity
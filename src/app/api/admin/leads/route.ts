@@ -14,7 +14,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching leads', { userId: admin.id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(admin.id, 'admin-leads-get', RATE_LIMITS.search);
+    const rateLimit = await withRateLimit(admin.id, 'admin-leads-get', RATE_LIMITS.search);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -25,7 +25,7 @@ export async function PUT(
     log.info('Updating resource', { userId: admin.id, resourceId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-resource-put', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-resource-put', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -100,7 +100,7 @@ export async function DELETE(
     log.info('Deleting resource', { userId: admin.id, resourceId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-resource-delete', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-resource-delete', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
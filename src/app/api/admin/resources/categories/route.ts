@@ -13,7 +13,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching categories', { userId: admin.id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(admin.id, 'admin-categories-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(admin.id, 'admin-categories-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -42,7 +42,7 @@ export async function POST(request: NextRequest) {
     log.info('Creating category', { userId: admin.id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-categories-post', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-categories-post', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -28,7 +28,7 @@ export async function POST(
     log.info('Resending invite', { userId: admin.id, targetId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-resend-invite', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-resend-invite', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
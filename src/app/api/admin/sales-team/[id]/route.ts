@@ -25,7 +25,7 @@ export async function GET(
     log.info('Fetching sales user', { userId: admin.id, targetId: id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(admin.id, 'admin-sales-user-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(admin.id, 'admin-sales-user-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -102,7 +102,7 @@ export async function PUT(
     log.info('Updating sales user', { userId: admin.id, targetId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-sales-user-put', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-sales-user-put', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -174,7 +174,7 @@ export async function DELETE(
     log.info('Deleting sales user', { userId: admin.id, targetId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-sales-user-delete', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-sales-user-delete', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching sales team', { userId: admin.id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(admin.id, 'admin-sales-team-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(admin.id, 'admin-sales-team-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -91,7 +91,7 @@ export async function POST(request: NextRequest) {
     log.info('Creating sales user', { userId: admin.id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(admin.id, 'admin-sales-team-post', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(admin.id, 'admin-sales-team-post', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: admin.id });
       return rateLimit.response;
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { apiKeys, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// DELETE /api/api-keys/[id] - Revoke a key. The row is kept so the key list shows who had access.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [existing] = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.id, id))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: 'API key is already revoked' }, { status: 400 });
+    }
+
+    await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(eq(apiKeys.id, id));
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'revoke',
+      entityType: 'api_key',
+      entityId: id,
+      details: { organizationId: existing.organizationId, name: existing.name, keyPrefix: existing.keyPrefix },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API Keys API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { campaigns } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireFullAuth } from '@/lib/auth';
+import { discoverExtractedFields } from '@/services/extracted-fields';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/campaigns/[id]/extracted-fields - Custom fields available for filters and exports
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireFullAuth();
+    const { id } = await params;
+
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, id))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    // Client users can only view their organization's campaigns
+    if (user.role === 'client_user' && campaign.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const fields = await discoverExtractedFields(campaign);
+
+    return NextResponse.json({ data: fields });
+  } catch (error) {
+    console.error('[Campaign Fields API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch extracted fields' },
+      { status: 500 }
+    );
+  }
+}
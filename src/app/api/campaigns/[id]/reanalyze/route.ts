@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { campaigns, reanalysisJobs, auditLogs } from '@/db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { createReanalysisJobSchema, validateRequest } from '@/lib/validations/interactions';
+import { createReanalysisJob } from '@/services/reanalysis-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/campaigns/[id]/reanalyze - List recent re-analysis jobs for a campaign
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const jobs = await db
+      .select()
+      .from(reanalysisJobs)
+      .where(eq(reanalysisJobs.campaignId, id))
+      .orderBy(desc(reanalysisJobs.createdAt))
+      .limit(10);
+
+    return NextResponse.json({ data: jobs });
+  } catch (error) {
+    console.error('[Reanalysis API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch re-analysis jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/campaigns/[id]/reanalyze - Start a bulk re-analysis of the campaign's interactions
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const validation = validateRequest(createReanalysisJobSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [campaign] = await db
+      .select({ id: campaigns.id })
+      .from(campaigns)
+      .where(eq(campaigns.id, id))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    // Only one active job per campaign
+    const [activeJob] = await db
+      .select({ id: reanalysisJobs.id })
+      .from(reanalysisJobs)
+      .where(
+        and(
+          eq(reanalysisJobs.campaignId, id),
+          inArray(reanalysisJobs.status, ['pending', 'running'])
+        )
+      )
+      .limit(1);
+
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'A re-analysis is already in progress for this campaign' },
+        { status: 409 }
+      );
+    }
+
+    const job = await createReanalysisJob({
+      campaignId: id,
+      onlyMissing: validation.data.onlyMissing,
+      requestedBy: admin.id,
+    });
+
+    // Log the action
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'reanalyze',
+      entityType: 'campaign',
+      entityId: id,
+      details: {
+        jobId: job.id,
+        onlyMissing: job.onlyMissing,
+        totalCount: job.totalCount,
+      },
+    });
+
+    return NextResponse.json({ data: job }, { status: 202 });
+  } catch (error) {
+    console.error('[Reanalysis API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start re-analysis' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,9 @@ import { db } from '@/db';
 import { campaigns, auditLogs } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { requireAdmin, requireFullAuth } from '@/lib/auth';
+import { redactWebhookSecrets } from '@/lib/webhook-signature';
+import { sealSecret } from '@/lib/credential-crypto';
+import { aiModelSchema, extractionSchemaSchema, qualityRubricSchema } from '@/lib/validations/campaigns';
 
 const updateCampaignSchema = z.object({
   name: z.string().min(1).max(200).optional(),
@@ -13,6 +16,9 @@ const updateCampaignSchema = z.object({
   twilioAccountSid: z.string().optional(),
   twilioAuthToken: z.string().optional(),
   aiExtractionHints: z.record(z.string(), z.string()).optional(),
+  extractionSchema: extractionSchemaSchema.optional(),
+  aiModel: aiModelSchema.optional(),
+  qualityRubric: qualityRubricSchema.optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -52,7 +58,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
     // Generate webhook URL
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const campaignWithUrl = {
-      ...campaign,
+      ...redactWebhookSecrets(campaign),
       webhookUrl: `${baseUrl}/api/webhook/${campaign.webhookUuid}`,
       // Don't expose Twilio auth token
       twilioAuthToken: campaign.twilioAuthToken ? '••••••••' : null,
@@ -110,8 +116,13 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
     if (result.data.twilioPhoneNumber !== undefined) updateData.twilioPhoneNumber = result.data.twilioPhoneNumber;
     if (result.data.twilioOverride !== undefined) updateData.twilioOverride = result.data.twilioOverride;
     if (result.data.twilioAccountSid !== undefined) updateData.twilioAccountSid = result.data.twilioAccountSid;
-    if (result.data.twilioAuthToken !== undefined) updateData.twilioAuthToken = result.data.twilioAuthToken;
+    if (result.data.twilioAuthToken !== undefined) {
+      updateData.twilioAuthToken = result.data.twilioAuthToken ? sealSecret(result.data.twilioAuthToken) : null;
+    }
     if (result.data.aiExtractionHints !== undefined) updateData.aiExtractionHints = result.data.aiExtractionHints as Record<string, string>;
+    if (result.data.extractionSchema !== undefined) updateData.extractionSchema = result.data.extractionSchema;
+    if (result.data.aiModel !== undefined) updateData.aiModel = result.data.aiModel;
+    if (result.data.qualityRubric !== undefined) updateData.qualityRubric = result.data.qualityRubric;
     if (result.data.isActive !== undefined) updateData.isActive = result.data.isActive;
 
     // Update campaign
@@ -127,13 +138,16 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       action: 'update',
       entityType: 'campaign',
       entityId: id,
-      details: result.data,
+      details: {
+        ...result.data,
+        twilioAuthToken: result.data.twilioAuthToken !== undefined ? '••••••••' : undefined,
+      },
     });
 
     // Generate webhook URL
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const campaignWithUrl = {
-      ...updated,
+      ...redactWebhookSecrets(updated),
       webhookUrl: `${baseUrl}/api/webhook/${updated.webhookUuid}`,
       twilioAuthToken: updated.twilioAuthToken ? '••••••••' : null,
     };
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { campaigns, interactions, webhookErrorLogs, organizations } from '@/db/schema';
 import { eq, and, sql, gte, desc } from 'drizzle-orm';
 import { requireFullAuth } from '@/lib/auth';
+import { redactWebhookSecrets } from '@/lib/webhook-signature';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -115,7 +116,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     };
 
     return NextResponse.json({
-      campaign,
+      campaign: redactWebhookSecrets(campaign),
       stats,
       callsByDay: callsByDay.map(d => ({
         date: d.date,
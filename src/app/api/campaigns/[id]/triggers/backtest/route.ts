@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { campaigns } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { backtestTrigger, MAX_BACKTEST_INTERACTIONS } from '@/services/trigger-simulation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const backtestSchema = z.object({
+  intentDescription: z.string().trim().min(1, 'Intent description is required').max(2000),
+  limit: z.number().int().min(1).max(MAX_BACKTEST_INTERACTIONS).default(20),
+});
+
+// POST /api/campaigns/[id]/triggers/backtest - Hit rate of an intent over recent interactions
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const result = backtestSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, id))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const backtest = await backtestTrigger(
+      campaign,
+      { intentDescription: result.data.intentDescription },
+      result.data.limit
+    );
+
+    return NextResponse.json({ data: backtest });
+  } catch (error) {
+    console.error('[SMS Triggers API] Backtest error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to backtest trigger' },
+      { status: 500 }
+    );
+  }
+}
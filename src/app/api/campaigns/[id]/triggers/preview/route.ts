@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { campaigns, interactions, organizations } from '@/db/schema';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import {
+  buildTemplateVariables,
+  renderSmsTemplate,
+  validateSmsTemplate,
+  BUILT_IN_VARIABLES,
+} from '@/lib/sms-template';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const previewSchema = z.object({
+  smsMessage: z.string().max(1600),
+  interactionId: z.string().uuid().optional(),
+});
+
+// POST /api/campaigns/[id]/triggers/preview - Render a trigger message against a real interaction
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const result = previewSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [row] = await db
+      .select({ campaign: campaigns, organizationName: organizations.name })
+      .from(campaigns)
+      .leftJoin(organizations, eq(campaigns.organizationId, organizations.id))
+      .where(eq(campaigns.id, id))
+      .limit(1);
+
+    if (!row) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    // The requested interaction, or the most recent analyzed one
+    const [interaction] = await db
+      .select({
+        id: interactions.id,
+        interactionNumber: interactions.interactionNumber,
+        phoneNumber: interactions.phoneNumber,
+        aiExtractedData: interactions.aiExtractedData,
+        createdAt: interactions.createdAt,
+      })
+      .from(interactions)
+      .where(and(
+        eq(interactions.campaignId, id),
+        result.data.interactionId
+          ? eq(interactions.id, result.data.interactionId)
+          : isNotNull(interactions.aiExtractedData)
+      ))
+      .orderBy(desc(interactions.createdAt))
+      .limit(1);
+
+    const variables = buildTemplateVariables({
+      campaignName: row.campaign.name,
+      organizationName: row.organizationName,
+      phoneNumber: interaction?.phoneNumber,
+      extractedData: interaction?.aiExtractedData,
+    });
+    const rendered = renderSmsTemplate(result.data.smsMessage, variables);
+
+    return NextResponse.json({
+      data: {
+        text: rendered.text,
+        missing: rendered.missing,
+        templateError: validateSmsTemplate(result.data.smsMessage),
+        availableVariables: [
+          ...BUILT_IN_VARIABLES,
+          ...(row.campaign.extractionSchema ?? []).map((field) => field.name),
+        ],
+        interaction: interaction
+          ? { id: interaction.id, interactionNumber: interaction.interactionNumber, createdAt: interaction.createdAt }
+          : null,
+      },
+    });
+  } catch (error) {
+    console.error('[SMS Triggers API] Preview error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview message' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { smsTriggers, campaigns, auditLogs } from '@/db/schema';
+import type { SmsSequenceStep } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { requireAdmin } from '@/lib/auth';
+import { getTriggerDeliveryStats } from '@/services/sms-delivery';
+import { validateSmsTemplate } from '@/lib/sms-template';
+import { validateSmsSequence } from '@/lib/sms-sequence';
+import { validateRefirePolicy } from '@/lib/sms-trigger-policy';
+import { normalizeTriggerActions, validateTriggerActions, validateTriggerOutputs } from '@/lib/trigger-actions';
+import { getPendingFollowUpCounts } from '@/services/sms-sequences';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -38,7 +45,19 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       )
       .orderBy(smsTriggers.priority, desc(smsTriggers.createdAt));
 
-    return NextResponse.json({ data: triggers });
+    const triggerIds = triggers.map((t) => t.id);
+    const [deliveryStats, pendingFollowUps] = await Promise.all([
+      getTriggerDeliveryStats(triggerIds),
+      getPendingFollowUpCounts(triggerIds),
+    ]);
+
+    return NextResponse.json({
+      data: triggers.map((trigger) => ({
+        ...trigger,
+        deliveryStats: deliveryStats[trigger.id] ?? null,
+        pendingFollowUps: pendingFollowUps[trigger.id] ?? 0,
+      })),
+    });
   } catch (error) {
     console.error('[SMS Triggers API] GET error:', error);
     return NextResponse.json(
@@ -55,7 +74,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const { id } = await params;
     const body = await request.json();
 
-    const { name, intentDescription, smsMessage, priority } = body;
+    const {
+      name,
+      intentDescription,
+      smsMessage,
+      actions,
+      priority,
+      followUpSteps,
+      quietHoursStart,
+      quietHoursEnd,
+      refirePolicy,
+      cooldownDays,
+      maxFires,
+    } = body;
 
     // Validate required fields
     if (!name?.trim()) {
@@ -64,18 +95,40 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     if (!intentDescription?.trim()) {
       return NextResponse.json({ error: 'Intent description is required' }, { status: 400 });
     }
-    if (!smsMessage?.trim()) {
-      return NextResponse.json({ error: 'SMS message is required' }, { status: 400 });
+
+    const actionsError = validateTriggerActions(actions);
+    if (actionsError) {
+      return NextResponse.json({ error: actionsError }, { status: 400 });
+    }
+
+    const outputsError = validateTriggerOutputs({ smsMessage, actions, followUpSteps });
+    if (outputsError) {
+      return NextResponse.json({ error: outputsError }, { status: 400 });
     }
 
     // Validate SMS message length (160 chars recommended, warn at 300+)
-    if (smsMessage.length > 1600) {
+    if (smsMessage && smsMessage.length > 1600) {
       return NextResponse.json(
         { error: 'SMS message exceeds maximum length of 1600 characters' },
         { status: 400 }
       );
     }
 
+    const templateError = smsMessage ? validateSmsTemplate(smsMessage) : null;
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    const sequenceError = validateSmsSequence({ followUpSteps, quietHoursStart, quietHoursEnd });
+    if (sequenceError) {
+      return NextResponse.json({ error: sequenceError }, { status: 400 });
+    }
+
+    const policyError = validateRefirePolicy({ refirePolicy, cooldownDays, maxFires });
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 });
+    }
+
     // Verify campaign exists
     const [campaign] = await db
       .select()
@@ -94,7 +147,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         campaignId: id,
         name: name.trim(),
         intentDescription: intentDescription.trim(),
-        smsMessage: smsMessage.trim(),
+        smsMessage: smsMessage?.trim() || null,
+        actions: normalizeTriggerActions(actions),
+        followUpSteps: trimSteps(followUpSteps),
+        quietHoursStart: quietHoursStart || null,
+        quietHoursEnd: quietHoursEnd || null,
+        refirePolicy: refirePolicy || 'once',
+        cooldownDays: refirePolicy === 'cooldown' ? cooldownDays : null,
+        maxFires: refirePolicy === 'max_count' ? maxFires : null,
         priority: priority || 100,
         isActive: true,
       })
@@ -111,6 +171,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         name,
         intentDescription,
         priority,
+        actions: newTrigger.actions?.map((action) => action.type) ?? [],
+        followUpSteps: followUpSteps?.length ?? 0,
+        refirePolicy: newTrigger.refirePolicy,
       },
     });
 
@@ -123,3 +186,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
+
+function trimSteps(steps: SmsSequenceStep[] | undefined): SmsSequenceStep[] {
+  return (steps ?? []).map((step) => ({ delayMinutes: step.delayMinutes, message: step.message.trim() }));
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { campaigns, interactions, smsTriggers } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { simulateTriggers } from '@/services/trigger-simulation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const simulateSchema = z.object({
+  transcript: z.string().max(50000).optional(),
+  interactionId: z.string().uuid().optional(),
+  includeInactive: z.boolean().optional(),
+}).refine((data) => data.transcript?.trim() || data.interactionId, {
+  message: 'Paste a transcript or pick an interaction',
+  path: ['transcript'],
+});
+
+// POST /api/campaigns/[id]/triggers/simulate - Show which triggers would fire, without sending SMS
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const result = simulateSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { transcript, interactionId, includeInactive } = result.data;
+
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, id))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const triggers = await db
+      .select()
+      .from(smsTriggers)
+      .where(
+        and(
+          eq(smsTriggers.campaignId, id),
+          includeInactive ? undefined : eq(smsTriggers.isActive, true)
+        )
+      );
+
+    if (triggers.length === 0) {
+      return NextResponse.json({ error: 'This campaign has no triggers to test' }, { status: 400 });
+    }
+
+    let input: Parameters<typeof simulateTriggers>[2] = { transcript };
+    if (interactionId) {
+      const [interaction] = await db
+        .select()
+        .from(interactions)
+        .where(and(eq(interactions.id, interactionId), eq(interactions.campaignId, id)))
+        .limit(1);
+
+      if (!interaction) {
+        return NextResponse.json({ error: 'Interaction not found' }, { status: 404 });
+      }
+      if (!interaction.transcript && !interaction.aiSummary) {
+        return NextResponse.json({ error: 'Interaction has no transcript or summary' }, { status: 400 });
+      }
+
+      input = {
+        transcript: interaction.transcript ?? undefined,
+        summary: interaction.aiSummary ?? undefined,
+        contactId: interaction.contactId,
+        interactionId: interaction.id,
+      };
+    }
+
+    const results = await simulateTriggers(campaign, triggers, input);
+
+    return NextResponse.json({ data: results });
+  } catch (error) {
+    console.error('[SMS Triggers API] Simulate error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to simulate triggers' },
+      { status: 500 }
+    );
+  }
+}
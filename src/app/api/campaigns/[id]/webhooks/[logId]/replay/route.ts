@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { webhookErrorLogs, auditLogs } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { isReplayable, replayWebhookError } from '@/services/webhook-replay';
+
+interface RouteParams {
+  params: Promise<{ id: string; logId: string }>;
+}
+
+// POST /api/campaigns/[id]/webhooks/[logId]/replay - Re-run the ingest pipeline on a logged failure
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id, logId } = await params;
+
+    const [errorLog] = await db
+      .select()
+      .from(webhookErrorLogs)
+      .where(
+        and(
+          eq(webhookErrorLogs.id, logId),
+          eq(webhookErrorLogs.campaignId, id)
+        )
+      )
+      .limit(1);
+
+    if (!errorLog) {
+      return NextResponse.json({ error: 'Webhook error log not found' }, { status: 404 });
+    }
+
+    if (!isReplayable(errorLog)) {
+      return NextResponse.json(
+        { error: `Webhooks that failed with '${errorLog.errorType}' cannot be replayed` },
+        { status: 400 }
+      );
+    }
+
+    // Claimed atomically; a concurrent or repeated submit gets null back
+    const result = await replayWebhookError(errorLog);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'This webhook has already been queued for replay or replayed' },
+        { status: 409 }
+      );
+    }
+
+    // Log the action
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'replay',
+      entityType: 'webhook_error_log',
+      entityId: errorLog.id,
+      details: {
+        campaignId: id,
+        success: result.success,
+        interactionId: result.success ? result.interactionId : undefined,
+        error: result.success ? undefined : result.error,
+      },
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, replayed: false }, { status: 422 });
+    }
+
+    return NextResponse.json({
+      data: {
+        replayed: true,
+        interactionId: result.interactionId,
+      },
+    });
+  } catch (error) {
+    console.error('[Campaign Webhooks API] Replay error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to replay webhook' },
+      { status: 500 }
+    );
+  }
+}
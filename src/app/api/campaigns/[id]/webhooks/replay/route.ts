@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { campaigns, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { bulkReplaySchema, validateRequest } from '@/lib/validations/webhook';
+import { queueWebhookReplays } from '@/services/webhook-replay';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/campaigns/[id]/webhooks/replay - Queue replays for all failures in a time range
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = validateRequest(bulkReplaySchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [campaign] = await db
+      .select({ id: campaigns.id })
+      .from(campaigns)
+      .where(eq(campaigns.id, id))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const startDate = new Date(validation.data.startDate);
+    const endDate = new Date(validation.data.endDate);
+    const { queued } = await queueWebhookReplays({ campaignId: id, startDate, endDate });
+
+    // Log the action
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'replay',
+      entityType: 'campaign',
+      entityId: id,
+      details: {
+        startDate: validation.data.startDate,
+        endDate: validation.data.endDate,
+        queued,
+      },
+    });
+
+    return NextResponse.json({ data: { queued } }, { status: 202 });
+  } catch (error) {
+    console.error('[Campaign Webhooks API] Bulk replay error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to queue webhook replays' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { campaigns, interactions, webhookErrorLogs } from '@/db/schema';
+import type { WebhookErrorLog } from '@/db/schema';
 import { eq, and, or, desc, sql } from 'drizzle-orm';
 import { requireFullAuth } from '@/lib/auth';
+import { isReplayable } from '@/services/webhook-replay';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -58,6 +60,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           errorType: e.errorType,
           errorMessage: e.errorMessage,
           rawPayload: e.rawBody ? tryParseJson(e.rawBody) : null,
+          ...replayFields(e),
           createdAt: e.createdAt,
         })),
         total: Number(countResult[0]?.count || 0),
@@ -161,6 +164,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         errorType: e.errorType,
         errorMessage: e.errorMessage,
         rawPayload: e.rawBody ? tryParseJson(e.rawBody) : null,
+        ...replayFields(e),
         createdAt: e.createdAt,
       })),
     ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
@@ -183,6 +187,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+function replayFields(e: WebhookErrorLog) {
+  return {
+    replayable: isReplayable(e),
+    replayStatus: e.replayStatus,
+    replayInteractionId: e.replayInteractionId,
+    replayError: e.replayError,
+    lastReplayedAt: e.lastReplayedAt,
+  };
+}
+
 function tryParseJson(str: string): unknown {
   try {
     return JSON.parse(str);
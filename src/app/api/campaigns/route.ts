@@ -4,6 +4,9 @@ import { db } from '@/db';
 import { campaigns, organizations, auditLogs } from '@/db/schema';
 import { eq, desc, and, ilike, or } from 'drizzle-orm';
 import { requireAdmin, requireFullAuth } from '@/lib/auth';
+import { redactWebhookSecrets } from '@/lib/webhook-signature';
+import { sealSecret } from '@/lib/credential-crypto';
+import { aiModelSchema, extractionSchemaSchema, qualityRubricSchema } from '@/lib/validations/campaigns';
 
 const createCampaignSchema = z.object({
   organizationId: z.string().uuid('Invalid organization ID'),
@@ -14,6 +17,9 @@ const createCampaignSchema = z.object({
   twilioAccountSid: z.string().optional(),
   twilioAuthToken: z.string().optional(),
   aiExtractionHints: z.record(z.string(), z.string()).optional(),
+  extractionSchema: extractionSchemaSchema.optional(),
+  aiModel: aiModelSchema.optional(),
+  qualityRubric: qualityRubricSchema.optional(),
 });
 
 // GET - List campaigns
@@ -79,7 +85,7 @@ export async function GET(req: NextRequest) {
     // Generate webhook URLs
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const campaignsWithUrls = campaignsList.map((campaign) => ({
-      ...campaign,
+      ...redactWebhookSecrets(campaign),
       webhookUrl: `${baseUrl}/api/webhook/${campaign.webhookUuid}`,
       // Don't expose Twilio auth token
       twilioAuthToken: campaign.twilioAuthToken ? '••••••••' : null,
@@ -145,8 +151,11 @@ export async function POST(req: NextRequest) {
         twilioPhoneNumber: result.data.twilioPhoneNumber || null,
         twilioOverride: result.data.twilioOverride,
         twilioAccountSid: result.data.twilioAccountSid || null,
-        twilioAuthToken: result.data.twilioAuthToken || null,
+        twilioAuthToken: result.data.twilioAuthToken ? sealSecret(result.data.twilioAuthToken) : null,
         aiExtractionHints: (result.data.aiExtractionHints || {}) as Record<string, string>,
+        extractionSchema: result.data.extractionSchema ?? [],
+        aiModel: result.data.aiModel ?? null,
+        qualityRubric: result.data.qualityRubric ?? [],
       })
       .returning();
 
@@ -162,7 +171,7 @@ export async function POST(req: NextRequest) {
     // Generate webhook URL
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const campaignWithUrl = {
-      ...campaign,
+      ...redactWebhookSecrets(campaign),
       webhookUrl: `${baseUrl}/api/webhook/${campaign.webhookUuid}`,
       twilioAuthToken: campaign.twilioAuthToken ? '••••••••' : null,
     };
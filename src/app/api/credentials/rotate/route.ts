@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { auditLogs } from '@/db/schema';
+import { requireAdmin } from '@/lib/auth';
+import { getKeyring } from '@/lib/credential-crypto';
+import { rotateCredentialKeys } from '@/services/credential-vault';
+
+// POST /api/credentials/rotate - Re-wrap every stored secret under the first key in CREDENTIAL_ENCRYPTION_KEYS
+export async function POST() {
+  try {
+    const admin = await requireAdmin();
+
+    const rotated = await rotateCredentialKeys();
+    const { currentKeyId } = getKeyring();
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'rotate',
+      entityType: 'organization_credential',
+      details: { keyId: currentKeyId, ...rotated },
+    });
+
+    return NextResponse.json({ data: { keyId: currentKeyId, ...rotated } });
+  } catch (error) {
+    console.error('[Credentials API] Rotate error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rotate credential keys' },
+      { status: 500 }
+    );
+  }
+}
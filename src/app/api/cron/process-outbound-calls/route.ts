@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { outboundCampaigns, outboundContacts, outboundSchedules, outboundCallLogs } from '@/db/schema';
-import { eq, and, lt, lte, or, isNull, sql, inArray } from 'drizzle-orm';
-import { createOutboundCall, getVapiCall, mapVapiStatusToResult, calculateCallDuration, formatVapiTranscript } from '@/services/vapi-service';
-import { isWithinCallingHours } from '@/services/contact-upload-service';
+import { outboundCampaigns, outboundContacts, outboundCallLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { loadCallingPlan, contactLocation, nextAttemptTime } from '@/services/calling-schedule';
+import { isOnDncList } from '@/services/dnc';
+import { claimContacts, outboundWebhookUrl, reapStaleCalls } from '@/services/outbound-dialer';
+import { getVoiceApiKey } from '@/services/credential-vault';
+import { getVoiceProvider } from '@/services/voice-providers';
 
 // Verify cron secret for security
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -18,8 +21,11 @@ export async function GET(req: NextRequest) {
     }
 
     const results = {
+      staleCalls: await reapStaleCalls(),
       campaignsProcessed: 0,
       callsInitiated: 0,
+      dncSkipped: 0,
+      deferred: 0,
       errors: [] as string[],
     };
 
@@ -31,151 +37,101 @@ export async function GET(req: NextRequest) {
 
     for (const campaign of runningCampaigns) {
       try {
-        // Check if campaign has VAPI config
+        // Check if campaign has an agent and a number to call from
         if (!campaign.vapiAssistantId || !campaign.vapiPhoneNumberId) {
-          results.errors.push(`Campaign ${campaign.id}: Missing VAPI configuration`);
+          results.errors.push(`Campaign ${campaign.id}: Missing voice provider configuration`);
           continue;
         }
 
-        // Get campaign schedules
-        const schedules = await db
-          .select()
-          .from(outboundSchedules)
-          .where(
-            and(
-              eq(outboundSchedules.campaignId, campaign.id),
-              eq(outboundSchedules.isActive, true)
-            )
-          );
-
-        // Count currently active calls for this campaign
-        const [{ count: activeCalls }] = await db
-          .select({ count: sql<number>`count(*)::int` })
-          .from(outboundContacts)
-          .where(
-            and(
-              eq(outboundContacts.campaignId, campaign.id),
-              eq(outboundContacts.status, 'calling')
-            )
-          );
-
-        const availableSlots = campaign.maxConcurrentCalls - activeCalls;
-        if (availableSlots <= 0) {
-          continue; // Campaign at capacity
+        // The organization's own account with the provider, or the platform's
+        const provider = getVoiceProvider(campaign.voiceProvider);
+        const apiKey = await getVoiceApiKey(campaign.organizationId, provider.name);
+        if (provider.requiresApiKey && !apiKey) {
+          results.errors.push(`Campaign ${campaign.id}: No ${provider.name} API key available`);
+          continue;
         }
 
-        // Find contacts ready to call
-        const now = new Date();
-        const contactsToCall = await db
-          .select()
-          .from(outboundContacts)
-          .where(
-            and(
-              eq(outboundContacts.campaignId, campaign.id),
-              or(
-                eq(outboundContacts.status, 'pending'),
-                and(
-                  eq(outboundContacts.status, 'queued'),
-                  or(
-                    isNull(outboundContacts.nextAttemptAt),
-                    lte(outboundContacts.nextAttemptAt, now)
-                  )
-                )
-              ),
-              lt(outboundContacts.attemptCount, campaign.maxRetries + 1)
-            )
-          )
-          .limit(availableSlots);
-
-        // Filter by timezone and schedule
-        const eligibleContacts = contactsToCall.filter((contact) => {
-          if (!contact.timezone) return true; // No timezone = assume OK
+        // Calling windows, blackout dates and the fallback timezone
+        const plan = await loadCallingPlan(campaign);
 
-          const currentDay = new Date().getDay();
-          const applicableSchedule = schedules.find(
-            (s) => s.dayOfWeek === currentDay
-          );
-
-          if (!applicableSchedule) return false;
-
-          const [startHour] = applicableSchedule.startTime.split(':').map(Number);
-          const [endHour] = applicableSchedule.endTime.split(':').map(Number);
-
-          return isWithinCallingHours(contact.timezone, startHour, endHour);
-        });
+        // Claims are atomic, so overlapping runs never dial the same contact
+        const now = new Date();
+        const claim = await claimContacts(campaign, plan, now);
+        results.deferred += claim.deferred;
 
-        // Process eligible contacts
-        for (const contact of eligibleContacts) {
+        for (const contact of claim.contacts) {
+          let call: { id: string };
           try {
-            // Mark contact as calling
-            await db
-              .update(outboundContacts)
-              .set({
-                status: 'calling',
-                lastAttemptAt: now,
-                attemptCount: contact.attemptCount + 1,
-                updatedAt: now,
-              })
-              .where(eq(outboundContacts.id, contact.id));
-
-            // Note: In production, you would need to securely retrieve the VAPI API key
-            // This could be from an encrypted storage or session-based approach
-            // For now, we'll use an environment variable as a fallback
-            const vapiApiKey = process.env.VAPI_PRIVATE_KEY;
-
-            if (!vapiApiKey) {
-              results.errors.push(`Campaign ${campaign.id}: No VAPI API key available`);
-
-              // Reset contact status
+            // The list may have changed since upload; a lookup error skips the call rather than risk it
+            if (await isOnDncList(contact.phoneNumber, campaign.organizationId)) {
               await db
                 .update(outboundContacts)
-                .set({ status: 'pending', updatedAt: now })
+                .set({
+                  status: 'dnc',
+                  attemptCount: contact.attemptCount - 1,
+                  nextAttemptAt: null,
+                  lockedAt: null,
+                  updatedAt: now,
+                })
                 .where(eq(outboundContacts.id, contact.id));
+              results.dncSkipped++;
               continue;
             }
 
-            // Initiate call via VAPI
-            const call = await createOutboundCall(vapiApiKey, {
-              assistantId: campaign.vapiAssistantId!,
+            // Initiate call through the campaign's provider
+            call = await provider.createCall(apiKey ?? '', {
+              agentId: campaign.vapiAssistantId!,
               phoneNumberId: campaign.vapiPhoneNumberId!,
               customerNumber: contact.phoneNumber,
               customerName: `${contact.firstName} ${contact.lastName || ''}`.trim(),
-              assistantOverrides: {
-                variableValues: {
-                  firstName: contact.firstName,
-                  lastName: contact.lastName || '',
-                  ...(contact.customFields as Record<string, string> || {}),
-                },
+              variables: {
+                firstName: contact.firstName,
+                lastName: contact.lastName || '',
+                ...(contact.customFields as Record<string, string> || {}),
               },
+              webhookUrl: outboundWebhookUrl(campaign.webhookUuid),
             });
-
-            // Create call log entry
-            await db.insert(outboundCallLogs).values({
-              campaignId: campaign.id,
-              contactId: contact.id,
-              vapiCallId: call.id,
-              attemptNumber: contact.attemptCount + 1,
-              startedAt: now,
-            });
-
-            results.callsInitiated++;
           } catch (callError) {
             results.errors.push(
               `Contact ${contact.id}: ${callError instanceof Error ? callError.message : 'Call failed'}`
             );
 
-            // Mark contact for retry
-            const retryAt = new Date(now.getTime() + campaign.retryDelayHours * 60 * 60 * 1000);
+            // Mark contact for retry, in the first window after the retry delay
+            const retryAt = nextAttemptTime(
+              plan,
+              contactLocation(contact),
+              new Date(now.getTime() + campaign.retryDelayHours * 60 * 60 * 1000)
+            );
             await db
               .update(outboundContacts)
               .set({
-                status: contact.attemptCount + 1 >= campaign.maxRetries + 1 ? 'failed' : 'queued',
+                status: contact.attemptCount >= campaign.maxRetries + 1 ? 'failed' : 'queued',
                 callResult: 'failed',
                 nextAttemptAt: retryAt,
+                lockedAt: null,
                 updatedAt: now,
               })
               .where(eq(outboundContacts.id, contact.id));
+            continue;
           }
+
+          // The call is live: a failed log insert leaves the contact `calling`
+          // for the reaper rather than requeueing it to be dialed again
+          try {
+            await db.insert(outboundCallLogs).values({
+              campaignId: campaign.id,
+              contactId: contact.id,
+              vapiCallId: call.id,
+              attemptNumber: contact.attemptCount,
+              startedAt: now,
+            });
+          } catch (logError) {
+            results.errors.push(
+              `Contact ${contact.id}: call ${call.id} placed but not logged: ${logError instanceof Error ? logError.message : 'Insert failed'}`
+            );
+          }
+
+          results.callsInitiated++;
         }
 
         results.campaignsProcessed++;
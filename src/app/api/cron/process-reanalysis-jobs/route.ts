@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processReanalysisJobs } from '@/services/reanalysis-service';
+
+// Verify cron secret for security
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// GET - Advance bulk re-analysis jobs (called by Vercel Cron)
+export async function GET(req: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = req.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const results = await processReanalysisJobs();
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Reanalysis cron error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processWebhookJobs } from '@/services/webhook-queue';
+
+// Verify cron secret for security
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// GET - Process queued inbound webhooks (called by Vercel Cron)
+export async function GET(req: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = req.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = parseInt(req.nextUrl.searchParams.get('limit') || '25');
+    const results = await processWebhookJobs({ limit });
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Webhook job cron error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
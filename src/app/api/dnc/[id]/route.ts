@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { dncNumbers, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/dnc/[id] - Remove a number from the Do-Not-Call list so it can be dialed again
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [removed] = await db
+      .delete(dncNumbers)
+      .where(eq(dncNumbers.id, id))
+      .returning();
+
+    if (!removed) {
+      return NextResponse.json({ error: 'DNC number not found' }, { status: 404 });
+    }
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'delete',
+      entityType: 'dnc_number',
+      entityId: id,
+      details: {
+        phoneNumber: removed.phoneNumber,
+        organizationId: removed.organizationId,
+        source: removed.source,
+        reason: removed.reason,
+      },
+    });
+
+    return NextResponse.json({ data: removed });
+  } catch (error) {
+    console.error('[DNC API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove DNC number' },
+      { status: 500 }
+    );
+  }
+}
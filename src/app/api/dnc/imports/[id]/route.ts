@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { dncImports, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/dnc/imports/[id] - Remove an imported file and the numbers it added
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [removed] = await db
+      .delete(dncImports)
+      .where(eq(dncImports.id, id))
+      .returning();
+
+    if (!removed) {
+      return NextResponse.json({ error: 'DNC import not found' }, { status: 404 });
+    }
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'delete',
+      entityType: 'dnc_import',
+      entityId: id,
+      details: {
+        listName: removed.listName,
+        fileName: removed.fileName,
+        organizationId: removed.organizationId,
+        added: removed.added,
+      },
+    });
+
+    return NextResponse.json({ data: removed });
+  } catch (error) {
+    console.error('[DNC API] DELETE import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove DNC import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { dncImports, organizations, auditLogs } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { MAX_DNC_IMPORT_BYTES } from '@/lib/dnc';
+import { createDncImportSchema, validateRequest } from '@/lib/validations/dnc';
+import { importDncFile } from '@/services/dnc';
+
+// GET /api/dnc/imports - List imported federal/state DNC files
+export async function GET() {
+  try {
+    await requireAdmin();
+
+    const data = await db
+      .select({
+        id: dncImports.id,
+        organizationId: dncImports.organizationId,
+        organizationName: organizations.name,
+        listName: dncImports.listName,
+        fileName: dncImports.fileName,
+        totalRows: dncImports.totalRows,
+        added: dncImports.added,
+        invalid: dncImports.invalid,
+        createdAt: dncImports.createdAt,
+      })
+      .from(dncImports)
+      .leftJoin(organizations, eq(dncImports.organizationId, organizations.id))
+      .orderBy(desc(dncImports.createdAt))
+      .limit(100);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('[DNC API] GET imports error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch DNC imports' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/dnc/imports - Import a DNC file (multipart: file, listName, organizationId)
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    const validation = validateRequest(createDncImportSchema, {
+      listName: formData.get('listName'),
+      organizationId: formData.get('organizationId') || null,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    if (!file) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+    if (file.size > MAX_DNC_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: `File is larger than ${MAX_DNC_IMPORT_BYTES / 1024 / 1024} MB; split it by area code` },
+        { status: 400 }
+      );
+    }
+
+    const dncImport = await importDncFile({
+      content: await file.text(),
+      listName: validation.data.listName,
+      fileName: file.name,
+      organizationId: validation.data.organizationId,
+      createdBy: admin.id,
+    });
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'create',
+      entityType: 'dnc_import',
+      entityId: dncImport.id,
+      details: {
+        listName: dncImport.listName,
+        fileName: dncImport.fileName,
+        organizationId: dncImport.organizationId,
+        added: dncImport.added,
+        invalid: dncImport.invalid,
+      },
+    });
+
+    return NextResponse.json({ data: dncImport }, { status: 201 });
+  } catch (error) {
+    console.error('[DNC API] POST import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import DNC file' },
+      { status: 500 }
+    );
+  }
+}
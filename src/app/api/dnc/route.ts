@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { dncNumbers, organizations, auditLogs } from '@/db/schema';
+import type { DncSource } from '@/db/schema';
+import { and, desc, eq, ilike, isNull, SQL } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { DNC_SOURCE_LABELS } from '@/lib/dnc';
+import { createDncNumberSchema, validateRequest } from '@/lib/validations/dnc';
+import { normalizePhoneNumber, validatePhoneNumber } from '@/services/sms-service';
+import { addDncNumber } from '@/services/dnc';
+
+// GET /api/dnc - List Do-Not-Call numbers (organizationId=global for global entries only)
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const searchParams = request.nextUrl.searchParams;
+    const search = searchParams.get('search');
+    const organizationId = searchParams.get('organizationId');
+    const source = searchParams.get('source');
+
+    const conditions: SQL[] = [];
+    if (search) {
+      conditions.push(ilike(dncNumbers.phoneNumber, `%${search.replace(/[^\d+]/g, '')}%`));
+    }
+    if (organizationId === 'global') {
+      conditions.push(isNull(dncNumbers.organizationId));
+    } else if (organizationId) {
+      conditions.push(eq(dncNumbers.organizationId, organizationId));
+    }
+    if (source && source in DNC_SOURCE_LABELS) {
+      conditions.push(eq(dncNumbers.source, source as DncSource));
+    }
+
+    const data = await db
+      .select({
+        id: dncNumbers.id,
+        phoneNumber: dncNumbers.phoneNumber,
+        organizationId: dncNumbers.organizationId,
+        organizationName: organizations.name,
+        source: dncNumbers.source,
+        reason: dncNumbers.reason,
+        importId: dncNumbers.importId,
+        createdAt: dncNumbers.createdAt,
+      })
+      .from(dncNumbers)
+      .leftJoin(organizations, eq(dncNumbers.organizationId, organizations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(dncNumbers.createdAt))
+      .limit(500);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('[DNC API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch DNC numbers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/dnc - Add a number to the Do-Not-Call list manually
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    const body = await request.json();
+
+    const validation = validateRequest(createDncNumberSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const phoneNumber = normalizePhoneNumber(validation.data.phoneNumber);
+    if (!validatePhoneNumber(phoneNumber)) {
+      return NextResponse.json({ error: 'Invalid phone number' }, { status: 400 });
+    }
+
+    const entry = await addDncNumber({
+      phoneNumber,
+      organizationId: validation.data.organizationId,
+      source: 'manual',
+      reason: validation.data.reason || null,
+      createdBy: admin.id,
+    });
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Number is already on this list' }, { status: 409 });
+    }
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'create',
+      entityType: 'dnc_number',
+      entityId: entry.id,
+      details: { phoneNumber, organizationId: validation.data.organizationId },
+    });
+
+    return NextResponse.json({ data: entry }, { status: 201 });
+  } catch (error) {
+    console.error('[DNC API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add DNC number' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { interactions, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { reanalyzeInteraction } from '@/services/reanalysis-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/interactions/[id]/reanalyze - Re-run AI analysis with the campaign's current hints
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [interaction] = await db.query.interactions.findMany({
+      where: eq(interactions.id, id),
+      with: {
+        campaign: true,
+      },
+    });
+
+    if (!interaction) {
+      return NextResponse.json({ error: 'Interaction not found' }, { status: 404 });
+    }
+
+    if (!interaction.rawPayload) {
+      return NextResponse.json(
+        { error: 'Interaction has no raw payload to analyze' },
+        { status: 400 }
+      );
+    }
+
+    const { campaign, ...existing } = interaction;
+    const updated = await reanalyzeInteraction(existing, campaign, {
+      reason: 'manual',
+      userId: admin.id,
+    });
+
+    // Log the action
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'reanalyze',
+      entityType: 'interaction',
+      entityId: id,
+      details: {
+        campaignId: campaign.id,
+        previousSummary: existing.aiSummary,
+      },
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('[Interactions API] Reanalyze error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to re-analyze interaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { interactions, campaigns, auditLogs, smsLogs } from '@/db/schema';
 import { eq, and, inArray } from 'drizzle-orm';
 import { requireFullAuth } from '@/lib/auth';
+import { redactWebhookSecrets } from '@/lib/webhook-signature';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -29,6 +30,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             trigger: true,
           },
         },
+        analysisHistory: {
+          orderBy: (history, { desc }) => [desc(history.createdAt)],
+        },
       },
     });
 
@@ -43,7 +47,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    return NextResponse.json({ data: interaction });
+    return NextResponse.json({
+      data: { ...interaction, campaign: redactWebhookSecrets(interaction.campaign) },
+    });
   } catch (error) {
     console.error('[Interactions API] GET error:', error);
     return NextResponse.json(
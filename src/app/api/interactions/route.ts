@@ -3,6 +3,8 @@ import { db } from '@/db';
 import { interactions, campaigns, organizations } from '@/db/schema';
 import { eq, and, or, ilike, gte, lte, desc, inArray, sql } from 'drizzle-orm';
 import { requireFullAuth } from '@/lib/auth';
+import { parseExtractedFieldParams } from '@/lib/extracted-field-params';
+import { extractedFieldConditions, extractedFieldOrderBy } from '@/services/extracted-fields';
 
 // GET /api/interactions - List interactions
 export async function GET(request: NextRequest) {
@@ -19,6 +21,8 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     const flaggedOnly = searchParams.get('flaggedOnly') === 'true';
+    const sentiment = searchParams.get('sentiment');
+    const { filters: fieldFilters, sort: fieldSort } = parseExtractedFieldParams(searchParams);
 
     // Pagination
     const page = parseInt(searchParams.get('page') || '1');
@@ -92,6 +96,10 @@ export async function GET(request: NextRequest) {
     if (flaggedOnly) {
       conditions.push(eq(interactions.flagged, true));
     }
+    if (sentiment) {
+      conditions.push(eq(interactions.sentiment, sentiment as any));
+    }
+    conditions.push(...extractedFieldConditions(fieldFilters));
 
     // Execute query
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
@@ -106,7 +114,9 @@ export async function GET(request: NextRequest) {
             },
           },
         },
-        orderBy: [desc(interactions.createdAt)],
+        orderBy: fieldSort
+          ? [...extractedFieldOrderBy(fieldSort), desc(interactions.createdAt)]
+          : [desc(interactions.createdAt)],
         limit,
         offset,
       }),
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizations, apiKeys, auditLogs } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { generateApiKey } from '@/lib/api-keys';
+import { createApiKeySchema, validateRequest } from '@/lib/validations/api';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// Everything but the hash, which never leaves the server
+const apiKeyColumns = {
+  id: apiKeys.id,
+  organizationId: apiKeys.organizationId,
+  name: apiKeys.name,
+  keyPrefix: apiKeys.keyPrefix,
+  scopes: apiKeys.scopes,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdBy: apiKeys.createdBy,
+  createdAt: apiKeys.createdAt,
+};
+
+// GET /api/organizations/[id]/api-keys - List the organization's API keys, revoked ones included
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const keys = await db
+      .select(apiKeyColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.organizationId, id))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return NextResponse.json({ data: keys });
+  } catch (error) {
+    console.error('[API Keys API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations/[id]/api-keys - Issue a key; the plaintext is returned only in this response
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+    const body = await req.json();
+
+    const validation = validateRequest(createApiKeySchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [organization] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, id))
+      .limit(1);
+
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        organizationId: id,
+        name: validation.data.name,
+        keyPrefix,
+        keyHash,
+        scopes: validation.data.scopes,
+        createdBy: admin.id,
+      })
+      .returning(apiKeyColumns);
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'create',
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      details: { organizationId: id, name: apiKey.name, keyPrefix, scopes: apiKey.scopes },
+    });
+
+    return NextResponse.json({ data: { ...apiKey, key } }, { status: 201 });
+  } catch (error) {
+    console.error('[API Keys API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
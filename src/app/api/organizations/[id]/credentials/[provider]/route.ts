@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizationCredentials, auditLogs } from '@/db/schema';
+import type { CredentialProvider } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { credentialColumns } from '@/services/credential-vault';
+
+type RouteParams = {
+  params: Promise<{ id: string; provider: string }>;
+};
+
+// DELETE /api/organizations/[id]/credentials/[provider] - Disconnect an account; the platform's is used again
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id, provider } = await params;
+
+    const [removed] = await db
+      .delete(organizationCredentials)
+      .where(and(
+        eq(organizationCredentials.organizationId, id),
+        eq(organizationCredentials.provider, provider as CredentialProvider)
+      ))
+      .returning(credentialColumns);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Credential not found' }, { status: 404 });
+    }
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'delete',
+      entityType: 'organization_credential',
+      entityId: removed.id,
+      details: { organizationId: id, provider: removed.provider, accountId: removed.accountId, hint: removed.hint },
+    });
+
+    return NextResponse.json({ data: removed });
+  } catch (error) {
+    console.error('[Credentials API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove credential' },
+      { status: 500 }
+    );
+  }
+}
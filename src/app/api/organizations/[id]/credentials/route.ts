@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizations, organizationCredentials, auditLogs } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { credentialColumns, saveCredential } from '@/services/credential-vault';
+import { getVoiceProvider } from '@/services/voice-providers';
+import { verifyTwilioCredentials } from '@/services/sms-service';
+import { saveCredentialSchema, validateRequest } from '@/lib/validations/credentials';
+import { voiceProviderInfo } from '@/lib/voice-providers';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// GET /api/organizations/[id]/credentials - The organization's connected accounts, without their secrets
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const credentials = await db
+      .select(credentialColumns)
+      .from(organizationCredentials)
+      .where(eq(organizationCredentials.organizationId, id))
+      .orderBy(asc(organizationCredentials.provider));
+
+    return NextResponse.json({ data: credentials });
+  } catch (error) {
+    console.error('[Credentials API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch credentials' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations/[id]/credentials - Connect or replace an account; checked with the provider before saving
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+    const body = await req.json();
+
+    const validation = validateRequest(saveCredentialSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [organization] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, id))
+      .limit(1);
+
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const input = validation.data;
+    if (input.provider === 'twilio') {
+      const verification = await verifyTwilioCredentials(input.accountSid, input.authToken);
+      if (!verification.valid) {
+        return NextResponse.json({ error: `Twilio rejected the credentials: ${verification.error}` }, { status: 400 });
+      }
+    } else {
+      const connection = await getVoiceProvider(input.provider).testConnection(input.apiKey);
+      if (!connection.success) {
+        return NextResponse.json({ error: `${voiceProviderInfo(input.provider).label} rejected the key: ${connection.message}` }, { status: 400 });
+      }
+    }
+
+    const credential = await saveCredential({
+      organizationId: id,
+      provider: input.provider,
+      secret: input.provider === 'twilio' ? input.authToken : input.apiKey,
+      accountId: input.provider === 'twilio' ? input.accountSid : null,
+      createdBy: admin.id,
+    });
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'update',
+      entityType: 'organization_credential',
+      entityId: credential.id,
+      details: { organizationId: id, provider: credential.provider, accountId: credential.accountId, hint: credential.hint },
+    });
+
+    return NextResponse.json({ data: credential }, { status: 201 });
+  } catch (error) {
+    console.error('[Credentials API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save credentials' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,7 @@ const updateOrganizationSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   isActive: z.boolean().optional(),
+  apiRateLimit: z.number().int().min(10).max(10000).nullable().optional(), // Requests per minute; null restores the default
 });
 
 type RouteParams = {
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizations, webhookSubscriptions, webhookDeliveries, auditLogs } from '@/db/schema';
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { generateWebhookSecret } from '@/lib/webhook-signature';
+import { createWebhookSubscriptionSchema, validateRequest } from '@/lib/validations/webhook';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+const STATS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/organizations/[id]/webhook-subscriptions - List subscriptions with 24h delivery counts
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const subscriptions = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.organizationId, id))
+      .orderBy(desc(webhookSubscriptions.createdAt));
+
+    const counts = subscriptions.length > 0
+      ? await db
+          .select({
+            subscriptionId: webhookDeliveries.subscriptionId,
+            status: webhookDeliveries.status,
+            count: sql<number>`count(*)`.mapWith(Number),
+          })
+          .from(webhookDeliveries)
+          .where(
+            and(
+              inArray(webhookDeliveries.subscriptionId, subscriptions.map((s) => s.id)),
+              gte(webhookDeliveries.createdAt, new Date(Date.now() - STATS_WINDOW_MS))
+            )
+          )
+          .groupBy(webhookDeliveries.subscriptionId, webhookDeliveries.status)
+      : [];
+
+    return NextResponse.json({
+      data: subscriptions.map((subscription) => {
+        const stats = { delivered: 0, pending: 0, failed: 0 };
+        for (const row of counts.filter((c) => c.subscriptionId === subscription.id)) {
+          // In-flight deliveries count as pending
+          const key = row.status === 'delivering' ? 'pending' : row.status;
+          stats[key] += row.count;
+        }
+        return { ...subscription, stats };
+      }),
+    });
+  } catch (error) {
+    console.error('[Webhook Subscriptions API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch webhook subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations/[id]/webhook-subscriptions - Subscribe an endpoint to events
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+    const body = await req.json();
+
+    const validation = validateRequest(createWebhookSubscriptionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [organization] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, id))
+      .limit(1);
+
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const [subscription] = await db
+      .insert(webhookSubscriptions)
+      .values({
+        organizationId: id,
+        url: validation.data.url,
+        secret: generateWebhookSecret(),
+        events: validation.data.events,
+        description: validation.data.description || null,
+      })
+      .returning();
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'create',
+      entityType: 'webhook_subscription',
+      entityId: subscription.id,
+      details: { organizationId: id, url: subscription.url, events: subscription.events },
+    });
+
+    return NextResponse.json({ data: subscription }, { status: 201 });
+  } catch (error) {
+    console.error('[Webhook Subscriptions API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create webhook subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { db } from '@/db';
 import { outboundCampaigns, outboundContacts, users } from '@/db/schema';
 import { eq, and, desc, sql } from 'drizzle-orm';
+import { findDncNumbers } from '@/services/dnc';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -158,9 +159,16 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
 
     const existingPhones = new Set(existingContacts.map((c) => c.phoneNumber));
 
+    // Checked again here since numbers may have been listed after the preview
+    const dncNumbers = await findDncNumbers(
+      contacts.map((contact) => contact.phoneNumber),
+      campaign.organizationId
+    );
+
     // Prepare contacts for insertion
     const newContacts = [];
     const duplicates = [];
+    let dncSkipped = 0;
 
     for (const contact of contacts) {
       if (existingPhones.has(contact.phoneNumber)) {
@@ -168,6 +176,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         continue;
       }
 
+      if (dncNumbers.has(contact.phoneNumber)) {
+        dncSkipped++;
+        continue;
+      }
+
       existingPhones.add(contact.phoneNumber);
 
       newContacts.push({
@@ -178,6 +191,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         email: contact.email || null,
         areaCode: contact.areaCode || null,
         timezone: contact.timezone || null,
+        state: contact.state || null,
         customFields: contact.customFields || null,
         status: 'pending' as const,
       });
@@ -210,6 +224,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     return NextResponse.json({
       inserted,
       duplicates: duplicates.length,
+      dnc: dncSkipped,
       total: totalContacts,
     });
   } catch (error) {
@@ -8,8 +8,11 @@ import {
   parseExcel,
   processContacts,
   suggestFieldMappings,
+  normalizePhoneNumber,
+  validatePhoneNumber,
   FieldMapping,
 } from '@/services/contact-upload-service';
+import { findDncNumbers } from '@/services/dnc';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -133,8 +136,13 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         );
       }
 
-      // Process contacts
-      const result = processContacts(rows, mapping, headers);
+      // Process contacts, setting aside numbers on the Do-Not-Call list
+      const candidatePhones = rows
+        .map((row) => row[mapping.phoneNumber] || '')
+        .filter((phone) => validatePhoneNumber(phone).isValid)
+        .map(normalizePhoneNumber);
+      const dncNumbers = await findDncNumbers(candidatePhones, campaign.organizationId);
+      const result = processContacts(rows, mapping, headers, dncNumbers);
 
       return NextResponse.json({
         step: 'preview',
@@ -142,9 +150,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         validContacts: result.validContacts.length,
         invalidContacts: result.invalidContacts.length,
         duplicates: result.duplicates.length,
+        dncContacts: result.dncContacts.length,
         validPreview: result.validContacts.slice(0, 10),
         invalidPreview: result.invalidContacts.slice(0, 10),
         duplicatePreview: result.duplicates.slice(0, 10),
+        dncPreview: result.dncContacts.slice(0, 10),
         contacts: result.validContacts, // Full list for import
       });
     }
@@ -9,7 +9,9 @@ import {
   users,
   organizations,
 } from '@/db/schema';
-import { eq, and, count } from 'drizzle-orm';
+import { eq, and, count, sql } from 'drizzle-orm';
+import { isValidDateKey } from '@/lib/calling-windows';
+import { isVoiceProviderAllowed, isVoiceProviderName } from '@/lib/voice-providers';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -49,6 +51,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         description: outboundCampaigns.description,
         webhookUuid: outboundCampaigns.webhookUuid,
         status: outboundCampaigns.status,
+        voiceProvider: outboundCampaigns.voiceProvider,
         vapiAssistantId: outboundCampaigns.vapiAssistantId,
         vapiPhoneNumberId: outboundCampaigns.vapiPhoneNumberId,
         vapiPhoneNumber: outboundCampaigns.vapiPhoneNumber,
@@ -56,7 +59,10 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         maxConcurrentCalls: outboundCampaigns.maxConcurrentCalls,
         maxRetries: outboundCampaigns.maxRetries,
         retryDelayHours: outboundCampaigns.retryDelayHours,
+        blackoutDates: outboundCampaigns.blackoutDates,
         aiExtractionHints: outboundCampaigns.aiExtractionHints,
+        hasWebhookSecret: sql<boolean>`${outboundCampaigns.webhookSecret} is not null`,
+        webhookSecretPreviousExpiresAt: outboundCampaigns.webhookSecretPreviousExpiresAt,
         totalContacts: outboundCampaigns.totalContacts,
         contactsCalled: outboundCampaigns.contactsCalled,
         contactsAnswered: outboundCampaigns.contactsAnswered,
@@ -162,7 +168,19 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
     if (body.name !== undefined) updates.name = body.name?.trim();
     if (body.description !== undefined) updates.description = body.description?.trim() || null;
 
-    // Step 2/3: VAPI config
+    // Step 2/3: Voice provider config; in-flight calls are tracked with the provider they started on
+    if (body.voiceProvider !== undefined && body.voiceProvider !== existing.voiceProvider) {
+      if (!isVoiceProviderName(body.voiceProvider) || !isVoiceProviderAllowed(body.voiceProvider)) {
+        return NextResponse.json({ error: 'Unknown voice provider' }, { status: 400 });
+      }
+      if (existing.status !== 'draft') {
+        return NextResponse.json(
+          { error: 'The voice provider can only be changed while the campaign is a draft' },
+          { status: 400 }
+        );
+      }
+      updates.voiceProvider = body.voiceProvider;
+    }
     if (body.vapiAssistantId !== undefined) updates.vapiAssistantId = body.vapiAssistantId;
     if (body.vapiPhoneNumberId !== undefined) updates.vapiPhoneNumberId = body.vapiPhoneNumberId;
     if (body.vapiPhoneNumber !== undefined) updates.vapiPhoneNumber = body.vapiPhoneNumber;
@@ -171,6 +189,18 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
     if (body.maxConcurrentCalls !== undefined) updates.maxConcurrentCalls = body.maxConcurrentCalls;
     if (body.maxRetries !== undefined) updates.maxRetries = body.maxRetries;
     if (body.retryDelayHours !== undefined) updates.retryDelayHours = body.retryDelayHours;
+    if (body.blackoutDates !== undefined) {
+      if (
+        !Array.isArray(body.blackoutDates) ||
+        !body.blackoutDates.every((date: unknown) => typeof date === 'string' && isValidDateKey(date))
+      ) {
+        return NextResponse.json(
+          { error: 'Blackout dates must be YYYY-MM-DD dates' },
+          { status: 400 }
+        );
+      }
+      updates.blackoutDates = [...new Set<string>(body.blackoutDates)].sort();
+    }
 
     // Step 6: SMS/Twilio
     if (body.twilioPhoneNumber !== undefined) updates.twilioPhoneNumber = body.twilioPhoneNumber;
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { db } from '@/db';
 import { outboundCampaigns, outboundSchedules, users } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { isValidTimezone, parseTimeOfDay } from '@/lib/calling-windows';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -153,12 +154,28 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         );
       }
 
+      const start = parseTimeOfDay(schedule.startTime);
+      const end = parseTimeOfDay(schedule.endTime);
+      if (start === null || end === null || start >= end) {
+        return NextResponse.json(
+          { error: 'Each window must end after it starts' },
+          { status: 400 }
+        );
+      }
+
       if (!schedule.timezone || typeof schedule.timezone !== 'string') {
         return NextResponse.json(
           { error: 'Timezone is required for each schedule' },
           { status: 400 }
         );
       }
+
+      if (!isValidTimezone(schedule.timezone)) {
+        return NextResponse.json(
+          { error: `Unknown timezone: ${schedule.timezone}` },
+          { status: 400 }
+        );
+      }
     }
 
     // Delete existing schedules
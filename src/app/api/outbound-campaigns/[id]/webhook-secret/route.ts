@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { outboundCampaigns, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { rotateWebhookSecret } from '@/lib/webhook-signature';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/outbound-campaigns/[id]/webhook-secret - Generate or rotate the signing secret
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [campaign] = await db
+      .select()
+      .from(outboundCampaigns)
+      .where(eq(outboundCampaigns.id, id))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const secretFields = rotateWebhookSecret(campaign);
+
+    await db
+      .update(outboundCampaigns)
+      .set({ ...secretFields, updatedAt: new Date() })
+      .where(eq(outboundCampaigns.id, id));
+
+    // Log the action (never the secret itself)
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: campaign.webhookSecret ? 'rotate_webhook_secret' : 'create_webhook_secret',
+      entityType: 'outbound_campaign',
+      entityId: id,
+      details: {
+        previousSecretExpiresAt: secretFields.webhookSecretPreviousExpiresAt,
+      },
+    });
+
+    // The secret is only returned here; campaign reads mask it
+    return NextResponse.json({
+      data: {
+        webhookSecret: secretFields.webhookSecret,
+        previousSecretExpiresAt: secretFields.webhookSecretPreviousExpiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('[Outbound Webhook Secret API] Rotate error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rotate webhook secret' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/outbound-campaigns/[id]/webhook-secret - Turn off signature verification
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [updated] = await db
+      .update(outboundCampaigns)
+      .set({
+        webhookSecret: null,
+        webhookSecretPrevious: null,
+        webhookSecretPreviousExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(outboundCampaigns.id, id))
+      .returning({ id: outboundCampaigns.id });
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'delete_webhook_secret',
+      entityType: 'outbound_campaign',
+      entityId: id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Outbound Webhook Secret API] Delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove webhook secret' },
+      { status: 500 }
+    );
+  }
+}
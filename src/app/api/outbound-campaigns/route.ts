@@ -4,6 +4,7 @@ import { db } from '@/db';
 import { outboundCampaigns, users, organizations } from '@/db/schema';
 import { eq, desc, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { isVoiceProviderAllowed, isVoiceProviderName } from '@/lib/voice-providers';
 
 // GET - List outbound campaigns
 export async function GET(req: NextRequest) {
@@ -98,7 +99,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { name, description, organizationId } = body;
+    const { name, description, organizationId, voiceProvider = 'vapi' } = body;
 
     if (!name || typeof name !== 'string') {
       return NextResponse.json(
@@ -114,6 +115,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (!isVoiceProviderName(voiceProvider) || !isVoiceProviderAllowed(voiceProvider)) {
+      return NextResponse.json(
+        { error: 'Unknown voice provider' },
+        { status: 400 }
+      );
+    }
+
     // Verify organization exists
     const [org] = await db
       .select()
@@ -135,6 +143,7 @@ export async function POST(req: NextRequest) {
         organizationId,
         name: name.trim(),
         description: description?.trim() || null,
+        voiceProvider,
         webhookUuid: uuidv4(),
         status: 'draft',
         currentStep: 1,
@@ -1,33 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { outboundCampaigns, outboundContacts, outboundCallLogs, smsTriggers } from '@/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
-import { mapVapiStatusToResult, calculateCallDuration, formatVapiTranscript, VapiCall } from '@/services/vapi-service';
+import { outboundCampaigns, outboundContacts, outboundCallLogs, smsTriggers, webhookErrorLogs, organizations } from '@/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
 import { analyzePayload, evaluateTriggers } from '@/services/ai-processor';
 import { sendSms, normalizePhoneNumber } from '@/services/sms-service';
+import { verifyWebhookSignature, getSignedUrl, TWILIO_SIGNATURE_HEADER } from '@/lib/webhook-signature';
+import { limitWebhookRequest } from '@/lib/rate-limit';
+import { getCampaignTwilioCredentials } from '@/services/credential-vault';
+import { recordAiUsage, recordVoiceCallUsage } from '@/services/usage-ledger';
+import type { AiUsage } from '@/services/ai-providers';
+import { buildTemplateVariables, renderSmsTemplate } from '@/lib/sms-template';
+import { filterFireableTriggers, recordTriggerFiring } from '@/services/sms-trigger-firings';
+import { runTriggerActions } from '@/services/trigger-actions';
+import { publishEvent } from '@/services/event-webhooks';
+import { settleCall, completeCampaignIfDone } from '@/services/outbound-dialer';
+import type { SettledCall } from '@/services/outbound-dialer';
+import { getVoiceProvider } from '@/services/voice-providers';
 
 type RouteParams = {
   params: Promise<{ campaignUuid: string }>;
 };
 
-interface VapiWebhookPayload {
-  type: string;
-  call?: VapiCall;
-  message?: {
-    type: string;
-    role?: string;
-    transcript?: string;
-    endedReason?: string;
-    call?: VapiCall;
-  };
-}
-
-// POST - Handle VAPI webhook events
+// POST - Handle call events from the campaign's voice provider
 export async function POST(req: NextRequest, { params }: RouteParams) {
   const { campaignUuid } = await params;
 
+  const limited = await limitWebhookRequest(req.headers, 'outbound-webhook', campaignUuid);
+  if (limited) {
+    return limited;
+  }
+
   try {
-    const payload: VapiWebhookPayload = await req.json();
+    const rawBody = await req.text();
+    const payload: unknown = JSON.parse(rawBody);
 
     // Find campaign by webhook UUID
     const [campaign] = await db
@@ -40,15 +45,38 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
     }
 
-    // Handle different webhook event types
-    const eventType = payload.type || payload.message?.type;
-    const callData = payload.call || payload.message?.call;
+    // Reject spoofed call events once the campaign has a signing secret
+    const verification = verifyWebhookSignature({
+      campaign,
+      headers: req.headers,
+      rawBody,
+      url: getSignedUrl(req.url),
+      // Only Twilio-signed requests need the campaign's Twilio auth token
+      twilioAuthToken: req.headers.has(TWILIO_SIGNATURE_HEADER)
+        ? (await getCampaignTwilioCredentials(campaign))?.authToken
+        : null,
+    });
+
+    if (!verification.valid) {
+      // webhook_error_logs.campaign_id references inbound campaigns only
+      await db.insert(webhookErrorLogs).values({
+        campaignId: null,
+        rawBody: rawBody.substring(0, 10000),
+        errorType: 'invalid_signature',
+        errorMessage: `Outbound campaign ${campaign.id}: ${verification.reason}`,
+      });
+
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    // Each provider shapes its events differently; all report the call they're about
+    const callData = getVoiceProvider(campaign.voiceProvider).parseWebhook(payload);
 
-    if (!callData || !callData.id) {
+    if (!callData) {
       return NextResponse.json({ received: true, skipped: 'No call data' });
     }
 
-    // Find the call log by VAPI call ID
+    // Find the call log by the provider's call ID
     const [callLog] = await db
       .select()
       .from(outboundCallLogs)
@@ -61,50 +89,29 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     }
 
     // Handle call ended event
-    if (eventType === 'end-of-call-report' || eventType === 'call-ended' || callData.status === 'ended') {
-      const callResult = mapVapiStatusToResult(callData);
-      const durationSeconds = calculateCallDuration(callData);
-      const transcript = callData.transcript || formatVapiTranscript(callData.messages);
-
-      // Get AI summary and analysis
-      let aiSummary = callData.analysis?.summary || callData.summary;
-      let aiExtractedData = callData.analysis?.structuredData;
+    if (callData.ended) {
+      const callResult = callData.result ?? 'failed';
+      const { durationSeconds, transcript } = callData;
+      const formattedMessages = callData.messages;
 
-      // If no AI analysis from VAPI, run our own
-      if (!aiSummary && transcript) {
-        try {
-          const analysis = await analyzePayload(
-            { transcript, callResult, customerNumber: callData.customer?.number },
-            campaign.aiExtractionHints as Record<string, string> | undefined
-          );
-          aiSummary = analysis.extractedData.summary;
-          aiExtractedData = analysis.extractedData as Record<string, unknown>;
-        } catch {
-          // Ignore analysis errors
-        }
-      }
-
-      // Update call log
-      // Transform messages to expected format
-      const formattedMessages = callData.messages?.map(m => ({
-        role: m.role,
-        content: m.message || '',
-      })) || null;
-
-      await db
+      // Record the outcome on the call log; a repeated or concurrent delivery finds endedAt set and stops here
+      const [endedLog] = await db
         .update(outboundCallLogs)
         .set({
           callResult,
           durationSeconds,
           transcript,
           transcriptFormatted: formattedMessages,
-          recordingUrl: callData.recordingUrl || callData.artifact?.recordingUrl,
-          aiSummary,
-          aiExtractedData,
-          rawPayload: callData as unknown as Record<string, unknown>,
-          endedAt: callData.endedAt ? new Date(callData.endedAt) : new Date(),
+          recordingUrl: callData.recordingUrl,
+          rawPayload: callData.raw,
+          endedAt: callData.endedAt ?? new Date(),
         })
-        .where(eq(outboundCallLogs.id, callLog.id));
+        .where(and(eq(outboundCallLogs.id, callLog.id), isNull(outboundCallLogs.endedAt)))
+        .returning({ id: outboundCallLogs.id });
+
+      if (!endedLog) {
+        return NextResponse.json({ received: true, skipped: 'Call already processed' });
+      }
 
       // Update contact status
       const [contact] = await db
@@ -113,72 +120,95 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         .where(eq(outboundContacts.id, callLog.contactId))
         .limit(1);
 
-      if (contact) {
-        let newStatus: typeof contact.status = 'completed';
-        let nextAttemptAt: Date | null = null;
-
-        // Determine if we should retry
-        if (callResult !== 'answered' && contact.attemptCount < campaign.maxRetries + 1) {
-          newStatus = 'queued';
-          nextAttemptAt = new Date(Date.now() + campaign.retryDelayHours * 60 * 60 * 1000);
+      // Null when this attempt was already settled, by an earlier event or the reaper
+      let settled: SettledCall | null | undefined;
+      try {
+        settled = contact && await settleCall(campaign, contact, {
+          attemptNumber: callLog.attemptNumber,
+          callResult,
+          durationSeconds,
+          transcript,
+          messages: formattedMessages,
+        });
+      } catch (settleError) {
+        // Release the call log so the provider's redelivery settles the contact and records any DNC request
+        await db
+          .update(outboundCallLogs)
+          .set({ endedAt: null })
+          .where(eq(outboundCallLogs.id, callLog.id));
+        throw settleError;
+      }
 
-          // Map VAPI result to contact status
-          if (callResult === 'no_answer') newStatus = 'no_answer' as typeof newStatus;
-          else if (callResult === 'busy') newStatus = 'busy' as typeof newStatus;
-          else if (callResult === 'voicemail') newStatus = 'voicemail' as typeof newStatus;
-          else if (callResult === 'failed') newStatus = 'failed' as typeof newStatus;
+      // Get AI summary and analysis
+      let aiSummary = callData.summary;
+      let aiExtractedData = callData.structuredData;
+
+      const usageContext = {
+        organizationId: campaign.organizationId,
+        outboundCampaignId: campaign.id,
+        outboundCallLogId: callLog.id,
+      };
+
+      await recordVoiceCallUsage({
+        provider: campaign.voiceProvider,
+        costUsd: callData.costUsd,
+        durationSeconds,
+        breakdown: callData.costBreakdown,
+      }, usageContext);
+
+      // If the provider didn't analyze the call, run our own
+      if (!aiSummary && transcript) {
+        const aiUsage: AiUsage[] = [];
+        try {
+          const analysis = await analyzePayload(
+            { transcript, callResult, customerNumber: callData.customerNumber },
+            {
+              extractionHints: campaign.aiExtractionHints as Record<string, string> | undefined,
+              model: campaign.aiModel,
+              onUsage: (usage) => aiUsage.push(usage),
+            }
+          );
+          aiSummary = analysis.extractedData.summary;
+          aiExtractedData = analysis.extractedData as Record<string, unknown>;
+        } catch {
+          // Ignore analysis errors
         }
+        await recordAiUsage('ai_analysis', aiUsage, usageContext);
+      }
 
-        await db
-          .update(outboundContacts)
-          .set({
-            status: newStatus,
-            callResult,
-            callDurationSeconds: durationSeconds,
-            nextAttemptAt,
-            updatedAt: new Date(),
-          })
-          .where(eq(outboundContacts.id, contact.id));
-
-        // Update campaign stats
-        const isAnswered = callResult === 'answered';
-        const isFailed = (newStatus as string) === 'failed' || (callResult !== 'answered' && contact.attemptCount >= campaign.maxRetries);
+      await db
+        .update(outboundCallLogs)
+        .set({ aiSummary, aiExtractedData })
+        .where(eq(outboundCallLogs.id, callLog.id));
 
-        await db
-          .update(outboundCampaigns)
-          .set({
-            contactsCalled: sql`${outboundCampaigns.contactsCalled} + 1`,
-            contactsAnswered: isAnswered
-              ? sql`${outboundCampaigns.contactsAnswered} + 1`
-              : outboundCampaigns.contactsAnswered,
-            contactsFailed: isFailed
-              ? sql`${outboundCampaigns.contactsFailed} + 1`
-              : outboundCampaigns.contactsFailed,
-            updatedAt: new Date(),
-          })
-          .where(eq(outboundCampaigns.id, campaign.id));
-
-        // Handle SMS triggers for answered calls
-        if (callResult === 'answered' && transcript && campaign.twilioPhoneNumber) {
+      if (contact && settled) {
+        const { status: newStatus, dncRequest } = settled;
+
+        // Handle SMS triggers and their actions for answered calls
+        if (callResult === 'answered' && transcript && !dncRequest) {
           try {
-            // Get active triggers for this campaign
-            const activeTriggers = await db
-              .select()
-              .from(smsTriggers)
-              .where(
-                and(
-                  eq(smsTriggers.campaignId, campaign.id),
-                  eq(smsTriggers.isActive, true)
+            // Get active triggers for this campaign; without a Twilio number only their actions can run
+            const activeTriggers = (
+              await db
+                .select()
+                .from(smsTriggers)
+                .where(
+                  and(
+                    eq(smsTriggers.campaignId, campaign.id),
+                    eq(smsTriggers.isActive, true)
+                  )
                 )
-              );
+            ).filter((t) => (campaign.twilioPhoneNumber && t.smsMessage) || (t.actions?.length ?? 0) > 0);
 
             if (activeTriggers.length > 0) {
-              const firedTriggers = (contact.smsTriggersfred as string[]) || [];
-              const eligibleTriggers = activeTriggers.filter(
-                (t) => !firedTriggers.includes(t.id)
+              const eligibleTriggers = await filterFireableTriggers(
+                activeTriggers,
+                { outboundContactId: contact.id },
+                callLog.id
               );
 
               if (eligibleTriggers.length > 0) {
+                const triggerUsage: AiUsage[] = [];
                 const matchedTriggerIds = await evaluateTriggers(
                   transcript,
                   aiSummary || '',
@@ -186,22 +216,63 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
                     id: t.id,
                     intentDescription: t.intentDescription,
                     priority: t.priority,
-                  }))
+                  })),
+                  { model: campaign.aiModel, onUsage: (usage) => triggerUsage.push(usage) }
                 );
+                await recordAiUsage('ai_trigger_evaluation', triggerUsage, usageContext);
+
+                const [organization] = await db
+                  .select({ name: organizations.name })
+                  .from(organizations)
+                  .where(eq(organizations.id, campaign.organizationId))
+                  .limit(1);
+
+                const variables = buildTemplateVariables({
+                  campaignName: campaign.name,
+                  organizationName: organization?.name,
+                  phoneNumber: contact.phoneNumber,
+                  contact,
+                  extractedData: aiExtractedData,
+                });
 
                 for (const triggerId of matchedTriggerIds) {
                   const trigger = eligibleTriggers.find((t) => t.id === triggerId);
                   if (!trigger) continue;
 
-                  await sendSms({
-                    toNumber: normalizePhoneNumber(contact.phoneNumber),
-                    fromNumber: campaign.twilioPhoneNumber!,
-                    message: trigger.smsMessage,
-                    interactionId: callLog.id, // Using call log ID as interaction
+                  let smsResult: Awaited<ReturnType<typeof sendSms>> | null = null;
+                  if (trigger.smsMessage && campaign.twilioPhoneNumber) {
+                    smsResult = await sendSms({
+                      toNumber: normalizePhoneNumber(contact.phoneNumber),
+                      fromNumber: campaign.twilioPhoneNumber,
+                      message: renderSmsTemplate(trigger.smsMessage, variables).text,
+                      interactionId: callLog.id, // Using call log ID as interaction
+                      triggerId: trigger.id,
+                      contactId: contact.id,
+                      organizationId: campaign.organizationId,
+                    });
+                  }
+
+                  const actionResults = await runTriggerActions(trigger, {
+                    campaign,
+                    interactionId: null,
+                    outboundCallLogId: callLog.id,
+                    phoneNumber: contact.phoneNumber,
+                    summary: aiSummary,
+                    extractedData: aiExtractedData ?? {},
+                    variables,
+                  });
+
+                  if (!smsResult?.success && actionResults.succeeded === 0) continue;
+
+                  await recordTriggerFiring({
                     triggerId: trigger.id,
-                    contactId: contact.id,
+                    outboundContactId: contact.id,
+                    outboundCallLogId: callLog.id,
+                    smsLogId: smsResult?.smsLogId,
                   });
 
+                  if (!smsResult?.success) continue;
+
                   // Update call log with SMS info
                   await db
                     .update(outboundCallLogs)
@@ -213,39 +284,37 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
                 }
               }
             }
-          } catch {
-            // Ignore SMS errors
+          } catch (triggerError) {
+            console.error('Outbound trigger evaluation error:', triggerError);
           }
         }
 
-        // Check if campaign is complete
-        const [{ pending }] = await db
-          .select({ pending: sql<number>`count(*)::int` })
-          .from(outboundContacts)
-          .where(
-            and(
-              eq(outboundContacts.campaignId, campaign.id),
-              sql`${outboundContacts.status} NOT IN ('completed', 'failed', 'dnc', 'skipped')`
-            )
-          );
-
-        if (pending === 0) {
-          await db
-            .update(outboundCampaigns)
-            .set({
-              status: 'completed',
-              completedAt: new Date(),
-              updatedAt: new Date(),
-            })
-            .where(eq(outboundCampaigns.id, campaign.id));
-        }
+        await publishEvent(campaign.organizationId, 'outbound_call.completed', {
+          callLogId: callLog.id,
+          outboundCampaignId: campaign.id,
+          campaignName: campaign.name,
+          contactId: contact.id,
+          phoneNumber: contact.phoneNumber,
+          firstName: contact.firstName,
+          lastName: contact.lastName,
+          callResult,
+          durationSeconds,
+          recordingUrl: callData.recordingUrl ?? null,
+          summary: aiSummary ?? null,
+          extractedData: aiExtractedData ?? null,
+          willRetry: newStatus === 'queued',
+          attemptCount: contact.attemptCount,
+        });
+
+        await completeCampaignIfDone(campaign.id);
       }
     }
 
     return NextResponse.json({ received: true });
   } catch (error) {
     console.error('Outbound webhook error:', error);
-    return NextResponse.json({ received: true, error: 'Processing failed' });
+    // A server error makes the provider redeliver the event
+    return NextResponse.json({ received: false, error: 'Processing failed' }, { status: 500 });
   }
 }
 
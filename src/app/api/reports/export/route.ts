@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { interactions, campaigns, smsLogs } from '@/db/schema';
+import type { Campaign } from '@/db/schema';
 import { eq, and, gte, lte, inArray, desc } from 'drizzle-orm';
 import { requireFullAuth } from '@/lib/auth';
 import { formatDateTime, formatDuration, formatPhoneNumber } from '@/lib/utils';
+import {
+  parseExtractedFieldParams,
+  getExtractedFieldValue,
+  formatExtractedFieldValue,
+} from '@/lib/extracted-field-params';
+import { extractedFieldConditions, extractedFieldOrderBy, discoverExtractedFields } from '@/services/extracted-fields';
 
 // Escape CSV cell to prevent formula injection
 // Excel/Sheets interpret cells starting with =, +, -, @, tab, CR as formulas
@@ -18,6 +25,31 @@ function escapeCsvCell(value: string): string {
   return escaped;
 }
 
+// Custom field columns: the campaign's schema and discovered fields for a
+// single-campaign export, otherwise every key present in the exported rows
+async function getExportFieldNames(
+  campaign: Campaign | undefined,
+  data: Array<{ aiExtractedData: Record<string, unknown> | null }>
+): Promise<string[]> {
+  const names = campaign
+    ? (await discoverExtractedFields(campaign)).map((f) => f.name)
+    : [];
+  const seen = new Set(names);
+
+  for (const row of data) {
+    const customFields = row.aiExtractedData?.customFields;
+    if (!customFields || typeof customFields !== 'object' || Array.isArray(customFields)) continue;
+    for (const key of Object.keys(customFields)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        names.push(key);
+      }
+    }
+  }
+
+  return names;
+}
+
 // GET /api/reports/export - Export interactions as CSV
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +62,7 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     const format = searchParams.get('format') || 'csv';
+    const { filters: fieldFilters, sort: fieldSort } = parseExtractedFieldParams(searchParams);
 
     // Build date range
     const start = startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
@@ -73,6 +106,8 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(interactions.campaignId, campaignId));
     }
 
+    conditions.push(...extractedFieldConditions(fieldFilters));
+
     // Fetch interactions with campaign data
     const data = await db.query.interactions.findMany({
       where: and(...conditions),
@@ -83,11 +118,15 @@ export async function GET(request: NextRequest) {
           },
         },
       },
-      orderBy: [desc(interactions.createdAt)],
+      orderBy: fieldSort
+        ? [...extractedFieldOrderBy(fieldSort), desc(interactions.createdAt)]
+        : [desc(interactions.createdAt)],
       limit: 10000, // Max 10k records for export
     });
 
     if (format === 'csv') {
+      const customFieldNames = await getExportFieldNames(campaignId ? data[0]?.campaign : undefined, data);
+
       // Generate CSV
       const headers = [
         'ID',
@@ -101,7 +140,10 @@ export async function GET(request: NextRequest) {
         'Duration (seconds)',
         'AI Summary',
         'Flagged',
+        'Sentiment',
+        'Quality Score',
         'Tags',
+        ...customFieldNames.map((name) => escapeCsvCell(name)),
       ];
 
       const rows = data.map((interaction) => [
@@ -116,7 +158,12 @@ export async function GET(request: NextRequest) {
         escapeCsvCell(interaction.durationSeconds?.toString() || ''),
         escapeCsvCell(interaction.aiSummary || ''),
         escapeCsvCell(interaction.flagged ? 'Yes' : 'No'),
+        escapeCsvCell(interaction.sentiment || ''),
+        escapeCsvCell(interaction.qualityScore?.toString() || ''),
         escapeCsvCell(interaction.tags?.join(', ') || ''),
+        ...customFieldNames.map((name) =>
+          escapeCsvCell(formatExtractedFieldValue(getExtractedFieldValue(interaction.aiExtractedData, name)))
+        ),
       ]);
 
       const csvContent = [
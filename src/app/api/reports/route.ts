@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { interactions, campaigns, organizations, smsLogs } from '@/db/schema';
 import { eq, and, gte, lte, sql, count, inArray, desc } from 'drizzle-orm';
 import { requireFullAuth } from '@/lib/auth';
+import { getUsageRollup } from '@/services/usage-ledger';
 
 // GET /api/reports - Generate report data
 export async function GET(request: NextRequest) {
@@ -133,7 +134,7 @@ export async function GET(request: NextRequest) {
       const [smsSent, smsDelivered, smsFailed] = await Promise.all([
         db.select({ count: count() }).from(smsLogs).where(and(...smsConditions)),
         db.select({ count: count() }).from(smsLogs).where(and(...smsConditions, eq(smsLogs.status, 'delivered'))),
-        db.select({ count: count() }).from(smsLogs).where(and(...smsConditions, eq(smsLogs.status, 'failed'))),
+        db.select({ count: count() }).from(smsLogs).where(and(...smsConditions, inArray(smsLogs.status, ['failed', 'undelivered']))),
       ]);
 
       const completionRate = totalCalls[0]?.count > 0
@@ -171,6 +172,22 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    if (reportType === 'usage') {
+      // AI tokens and voice call costs from the usage ledger
+      const organizationIds = user.role === 'client_user'
+        ? [user.organizationId!]
+        : organizationId ? [organizationId] : undefined;
+
+      const usage = await getUsageRollup({ start, end, organizationIds, campaignId });
+
+      return NextResponse.json({
+        data: {
+          ...usage,
+          dateRange: { start: start.toISOString(), end: end.toISOString() },
+        },
+      });
+    }
+
     return NextResponse.json({ error: 'Invalid report type' }, { status: 400 });
   } catch (error) {
     console.error('[Reports API] GET error:', error);
@@ -25,7 +25,7 @@ export async function GET(
     log.info('Fetching enrollment data', { userId: salesUser.id, campaignId });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-enroll-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-enroll-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -115,7 +115,7 @@ export async function POST(
     log.info('Enrolling leads in campaign', { userId: salesUser.id, campaignId });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(salesUser.id, 'sales-enroll-post', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-enroll-post', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
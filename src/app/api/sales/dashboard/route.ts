@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching dashboard', { userId: salesUser.id, accessType: salesUser.accessType, isObserver });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-dashboard-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-dashboard-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -15,7 +15,7 @@ export async function POST(request: NextRequest) {
     log.info('Dismissing welcome message', { userId: salesUser.id, accessType: salesUser.accessType });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-dismiss-welcome', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-dismiss-welcome', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
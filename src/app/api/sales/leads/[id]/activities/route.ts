@@ -26,7 +26,7 @@ export async function GET(
     log.info('Fetching activities', { userId: salesUser.id, leadId, isObserver });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-activities-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-activities-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -97,7 +97,7 @@ export async function POST(
     log.info('Creating activity', { userId: salesUser.id, leadId });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(salesUser.id, 'sales-activities-post', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-activities-post', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
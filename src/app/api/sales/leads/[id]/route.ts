@@ -28,7 +28,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     log.info('Fetching lead', { userId: salesUser.id, leadId: id, isObserver });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-lead-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-lead-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -103,7 +103,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     log.info('Updating lead', { userId: salesUser.id, leadId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(salesUser.id, 'sales-lead-put', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-lead-put', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -229,7 +229,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     log.info('Deleting lead', { userId: salesUser.id, leadId: id });
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(salesUser.id, 'sales-lead-delete', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-lead-delete', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
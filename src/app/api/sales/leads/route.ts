@@ -27,7 +27,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching leads', { userId: salesUser.id, accessType: salesUser.accessType, isObserver });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-leads-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-leads-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: salesUser.id });
       return rateLimit.response;
@@ -164,7 +164,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(salesUser.id, 'sales-leads-post', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-leads-post', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       log.warn('Rate limit exceeded', { userId: salesUser.id });
       return rateLimit.response;
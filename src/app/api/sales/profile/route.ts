@@ -15,7 +15,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching profile', { userId: salesUser.id, accessType: salesUser.accessType });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-profile-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-profile-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -107,7 +107,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Rate limiting for write operations
-    const rateLimit = withRateLimit(salesUser.id, 'sales-profile-put', RATE_LIMITS.write);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-profile-put', RATE_LIMITS.write);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -23,7 +23,7 @@ export async function GET(request: NextRequest) {
     log.info('Fetching resources', { userId: salesUser.id });
 
     // Rate limiting
-    const rateLimit = withRateLimit(salesUser.id, 'sales-resources-get', RATE_LIMITS.standard);
+    const rateLimit = await withRateLimit(salesUser.id, 'sales-resources-get', RATE_LIMITS.standard);
     if (!rateLimit.allowed) {
       return rateLimit.response;
     }
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { smsOptOuts, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/sms-opt-outs/[id] - Remove an opt-out so the number can be messaged again
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [removed] = await db
+      .delete(smsOptOuts)
+      .where(eq(smsOptOuts.id, id))
+      .returning();
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Opt-out not found' }, { status: 404 });
+    }
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'delete',
+      entityType: 'sms_opt_out',
+      entityId: id,
+      details: {
+        phoneNumber: removed.phoneNumber,
+        organizationId: removed.organizationId,
+        keyword: removed.keyword,
+      },
+    });
+
+    return NextResponse.json({ data: removed });
+  } catch (error) {
+    console.error('[SMS Opt-Outs API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove opt-out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { smsOptOuts, organizations, auditLogs } from '@/db/schema';
+import { and, desc, eq, ilike, isNull, SQL } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { createSmsOptOutSchema, validateRequest } from '@/lib/validations/sms';
+import { normalizePhoneNumber, validatePhoneNumber } from '@/services/sms-service';
+import { optOutNumber } from '@/services/sms-opt-out';
+
+// GET /api/sms-opt-outs - List opt-outs (organizationId=global for global opt-outs only)
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const searchParams = request.nextUrl.searchParams;
+    const search = searchParams.get('search');
+    const organizationId = searchParams.get('organizationId');
+
+    const conditions: SQL[] = [];
+    if (search) {
+      conditions.push(ilike(smsOptOuts.phoneNumber, `%${search.replace(/[^\d+]/g, '')}%`));
+    }
+    if (organizationId === 'global') {
+      conditions.push(isNull(smsOptOuts.organizationId));
+    } else if (organizationId) {
+      conditions.push(eq(smsOptOuts.organizationId, organizationId));
+    }
+
+    const data = await db
+      .select({
+        id: smsOptOuts.id,
+        phoneNumber: smsOptOuts.phoneNumber,
+        organizationId: smsOptOuts.organizationId,
+        organizationName: organizations.name,
+        keyword: smsOptOuts.keyword,
+        source: smsOptOuts.source,
+        createdAt: smsOptOuts.createdAt,
+      })
+      .from(smsOptOuts)
+      .leftJoin(organizations, eq(smsOptOuts.organizationId, organizations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(smsOptOuts.createdAt))
+      .limit(500);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('[SMS Opt-Outs API] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch opt-outs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sms-opt-outs - Opt a number out manually
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    const body = await request.json();
+
+    const validation = validateRequest(createSmsOptOutSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const phoneNumber = normalizePhoneNumber(validation.data.phoneNumber);
+    if (!validatePhoneNumber(phoneNumber)) {
+      return NextResponse.json({ error: 'Invalid phone number' }, { status: 400 });
+    }
+
+    await optOutNumber({
+      phoneNumber,
+      organizationId: validation.data.organizationId,
+      source: 'manual',
+      createdBy: admin.id,
+    });
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'create',
+      entityType: 'sms_opt_out',
+      details: { phoneNumber, organizationId: validation.data.organizationId },
+    });
+
+    return NextResponse.json({ data: { phoneNumber, organizationId: validation.data.organizationId } }, { status: 201 });
+  } catch (error) {
+    console.error('[SMS Opt-Outs API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to add opt-out' },
+      { status: 500 }
+    );
+  }
+}
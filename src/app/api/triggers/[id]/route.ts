@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { smsTriggers, auditLogs } from '@/db/schema';
+import type { SmsSequenceStep } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { requireAdmin } from '@/lib/auth';
+import { validateSmsTemplate } from '@/lib/sms-template';
+import { validateSmsSequence } from '@/lib/sms-sequence';
+import { validateRefirePolicy } from '@/lib/sms-trigger-policy';
+import { normalizeTriggerActions, validateTriggerActions, validateTriggerOutputs } from '@/lib/trigger-actions';
+import { cancelTriggerFollowUps } from '@/services/sms-sequences';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -52,7 +58,20 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Trigger not found' }, { status: 404 });
     }
 
-    const { name, intentDescription, smsMessage, priority, isActive } = body;
+    const {
+      name,
+      intentDescription,
+      smsMessage,
+      actions,
+      priority,
+      isActive,
+      followUpSteps,
+      quietHoursStart,
+      quietHoursEnd,
+      refirePolicy,
+      cooldownDays,
+      maxFires,
+    } = body;
 
     // Validate SMS message length if being updated
     if (smsMessage && smsMessage.length > 1600) {
@@ -62,6 +81,44 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const templateError = smsMessage ? validateSmsTemplate(smsMessage) : null;
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    const actionsError = validateTriggerActions(actions);
+    if (actionsError) {
+      return NextResponse.json({ error: actionsError }, { status: 400 });
+    }
+
+    const outputsError = validateTriggerOutputs({
+      smsMessage: smsMessage !== undefined ? smsMessage : existingTrigger.smsMessage,
+      actions: actions !== undefined ? actions : existingTrigger.actions,
+      followUpSteps: followUpSteps !== undefined ? followUpSteps : existingTrigger.followUpSteps,
+    });
+    if (outputsError) {
+      return NextResponse.json({ error: outputsError }, { status: 400 });
+    }
+
+    const sequenceError = validateSmsSequence({
+      followUpSteps: followUpSteps !== undefined ? followUpSteps : existingTrigger.followUpSteps,
+      quietHoursStart: quietHoursStart !== undefined ? quietHoursStart : existingTrigger.quietHoursStart,
+      quietHoursEnd: quietHoursEnd !== undefined ? quietHoursEnd : existingTrigger.quietHoursEnd,
+    });
+    if (sequenceError) {
+      return NextResponse.json({ error: sequenceError }, { status: 400 });
+    }
+
+    const policy = {
+      refirePolicy: refirePolicy !== undefined ? refirePolicy : existingTrigger.refirePolicy,
+      cooldownDays: cooldownDays !== undefined ? cooldownDays : existingTrigger.cooldownDays,
+      maxFires: maxFires !== undefined ? maxFires : existingTrigger.maxFires,
+    };
+    const policyError = validateRefirePolicy(policy);
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 });
+    }
+
     // Build update object
     const updateData: Partial<typeof smsTriggers.$inferInsert> = {
       updatedAt: new Date(),
@@ -69,9 +126,23 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     if (name !== undefined) updateData.name = name.trim();
     if (intentDescription !== undefined) updateData.intentDescription = intentDescription.trim();
-    if (smsMessage !== undefined) updateData.smsMessage = smsMessage.trim();
+    if (smsMessage !== undefined) updateData.smsMessage = smsMessage?.trim() || null;
+    if (actions !== undefined) updateData.actions = normalizeTriggerActions(actions);
     if (priority !== undefined) updateData.priority = priority;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (followUpSteps !== undefined) {
+      updateData.followUpSteps = (followUpSteps ?? []).map((step: SmsSequenceStep) => ({
+        delayMinutes: step.delayMinutes,
+        message: step.message.trim(),
+      }));
+    }
+    if (quietHoursStart !== undefined) updateData.quietHoursStart = quietHoursStart || null;
+    if (quietHoursEnd !== undefined) updateData.quietHoursEnd = quietHoursEnd || null;
+    if (refirePolicy !== undefined || cooldownDays !== undefined || maxFires !== undefined) {
+      updateData.refirePolicy = policy.refirePolicy;
+      updateData.cooldownDays = policy.refirePolicy === 'cooldown' ? policy.cooldownDays : null;
+      updateData.maxFires = policy.refirePolicy === 'max_count' ? policy.maxFires : null;
+    }
 
     // Update trigger
     const [updatedTrigger] = await db
@@ -80,6 +151,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       .where(eq(smsTriggers.id, id))
       .returning();
 
+    // Follow-ups already scheduled keep their text, but stop with the trigger
+    if (existingTrigger.isActive && isActive === false) {
+      await cancelTriggerFollowUps(id);
+    }
+
     // Log the action
     await db.insert(auditLogs).values({
       userId: admin.id,
@@ -87,13 +163,21 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       entityType: 'sms_trigger',
       entityId: id,
       details: {
-        changes: body,
+        // Webhook secrets stay out of the audit log
+        changes: actions !== undefined ? { ...body, actions: updateData.actions?.map((action) => action.type) } : body,
         previous: {
           name: existingTrigger.name,
           intentDescription: existingTrigger.intentDescription,
           smsMessage: existingTrigger.smsMessage,
+          actions: existingTrigger.actions?.map((action) => action.type) ?? [],
           priority: existingTrigger.priority,
           isActive: existingTrigger.isActive,
+          followUpSteps: existingTrigger.followUpSteps,
+          quietHoursStart: existingTrigger.quietHoursStart,
+          quietHoursEnd: existingTrigger.quietHoursEnd,
+          refirePolicy: existingTrigger.refirePolicy,
+          cooldownDays: existingTrigger.cooldownDays,
+          maxFires: existingTrigger.maxFires,
         },
       },
     });
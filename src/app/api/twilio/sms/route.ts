@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import twilio from 'twilio';
+import { db } from '@/db';
+import { webhookErrorLogs } from '@/db/schema';
+import { getSignedUrl, TWILIO_SIGNATURE_HEADER } from '@/lib/webhook-signature';
+import { normalizePhoneNumber, getTwilioAuthToken } from '@/services/sms-service';
+import { findCampaignsForNumber, handleInboundSms } from '@/services/inbound-sms';
+
+// POST /api/twilio/sms - Twilio inbound message webhook (set as the number's "A message comes in" URL)
+export async function POST(req: NextRequest) {
+  let rawBody = '';
+
+  try {
+    rawBody = await req.text();
+    const formParams = Object.fromEntries(new URLSearchParams(rawBody));
+
+    if (!formParams.From || !formParams.To) {
+      return NextResponse.json({ error: 'From and To are required' }, { status: 400 });
+    }
+
+    const from = normalizePhoneNumber(formParams.From);
+    const to = normalizePhoneNumber(formParams.To);
+    const senders = await findCampaignsForNumber(to);
+
+    // Twilio signs with the auth token of the account that owns the number
+    const authToken = await getTwilioAuthToken(formParams.AccountSid);
+    const signature = req.headers.get(TWILIO_SIGNATURE_HEADER);
+
+    if (!authToken || !signature || !twilio.validateRequest(authToken, signature, getSignedUrl(req.url), formParams)) {
+      await db.insert(webhookErrorLogs).values({
+        campaignId: senders.inbound[0]?.id ?? null,
+        rawBody: JSON.stringify(formParams).substring(0, 10000),
+        errorType: 'invalid_signature',
+        errorMessage: authToken ? 'Twilio signature missing or invalid' : 'No Twilio auth token configured',
+      });
+
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const result = await handleInboundSms(
+      { from, to, body: formParams.Body ?? '', params: formParams },
+      senders
+    );
+
+    const response = new twilio.twiml.MessagingResponse();
+    if (result.reply) {
+      response.message(result.reply);
+    }
+
+    return new NextResponse(response.toString(), {
+      headers: { 'Content-Type': 'text/xml' },
+    });
+  } catch (error) {
+    console.error('[Twilio SMS] POST error:', error);
+
+    try {
+      await db.insert(webhookErrorLogs).values({
+        rawBody: rawBody.substring(0, 10000),
+        errorType: 'server_error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown server error',
+      });
+    } catch {
+      // Ignore logging errors
+    }
+
+    // A 500 makes Twilio retry; the opt-out writes are idempotent
+    return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
+  }
+}
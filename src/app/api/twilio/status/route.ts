@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import twilio from 'twilio';
+import { db } from '@/db';
+import { webhookErrorLogs } from '@/db/schema';
+import { getSignedUrl, TWILIO_SIGNATURE_HEADER } from '@/lib/webhook-signature';
+import { getTwilioAuthToken } from '@/services/sms-service';
+import { applyStatusCallback } from '@/services/sms-delivery';
+
+// POST /api/twilio/status - Twilio message status callback (registered by sendSms)
+export async function POST(req: NextRequest) {
+  let rawBody = '';
+
+  try {
+    rawBody = await req.text();
+    const formParams = Object.fromEntries(new URLSearchParams(rawBody));
+
+    const messageSid = formParams.MessageSid || formParams.SmsSid;
+    const messageStatus = formParams.MessageStatus || formParams.SmsStatus;
+    if (!messageSid || !messageStatus) {
+      return NextResponse.json({ error: 'MessageSid and MessageStatus are required' }, { status: 400 });
+    }
+
+    const authToken = await getTwilioAuthToken(formParams.AccountSid);
+    const signature = req.headers.get(TWILIO_SIGNATURE_HEADER);
+
+    if (!authToken || !signature || !twilio.validateRequest(authToken, signature, getSignedUrl(req.url), formParams)) {
+      await db.insert(webhookErrorLogs).values({
+        rawBody: JSON.stringify(formParams).substring(0, 10000),
+        errorType: 'invalid_signature',
+        errorMessage: authToken ? 'Twilio signature missing or invalid' : 'No Twilio auth token configured',
+      });
+
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const updated = await applyStatusCallback({
+      messageSid,
+      messageStatus,
+      errorCode: formParams.ErrorCode,
+      errorMessage: formParams.ErrorMessage,
+    });
+
+    return NextResponse.json({ received: true, updated });
+  } catch (error) {
+    console.error('[Twilio Status] POST error:', error);
+
+    try {
+      await db.insert(webhookErrorLogs).values({
+        rawBody: rawBody.substring(0, 10000),
+        errorType: 'server_error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown server error',
+      });
+    } catch {
+      // Ignore logging errors
+    }
+
+    // A 500 makes Twilio retry the callback
+    return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
+  }
+}
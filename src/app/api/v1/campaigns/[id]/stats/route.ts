@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { campaigns, interactions } from '@/db/schema';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireApiKey } from '@/lib/auth';
+import { toPublicCampaign } from '@/services/public-api';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+const STATS_WINDOW_DAYS = 30;
+
+// GET /api/v1/campaigns/[id]/stats - Lifetime totals and daily counts for the last 30 days
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireApiKey(request, 'campaigns:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(and(eq(campaigns.id, id), eq(campaigns.organizationId, auth.apiKey.organizationId)))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const windowStart = new Date();
+    windowStart.setDate(windowStart.getDate() - STATS_WINDOW_DAYS);
+    const day = sql`date_trunc('day', ${interactions.createdAt})::date`;
+
+    const [[totals], byStatus, bySource, bySentiment, byDay] = await Promise.all([
+      db
+        .select({
+          total: sql<number>`count(*)`.mapWith(Number),
+          totalDuration: sql<number>`coalesce(sum(${interactions.durationSeconds}), 0)`.mapWith(Number),
+          avgDuration: sql<number>`coalesce(avg(${interactions.durationSeconds}), 0)`.mapWith(Number),
+          avgQualityScore: sql<number | null>`avg(${interactions.qualityScore})`.mapWith((value) =>
+            value === null ? null : Math.round(Number(value))
+          ),
+          flagged: sql<number>`count(*) filter (where ${interactions.flagged})`.mapWith(Number),
+        })
+        .from(interactions)
+        .where(eq(interactions.campaignId, id)),
+      db
+        .select({ status: interactions.callStatus, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(interactions)
+        .where(eq(interactions.campaignId, id))
+        .groupBy(interactions.callStatus),
+      db
+        .select({ sourceType: interactions.sourceType, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(interactions)
+        .where(eq(interactions.campaignId, id))
+        .groupBy(interactions.sourceType),
+      db
+        .select({ sentiment: interactions.sentiment, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(interactions)
+        .where(eq(interactions.campaignId, id))
+        .groupBy(interactions.sentiment),
+      db
+        .select({
+          date: sql<string>`${day}`,
+          count: sql<number>`count(*)`.mapWith(Number),
+          completed: sql<number>`count(*) filter (where ${interactions.callStatus} = 'completed')`.mapWith(Number),
+        })
+        .from(interactions)
+        .where(and(eq(interactions.campaignId, id), gte(interactions.createdAt, windowStart)))
+        .groupBy(day)
+        .orderBy(day),
+    ]);
+
+    return NextResponse.json(
+      {
+        data: {
+          campaign: toPublicCampaign(campaign),
+          totals: {
+            interactions: totals.total,
+            flagged: totals.flagged,
+            totalDurationSeconds: totals.totalDuration,
+            avgDurationSeconds: Math.round(totals.avgDuration),
+            avgQualityScore: totals.avgQualityScore,
+          },
+          byStatus: byStatus.map((row) => ({ status: row.status ?? 'unknown', count: row.count })),
+          bySource,
+          bySentiment: bySentiment.map((row) => ({ sentiment: row.sentiment ?? 'unscored', count: row.count })),
+          byDay,
+        },
+      },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[Public API] GET campaign stats error:', error);
+    return NextResponse.json({ error: 'Failed to fetch campaign stats' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { campaigns } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { requireApiKey } from '@/lib/auth';
+import { toPublicCampaign } from '@/services/public-api';
+
+// GET /api/v1/campaigns - List the organization's campaigns
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireApiKey(request, 'campaigns:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const rows = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.organizationId, auth.apiKey.organizationId))
+      .orderBy(asc(campaigns.name));
+
+    return NextResponse.json({ data: rows.map(toPublicCampaign) }, { headers: auth.headers });
+  } catch (error) {
+    console.error('[Public API] GET campaigns error:', error);
+    return NextResponse.json({ error: 'Failed to fetch campaigns' }, { status: 500 });
+  }
+}
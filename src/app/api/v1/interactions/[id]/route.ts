@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { interactions } from '@/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireApiKey } from '@/lib/auth';
+import { organizationCampaignIds, toPublicInteraction } from '@/services/public-api';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// GET /api/v1/interactions/[id] - Get one interaction with its transcript
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireApiKey(request, 'interactions:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json({ error: 'Interaction not found' }, { status: 404 });
+    }
+
+    // Interactions of other organizations are reported as missing, not forbidden
+    const [interaction] = await db
+      .select()
+      .from(interactions)
+      .where(
+        and(
+          eq(interactions.id, id),
+          inArray(interactions.campaignId, organizationCampaignIds(auth.apiKey.organizationId))
+        )
+      )
+      .limit(1);
+
+    if (!interaction) {
+      return NextResponse.json({ error: 'Interaction not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { data: toPublicInteraction(interaction, { includeTranscript: true }) },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[Public API] GET interaction error:', error);
+    return NextResponse.json({ error: 'Failed to fetch interaction' }, { status: 500 });
+  }
+}
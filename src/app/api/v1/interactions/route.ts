@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { interactions } from '@/db/schema';
+import { and, asc, eq, gte, inArray, lt, sql } from 'drizzle-orm';
+import { requireApiKey } from '@/lib/auth';
+import { listApiInteractionsSchema, validateRequest } from '@/lib/validations/api';
+import { organizationCampaignIds, toPublicInteraction } from '@/services/public-api';
+
+// GET /api/v1/interactions - List the organization's interactions, oldest first
+// so incremental syncs can page through a createdAfter window without gaps
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireApiKey(request, 'interactions:read');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const validation = validateRequest(
+      listApiInteractionsSchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const { campaignId, sourceType, createdAfter, createdBefore, page, limit } = validation.data;
+
+    const conditions = [
+      inArray(interactions.campaignId, organizationCampaignIds(auth.apiKey.organizationId)),
+    ];
+    if (campaignId) {
+      conditions.push(eq(interactions.campaignId, campaignId));
+    }
+    if (sourceType) {
+      conditions.push(eq(interactions.sourceType, sourceType));
+    }
+    if (createdAfter) {
+      conditions.push(gte(interactions.createdAt, new Date(createdAfter)));
+    }
+    if (createdBefore) {
+      conditions.push(lt(interactions.createdAt, new Date(createdBefore)));
+    }
+
+    const whereClause = and(...conditions);
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(interactions)
+        .where(whereClause)
+        .orderBy(asc(interactions.createdAt), asc(interactions.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(interactions)
+        .where(whereClause),
+    ]);
+
+    return NextResponse.json(
+      {
+        data: rows.map((interaction) => toPublicInteraction(interaction)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[Public API] GET interactions error:', error);
+    return NextResponse.json({ error: 'Failed to fetch interactions' }, { status: 500 });
+  }
+}
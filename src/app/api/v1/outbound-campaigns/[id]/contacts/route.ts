@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { outboundCampaigns, outboundContacts, auditLogs } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireApiKey } from '@/lib/auth';
+import { uploadApiContactsSchema, validateRequest } from '@/lib/validations/api';
+import {
+  detectStateFromAreaCode,
+  detectTimezoneFromAreaCode,
+  extractAreaCode,
+  normalizePhoneNumber,
+  validatePhoneNumber,
+} from '@/services/contact-upload-service';
+import { findDncNumbers } from '@/services/dnc';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// POST /api/v1/outbound-campaigns/[id]/contacts - Add contacts to a draft outbound campaign
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireApiKey(request, 'contacts:write');
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateRequest(uploadApiContactsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [campaign] = await db
+      .select()
+      .from(outboundCampaigns)
+      .where(and(eq(outboundCampaigns.id, id), eq(outboundCampaigns.organizationId, auth.apiKey.organizationId)))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    // Same rule as the admin upload: the contact list is frozen once dialing is scheduled
+    if (campaign.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Can only add contacts to draft campaigns' },
+        { status: 409 }
+      );
+    }
+
+    const existingContacts = await db
+      .select({ phoneNumber: outboundContacts.phoneNumber })
+      .from(outboundContacts)
+      .where(eq(outboundContacts.campaignId, id));
+    const seenPhones = new Set(existingContacts.map((c) => c.phoneNumber));
+
+    const dncNumbers = await findDncNumbers(
+      validation.data.contacts
+        .filter((contact) => validatePhoneNumber(contact.phoneNumber).isValid)
+        .map((contact) => normalizePhoneNumber(contact.phoneNumber)),
+      campaign.organizationId
+    );
+
+    const newContacts: (typeof outboundContacts.$inferInsert)[] = [];
+    const invalid: { index: number; phoneNumber: string; error: string }[] = [];
+    let duplicates = 0;
+    let dnc = 0;
+
+    validation.data.contacts.forEach((contact, index) => {
+      const phoneValidation = validatePhoneNumber(contact.phoneNumber);
+      if (!phoneValidation.isValid) {
+        invalid.push({ index, phoneNumber: contact.phoneNumber, error: phoneValidation.error || 'Invalid phone' });
+        return;
+      }
+
+      const phoneNumber = normalizePhoneNumber(contact.phoneNumber);
+      if (seenPhones.has(phoneNumber)) {
+        duplicates++;
+        return;
+      }
+      seenPhones.add(phoneNumber);
+
+      if (dncNumbers.has(phoneNumber)) {
+        dnc++;
+        return;
+      }
+
+      const areaCode = extractAreaCode(contact.phoneNumber);
+      newContacts.push({
+        campaignId: id,
+        phoneNumber,
+        firstName: contact.firstName,
+        lastName: contact.lastName || null,
+        email: contact.email || null,
+        areaCode: areaCode || null,
+        timezone: (areaCode && detectTimezoneFromAreaCode(areaCode)) || null,
+        state: (areaCode && detectStateFromAreaCode(areaCode)) || null,
+        customFields: contact.customFields || null,
+        status: 'pending',
+      });
+    });
+
+    const batchSize = 100;
+    for (let i = 0; i < newContacts.length; i += batchSize) {
+      await db.insert(outboundContacts).values(newContacts.slice(i, i + batchSize));
+    }
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)`.mapWith(Number) })
+      .from(outboundContacts)
+      .where(eq(outboundContacts.campaignId, id));
+
+    await db
+      .update(outboundCampaigns)
+      .set({ totalContacts: total, updatedAt: new Date() })
+      .where(eq(outboundCampaigns.id, id));
+
+    await db.insert(auditLogs).values({
+      userId: null,
+      action: 'create',
+      entityType: 'outbound_contacts',
+      entityId: id,
+      details: { apiKeyId: auth.apiKey.id, inserted: newContacts.length, duplicates, dnc, invalid: invalid.length },
+    });
+
+    return NextResponse.json(
+      {
+        data: {
+          inserted: newContacts.length,
+          duplicates,
+          dnc,
+          invalid,
+          totalContacts: total,
+        },
+      },
+      { status: 201, headers: auth.headers }
+    );
+  } catch (error) {
+    console.error('[Public API] POST contacts error:', error);
+    return NextResponse.json({ error: 'Failed to add contacts' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { isAdmin } from '@/lib/auth';
+import { getVoiceApiKey } from '@/services/credential-vault';
 import { getVapiAssistants } from '@/services/vapi-service';
 
 // POST - Get VAPI assistants (POST to avoid API key in URL)
@@ -15,16 +17,23 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { apiKey } = body;
+    const { apiKey, organizationId } = body;
 
-    if (!apiKey || typeof apiKey !== 'string') {
+    // A key typed in just now, or the one saved for the organization (admins only)
+    const vapiApiKey = typeof apiKey === 'string' && apiKey
+      ? apiKey
+      : typeof organizationId === 'string' && (await isAdmin())
+        ? await getVoiceApiKey(organizationId, 'vapi')
+        : null;
+
+    if (!vapiApiKey) {
       return NextResponse.json(
         { error: 'API key is required' },
         { status: 400 }
       );
     }
 
-    const assistants = await getVapiAssistants(apiKey);
+    const assistants = await getVapiAssistants(vapiApiKey);
 
     return NextResponse.json({
       assistants: assistants.map((a) => ({
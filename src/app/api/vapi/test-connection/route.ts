@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { isAdmin } from '@/lib/auth';
+import { getVoiceApiKey } from '@/services/credential-vault';
 import { testVapiConnection } from '@/services/vapi-service';
 
-// POST - Test VAPI connection with provided API key
+// POST - Test VAPI connection with a provided API key or an organization's saved one
 export async function POST(req: NextRequest) {
   try {
     const supabase = await createClient();
@@ -15,16 +17,23 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { apiKey } = body;
+    const { apiKey, organizationId } = body;
 
-    if (!apiKey || typeof apiKey !== 'string') {
+    // A key typed in just now, or the one saved for the organization (admins only)
+    const vapiApiKey = typeof apiKey === 'string' && apiKey
+      ? apiKey
+      : typeof organizationId === 'string' && (await isAdmin())
+        ? await getVoiceApiKey(organizationId, 'vapi')
+        : null;
+
+    if (!vapiApiKey) {
       return NextResponse.json(
         { error: 'API key is required' },
         { status: 400 }
       );
     }
 
-    const result = await testVapiConnection(apiKey);
+    const result = await testVapiConnection(vapiApiKey);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { webhookDeliveries } from '@/db/schema';
+import type { WebhookDelivery } from '@/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+const DELIVERY_STATUSES: WebhookDelivery['status'][] = ['pending', 'delivering', 'delivered', 'failed'];
+
+// GET /api/webhook-subscriptions/[id]/deliveries - Recent deliveries, newest first
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get('status') as WebhookDelivery['status'] | null;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+
+    const data = await db
+      .select({
+        id: webhookDeliveries.id,
+        eventId: webhookDeliveries.eventId,
+        eventType: webhookDeliveries.eventType,
+        status: webhookDeliveries.status,
+        attempts: webhookDeliveries.attempts,
+        maxAttempts: webhookDeliveries.maxAttempts,
+        nextAttemptAt: webhookDeliveries.nextAttemptAt,
+        responseStatus: webhookDeliveries.responseStatus,
+        responseBody: webhookDeliveries.responseBody,
+        durationMs: webhookDeliveries.durationMs,
+        lastError: webhookDeliveries.lastError,
+        deliveredAt: webhookDeliveries.deliveredAt,
+        createdAt: webhookDeliveries.createdAt,
+      })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.subscriptionId, id),
+          status && DELIVERY_STATUSES.includes(status) ? eq(webhookDeliveries.status, status) : undefined
+        )
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('[Webhook Subscriptions API] Deliveries error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { webhookSubscriptions, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { generateWebhookSecret } from '@/lib/webhook-signature';
+import { updateWebhookSubscriptionSchema, validateRequest } from '@/lib/validations/webhook';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// PATCH /api/webhook-subscriptions/[id] - Update a subscription or rotate its secret
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+    const body = await req.json();
+
+    const validation = validateRequest(updateWebhookSubscriptionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      );
+    }
+
+    const [existing] = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, id))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    const { url, events, description, isActive, rotateSecret } = validation.data;
+    const updateData: Partial<typeof webhookSubscriptions.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (url !== undefined) updateData.url = url;
+    if (events !== undefined) updateData.events = events;
+    if (description !== undefined) updateData.description = description || null;
+    if (isActive !== undefined) updateData.isActive = isActive;
+    // Deliveries are signed when sent, so queued retries pick up the new secret too
+    if (rotateSecret) updateData.secret = generateWebhookSecret();
+
+    const [updated] = await db
+      .update(webhookSubscriptions)
+      .set(updateData)
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'update',
+      entityType: 'webhook_subscription',
+      entityId: id,
+      details: {
+        changes: { url, events, description, isActive, rotateSecret },
+        previous: {
+          url: existing.url,
+          events: existing.events,
+          description: existing.description,
+          isActive: existing.isActive,
+        },
+      },
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('[Webhook Subscriptions API] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update webhook subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/webhook-subscriptions/[id] - Remove a subscription and its delivery log
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const [existing] = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, id))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+
+    await db.insert(auditLogs).values({
+      userId: admin.id,
+      action: 'delete',
+      entityType: 'webhook_subscription',
+      entityId: id,
+      details: { organizationId: existing.organizationId, url: existing.url },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Webhook Subscriptions API] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete webhook subscription' },
+      { status: 500 }
+    );
+  }
+}
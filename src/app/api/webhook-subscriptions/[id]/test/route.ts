@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { webhookSubscriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '@/lib/auth';
+import { sendTestEvent } from '@/services/event-webhooks';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// POST /api/webhook-subscriptions/[id]/test - Send a test event now and return the delivery
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const [subscription] = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, id))
+      .limit(1);
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+    }
+
+    const delivery = await sendTestEvent(subscription);
+
+    return NextResponse.json({ data: delivery });
+  } catch (error) {
+    console.error('[Webhook Subscriptions API] Test error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send test event' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { campaigns, interactions, contacts, smsTriggers, webhookErrorLogs } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-import { analyzePayload, evaluateTriggers } from '@/services/ai-processor';
-import { sendSms, normalizePhoneNumber, validatePhoneNumber } from '@/services/sms-service';
+import { campaigns, interactions, webhookJobs, webhookErrorLogs } from '@/db/schema';
+import { eq, and, gte } from 'drizzle-orm';
+import { enqueueWebhookJob } from '@/services/webhook-queue';
 import { generateHash } from '@/lib/utils';
+import { verifyWebhookSignature, getSignedUrl, TWILIO_SIGNATURE_HEADER } from '@/lib/webhook-signature';
+import { limitWebhookRequest } from '@/lib/rate-limit';
+import { getCampaignTwilioCredentials } from '@/services/credential-vault';
 
 type RouteParams = {
   params: Promise<{ campaignUuid: string }>;
@@ -15,14 +17,27 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
   const { campaignUuid } = await params;
   let rawBody = '';
 
+  const limited = await limitWebhookRequest(req.headers, 'webhook', campaignUuid);
+  if (limited) {
+    return limited;
+  }
+
   try {
-    // Get raw body for parsing
-    rawBody = await req.text();
+    // Get raw body for parsing (signatures are computed over the exact bytes sent)
+    const signedBody = await req.text();
+    rawBody = signedBody;
+
+    // Twilio posts form-encoded fields; store them as JSON like every other source
+    let formParams: Record<string, string> | undefined;
+    const contentType = req.headers.get('content-type') || '';
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      formParams = Object.fromEntries(new URLSearchParams(signedBody));
+      rawBody = JSON.stringify(formParams);
+    }
 
-    // Validate JSON
-    let payload: Record<string, unknown>;
+    // Validate JSON (parsed again by the queue worker)
     try {
-      payload = JSON.parse(rawBody);
+      JSON.parse(rawBody);
     } catch {
       // Log error and return 400
       await db.insert(webhookErrorLogs).values({
@@ -56,6 +71,30 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Reject forged requests once the campaign has a signing secret
+    const verification = verifyWebhookSignature({
+      campaign,
+      headers: req.headers,
+      rawBody: signedBody,
+      url: getSignedUrl(req.url),
+      formParams,
+      // Only Twilio-signed requests need the campaign's Twilio auth token
+      twilioAuthToken: req.headers.has(TWILIO_SIGNATURE_HEADER)
+        ? (await getCampaignTwilioCredentials(campaign))?.authToken
+        : null,
+    });
+
+    if (!verification.valid) {
+      await db.insert(webhookErrorLogs).values({
+        campaignId: campaign.id,
+        rawBody: rawBody.substring(0, 10000),
+        errorType: 'invalid_signature',
+        errorMessage: verification.reason,
+      });
+
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
     // Generate payload hash for deduplication
     const payloadHash = generateHash(rawBody);
 
@@ -77,173 +116,39 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       });
     }
 
-    // Process payload asynchronously
-    // For now, we'll process synchronously but acknowledge quickly
-    // In production, you'd want to use a queue (Supabase Edge Functions, Inngest, etc.)
-
-    try {
-      // Analyze payload with AI
-      const analysis = await analyzePayload(
-        payload,
-        campaign.aiExtractionHints as Record<string, string> | undefined
-      );
-
-      // Get or create contact
-      let contactId: string | null = null;
-      const phoneNumber = analysis.extractedData.phoneNumber;
-
-      if (phoneNumber && validatePhoneNumber(normalizePhoneNumber(phoneNumber))) {
-        const normalizedPhone = normalizePhoneNumber(phoneNumber);
-
-        const [existingContact] = await db
-          .select()
-          .from(contacts)
-          .where(
-            and(
-              eq(contacts.campaignId, campaign.id),
-              eq(contacts.phoneNumber, normalizedPhone)
-            )
-          )
-          .limit(1);
-
-        if (existingContact) {
-          contactId = existingContact.id;
-        } else {
-          const [newContact] = await db
-            .insert(contacts)
-            .values({
-              campaignId: campaign.id,
-              phoneNumber: normalizedPhone,
-            })
-            .returning();
-          contactId = newContact.id;
-        }
-      }
-
-      // Create interaction record
-      const [interaction] = await db
-        .insert(interactions)
-        .values({
-          campaignId: campaign.id,
-          contactId,
-          sourceType: analysis.sourceType,
-          sourcePlatform: analysis.sourcePlatform,
-          phoneNumber: phoneNumber ? normalizePhoneNumber(phoneNumber) : null,
-          callStatus: analysis.callStatus,
-          durationSeconds: analysis.durationSeconds,
-          transcript: analysis.transcript,
-          transcriptFormatted: analysis.transcriptFormatted,
-          recordingUrl: analysis.recordingUrl,
-          aiSummary: analysis.extractedData.summary,
-          aiExtractedData: analysis.extractedData as Record<string, unknown>,
-          rawPayload: payload,
-          payloadHash,
-        })
-        .returning();
-
-      // Evaluate SMS triggers if we have a transcript or summary and a contact
-      if (contactId && (analysis.transcript || analysis.extractedData.summary)) {
-        // Get active triggers for this campaign
-        const activeTriggers = await db
-          .select()
-          .from(smsTriggers)
-          .where(
-            and(
-              eq(smsTriggers.campaignId, campaign.id),
-              eq(smsTriggers.isActive, true)
-            )
-          );
-
-        if (activeTriggers.length > 0) {
-          // Get contact's already-fired triggers
-          const [contact] = await db
-            .select()
-            .from(contacts)
-            .where(eq(contacts.id, contactId))
-            .limit(1);
-
-          const firedTriggers = (contact?.smsTriggersfred as string[]) || [];
-
-          // Filter out already-fired triggers
-          const eligibleTriggers = activeTriggers.filter(
-            (t) => !firedTriggers.includes(t.id)
-          );
-
-          if (eligibleTriggers.length > 0 && campaign.twilioPhoneNumber) {
-            // Evaluate which triggers match
-            const matchedTriggerIds = await evaluateTriggers(
-              analysis.transcript,
-              analysis.extractedData.summary,
-              eligibleTriggers.map((t) => ({
-                id: t.id,
-                intentDescription: t.intentDescription,
-                priority: t.priority,
-              }))
-            );
-
-            // Send SMS for each matched trigger
-            for (const triggerId of matchedTriggerIds) {
-              const trigger = eligibleTriggers.find((t) => t.id === triggerId);
-              if (!trigger) continue;
-
-              const normalizedPhone = normalizePhoneNumber(phoneNumber!);
-
-              await sendSms({
-                toNumber: normalizedPhone,
-                fromNumber: campaign.twilioPhoneNumber,
-                message: trigger.smsMessage,
-                interactionId: interaction.id,
-                triggerId: trigger.id,
-                contactId,
-                twilioAccountSid: campaign.twilioOverride
-                  ? campaign.twilioAccountSid || undefined
-                  : undefined,
-                twilioAuthToken: campaign.twilioOverride
-                  ? campaign.twilioAuthToken || undefined
-                  : undefined,
-              });
-            }
-          }
-        }
-      }
+    // A duplicate may still be waiting in the queue
+    const existingJob = await db.query.webhookJobs.findFirst({
+      where: and(
+        eq(webhookJobs.campaignId, campaign.id),
+        eq(webhookJobs.payloadHash, payloadHash),
+        gte(webhookJobs.createdAt, fiveMinutesAgo)
+      ),
+    });
 
+    if (existingJob) {
       return NextResponse.json({
         received: true,
-        interactionId: interaction.id,
-        sourceType: analysis.sourceType,
-        sourcePlatform: analysis.sourcePlatform,
-      });
-    } catch (processingError) {
-      // Log processing error but still return success (we received the webhook)
-      console.error('Webhook processing error:', processingError);
-
-      await db.insert(webhookErrorLogs).values({
-        campaignId: campaign.id,
-        rawBody: rawBody.substring(0, 10000),
-        errorType: 'processing_error',
-        errorMessage:
-          processingError instanceof Error
-            ? processingError.message
-            : 'Unknown processing error',
+        duplicate: true,
+        jobId: existingJob.id,
       });
+    }
 
-      // Still create a basic interaction record
-      const [interaction] = await db
-        .insert(interactions)
-        .values({
-          campaignId: campaign.id,
-          sourceType: 'phone',
-          rawPayload: payload,
-          payloadHash,
-        })
-        .returning();
+    // Persist the payload and acknowledge immediately; the
+    // process-webhook-jobs cron runs AI analysis and SMS triggers
+    const job = await enqueueWebhookJob({
+      campaignId: campaign.id,
+      rawBody,
+      payloadHash,
+    });
 
-      return NextResponse.json({
+    return NextResponse.json(
+      {
         received: true,
-        interactionId: interaction.id,
-        processingError: true,
-      });
-    }
+        queued: true,
+        jobId: job.id,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Webhook error:', error);
 
@@ -271,6 +176,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
 export async function GET(req: NextRequest, { params }: RouteParams) {
   const { campaignUuid } = await params;
 
+  const limited = await limitWebhookRequest(req.headers, 'webhook', campaignUuid);
+  if (limited) {
+    return limited;
+  }
+
   const [campaign] = await db
     .select({ id: campaigns.id, name: campaigns.name, isActive: campaigns.isActive })
     .from(campaigns)
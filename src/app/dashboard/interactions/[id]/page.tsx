@@ -20,6 +20,7 @@ import {
   Check,
   X,
   AlertCircle,
+  Ban,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -29,6 +30,7 @@ import { Separator } from '@/components/ui/separator';
 import type { Interaction, Campaign, Organization, Contact, SmsLog, SmsTrigger } from '@/db/schema';
 import Link from 'next/link';
 import { formatDateTime, formatDuration, formatPhoneNumber } from '@/lib/utils';
+import { ConversationScoresCard, TurnSentimentBadge } from '@/components/interactions/conversation-scores';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -108,7 +110,10 @@ export default function ClientInteractionDetailPage({ params }: PageProps) {
       case 'sent':
         return <Send className="h-4 w-4 text-blue-500" />;
       case 'failed':
+      case 'undelivered':
         return <X className="h-4 w-4 text-red-500" />;
+      case 'blocked':
+        return <Ban className="h-4 w-4 text-amber-500" />;
       default:
         return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
@@ -238,6 +243,12 @@ export default function ClientInteractionDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          <ConversationScoresCard
+            sentiment={interaction.sentiment}
+            qualityScore={interaction.qualityScore}
+            analysis={interaction.conversationAnalysis}
+          />
+
           {interaction.recordingUrl && (
             <Card>
               <CardHeader>
@@ -297,6 +308,7 @@ export default function ClientInteractionDetailPage({ params }: PageProps) {
                       <div className="flex-1">
                         <p className="text-xs font-medium text-muted-foreground mb-1 capitalize">
                           {turn.role}
+                          <TurnSentimentBadge analysis={interaction.conversationAnalysis} index={i} />
                         </p>
                         <p className="text-sm">{turn.content}</p>
                       </div>
@@ -359,7 +371,8 @@ export default function ClientInteractionDetailPage({ params }: PageProps) {
                           {getSmsStatusIcon(log.status)}
                           <Badge variant={
                             log.status === 'delivered' ? 'success' :
-                            log.status === 'failed' ? 'destructive' : 'secondary'
+                            log.status === 'failed' || log.status === 'undelivered' ? 'destructive' :
+                            log.status === 'blocked' ? 'warning' : 'secondary'
                           }>
                             {log.status}
                           </Badge>
@@ -378,9 +391,14 @@ export default function ClientInteractionDetailPage({ params }: PageProps) {
                         {log.errorMessage && (
                           <div className="flex items-center gap-2 text-destructive text-xs mt-2">
                             <AlertCircle className="h-4 w-4" />
-                            {log.errorMessage}
+                            {log.errorCode ? `${log.errorMessage} (code ${log.errorCode})` : log.errorMessage}
                           </div>
                         )}
+                        {log.deliveredAt && (
+                          <p className="text-xs text-muted-foreground mt-2">
+                            Delivered {formatDateTime(log.deliveredAt)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
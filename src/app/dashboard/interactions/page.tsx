@@ -36,6 +36,17 @@ import {
 import type { Interaction, Campaign, Organization } from '@/db/schema';
 import Link from 'next/link';
 import { formatDateTime, formatDuration, formatPhoneNumber } from '@/lib/utils';
+import {
+  appendExtractedFieldParams,
+  getExtractedFieldValue,
+  formatExtractedFieldValue,
+  ExtractedFieldFilter,
+  ExtractedFieldSort,
+} from '@/lib/extracted-field-params';
+import { ExtractedFieldFilters, useExtractedFields } from '@/components/interactions/extracted-field-filters';
+
+// Extracted fields shown as table columns when a campaign is selected
+const MAX_FIELD_COLUMNS = 4;
 
 type InteractionWithRelations = Interaction & {
   campaign: Campaign & {
@@ -55,6 +66,11 @@ export default function ClientInteractionsPage() {
   const [search, setSearch] = useState('');
   const [campaignFilter, setCampaignFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [fieldFilters, setFieldFilters] = useState<ExtractedFieldFilter[]>([]);
+  const [fieldSort, setFieldSort] = useState<ExtractedFieldSort | null>(null);
+
+  const extractedFields = useExtractedFields(campaignFilter !== 'all' ? campaignFilter : null);
+  const fieldColumns = extractedFields.slice(0, MAX_FIELD_COLUMNS);
 
   const fetchInteractions = useCallback(async () => {
     setIsLoading(true);
@@ -66,6 +82,7 @@ export default function ClientInteractionsPage() {
       if (search) params.set('search', search);
       if (campaignFilter !== 'all') params.set('campaignId', campaignFilter);
       if (statusFilter !== 'all') params.set('status', statusFilter);
+      appendExtractedFieldParams(params, fieldFilters, fieldSort);
 
       const response = await fetch(`/api/interactions?${params}`);
       const result = await response.json();
@@ -81,7 +98,7 @@ export default function ClientInteractionsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [page, limit, search, campaignFilter, statusFilter]);
+  }, [page, limit, search, campaignFilter, statusFilter, fieldFilters, fieldSort]);
 
   const fetchCampaigns = useCallback(async () => {
     try {
@@ -167,6 +184,8 @@ export default function ClientInteractionsPage() {
                 value={campaignFilter}
                 onValueChange={(value) => {
                   setCampaignFilter(value);
+                  setFieldFilters([]);
+                  setFieldSort(null);
                   setPage(1);
                 }}
               >
@@ -201,6 +220,20 @@ export default function ClientInteractionsPage() {
                 </SelectContent>
               </Select>
             </div>
+
+            <ExtractedFieldFilters
+              fields={extractedFields}
+              filters={fieldFilters}
+              sort={fieldSort}
+              onFiltersChange={(filters) => {
+                setFieldFilters(filters);
+                setPage(1);
+              }}
+              onSortChange={(sort) => {
+                setFieldSort(sort);
+                setPage(1);
+              }}
+            />
           </div>
         </CardHeader>
         <CardContent>
@@ -213,7 +246,7 @@ export default function ClientInteractionsPage() {
               <PhoneIncoming className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-medium mb-2">No interactions found</h3>
               <p className="text-muted-foreground">
-                {search || statusFilter !== 'all' || campaignFilter !== 'all'
+                {search || statusFilter !== 'all' || campaignFilter !== 'all' || fieldFilters.length > 0
                   ? 'Try adjusting your filters'
                   : 'Interactions will appear here as calls are received'}
               </p>
@@ -226,6 +259,9 @@ export default function ClientInteractionsPage() {
                     <TableHead>Phone / Source</TableHead>
                     <TableHead>Campaign</TableHead>
                     <TableHead>Summary</TableHead>
+                    {fieldColumns.map((field) => (
+                      <TableHead key={field.name}>{field.name}</TableHead>
+                    ))}
                     <TableHead>Status</TableHead>
                     <TableHead>Duration</TableHead>
                     <TableHead>Date</TableHead>
@@ -258,6 +294,11 @@ export default function ClientInteractionsPage() {
                           {interaction.aiSummary || 'No summary available'}
                         </p>
                       </TableCell>
+                      {fieldColumns.map((field) => (
+                        <TableCell key={field.name} className="text-sm">
+                          {formatExtractedFieldValue(getExtractedFieldValue(interaction.aiExtractedData, field.name)) || '-'}
+                        </TableCell>
+                      ))}
                       <TableCell>
                         <Badge variant={getStatusVariant(interaction.callStatus)}>
                           {interaction.callStatus || 'pending'}
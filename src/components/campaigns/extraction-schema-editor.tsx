@@ -0,0 +1,126 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ExtractionSchemaField, ExtractionFieldType } from '@/db/schema';
+
+const FIELD_TYPES: Array<{ value: ExtractionFieldType; label: string }> = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'enum', label: 'One of' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+interface ExtractionSchemaEditorProps {
+  fields: ExtractionSchemaField[];
+  onChange: (fields: ExtractionSchemaField[]) => void;
+}
+
+/**
+ * Strip blank enum options left over from editing the comma-separated input
+ */
+export function cleanExtractionSchema(fields: ExtractionSchemaField[]): ExtractionSchemaField[] {
+  return fields.map((field) => ({
+    ...field,
+    name: field.name.trim(),
+    description: field.description.trim(),
+    options: field.type === 'enum'
+      ? (field.options ?? []).map((o) => o.trim()).filter(Boolean)
+      : undefined,
+  }));
+}
+
+export function ExtractionSchemaEditor({ fields, onChange }: ExtractionSchemaEditorProps) {
+  const updateField = (index: number, changes: Partial<ExtractionSchemaField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const addField = () => {
+    onChange([...fields, { name: '', type: 'string', required: false, description: '' }]);
+  };
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No fields defined. Extracted data is stored as free-form custom fields.
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value.toLowerCase() })}
+              placeholder="field_name"
+              className="font-mono"
+            />
+            <Select
+              value={field.type}
+              onValueChange={(value) => updateField(index, { type: value as ExtractionFieldType })}
+            >
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIELD_TYPES.map((t) => (
+                  <SelectItem key={t.value} value={t.value}>
+                    {t.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => removeField(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            value={field.description}
+            onChange={(e) => updateField(index, { description: e.target.value })}
+            placeholder="What should be extracted, e.g. 'Number of vehicles the caller owns'"
+          />
+          {field.type === 'enum' && (
+            <Input
+              value={(field.options ?? []).join(',')}
+              onChange={(e) => updateField(index, { options: e.target.value.split(',') })}
+              placeholder="Allowed values, comma-separated"
+            />
+          )}
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`extraction-required-${index}`}
+              checked={field.required}
+              onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+            />
+            <label
+              htmlFor={`extraction-required-${index}`}
+              className="text-sm font-medium leading-none cursor-pointer"
+            >
+              Required
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addField}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Field
+      </Button>
+    </div>
+  );
+}
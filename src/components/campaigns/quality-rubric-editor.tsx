@@ -0,0 +1,82 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { QualityRubricCriterion } from '@/db/schema';
+
+interface QualityRubricEditorProps {
+  criteria: QualityRubricCriterion[];
+  onChange: (criteria: QualityRubricCriterion[]) => void;
+}
+
+/**
+ * Trim names and descriptions and drop criteria left without a name
+ */
+export function cleanQualityRubric(criteria: QualityRubricCriterion[]): QualityRubricCriterion[] {
+  return criteria
+    .map((criterion) => ({
+      name: criterion.name.trim(),
+      description: criterion.description.trim(),
+      weight: criterion.weight,
+    }))
+    .filter((criterion) => criterion.name);
+}
+
+export function QualityRubricEditor({ criteria, onChange }: QualityRubricEditorProps) {
+  const updateCriterion = (index: number, changes: Partial<QualityRubricCriterion>) => {
+    onChange(criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const addCriterion = () => {
+    onChange([...criteria, { name: '', description: '', weight: 1 }]);
+  };
+
+  const removeCriterion = (index: number) => {
+    onChange(criteria.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {criteria.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No criteria defined. Calls are scored on greeting, understanding, resolution and professionalism.
+        </p>
+      )}
+
+      {criteria.map((criterion, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={criterion.name}
+              onChange={(e) => updateCriterion(index, { name: e.target.value })}
+              placeholder="Criterion, e.g. 'Confirmed appointment details'"
+            />
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              value={criterion.weight}
+              onChange={(e) => updateCriterion(index, { weight: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+              className="w-[80px]"
+              title="Weight"
+            />
+            <Button variant="ghost" size="icon" onClick={() => removeCriterion(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            value={criterion.description}
+            onChange={(e) => updateCriterion(index, { description: e.target.value })}
+            placeholder="What a good agent does, e.g. 'Repeated the date and time back to the caller'"
+          />
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addCriterion}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Criterion
+      </Button>
+    </div>
+  );
+}
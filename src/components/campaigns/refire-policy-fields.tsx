@@ -0,0 +1,70 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  REFIRE_POLICY_LABELS,
+  MAX_COOLDOWN_DAYS,
+  MAX_FIRES_LIMIT,
+  RefirePolicy,
+} from '@/lib/sms-trigger-policy';
+
+interface RefirePolicyFieldsProps {
+  refirePolicy: RefirePolicy;
+  cooldownDays: number;
+  maxFires: number;
+  onChange: (changes: { refirePolicy?: RefirePolicy; cooldownDays?: number; maxFires?: number }) => void;
+}
+
+export function RefirePolicyFields({ refirePolicy, cooldownDays, maxFires, onChange }: RefirePolicyFieldsProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={refirePolicy} onValueChange={(value) => onChange({ refirePolicy: value as RefirePolicy })}>
+        <SelectTrigger className="w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(REFIRE_POLICY_LABELS) as RefirePolicy[]).map((policy) => (
+            <SelectItem key={policy} value={policy}>
+              {REFIRE_POLICY_LABELS[policy]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {refirePolicy === 'cooldown' && (
+        <>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_COOLDOWN_DAYS}
+            value={cooldownDays}
+            onChange={(e) => onChange({ cooldownDays: parseInt(e.target.value) || 1 })}
+            className="w-[90px]"
+          />
+          <span className="text-sm text-muted-foreground">days between messages</span>
+        </>
+      )}
+
+      {refirePolicy === 'max_count' && (
+        <>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_FIRES_LIMIT}
+            value={maxFires}
+            onChange={(e) => onChange({ maxFires: parseInt(e.target.value) || 1 })}
+            className="w-[90px]"
+          />
+          <span className="text-sm text-muted-foreground">times per contact</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { countSmsSegments, OPT_OUT_MESSAGE } from '@/lib/sms-template';
+
+interface PreviewResult {
+  text: string;
+  missing: string[];
+  templateError: string | null;
+  availableVariables: string[];
+  interaction: { id: string; interactionNumber: number; createdAt: string } | null;
+}
+
+interface SmsMessagePreviewProps {
+  campaignId: string;
+  message: string;
+}
+
+/**
+ * Live preview of a trigger message rendered against the campaign's most
+ * recent analyzed interaction, with the segment count of what is actually sent
+ */
+export function SmsMessagePreview({ campaignId, message }: SmsMessagePreviewProps) {
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!message.trim()) {
+      setPreview(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/campaigns/${campaignId}/triggers/preview`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ smsMessage: message }),
+          signal: controller.signal,
+        });
+        const result = await response.json();
+        if (response.ok) {
+          setPreview(result.data);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to preview message:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [campaignId, message]);
+
+  if (!message.trim()) {
+    return null;
+  }
+
+  const sent = (preview?.text ?? message) + OPT_OUT_MESSAGE;
+  const count = countSmsSegments(sent);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {preview?.interaction
+            ? `Preview with interaction #${preview.interaction.interactionNumber}`
+            : 'Preview (no analyzed interactions yet)'}
+        </span>
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+      </div>
+
+      <p className="whitespace-pre-wrap rounded bg-muted p-2 text-sm">{sent}</p>
+
+      <div className={`flex items-center gap-2 text-xs ${
+        count.segments === 1 ? 'text-green-600' : count.segments <= 3 ? 'text-amber-600' : 'text-red-600'
+      }`}>
+        {count.segments > 1 && <AlertTriangle className="h-3 w-3" />}
+        {count.characters} characters, {count.segments} segment{count.segments === 1 ? '' : 's'} ({count.encoding}, including opt-out line)
+      </div>
+
+      {preview?.templateError && (
+        <p className="text-xs text-red-600">{preview.templateError}</p>
+      )}
+
+      {preview && preview.missing.length > 0 && (
+        <p className="text-xs text-amber-600">
+          No value for {preview.missing.map((name) => `{{${name}}}`).join(', ')} in this interaction.
+          Add a fallback like {'{{'}{preview.missing[0]}|there{'}}'}.
+        </p>
+      )}
+
+      {preview && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          <span>Variables:</span>
+          {preview.availableVariables.map((name) => (
+            <Badge key={name} variant="outline" className="font-mono text-[10px]">
+              {`{{${name}}}`}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
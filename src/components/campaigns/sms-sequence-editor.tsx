@@ -0,0 +1,156 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { SmsSequenceStep } from '@/db/schema';
+import { MAX_FOLLOW_UP_STEPS } from '@/lib/sms-sequence';
+import { SmsMessagePreview } from '@/components/campaigns/sms-message-preview';
+
+type DelayUnit = 'minutes' | 'hours' | 'days';
+
+// A follow-up as edited: the delay keeps the unit the admin picked
+export interface SequenceStepDraft {
+  amount: number;
+  unit: DelayUnit;
+  message: string;
+}
+
+const UNIT_MINUTES: Record<DelayUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60,
+};
+
+export function toStepDrafts(steps: SmsSequenceStep[] | null | undefined): SequenceStepDraft[] {
+  return (steps ?? []).map((step) => {
+    const unit: DelayUnit = step.delayMinutes % UNIT_MINUTES.days === 0
+      ? 'days'
+      : step.delayMinutes % UNIT_MINUTES.hours === 0 ? 'hours' : 'minutes';
+    return { amount: step.delayMinutes / UNIT_MINUTES[unit], unit, message: step.message };
+  });
+}
+
+/**
+ * Convert drafts to stored steps, dropping follow-ups left without a message
+ */
+export function toSequenceSteps(drafts: SequenceStepDraft[]): SmsSequenceStep[] {
+  return drafts
+    .filter((draft) => draft.message.trim())
+    .map((draft) => ({
+      delayMinutes: Math.round(draft.amount * UNIT_MINUTES[draft.unit]),
+      message: draft.message.trim(),
+    }));
+}
+
+interface SmsSequenceEditorProps {
+  campaignId: string;
+  steps: SequenceStepDraft[];
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  onChange: (changes: { steps?: SequenceStepDraft[]; quietHoursStart?: string; quietHoursEnd?: string }) => void;
+}
+
+export function SmsSequenceEditor({ campaignId, steps, quietHoursStart, quietHoursEnd, onChange }: SmsSequenceEditorProps) {
+  const updateStep = (index: number, changes: Partial<SequenceStepDraft>) => {
+    onChange({ steps: steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const addStep = () => {
+    const previous = steps[steps.length - 1];
+    onChange({
+      steps: [...steps, { amount: previous ? previous.amount + 1 : 1, unit: previous?.unit ?? 'days', message: '' }],
+    });
+  };
+
+  const removeStep = (index: number) => {
+    onChange({ steps: steps.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No follow-ups. Only the message above is sent.
+        </p>
+      )}
+
+      {steps.map((step, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium whitespace-nowrap">Follow-up {index + 1}</span>
+            <Input
+              type="number"
+              min={1}
+              value={step.amount}
+              onChange={(e) => updateStep(index, { amount: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-[80px]"
+            />
+            <Select value={step.unit} onValueChange={(unit) => updateStep(index, { unit: unit as DelayUnit })}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="minutes">minutes</SelectItem>
+                <SelectItem value="hours">hours</SelectItem>
+                <SelectItem value="days">days</SelectItem>
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground whitespace-nowrap">after the first message</span>
+            <Button variant="ghost" size="icon" className="ml-auto" onClick={() => removeStep(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            value={step.message}
+            onChange={(e) => updateStep(index, { message: e.target.value })}
+            placeholder="Hi {{firstName|there}}, just checking in..."
+            rows={3}
+          />
+          <SmsMessagePreview campaignId={campaignId} message={step.message} />
+        </div>
+      ))}
+
+      {steps.length < MAX_FOLLOW_UP_STEPS && (
+        <Button variant="outline" size="sm" onClick={addStep}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Follow-up
+        </Button>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quietHoursStart">Quiet hours start</Label>
+          <Input
+            id="quietHoursStart"
+            type="time"
+            value={quietHoursStart}
+            onChange={(e) => onChange({ quietHoursStart: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quietHoursEnd">Quiet hours end</Label>
+          <Input
+            id="quietHoursEnd"
+            type="time"
+            value={quietHoursEnd}
+            onChange={(e) => onChange({ quietHoursEnd: e.target.value })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Follow-ups due during quiet hours wait until they end, in the contact&apos;s timezone (from their area code).
+        Pending follow-ups are canceled when the contact replies, opts out, or the trigger is disabled.
+      </p>
+    </div>
+  );
+}
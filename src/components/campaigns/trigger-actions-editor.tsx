@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { TriggerAction } from '@/db/schema';
+import { MAX_TRIGGER_ACTIONS, TRIGGER_ACTION_LABELS, TriggerActionType } from '@/lib/trigger-actions';
+
+// An action as edited: tags are kept as the comma-separated text the admin typed
+export type TriggerActionDraft =
+  | Exclude<TriggerAction, { type: 'tag' }>
+  | { type: 'tag'; tags: string; flag: boolean };
+
+interface SalesUserOption {
+  id: string;
+  fullName: string;
+  isActive: boolean;
+}
+
+const NEW_ACTIONS: Record<TriggerActionType, TriggerActionDraft> = {
+  email: { type: 'email', to: '', subject: '', body: '' },
+  webhook: { type: 'webhook', url: '', secret: '' },
+  create_lead: { type: 'create_lead', salesUserId: '' },
+  tag: { type: 'tag', tags: '', flag: false },
+};
+
+export function toActionDrafts(actions: TriggerAction[] | null | undefined): TriggerActionDraft[] {
+  return (actions ?? []).map((action) =>
+    action.type === 'tag' ? { ...action, tags: action.tags.join(', ') } : action
+  );
+}
+
+export function toTriggerActions(drafts: TriggerActionDraft[]): TriggerAction[] {
+  return drafts.map((draft) =>
+    draft.type === 'tag'
+      ? { ...draft, tags: draft.tags.split(',').map((tag) => tag.trim()).filter(Boolean) }
+      : draft
+  );
+}
+
+interface TriggerActionsEditorProps {
+  actions: TriggerActionDraft[];
+  onChange: (actions: TriggerActionDraft[]) => void;
+}
+
+export function TriggerActionsEditor({ actions, onChange }: TriggerActionsEditorProps) {
+  const [salesUsers, setSalesUsers] = useState<SalesUserOption[]>([]);
+  const [newActionType, setNewActionType] = useState<TriggerActionType>('email');
+  const needsSalesUsers = actions.some((action) => action.type === 'create_lead');
+
+  useEffect(() => {
+    if (!needsSalesUsers || salesUsers.length > 0) return;
+
+    const fetchSalesUsers = async () => {
+      try {
+        const response = await fetch('/api/admin/sales-team');
+        const result = await response.json();
+        if (response.ok) {
+          setSalesUsers(result.filter((user: SalesUserOption) => user.isActive));
+        }
+      } catch (error) {
+        console.error('Failed to fetch sales team:', error);
+      }
+    };
+    fetchSalesUsers();
+  }, [needsSalesUsers, salesUsers.length]);
+
+  const updateAction = (index: number, changes: Partial<TriggerActionDraft>) => {
+    onChange(actions.map((action, i) => (i === index ? { ...action, ...changes } as TriggerActionDraft : action)));
+  };
+
+  const removeAction = (index: number) => {
+    onChange(actions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {actions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No actions. Only the SMS is sent.
+        </p>
+      )}
+
+      {actions.map((action, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{TRIGGER_ACTION_LABELS[action.type]}</span>
+            <Button variant="ghost" size="icon" className="ml-auto" onClick={() => removeAction(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {action.type === 'email' && (
+            <>
+              <Input
+                value={action.to}
+                onChange={(e) => updateAction(index, { to: e.target.value })}
+                placeholder="office@example.com, manager@example.com"
+              />
+              <Input
+                value={action.subject}
+                onChange={(e) => updateAction(index, { subject: e.target.value })}
+                placeholder="Quote request from {{fullName|a caller}}"
+              />
+              <Textarea
+                value={action.body}
+                onChange={(e) => updateAction(index, { body: e.target.value })}
+                placeholder="{{fullName|A caller}} ({{phoneNumber}}) asked for a quote."
+                rows={3}
+              />
+            </>
+          )}
+
+          {action.type === 'webhook' && (
+            <>
+              <Input
+                value={action.url}
+                onChange={(e) => updateAction(index, { url: e.target.value })}
+                placeholder="https://crm.example.com/hooks/leads"
+              />
+              <Input
+                value={action.secret ?? ''}
+                onChange={(e) => updateAction(index, { secret: e.target.value })}
+                placeholder="Signing secret (optional)"
+              />
+              <p className="text-xs text-muted-foreground">
+                Receives a JSON POST with the trigger, interaction summary and extracted data. With a secret, the body
+                is signed in the x-webhook-signature header.
+              </p>
+            </>
+          )}
+
+          {action.type === 'create_lead' && (
+            <Select value={action.salesUserId} onValueChange={(salesUserId) => updateAction(index, { salesUserId })}>
+              <SelectTrigger>
+                <SelectValue placeholder={salesUsers.length ? 'Assign to sales user' : 'No active sales users'} />
+              </SelectTrigger>
+              <SelectContent>
+                {salesUsers.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.fullName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {action.type === 'tag' && (
+            <>
+              <Input
+                value={action.tags}
+                onChange={(e) => updateAction(index, { tags: e.target.value })}
+                placeholder="quote-request, hot-lead"
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`action-flag-${index}`}
+                  checked={action.flag}
+                  onCheckedChange={(flag) => updateAction(index, { flag })}
+                />
+                <Label htmlFor={`action-flag-${index}`}>Flag the interaction for review</Label>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      {actions.length < MAX_TRIGGER_ACTIONS && (
+        <div className="flex items-center gap-2">
+          <Select value={newActionType} onValueChange={(value) => setNewActionType(value as TriggerActionType)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TRIGGER_ACTION_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => onChange([...actions, NEW_ACTIONS[newActionType]])}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Action
+          </Button>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Email subjects and bodies support the same {'{{variable}}'} merge fields as the SMS.
+      </p>
+    </div>
+  );
+}
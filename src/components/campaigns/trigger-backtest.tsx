@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import type { BacktestInteraction, BacktestResult } from '@/services/trigger-simulation';
+
+interface TriggerBacktestProps {
+  campaignId: string;
+  intentDescription: string;
+}
+
+// Share of recent callers above which a trigger is probably too broad
+const BROAD_HIT_RATE = 0.5;
+
+/**
+ * Run an intent description over the campaign's recent interactions
+ * and show how often it would have fired
+ */
+export function TriggerBacktest({ campaignId, intentDescription }: TriggerBacktestProps) {
+  const [limit, setLimit] = useState(20);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+
+  const runBacktest = async () => {
+    if (!intentDescription.trim()) {
+      toast.error('Enter an intent description to backtest');
+      return;
+    }
+
+    setIsRunning(true);
+    setResult(null);
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/triggers/backtest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intentDescription, limit }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Backtest failed');
+      }
+
+      setResult(data.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Backtest failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={runBacktest} disabled={isRunning}>
+          {isRunning ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FlaskConical className="mr-2 h-4 w-4" />
+          )}
+          Backtest
+        </Button>
+        <span className="text-sm text-muted-foreground">on the last</span>
+        <Input
+          type="number"
+          min={1}
+          max={50}
+          value={limit}
+          onChange={(e) => setLimit(Math.min(50, Math.max(1, parseInt(e.target.value) || 1)))}
+          className="w-[80px]"
+        />
+        <span className="text-sm text-muted-foreground">interactions</span>
+      </div>
+
+      {result && (
+        <div className="space-y-3 rounded-md border p-3">
+          {result.evaluated === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No interactions with a transcript or summary to test against yet.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <Badge variant={result.hitRate! > BROAD_HIT_RATE ? 'destructive' : result.matched > 0 ? 'success' : 'secondary'}>
+                  {Math.round(result.hitRate! * 100)}% hit rate
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  Would have fired for {result.matched} of {result.evaluated} interactions
+                  {result.failed > 0 && ` (${result.failed} could not be evaluated)`}
+                </span>
+              </div>
+              {result.hitRate! > BROAD_HIT_RATE && (
+                <p className="text-xs text-red-600">
+                  This matches most callers. Make the intent description more specific before enabling it.
+                </p>
+              )}
+              <BacktestSamples title="Would fire" samples={result.matches} />
+              <BacktestSamples title="Would not fire" samples={result.misses} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BacktestSamples({ title, samples }: { title: string; samples: BacktestInteraction[] }) {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{title}</p>
+      {samples.map((sample) => (
+        <div key={sample.interactionId} className="text-xs">
+          <Link href={`/admin/interactions/${sample.interactionId}`} className="font-medium hover:underline">
+            #{sample.interactionNumber}
+          </Link>{' '}
+          <span className="text-muted-foreground">{sample.reason || sample.summary || 'No reasoning returned'}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { CheckCircle2, Loader2, Play, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { TriggerSimulationResult } from '@/services/trigger-simulation';
+import { TriggerBacktest } from '@/components/campaigns/trigger-backtest';
+
+interface RecentInteraction {
+  id: string;
+  interactionNumber: number;
+  aiSummary: string | null;
+  createdAt: string;
+}
+
+interface TriggerTestPanelProps {
+  campaignId: string;
+  includeInactive: boolean;
+}
+
+/**
+ * Dry run the campaign's triggers against a transcript or past interaction,
+ * and backtest a new intent description. Never sends SMS.
+ */
+export function TriggerTestPanel({ campaignId, includeInactive }: TriggerTestPanelProps) {
+  const [source, setSource] = useState<'transcript' | 'interaction'>('transcript');
+  const [transcript, setTranscript] = useState('');
+  const [interactionId, setInteractionId] = useState('');
+  const [recentInteractions, setRecentInteractions] = useState<RecentInteraction[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<TriggerSimulationResult[] | null>(null);
+  const [backtestIntent, setBacktestIntent] = useState('');
+
+  useEffect(() => {
+    const fetchRecent = async () => {
+      try {
+        const response = await fetch(`/api/interactions?campaignId=${campaignId}&limit=25`);
+        const result = await response.json();
+        if (response.ok) {
+          setRecentInteractions(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to fetch interactions:', error);
+      }
+    };
+    fetchRecent();
+  }, [campaignId]);
+
+  const runSimulation = async () => {
+    setIsRunning(true);
+    setResults(null);
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/triggers/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          source === 'transcript'
+            ? { transcript, includeInactive }
+            : { interactionId, includeInactive }
+        ),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = result.details ? Object.values(result.details).flat().join(', ') : null;
+        throw new Error(details || result.error || 'Simulation failed');
+      }
+
+      setResults(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Simulation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const canRun = source === 'transcript' ? transcript.trim().length > 0 : !!interactionId;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test Triggers</CardTitle>
+        <CardDescription>
+          See which triggers would fire and why, without sending any SMS. Each test uses the campaign&apos;s AI model.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="simulate">
+          <TabsList>
+            <TabsTrigger value="simulate">Simulate</TabsTrigger>
+            <TabsTrigger value="backtest">Backtest</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="simulate" className="space-y-4 pt-4">
+            <Select value={source} onValueChange={(value) => setSource(value as typeof source)}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="transcript">Paste a transcript</SelectItem>
+                <SelectItem value="interaction">Pick a past interaction</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {source === 'transcript' ? (
+              <Textarea
+                value={transcript}
+                onChange={(e) => setTranscript(e.target.value)}
+                placeholder="Paste a call transcript or message..."
+                rows={6}
+              />
+            ) : (
+              <Select value={interactionId} onValueChange={setInteractionId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={recentInteractions.length ? 'Select an interaction' : 'No interactions yet'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {recentInteractions.map((interaction) => (
+                    <SelectItem key={interaction.id} value={interaction.id}>
+                      #{interaction.interactionNumber} - {(interaction.aiSummary || 'No summary').slice(0, 80)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button onClick={runSimulation} disabled={isRunning || !canRun}>
+              {isRunning ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              Run Test
+            </Button>
+
+            {results && (
+              <div className="space-y-2">
+                {results.map((result) => (
+                  <div key={result.triggerId} className="flex items-start gap-3 rounded-md border p-3">
+                    {result.matched ? (
+                      <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-muted-foreground shrink-0" />
+                    )}
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{result.name}</span>
+                        {result.matched && !result.blockedByPolicy && <Badge variant="success">Would fire</Badge>}
+                        {result.matched && result.blockedByPolicy && (
+                          <Badge variant="warning">Matches, but already sent to this contact</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{result.reason || 'No reasoning returned'}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="backtest" className="space-y-4 pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="backtestIntent">Intent Description</Label>
+              <Textarea
+                id="backtestIntent"
+                value={backtestIntent}
+                onChange={(e) => setBacktestIntent(e.target.value)}
+                placeholder="The caller asked about pricing or wanted a quote."
+                rows={3}
+              />
+            </div>
+            <TriggerBacktest campaignId={campaignId} intentDescription={backtestIntent} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import type { ConversationAnalysis, Sentiment } from '@/db/schema';
+
+const SENTIMENT_VARIANTS: Record<Sentiment, 'success' | 'secondary' | 'destructive'> = {
+  positive: 'success',
+  neutral: 'secondary',
+  negative: 'destructive',
+};
+
+export function SentimentBadge({ sentiment }: { sentiment: Sentiment | null | undefined }) {
+  if (!sentiment) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return <Badge variant={SENTIMENT_VARIANTS[sentiment]}>{sentiment}</Badge>;
+}
+
+/**
+ * Sentiment for one transcript turn, if the turn was scored
+ */
+export function TurnSentimentBadge({ analysis, index }: { analysis: ConversationAnalysis | null; index: number }) {
+  const turn = analysis?.turnSentiments?.find((t) => t.index === index);
+  if (!turn || turn.sentiment === 'neutral') {
+    return null;
+  }
+  return (
+    <Badge variant={SENTIMENT_VARIANTS[turn.sentiment]} className="ml-2 text-[10px] px-1.5 py-0">
+      {turn.sentiment}
+    </Badge>
+  );
+}
+
+interface ConversationScoresCardProps {
+  sentiment: Sentiment | null;
+  qualityScore: number | null;
+  analysis: ConversationAnalysis | null;
+}
+
+export function ConversationScoresCard({ sentiment, qualityScore, analysis }: ConversationScoresCardProps) {
+  if (!analysis) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Conversation Scores</CardTitle>
+        <CardDescription>Sentiment, topics and agent quality from the conversation</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {analysis.escalation.detected && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium">Escalation detected</p>
+              <p>{analysis.escalation.reasons.join(', ')}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Sentiment</p>
+            <div className="flex items-center gap-2">
+              <SentimentBadge sentiment={sentiment} />
+              <span className="text-sm text-muted-foreground">{analysis.sentimentScore.toFixed(2)}</span>
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Agent Quality</p>
+            <p className="font-medium">{qualityScore !== null ? `${qualityScore}/100` : 'Not scored'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Topics</p>
+            <div className="flex flex-wrap gap-1">
+              {analysis.topics.length > 0
+                ? analysis.topics.map((topic) => <Badge key={topic} variant="outline">{topic}</Badge>)
+                : <span className="text-sm text-muted-foreground">None</span>}
+            </div>
+          </div>
+        </div>
+
+        {analysis.quality && analysis.quality.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Rubric</p>
+            {analysis.quality.map((q) => (
+              <div key={q.criterion} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <p className="font-medium">{q.criterion}</p>
+                  {q.notes && <p className="text-muted-foreground">{q.notes}</p>}
+                </div>
+                <span className="font-medium shrink-0">{q.score}/10</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  ExtractedFieldFilter,
+  ExtractedFieldInfo,
+  ExtractedFieldOperator,
+  ExtractedFieldSort,
+} from '@/lib/extracted-field-params';
+
+const OPERATOR_LABELS: Record<ExtractedFieldOperator, string> = {
+  eq: 'equals',
+  contains: 'contains',
+  gte: 'at least',
+  lte: 'at most',
+};
+
+function operatorsFor(field: ExtractedFieldInfo | undefined): ExtractedFieldOperator[] {
+  switch (field?.type) {
+    case 'number':
+    case 'date':
+      return ['eq', 'gte', 'lte'];
+    case 'enum':
+    case 'boolean':
+      return ['eq'];
+    default:
+      return ['contains', 'eq'];
+  }
+}
+
+/**
+ * Load the custom fields available for a campaign
+ */
+export function useExtractedFields(campaignId: string | null): ExtractedFieldInfo[] {
+  const [fields, setFields] = useState<ExtractedFieldInfo[]>([]);
+
+  useEffect(() => {
+    if (!campaignId) {
+      setFields([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/campaigns/${campaignId}/extracted-fields`)
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((result) => {
+        if (!cancelled) setFields(result.data || []);
+      })
+      .catch((error) => console.error('Failed to fetch extracted fields:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  return fields;
+}
+
+interface ExtractedFieldFiltersProps {
+  fields: ExtractedFieldInfo[];
+  filters: ExtractedFieldFilter[];
+  sort: ExtractedFieldSort | null;
+  onFiltersChange: (filters: ExtractedFieldFilter[]) => void;
+  onSortChange: (sort: ExtractedFieldSort | null) => void;
+}
+
+export function ExtractedFieldFilters({
+  fields,
+  filters,
+  sort,
+  onFiltersChange,
+  onSortChange,
+}: ExtractedFieldFiltersProps) {
+  const [fieldName, setFieldName] = useState('');
+  const [operator, setOperator] = useState<ExtractedFieldOperator>('contains');
+  const [value, setValue] = useState('');
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const selectedField = fields.find((f) => f.name === fieldName);
+  const operators = operatorsFor(selectedField);
+  const valueOptions = selectedField?.type === 'boolean'
+    ? ['true', 'false']
+    : selectedField?.type === 'enum'
+      ? selectedField.options ?? []
+      : null;
+
+  const selectField = (name: string) => {
+    setFieldName(name);
+    setOperator(operatorsFor(fields.find((f) => f.name === name))[0]);
+    setValue('');
+  };
+
+  const addFilter = () => {
+    if (!fieldName || !value.trim()) return;
+    onFiltersChange([...filters, { field: fieldName, operator, value: value.trim() }]);
+    setValue('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={fieldName} onValueChange={selectField}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Extracted field" />
+          </SelectTrigger>
+          <SelectContent>
+            {fields.map((field) => (
+              <SelectItem key={field.name} value={field.name}>
+                {field.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={operator} onValueChange={(v) => setOperator(v as ExtractedFieldOperator)}>
+          <SelectTrigger className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map((op) => (
+              <SelectItem key={op} value={op}>
+                {OPERATOR_LABELS[op]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {valueOptions ? (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Value" />
+            </SelectTrigger>
+            <SelectContent>
+              {valueOptions.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            className="w-[160px]"
+            type={selectedField?.type === 'date' ? 'date' : selectedField?.type === 'number' ? 'number' : 'text'}
+            placeholder="Value"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addFilter()}
+          />
+        )}
+
+        <Button variant="outline" size="sm" onClick={addFilter} disabled={!fieldName || !value.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Filter
+        </Button>
+
+        <Select
+          value={sort?.field ?? 'none'}
+          onValueChange={(v) => onSortChange(v === 'none' ? null : { field: v, direction: sort?.direction ?? 'desc' })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Sort by date</SelectItem>
+            {fields.map((field) => (
+              <SelectItem key={field.name} value={field.name}>
+                Sort by {field.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {sort && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+          >
+            {sort.direction === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {filters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filters.map((filter, index) => (
+            <Badge key={`${filter.field}-${index}`} variant="secondary" className="gap-1">
+              {filter.field} {OPERATOR_LABELS[filter.operator]} {filter.value}
+              <button onClick={() => onFiltersChange(filters.filter((_, i) => i !== index))}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, Search, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { DncSource, Organization } from '@/db/schema';
+import { DNC_SOURCE_LABELS } from '@/lib/dnc';
+import { formatDateTime, formatPhoneNumber } from '@/lib/utils';
+
+interface DncRow {
+  id: string;
+  phoneNumber: string;
+  organizationId: string | null;
+  organizationName: string | null;
+  source: DncSource;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface DncImportRow {
+  id: string;
+  organizationId: string | null;
+  organizationName: string | null;
+  listName: string;
+  fileName: string | null;
+  totalRows: number;
+  added: number;
+  invalid: number;
+  createdAt: string;
+}
+
+function ScopeSelect({
+  value,
+  onChange,
+  organizations,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  organizations: Organization[];
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="global">All organizations</SelectItem>
+        {organizations.map((org) => (
+          <SelectItem key={org.id} value={org.id}>
+            {org.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ScopeCell({ organizationId, organizationName }: { organizationId: string | null; organizationName: string | null }) {
+  return organizationId
+    ? <>{organizationName}</>
+    : <Badge variant="secondary">All organizations</Badge>;
+}
+
+export function DncManager() {
+  const [numbers, setNumbers] = useState<DncRow[]>([]);
+  const [imports, setImports] = useState<DncImportRow[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [sourceFilter, setSourceFilter] = useState('all');
+  const [newNumber, setNewNumber] = useState('');
+  const [newScope, setNewScope] = useState('global');
+  const [isAdding, setIsAdding] = useState(false);
+  const [listName, setListName] = useState('');
+  const [importScope, setImportScope] = useState('global');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchNumbers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+      if (sourceFilter !== 'all') params.set('source', sourceFilter);
+
+      const response = await fetch(`/api/dnc?${params}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch DNC numbers');
+      }
+      setNumbers(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch DNC numbers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, sourceFilter]);
+
+  const fetchImports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dnc/imports');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch DNC imports');
+      }
+      setImports(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch DNC imports');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNumbers();
+  }, [fetchNumbers]);
+
+  useEffect(() => {
+    fetchImports();
+  }, [fetchImports]);
+
+  useEffect(() => {
+    fetch('/api/organizations')
+      .then((response) => response.json())
+      .then((result) => setOrganizations(result.data || []))
+      .catch((error) => console.error('Failed to fetch organizations:', error));
+  }, []);
+
+  const handleAdd = async () => {
+    if (!newNumber.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const response = await fetch('/api/dnc', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          phoneNumber: newNumber,
+          organizationId: newScope === 'global' ? null : newScope,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add number');
+      }
+
+      toast.success('Number added to the Do-Not-Call list');
+      setNewNumber('');
+      fetchNumbers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add number');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (entry: DncRow) => {
+    if (!confirm(`Allow calls to ${formatPhoneNumber(entry.phoneNumber)} again?`)) return;
+
+    try {
+      const response = await fetch(`/api/dnc/${entry.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove number');
+      }
+
+      toast.success('Number removed from the Do-Not-Call list');
+      fetchNumbers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove number');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile || !listName.trim()) return;
+
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', importFile);
+      formData.append('listName', listName);
+      if (importScope !== 'global') formData.append('organizationId', importScope);
+
+      const response = await fetch('/api/dnc/imports', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import file');
+      }
+
+      toast.success(`Imported ${result.data.added.toLocaleString()} new numbers`);
+      setListName('');
+      setImportFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      fetchImports();
+      fetchNumbers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRemoveImport = async (dncImport: DncImportRow) => {
+    if (!confirm(`Remove "${dncImport.listName}" and the ${dncImport.added.toLocaleString()} numbers it added?`)) return;
+
+    try {
+      const response = await fetch(`/api/dnc/imports/${dncImport.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove import');
+      }
+
+      toast.success('Import removed');
+      fetchImports();
+      fetchNumbers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove import');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Do-Not-Call List</CardTitle>
+          <CardDescription>
+            Outbound campaigns never dial these numbers. Callers who ask not to be called again, by phone or SMS,
+            are added to their organization&apos;s list automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="+15551234567"
+              value={newNumber}
+              onChange={(e) => setNewNumber(e.target.value)}
+              className="w-[200px]"
+            />
+            <ScopeSelect value={newScope} onChange={setNewScope} organizations={organizations} />
+            <Button onClick={handleAdd} disabled={isAdding || !newNumber.trim()}>
+              {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Add Number
+            </Button>
+
+            <div className="ml-auto flex items-center gap-2">
+              <Select value={sourceFilter} onValueChange={setSourceFilter}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sources</SelectItem>
+                  {(Object.entries(DNC_SOURCE_LABELS) as Array<[DncSource, string]>).map(([source, label]) => (
+                    <SelectItem key={source} value={source}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search numbers..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-8 w-[200px]"
+                />
+              </div>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : numbers.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No numbers on the Do-Not-Call list</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Phone Number</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {numbers.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{formatPhoneNumber(entry.phoneNumber)}</TableCell>
+                    <TableCell>
+                      <ScopeCell organizationId={entry.organizationId} organizationName={entry.organizationName} />
+                    </TableCell>
+                    <TableCell className="text-sm">{DNC_SOURCE_LABELS[entry.source] ?? entry.source}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[240px] truncate">
+                      {entry.reason || '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDateTime(entry.createdAt)}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(entry)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Registry Imports</CardTitle>
+          <CardDescription>
+            Upload federal or state DNC files as CSV: the FTC area code and number layout, or one phone number per row.
+            Removing an import removes the numbers it added.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="List name, e.g. National DNC Registry"
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              className="w-[260px]"
+            />
+            <ScopeSelect value={importScope} onChange={setImportScope} organizations={organizations} />
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt"
+              onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+              className="w-[240px]"
+            />
+            <Button onClick={handleImport} disabled={isImporting || !importFile || !listName.trim()}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import
+            </Button>
+          </div>
+
+          {imports.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No DNC files imported</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>List</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Added</TableHead>
+                  <TableHead className="text-right">Invalid</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map((dncImport) => (
+                  <TableRow key={dncImport.id}>
+                    <TableCell>
+                      <div className="font-medium">{dncImport.listName}</div>
+                      {dncImport.fileName && (
+                        <div className="text-xs text-muted-foreground">{dncImport.fileName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ScopeCell organizationId={dncImport.organizationId} organizationName={dncImport.organizationName} />
+                    </TableCell>
+                    <TableCell className="text-right">{dncImport.totalRows.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{dncImport.added.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{dncImport.invalid.toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{formatDateTime(dncImport.createdAt)}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemoveImport(dncImport)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
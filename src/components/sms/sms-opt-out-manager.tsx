@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Organization } from '@/db/schema';
+import { formatDateTime, formatPhoneNumber } from '@/lib/utils';
+
+interface OptOutRow {
+  id: string;
+  phoneNumber: string;
+  organizationId: string | null;
+  organizationName: string | null;
+  keyword: string | null;
+  source: string;
+  createdAt: string;
+}
+
+export function SmsOptOutManager() {
+  const [optOuts, setOptOuts] = useState<OptOutRow[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [newNumber, setNewNumber] = useState('');
+  const [newScope, setNewScope] = useState('global');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const fetchOptOuts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+
+      const response = await fetch(`/api/sms-opt-outs?${params}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch opt-outs');
+      }
+      setOptOuts(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch opt-outs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    fetchOptOuts();
+  }, [fetchOptOuts]);
+
+  useEffect(() => {
+    fetch('/api/organizations')
+      .then((response) => response.json())
+      .then((result) => setOrganizations(result.data || []))
+      .catch((error) => console.error('Failed to fetch organizations:', error));
+  }, []);
+
+  const handleAdd = async () => {
+    if (!newNumber.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const response = await fetch('/api/sms-opt-outs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          phoneNumber: newNumber,
+          organizationId: newScope === 'global' ? null : newScope,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add opt-out');
+      }
+
+      toast.success('Number opted out');
+      setNewNumber('');
+      fetchOptOuts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add opt-out');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (optOut: OptOutRow) => {
+    if (!confirm(`Allow messages to ${formatPhoneNumber(optOut.phoneNumber)} again?`)) return;
+
+    try {
+      const response = await fetch(`/api/sms-opt-outs/${optOut.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove opt-out');
+      }
+
+      toast.success('Opt-out removed');
+      fetchOptOuts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove opt-out');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SMS Opt-Outs</CardTitle>
+        <CardDescription>
+          Numbers that replied STOP. SMS is never sent to a number opted out of its organization or globally.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="+15551234567"
+            value={newNumber}
+            onChange={(e) => setNewNumber(e.target.value)}
+            className="w-[200px]"
+          />
+          <Select value={newScope} onValueChange={setNewScope}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="global">All organizations</SelectItem>
+              {organizations.map((org) => (
+                <SelectItem key={org.id} value={org.id}>
+                  {org.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={isAdding || !newNumber.trim()}>
+            {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Opt Out
+          </Button>
+
+          <div className="relative ml-auto">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search numbers..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8 w-[200px]"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : optOuts.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No opted-out numbers</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Phone Number</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {optOuts.map((optOut) => (
+                <TableRow key={optOut.id}>
+                  <TableCell className="font-medium">{formatPhoneNumber(optOut.phoneNumber)}</TableCell>
+                  <TableCell>
+                    {optOut.organizationId
+                      ? optOut.organizationName
+                      : <Badge variant="secondary">All organizations</Badge>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {optOut.source === 'manual' ? 'Added by admin' : `Replied ${optOut.keyword}`}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDateTime(optOut.createdAt)}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(optOut)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
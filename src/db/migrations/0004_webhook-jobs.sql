@@ -0,0 +1,23 @@
+CREATE TYPE "public"."webhook_job_status" AS ENUM('pending', 'processing', 'completed', 'dead');--> statement-breakpoint
+CREATE TABLE "webhook_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"raw_body" text NOT NULL,
+	"payload_hash" text NOT NULL,
+	"status" "webhook_job_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"next_run_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_at" timestamp with time zone,
+	"last_error" text,
+	"interaction_id" uuid,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_jobs" ADD CONSTRAINT "webhook_jobs_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_jobs" ADD CONSTRAINT "webhook_jobs_interaction_id_interactions_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."interactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_jobs_campaign_idx" ON "webhook_jobs" USING btree ("campaign_id");--> statement-breakpoint
+CREATE INDEX "webhook_jobs_status_next_run_idx" ON "webhook_jobs" USING btree ("status","next_run_at");--> statement-breakpoint
+CREATE INDEX "webhook_jobs_payload_hash_idx" ON "webhook_jobs" USING btree ("campaign_id","payload_hash");
\ No newline at end of file
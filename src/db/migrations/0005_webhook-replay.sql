@@ -0,0 +1,8 @@
+ALTER TABLE "webhook_error_logs" ADD COLUMN "replay_status" text;--> statement-breakpoint
+ALTER TABLE "webhook_error_logs" ADD COLUMN "replay_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "webhook_error_logs" ADD COLUMN "replay_interaction_id" uuid;--> statement-breakpoint
+ALTER TABLE "webhook_error_logs" ADD COLUMN "replay_error" text;--> statement-breakpoint
+ALTER TABLE "webhook_error_logs" ADD COLUMN "last_replayed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "webhook_jobs" ADD COLUMN "error_log_id" uuid;--> statement-breakpoint
+ALTER TABLE "webhook_error_logs" ADD CONSTRAINT "webhook_error_logs_replay_interaction_id_interactions_id_fk" FOREIGN KEY ("replay_interaction_id") REFERENCES "public"."interactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_jobs" ADD CONSTRAINT "webhook_jobs_error_log_id_webhook_error_logs_id_fk" FOREIGN KEY ("error_log_id") REFERENCES "public"."webhook_error_logs"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TYPE "public"."reanalysis_job_status" AS ENUM('pending', 'running', 'completed', 'failed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "interaction_analysis_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"interaction_id" uuid NOT NULL,
+	"ai_summary" text,
+	"ai_extracted_data" jsonb,
+	"source_platform" text,
+	"reason" text NOT NULL,
+	"reanalysis_job_id" uuid,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reanalysis_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"status" "reanalysis_job_status" DEFAULT 'pending' NOT NULL,
+	"only_missing" boolean DEFAULT false NOT NULL,
+	"total_count" integer DEFAULT 0 NOT NULL,
+	"processed_count" integer DEFAULT 0 NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"last_interaction_number" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"locked_at" timestamp with time zone,
+	"requested_by" uuid,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "interaction_analysis_history" ADD CONSTRAINT "interaction_analysis_history_interaction_id_interactions_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."interactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "interaction_analysis_history" ADD CONSTRAINT "interaction_analysis_history_reanalysis_job_id_reanalysis_jobs_id_fk" FOREIGN KEY ("reanalysis_job_id") REFERENCES "public"."reanalysis_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "interaction_analysis_history" ADD CONSTRAINT "interaction_analysis_history_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reanalysis_jobs" ADD CONSTRAINT "reanalysis_jobs_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reanalysis_jobs" ADD CONSTRAINT "reanalysis_jobs_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "interaction_analysis_history_interaction_idx" ON "interaction_analysis_history" USING btree ("interaction_id");--> statement-breakpoint
+CREATE INDEX "interaction_analysis_history_created_at_idx" ON "interaction_analysis_history" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "reanalysis_jobs_campaign_idx" ON "reanalysis_jobs" USING btree ("campaign_id");--> statement-breakpoint
+CREATE INDEX "reanalysis_jobs_status_idx" ON "reanalysis_jobs" USING btree ("status");
\ No newline at end of file
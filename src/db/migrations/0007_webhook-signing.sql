@@ -0,0 +1,6 @@
+ALTER TABLE "campaigns" ADD COLUMN "webhook_secret" text;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "webhook_secret_previous" text;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "webhook_secret_previous_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "outbound_campaigns" ADD COLUMN "webhook_secret" text;--> statement-breakpoint
+ALTER TABLE "outbound_campaigns" ADD COLUMN "webhook_secret_previous" text;--> statement-breakpoint
+ALTER TABLE "outbound_campaigns" ADD COLUMN "webhook_secret_previous_expires_at" timestamp with time zone;
\ No newline at end of file
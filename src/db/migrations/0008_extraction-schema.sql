@@ -0,0 +1 @@
+ALTER TABLE "campaigns" ADD COLUMN "extraction_schema" jsonb DEFAULT '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "campaigns" ADD COLUMN "ai_model" text;--> statement-breakpoint
+ALTER TABLE "outbound_campaigns" ADD COLUMN "ai_model" text;
\ No newline at end of file
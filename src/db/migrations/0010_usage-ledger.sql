@@ -0,0 +1,28 @@
+CREATE TYPE "public"."usage_kind" AS ENUM('ai_analysis', 'ai_reanalysis', 'ai_trigger_evaluation', 'voice_call');--> statement-breakpoint
+CREATE TABLE "usage_ledger" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"campaign_id" uuid,
+	"outbound_campaign_id" uuid,
+	"interaction_id" uuid,
+	"outbound_call_log_id" uuid,
+	"kind" "usage_kind" NOT NULL,
+	"provider" text NOT NULL,
+	"model" text,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_micros" integer,
+	"duration_seconds" integer,
+	"cost_breakdown" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "usage_ledger" ADD CONSTRAINT "usage_ledger_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usage_ledger" ADD CONSTRAINT "usage_ledger_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usage_ledger" ADD CONSTRAINT "usage_ledger_outbound_campaign_id_outbound_campaigns_id_fk" FOREIGN KEY ("outbound_campaign_id") REFERENCES "public"."outbound_campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usage_ledger" ADD CONSTRAINT "usage_ledger_interaction_id_interactions_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."interactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usage_ledger" ADD CONSTRAINT "usage_ledger_outbound_call_log_id_outbound_call_logs_id_fk" FOREIGN KEY ("outbound_call_log_id") REFERENCES "public"."outbound_call_logs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "usage_ledger_organization_created_at_idx" ON "usage_ledger" USING btree ("organization_id","created_at");--> statement-breakpoint
+CREATE INDEX "usage_ledger_campaign_idx" ON "usage_ledger" USING btree ("campaign_id");--> statement-breakpoint
+CREATE INDEX "usage_ledger_outbound_campaign_idx" ON "usage_ledger" USING btree ("outbound_campaign_id");--> statement-breakpoint
+CREATE INDEX "usage_ledger_interaction_idx" ON "usage_ledger" USING btree ("interaction_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."sentiment" AS ENUM('positive', 'neutral', 'negative');--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "quality_rubric" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "sentiment" "sentiment";--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "quality_score" integer;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "conversation_analysis" jsonb;--> statement-breakpoint
+CREATE INDEX "interactions_sentiment_idx" ON "interactions" USING btree ("sentiment");
\ No newline at end of file
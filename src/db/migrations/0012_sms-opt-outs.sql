@@ -0,0 +1,17 @@
+ALTER TYPE "public"."sms_status" ADD VALUE 'blocked';--> statement-breakpoint
+CREATE TABLE "sms_opt_outs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid,
+	"phone_number" text NOT NULL,
+	"keyword" text,
+	"source" text NOT NULL,
+	"campaign_id" uuid,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "sms_opt_outs_org_phone_unique" UNIQUE NULLS NOT DISTINCT("organization_id","phone_number")
+);
+--> statement-breakpoint
+ALTER TABLE "sms_opt_outs" ADD CONSTRAINT "sms_opt_outs_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_opt_outs" ADD CONSTRAINT "sms_opt_outs_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_opt_outs" ADD CONSTRAINT "sms_opt_outs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sms_opt_outs_phone_idx" ON "sms_opt_outs" USING btree ("phone_number");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TYPE "public"."sms_status" ADD VALUE 'queued' BEFORE 'sent';--> statement-breakpoint
+ALTER TYPE "public"."sms_status" ADD VALUE 'undelivered' BEFORE 'failed';--> statement-breakpoint
+ALTER TABLE "sms_logs" ADD COLUMN "error_code" integer;--> statement-breakpoint
+ALTER TABLE "sms_logs" ADD COLUMN "status_updated_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "sms_logs" ADD COLUMN "delivered_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "sms_logs_twilio_sid_idx" ON "sms_logs" USING btree ("twilio_sid");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."scheduled_sms_status" AS ENUM('pending', 'sending', 'sent', 'failed', 'canceled');--> statement-breakpoint
+CREATE TABLE "scheduled_sms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger_id" uuid NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"interaction_id" uuid,
+	"step_number" integer NOT NULL,
+	"to_number" text NOT NULL,
+	"message" text NOT NULL,
+	"timezone" text NOT NULL,
+	"send_at" timestamp with time zone NOT NULL,
+	"status" "scheduled_sms_status" DEFAULT 'pending' NOT NULL,
+	"cancel_reason" text,
+	"locked_at" timestamp with time zone,
+	"sms_log_id" uuid,
+	"last_error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "follow_up_steps" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "quiet_hours_start" text;--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "quiet_hours_end" text;--> statement-breakpoint
+ALTER TABLE "scheduled_sms" ADD CONSTRAINT "scheduled_sms_trigger_id_sms_triggers_id_fk" FOREIGN KEY ("trigger_id") REFERENCES "public"."sms_triggers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_sms" ADD CONSTRAINT "scheduled_sms_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_sms" ADD CONSTRAINT "scheduled_sms_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_sms" ADD CONSTRAINT "scheduled_sms_interaction_id_interactions_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."interactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_sms" ADD CONSTRAINT "scheduled_sms_sms_log_id_sms_logs_id_fk" FOREIGN KEY ("sms_log_id") REFERENCES "public"."sms_logs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scheduled_sms_status_send_at_idx" ON "scheduled_sms" USING btree ("status","send_at");--> statement-breakpoint
+CREATE INDEX "scheduled_sms_contact_idx" ON "scheduled_sms" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "scheduled_sms_to_number_idx" ON "scheduled_sms" USING btree ("to_number");
\ No newline at end of file
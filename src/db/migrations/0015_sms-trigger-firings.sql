@@ -0,0 +1,43 @@
+CREATE TYPE "public"."sms_trigger_refire_policy" AS ENUM('once', 'cooldown', 'per_interaction', 'max_count');--> statement-breakpoint
+CREATE TABLE "sms_trigger_firings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger_id" uuid NOT NULL,
+	"contact_id" uuid,
+	"outbound_contact_id" uuid,
+	"interaction_id" uuid,
+	"outbound_call_log_id" uuid,
+	"sms_log_id" uuid,
+	"fired_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "refire_policy" "sms_trigger_refire_policy" DEFAULT 'once' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "cooldown_days" integer;--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "max_fires" integer;--> statement-breakpoint
+ALTER TABLE "sms_trigger_firings" ADD CONSTRAINT "sms_trigger_firings_trigger_id_sms_triggers_id_fk" FOREIGN KEY ("trigger_id") REFERENCES "public"."sms_triggers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_trigger_firings" ADD CONSTRAINT "sms_trigger_firings_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_trigger_firings" ADD CONSTRAINT "sms_trigger_firings_outbound_contact_id_outbound_contacts_id_fk" FOREIGN KEY ("outbound_contact_id") REFERENCES "public"."outbound_contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_trigger_firings" ADD CONSTRAINT "sms_trigger_firings_interaction_id_interactions_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."interactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_trigger_firings" ADD CONSTRAINT "sms_trigger_firings_outbound_call_log_id_outbound_call_logs_id_fk" FOREIGN KEY ("outbound_call_log_id") REFERENCES "public"."outbound_call_logs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_trigger_firings" ADD CONSTRAINT "sms_trigger_firings_sms_log_id_sms_logs_id_fk" FOREIGN KEY ("sms_log_id") REFERENCES "public"."sms_logs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sms_trigger_firings_trigger_contact_idx" ON "sms_trigger_firings" USING btree ("trigger_id","contact_id");--> statement-breakpoint
+CREATE INDEX "sms_trigger_firings_trigger_outbound_contact_idx" ON "sms_trigger_firings" USING btree ("trigger_id","outbound_contact_id");--> statement-breakpoint
+-- Move the fired-trigger arrays into sms_trigger_firings, linking the latest message each trigger sent the contact
+INSERT INTO "sms_trigger_firings" ("trigger_id", "contact_id", "interaction_id", "sms_log_id", "fired_at")
+SELECT "sms_triggers"."id", "contacts"."id", "last_log"."interaction_id", "last_log"."id", COALESCE("last_log"."sent_at", "contacts"."created_at")
+FROM "contacts"
+CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE("contacts"."sms_triggers_fired", '[]'::jsonb)) AS "fired"("trigger_id")
+JOIN "sms_triggers" ON "sms_triggers"."id"::text = "fired"."trigger_id"
+LEFT JOIN LATERAL (
+	SELECT "sms_logs"."id", "sms_logs"."interaction_id", "sms_logs"."sent_at"
+	FROM "sms_logs"
+	WHERE "sms_logs"."trigger_id" = "sms_triggers"."id" AND "sms_logs"."contact_id" = "contacts"."id" AND "sms_logs"."status" <> 'blocked'
+	ORDER BY "sms_logs"."sent_at" DESC
+	LIMIT 1
+) AS "last_log" ON true;--> statement-breakpoint
+INSERT INTO "sms_trigger_firings" ("trigger_id", "outbound_contact_id", "fired_at")
+SELECT "sms_triggers"."id", "outbound_contacts"."id", "outbound_contacts"."updated_at"
+FROM "outbound_contacts"
+CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE("outbound_contacts"."sms_triggers_fired", '[]'::jsonb)) AS "fired"("trigger_id")
+JOIN "sms_triggers" ON "sms_triggers"."id"::text = "fired"."trigger_id";--> statement-breakpoint
+ALTER TABLE "contacts" DROP COLUMN "sms_triggers_fired";--> statement-breakpoint
+ALTER TABLE "outbound_contacts" DROP COLUMN "sms_triggers_fired";
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."trigger_action_status" AS ENUM('success', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."trigger_action_type" AS ENUM('email', 'webhook', 'create_lead', 'tag');--> statement-breakpoint
+CREATE TABLE "trigger_action_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger_id" uuid,
+	"interaction_id" uuid,
+	"action_type" "trigger_action_type" NOT NULL,
+	"status" "trigger_action_status" NOT NULL,
+	"target" text,
+	"details" jsonb,
+	"error_message" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sms_triggers" ALTER COLUMN "sms_message" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "sms_triggers" ADD COLUMN "actions" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "trigger_action_logs" ADD CONSTRAINT "trigger_action_logs_trigger_id_sms_triggers_id_fk" FOREIGN KEY ("trigger_id") REFERENCES "public"."sms_triggers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trigger_action_logs" ADD CONSTRAINT "trigger_action_logs_interaction_id_interactions_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."interactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trigger_action_logs_trigger_idx" ON "trigger_action_logs" USING btree ("trigger_id");--> statement-breakpoint
+CREATE INDEX "trigger_action_logs_interaction_idx" ON "trigger_action_logs" USING btree ("interaction_id");
\ No newline at end of file
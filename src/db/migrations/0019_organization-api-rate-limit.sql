@@ -0,0 +1 @@
+ALTER TABLE "organizations" ADD COLUMN "api_rate_limit" integer;
\ No newline at end of file
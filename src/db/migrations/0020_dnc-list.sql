@@ -0,0 +1,32 @@
+CREATE TABLE "dnc_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid,
+	"list_name" text NOT NULL,
+	"file_name" text,
+	"total_rows" integer DEFAULT 0 NOT NULL,
+	"added" integer DEFAULT 0 NOT NULL,
+	"invalid" integer DEFAULT 0 NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "dnc_numbers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid,
+	"phone_number" text NOT NULL,
+	"source" text NOT NULL,
+	"reason" text,
+	"import_id" uuid,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "dnc_numbers_org_phone_unique" UNIQUE NULLS NOT DISTINCT("organization_id","phone_number")
+);
+--> statement-breakpoint
+ALTER TABLE "dnc_imports" ADD CONSTRAINT "dnc_imports_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dnc_imports" ADD CONSTRAINT "dnc_imports_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dnc_numbers" ADD CONSTRAINT "dnc_numbers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dnc_numbers" ADD CONSTRAINT "dnc_numbers_import_id_dnc_imports_id_fk" FOREIGN KEY ("import_id") REFERENCES "public"."dnc_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dnc_numbers" ADD CONSTRAINT "dnc_numbers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "dnc_imports_organization_idx" ON "dnc_imports" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "dnc_numbers_phone_idx" ON "dnc_numbers" USING btree ("phone_number");--> statement-breakpoint
+CREATE INDEX "dnc_numbers_import_idx" ON "dnc_numbers" USING btree ("import_id");
\ No newline at end of file
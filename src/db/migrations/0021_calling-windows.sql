@@ -0,0 +1,2 @@
+ALTER TABLE "outbound_campaigns" ADD COLUMN "blackout_dates" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "outbound_contacts" ADD COLUMN "state" text;
\ No newline at end of file
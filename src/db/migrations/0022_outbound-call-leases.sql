@@ -0,0 +1 @@
+ALTER TABLE "outbound_contacts" ADD COLUMN "locked_at" timestamp with time zone;
\ No newline at end of file
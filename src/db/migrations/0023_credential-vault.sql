@@ -0,0 +1,18 @@
+CREATE TABLE "organization_credentials" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"provider" text NOT NULL,
+	"account_id" text,
+	"secret" text NOT NULL,
+	"key_id" text NOT NULL,
+	"hint" text NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_credentials_org_provider_unique" UNIQUE("organization_id","provider")
+);
+--> statement-breakpoint
+ALTER TABLE "organization_credentials" ADD CONSTRAINT "organization_credentials_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_credentials" ADD CONSTRAINT "organization_credentials_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "organization_credentials_account_idx" ON "organization_credentials" USING btree ("account_id");--> statement-breakpoint
+CREATE INDEX "organization_credentials_key_idx" ON "organization_credentials" USING btree ("key_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "outbound_campaigns" ADD COLUMN "voice_provider" text DEFAULT 'vapi' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Contacts left under a retryable outcome were never claimed again: queue the ones with attempts
+-- left and finish the rest, as the dialer now does
+UPDATE "outbound_contacts" AS c
+SET "status" = 'queued', "updated_at" = now()
+FROM "outbound_campaigns" AS oc
+WHERE c."campaign_id" = oc."id"
+  AND c."status" IN ('no_answer', 'busy', 'voicemail')
+  AND c."attempt_count" < oc."max_retries" + 1;--> statement-breakpoint
+UPDATE "outbound_contacts" AS c
+SET "status" = 'completed', "updated_at" = now()
+WHERE c."status" IN ('no_answer', 'busy', 'voicemail');
@@ -0,0 +1,2 @@
+ALTER TABLE "trigger_action_logs" ADD COLUMN "outbound_call_log_id" uuid;--> statement-breakpoint
+ALTER TABLE "trigger_action_logs" ADD CONSTRAINT "trigger_action_logs_outbound_call_log_id_outbound_call_logs_id_fk" FOREIGN KEY ("outbound_call_log_id") REFERENCES "public"."outbound_call_logs"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "webhook_error_logs" ADD COLUMN "payload_hash" text;
\ No newline at end of file
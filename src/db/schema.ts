@@ -9,6 +9,7 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  unique,
   serial,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
@@ -18,10 +19,19 @@ export const userRoleEnum = pgEnum('user_role', ['admin', 'client_user']);
 export const campaignTypeEnum = pgEnum('campaign_type', ['inbound', 'outbound']);
 export const sourceTypeEnum = pgEnum('source_type', ['phone', 'sms', 'web_form', 'chatbot']);
 export const callStatusEnum = pgEnum('call_status', ['completed', 'no_answer', 'failed', 'busy', 'canceled']);
-export const smsStatusEnum = pgEnum('sms_status', ['pending', 'sent', 'delivered', 'failed']);
+export const smsStatusEnum = pgEnum('sms_status', ['pending', 'queued', 'sent', 'delivered', 'undelivered', 'failed', 'blocked']);
 export const reportFrequencyEnum = pgEnum('report_frequency', ['daily', 'weekly', 'monthly']);
 export const reportScopeEnum = pgEnum('report_scope', ['all_campaigns', 'per_campaign']);
 export const emailTemplateTypeEnum = pgEnum('email_template_type', ['credentials', 'welcome', 'marketing', 'password_reset', 'scheduled_report']);
+export const webhookJobStatusEnum = pgEnum('webhook_job_status', ['pending', 'processing', 'completed', 'dead']);
+export const reanalysisJobStatusEnum = pgEnum('reanalysis_job_status', ['pending', 'running', 'completed', 'failed', 'cancelled']);
+export const sentimentEnum = pgEnum('sentiment', ['positive', 'neutral', 'negative']);
+export const smsTriggerRefirePolicyEnum = pgEnum('sms_trigger_refire_policy', ['once', 'cooldown', 'per_interaction', 'max_count']);
+export const triggerActionTypeEnum = pgEnum('trigger_action_type', ['email', 'webhook', 'create_lead', 'tag']);
+export const triggerActionStatusEnum = pgEnum('trigger_action_status', ['success', 'failed']);
+export const scheduledSmsStatusEnum = pgEnum('scheduled_sms_status', ['pending', 'sending', 'sent', 'failed', 'canceled']);
+export const eventDeliveryStatusEnum = pgEnum('event_delivery_status', ['pending', 'delivering', 'delivered', 'failed']);
+export const usageKindEnum = pgEnum('usage_kind', ['ai_analysis', 'ai_reanalysis', 'ai_trigger_evaluation', 'voice_call']);
 
 // Sales Portal Enums
 export const leadStatusEnum = pgEnum('lead_status', ['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'won', 'lost']);
@@ -41,6 +51,7 @@ export const organizations = pgTable('organizations', {
   phone: text('phone'),
   address: text('address'),
   isActive: boolean('is_active').default(true).notNull(),
+  apiRateLimit: integer('api_rate_limit'), // Public API requests per minute; null uses the default quota
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -69,6 +80,64 @@ export const users = pgTable('users', {
   roleIdx: index('users_role_idx').on(table.role),
 }));
 
+// Typed field an admin wants extracted from every interaction of a campaign
+export type ExtractionFieldType = 'string' | 'number' | 'enum' | 'date' | 'boolean';
+
+export interface ExtractionSchemaField {
+  name: string;
+  type: ExtractionFieldType;
+  required: boolean;
+  description: string;
+  options?: string[]; // Allowed values for enum fields
+}
+
+// Criterion the agent side of a conversation is scored against (0-10, weighted)
+export interface QualityRubricCriterion {
+  name: string;
+  description: string;
+  weight: number;
+}
+
+// Follow-up message of an SMS trigger sequence, sent delayMinutes after the trigger fired
+export interface SmsSequenceStep {
+  delayMinutes: number;
+  message: string;
+}
+
+// Non-SMS action a trigger runs when it fires; templated fields use the SMS merge variables
+export type TriggerAction =
+  | { type: 'email'; to: string; subject: string; body: string } // to: comma-separated addresses
+  | { type: 'webhook'; url: string; secret?: string } // secret signs the body like inbound webhooks
+  | { type: 'create_lead'; salesUserId: string }
+  | { type: 'tag'; tags: string[]; flag: boolean };
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+// Event a client can subscribe to; see EVENT_TYPES in lib/event-webhooks for the payloads
+export type EventType = 'interaction.created' | 'outbound_call.completed' | 'sms.sent' | 'lead.stage_changed';
+
+// Permission granted to an organization API key; see API_KEY_SCOPES in lib/api-keys
+export type ApiKeyScope = 'interactions:read' | 'campaigns:read' | 'contacts:write';
+
+// How a number got on the Do-Not-Call list
+export type DncSource = 'manual' | 'import' | 'call' | 'sms_reply';
+
+// Telephony platform an outbound campaign dials through; see VOICE_PROVIDERS in lib/voice-providers
+export type VoiceProviderName = 'vapi' | 'retell' | 'bland' | 'autocalls' | 'fake';
+
+// Account an organization connects with its own credentials; see CREDENTIAL_PROVIDERS in lib/credential-crypto
+export type CredentialProvider = Exclude<VoiceProviderName, 'fake'> | 'twilio';
+
+// Output of the scoring stage, stored on interactions.conversation_analysis
+export interface ConversationAnalysis {
+  sentimentScore: number; // -1 (very negative) to 1 (very positive)
+  turnSentiments?: Array<{ index: number; role: string; sentiment: Sentiment; score: number }>;
+  topics: string[];
+  quality?: Array<{ criterion: string; score: number; notes?: string }>;
+  escalation: { detected: boolean; reasons: string[] };
+  analyzedAt: string;
+}
+
 // Campaigns
 export const campaigns = pgTable('campaigns', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -79,10 +148,17 @@ export const campaigns = pgTable('campaigns', {
   campaignType: campaignTypeEnum('campaign_type').default('inbound').notNull(),
   twilioPhoneNumber: text('twilio_phone_number'),
   twilioOverride: boolean('twilio_override').default(false).notNull(),
-  twilioAccountSid: text('twilio_account_sid'), // Encrypted
-  twilioAuthToken: text('twilio_auth_token'), // Encrypted
+  twilioAccountSid: text('twilio_account_sid'),
+  twilioAuthToken: text('twilio_auth_token'), // Sealed, see lib/credential-crypto
   aiExtractionHints: jsonb('ai_extraction_hints').default({}).$type<Record<string, string>>(),
+  extractionSchema: jsonb('extraction_schema').default([]).$type<ExtractionSchemaField[]>(),
+  aiModel: text('ai_model'), // Null uses the provider's default model
+  qualityRubric: jsonb('quality_rubric').default([]).$type<QualityRubricCriterion[]>(), // Empty uses the default rubric
   isActive: boolean('is_active').default(true).notNull(),
+  // Webhook signing (verification is enforced once a secret is set)
+  webhookSecret: text('webhook_secret'),
+  webhookSecretPrevious: text('webhook_secret_previous'), // Still accepted during rotation
+  webhookSecretPreviousExpiresAt: timestamp('webhook_secret_previous_expires_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -96,7 +172,6 @@ export const contacts = pgTable('contacts', {
   id: uuid('id').primaryKey().defaultRandom(),
   campaignId: uuid('campaign_id').notNull().references(() => campaigns.id, { onDelete: 'cascade' }),
   phoneNumber: text('phone_number').notNull(),
-  smsTriggersfred: jsonb('sms_triggers_fired').default([]).$type<string[]>(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   campaignPhoneIdx: uniqueIndex('contacts_campaign_phone_idx').on(table.campaignId, table.phoneNumber),
@@ -122,6 +197,10 @@ export const interactions = pgTable('interactions', {
   payloadHash: text('payload_hash'),
   tags: jsonb('tags').default([]).$type<string[]>(),
   flagged: boolean('flagged').default(false).notNull(),
+  // Scoring stage
+  sentiment: sentimentEnum('sentiment'),
+  qualityScore: integer('quality_score'), // 0-100 against the campaign rubric
+  conversationAnalysis: jsonb('conversation_analysis').$type<ConversationAnalysis>(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   campaignIdx: index('interactions_campaign_idx').on(table.campaignId),
@@ -129,6 +208,45 @@ export const interactions = pgTable('interactions', {
   createdAtIdx: index('interactions_created_at_idx').on(table.createdAt),
   sourceTypeIdx: index('interactions_source_type_idx').on(table.sourceType),
   payloadHashIdx: index('interactions_payload_hash_idx').on(table.payloadHash),
+  sentimentIdx: index('interactions_sentiment_idx').on(table.sentiment),
+}));
+
+// Reanalysis Jobs (campaign-level bulk AI re-analysis)
+export const reanalysisJobs = pgTable('reanalysis_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  campaignId: uuid('campaign_id').notNull().references(() => campaigns.id, { onDelete: 'cascade' }),
+  status: reanalysisJobStatusEnum('status').default('pending').notNull(),
+  onlyMissing: boolean('only_missing').default(false).notNull(), // Only interactions without an AI summary
+  totalCount: integer('total_count').default(0).notNull(),
+  processedCount: integer('processed_count').default(0).notNull(),
+  failedCount: integer('failed_count').default(0).notNull(),
+  lastInteractionNumber: integer('last_interaction_number').default(0).notNull(), // Cursor
+  lastError: text('last_error'),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  requestedBy: uuid('requested_by').references(() => users.id, { onDelete: 'set null' }),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  campaignIdx: index('reanalysis_jobs_campaign_idx').on(table.campaignId),
+  statusIdx: index('reanalysis_jobs_status_idx').on(table.status),
+}));
+
+// Interaction Analysis History (previous AI extractions replaced by a re-analysis)
+export const interactionAnalysisHistory = pgTable('interaction_analysis_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  interactionId: uuid('interaction_id').notNull().references(() => interactions.id, { onDelete: 'cascade' }),
+  aiSummary: text('ai_summary'),
+  aiExtractedData: jsonb('ai_extracted_data').$type<Record<string, unknown>>(),
+  sourcePlatform: text('source_platform'),
+  reason: text('reason').notNull(), // 'manual', 'bulk'
+  reanalysisJobId: uuid('reanalysis_job_id').references(() => reanalysisJobs.id, { onDelete: 'set null' }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  interactionIdx: index('interaction_analysis_history_interaction_idx').on(table.interactionId),
+  createdAtIdx: index('interaction_analysis_history_created_at_idx').on(table.createdAt),
 }));
 
 // SMS Triggers
@@ -137,7 +255,15 @@ export const smsTriggers = pgTable('sms_triggers', {
   campaignId: uuid('campaign_id').notNull().references(() => campaigns.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   intentDescription: text('intent_description').notNull(),
-  smsMessage: text('sms_message').notNull(),
+  smsMessage: text('sms_message'), // Null for triggers that only run actions
+  actions: jsonb('actions').default([]).$type<TriggerAction[]>(),
+  followUpSteps: jsonb('follow_up_steps').default([]).$type<SmsSequenceStep[]>(), // Sent after smsMessage; empty sends only smsMessage
+  quietHoursStart: text('quiet_hours_start'), // 'HH:MM' in the contact's timezone; follow-ups wait until quietHoursEnd
+  quietHoursEnd: text('quiet_hours_end'),
+  // When a trigger may fire again for a contact it already messaged
+  refirePolicy: smsTriggerRefirePolicyEnum('refire_policy').default('once').notNull(),
+  cooldownDays: integer('cooldown_days'), // 'cooldown': days since the last firing
+  maxFires: integer('max_fires'), // 'max_count': firings per contact
   priority: integer('priority').default(100).notNull(),
   isActive: boolean('is_active').default(true).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -158,12 +284,90 @@ export const smsLogs = pgTable('sms_logs', {
   message: text('message').notNull(),
   status: smsStatusEnum('status').default('pending').notNull(),
   twilioSid: text('twilio_sid'),
+  errorCode: integer('error_code'), // Twilio error code, e.g. 30003 (unreachable handset)
   errorMessage: text('error_message'),
   sentAt: timestamp('sent_at', { withTimezone: true }).defaultNow().notNull(),
+  // Delivery status callbacks
+  statusUpdatedAt: timestamp('status_updated_at', { withTimezone: true }),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
 }, (table) => ({
   interactionIdx: index('sms_logs_interaction_idx').on(table.interactionId),
   triggerIdx: index('sms_logs_trigger_idx').on(table.triggerId),
   statusIdx: index('sms_logs_status_idx').on(table.status),
+  twilioSidIdx: index('sms_logs_twilio_sid_idx').on(table.twilioSid),
+}));
+
+// Trigger Action Logs (result of each non-SMS action, like sms_logs for messages)
+export const triggerActionLogs = pgTable('trigger_action_logs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  triggerId: uuid('trigger_id').references(() => smsTriggers.id, { onDelete: 'set null' }),
+  interactionId: uuid('interaction_id').references(() => interactions.id, { onDelete: 'set null' }),
+  outboundCallLogId: uuid('outbound_call_log_id').references(() => outboundCallLogs.id, { onDelete: 'set null' }),
+  actionType: triggerActionTypeEnum('action_type').notNull(),
+  status: triggerActionStatusEnum('status').notNull(),
+  target: text('target'), // Recipients, URL, sales user or tags
+  details: jsonb('details').$type<Record<string, unknown>>(), // e.g. response status, created lead ID
+  errorMessage: text('error_message'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  triggerIdx: index('trigger_action_logs_trigger_idx').on(table.triggerId),
+  interactionIdx: index('trigger_action_logs_interaction_idx').on(table.interactionId),
+}));
+
+// SMS Trigger Firings (a trigger matched and its first message was sent to a contact)
+export const smsTriggerFirings = pgTable('sms_trigger_firings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  triggerId: uuid('trigger_id').notNull().references(() => smsTriggers.id, { onDelete: 'cascade' }),
+  // Exactly one of contactId (inbound) and outboundContactId is set
+  contactId: uuid('contact_id').references(() => contacts.id, { onDelete: 'cascade' }),
+  outboundContactId: uuid('outbound_contact_id').references(() => outboundContacts.id, { onDelete: 'cascade' }),
+  interactionId: uuid('interaction_id').references(() => interactions.id, { onDelete: 'set null' }),
+  outboundCallLogId: uuid('outbound_call_log_id').references(() => outboundCallLogs.id, { onDelete: 'set null' }),
+  smsLogId: uuid('sms_log_id').references(() => smsLogs.id, { onDelete: 'set null' }),
+  firedAt: timestamp('fired_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  triggerContactIdx: index('sms_trigger_firings_trigger_contact_idx').on(table.triggerId, table.contactId),
+  triggerOutboundContactIdx: index('sms_trigger_firings_trigger_outbound_contact_idx').on(table.triggerId, table.outboundContactId),
+}));
+
+// Scheduled SMS (pending follow-up steps of trigger sequences, sent by cron)
+export const scheduledSms = pgTable('scheduled_sms', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  triggerId: uuid('trigger_id').notNull().references(() => smsTriggers.id, { onDelete: 'cascade' }),
+  campaignId: uuid('campaign_id').notNull().references(() => campaigns.id, { onDelete: 'cascade' }),
+  contactId: uuid('contact_id').notNull().references(() => contacts.id, { onDelete: 'cascade' }),
+  interactionId: uuid('interaction_id').references(() => interactions.id, { onDelete: 'set null' }), // Interaction that fired the trigger
+  stepNumber: integer('step_number').notNull(), // 1 = first follow-up (the immediate message is step 0)
+  toNumber: text('to_number').notNull(),
+  message: text('message').notNull(), // Rendered when the sequence started
+  timezone: text('timezone').notNull(), // Contact's timezone used for quiet hours
+  sendAt: timestamp('send_at', { withTimezone: true }).notNull(),
+  status: scheduledSmsStatusEnum('status').default('pending').notNull(),
+  cancelReason: text('cancel_reason'), // 'replied', 'opted_out', 'trigger_inactive', 'restarted'
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  smsLogId: uuid('sms_log_id').references(() => smsLogs.id, { onDelete: 'set null' }),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  statusSendAtIdx: index('scheduled_sms_status_send_at_idx').on(table.status, table.sendAt),
+  contactIdx: index('scheduled_sms_contact_idx').on(table.contactId),
+  toNumberIdx: index('scheduled_sms_to_number_idx').on(table.toNumber),
+}));
+
+// SMS Opt-Outs (STOP replies; a null organization means the number opted out everywhere)
+export const smsOptOuts = pgTable('sms_opt_outs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  phoneNumber: text('phone_number').notNull(),
+  keyword: text('keyword'), // The keyword that opted out, e.g. 'STOP'; null when added by an admin
+  source: text('source').notNull(), // 'inbound_sms', 'manual'
+  campaignId: uuid('campaign_id').references(() => campaigns.id, { onDelete: 'set null' }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  orgPhoneUnique: unique('sms_opt_outs_org_phone_unique').on(table.organizationId, table.phoneNumber).nullsNotDistinct(),
+  phoneIdx: index('sms_opt_outs_phone_idx').on(table.phoneNumber),
 }));
 
 // Email Templates
@@ -201,14 +405,44 @@ export const webhookErrorLogs = pgTable('webhook_error_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
   campaignId: uuid('campaign_id').references(() => campaigns.id, { onDelete: 'set null' }),
   rawBody: text('raw_body'),
+  payloadHash: text('payload_hash'), // Hash of the full body; raw_body is capped at 10,000 characters
   errorType: text('error_type').notNull(), // 'invalid_json', 'processing_error', etc.
   errorMessage: text('error_message').notNull(),
+  // Replay outcome
+  replayStatus: text('replay_status'), // 'queued', 'succeeded', 'failed'
+  replayCount: integer('replay_count').default(0).notNull(),
+  replayInteractionId: uuid('replay_interaction_id').references(() => interactions.id, { onDelete: 'set null' }),
+  replayError: text('replay_error'),
+  lastReplayedAt: timestamp('last_replayed_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   campaignIdx: index('webhook_error_logs_campaign_idx').on(table.campaignId),
   createdAtIdx: index('webhook_error_logs_created_at_idx').on(table.createdAt),
 }));
 
+// Webhook Jobs (durable queue for inbound webhook processing)
+export const webhookJobs = pgTable('webhook_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  campaignId: uuid('campaign_id').notNull().references(() => campaigns.id, { onDelete: 'cascade' }),
+  rawBody: text('raw_body').notNull(),
+  payloadHash: text('payload_hash').notNull(),
+  status: webhookJobStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(5).notNull(),
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }).defaultNow().notNull(),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  interactionId: uuid('interaction_id').references(() => interactions.id, { onDelete: 'set null' }),
+  errorLogId: uuid('error_log_id').references(() => webhookErrorLogs.id, { onDelete: 'set null' }), // Set when replaying a logged failure
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  campaignIdx: index('webhook_jobs_campaign_idx').on(table.campaignId),
+  statusNextRunIdx: index('webhook_jobs_status_next_run_idx').on(table.status, table.nextRunAt),
+  payloadHashIdx: index('webhook_jobs_payload_hash_idx').on(table.campaignId, table.payloadHash),
+}));
+
 // ============================================
 // SALES PORTAL TABLES
 // ============================================
@@ -271,6 +505,7 @@ export const leads = pgTable('leads', {
   status: leadStatusEnum('status').default('new').notNull(),
   convertedAt: timestamp('converted_at', { withTimezone: true }),
   convertedToOrgId: uuid('converted_to_org_id').references(() => organizations.id, { onDelete: 'set null' }),
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'set null' }), // Client whose caller the lead came from (trigger-created leads)
   lostReason: text('lost_reason'),
   // Timestamps
   lastContactedAt: timestamp('last_contacted_at', { withTimezone: true }),
@@ -414,6 +649,8 @@ export const products = pgTable('products', {
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   users: many(users),
   campaigns: many(campaigns),
+  webhookSubscriptions: many(webhookSubscriptions),
+  apiKeys: many(apiKeys),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -441,6 +678,7 @@ export const contactsRelations = relations(contacts, ({ one, many }) => ({
   }),
   interactions: many(interactions),
   smsLogs: many(smsLogs),
+  smsTriggerFirings: many(smsTriggerFirings),
 }));
 
 export const interactionsRelations = relations(interactions, ({ one, many }) => ({
@@ -453,6 +691,34 @@ export const interactionsRelations = relations(interactions, ({ one, many }) =>
     references: [contacts.id],
   }),
   smsLogs: many(smsLogs),
+  triggerActionLogs: many(triggerActionLogs),
+  analysisHistory: many(interactionAnalysisHistory),
+}));
+
+export const reanalysisJobsRelations = relations(reanalysisJobs, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [reanalysisJobs.campaignId],
+    references: [campaigns.id],
+  }),
+  requester: one(users, {
+    fields: [reanalysisJobs.requestedBy],
+    references: [users.id],
+  }),
+}));
+
+export const interactionAnalysisHistoryRelations = relations(interactionAnalysisHistory, ({ one }) => ({
+  interaction: one(interactions, {
+    fields: [interactionAnalysisHistory.interactionId],
+    references: [interactions.id],
+  }),
+  reanalysisJob: one(reanalysisJobs, {
+    fields: [interactionAnalysisHistory.reanalysisJobId],
+    references: [reanalysisJobs.id],
+  }),
+  creator: one(users, {
+    fields: [interactionAnalysisHistory.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const smsTriggersRelations = relations(smsTriggers, ({ one, many }) => ({
@@ -461,6 +727,9 @@ export const smsTriggersRelations = relations(smsTriggers, ({ one, many }) => ({
     references: [campaigns.id],
   }),
   smsLogs: many(smsLogs),
+  scheduledSms: many(scheduledSms),
+  firings: many(smsTriggerFirings),
+  actionLogs: many(triggerActionLogs),
 }));
 
 export const smsLogsRelations = relations(smsLogs, ({ one }) => ({
@@ -478,6 +747,93 @@ export const smsLogsRelations = relations(smsLogs, ({ one }) => ({
   }),
 }));
 
+export const triggerActionLogsRelations = relations(triggerActionLogs, ({ one }) => ({
+  trigger: one(smsTriggers, {
+    fields: [triggerActionLogs.triggerId],
+    references: [smsTriggers.id],
+  }),
+  interaction: one(interactions, {
+    fields: [triggerActionLogs.interactionId],
+    references: [interactions.id],
+  }),
+}));
+
+export const smsTriggerFiringsRelations = relations(smsTriggerFirings, ({ one }) => ({
+  trigger: one(smsTriggers, {
+    fields: [smsTriggerFirings.triggerId],
+    references: [smsTriggers.id],
+  }),
+  contact: one(contacts, {
+    fields: [smsTriggerFirings.contactId],
+    references: [contacts.id],
+  }),
+  outboundContact: one(outboundContacts, {
+    fields: [smsTriggerFirings.outboundContactId],
+    references: [outboundContacts.id],
+  }),
+  interaction: one(interactions, {
+    fields: [smsTriggerFirings.interactionId],
+    references: [interactions.id],
+  }),
+  outboundCallLog: one(outboundCallLogs, {
+    fields: [smsTriggerFirings.outboundCallLogId],
+    references: [outboundCallLogs.id],
+  }),
+  smsLog: one(smsLogs, {
+    fields: [smsTriggerFirings.smsLogId],
+    references: [smsLogs.id],
+  }),
+}));
+
+export const scheduledSmsRelations = relations(scheduledSms, ({ one }) => ({
+  trigger: one(smsTriggers, {
+    fields: [scheduledSms.triggerId],
+    references: [smsTriggers.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [scheduledSms.campaignId],
+    references: [campaigns.id],
+  }),
+  contact: one(contacts, {
+    fields: [scheduledSms.contactId],
+    references: [contacts.id],
+  }),
+  interaction: one(interactions, {
+    fields: [scheduledSms.interactionId],
+    references: [interactions.id],
+  }),
+  smsLog: one(smsLogs, {
+    fields: [scheduledSms.smsLogId],
+    references: [smsLogs.id],
+  }),
+}));
+
+export const smsOptOutsRelations = relations(smsOptOuts, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [smsOptOuts.organizationId],
+    references: [organizations.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [smsOptOuts.campaignId],
+    references: [campaigns.id],
+  }),
+}));
+
+export const webhookJobsRelations = relations(webhookJobs, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [webhookJobs.campaignId],
+    references: [campaigns.id],
+  }),
+  interaction: one(interactions, {
+    fields: [webhookJobs.interactionId],
+    references: [interactions.id],
+  }),
+  errorLog: one(webhookErrorLogs, {
+    fields: [webhookJobs.errorLogId],
+    references: [webhookErrorLogs.id],
+  }),
+}));
+
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, {
     fields: [auditLogs.userId],
@@ -582,7 +938,8 @@ export const outboundCampaigns = pgTable('outbound_campaigns', {
   description: text('description'),
   webhookUuid: uuid('webhook_uuid').defaultRandom().notNull(),
   status: outboundCampaignStatusEnum('status').default('draft').notNull(),
-  // VAPI Configuration (not stored permanently - entered per session)
+  // Voice provider configuration; the vapi_* columns hold the agent and number at whichever provider is chosen
+  voiceProvider: text('voice_provider').default('vapi').notNull().$type<VoiceProviderName>(),
   vapiAssistantId: text('vapi_assistant_id'),
   vapiAssistantName: text('vapi_assistant_name'),
   vapiPhoneNumberId: text('vapi_phone_number_id'),
@@ -591,13 +948,19 @@ export const outboundCampaigns = pgTable('outbound_campaigns', {
   twilioPhoneNumber: text('twilio_phone_number'),
   twilioOverride: boolean('twilio_override').default(false).notNull(),
   twilioAccountSid: text('twilio_account_sid'),
-  twilioAuthToken: text('twilio_auth_token'),
+  twilioAuthToken: text('twilio_auth_token'), // Sealed, see lib/credential-crypto
+  // Webhook signing (verification is enforced once a secret is set)
+  webhookSecret: text('webhook_secret'),
+  webhookSecretPrevious: text('webhook_secret_previous'), // Still accepted during rotation
+  webhookSecretPreviousExpiresAt: timestamp('webhook_secret_previous_expires_at', { withTimezone: true }),
   // Call Settings
   maxConcurrentCalls: integer('max_concurrent_calls').default(10).notNull(),
   maxRetries: integer('max_retries').default(3).notNull(),
   retryDelayHours: integer('retry_delay_hours').default(4).notNull(),
+  blackoutDates: jsonb('blackout_dates').default([]).notNull().$type<string[]>(), // "YYYY-MM-DD" in each contact's local date
   // AI Extraction (same as inbound)
   aiExtractionHints: jsonb('ai_extraction_hints').default({}).$type<Record<string, string>>(),
+  aiModel: text('ai_model'), // Null uses the provider's default model
   // Stats (cached for performance)
   totalContacts: integer('total_contacts').default(0).notNull(),
   contactsCalled: integer('contacts_called').default(0).notNull(),
@@ -643,21 +1006,21 @@ export const outboundContacts = pgTable('outbound_contacts', {
   lastName: text('last_name'),
   email: text('email'),
   company: text('company'),
-  // Timezone (auto-detected from area code)
+  // Timezone and state (auto-detected from area code)
   timezone: text('timezone'),
   areaCode: text('area_code'),
+  state: text('state'), // Two-letter code, for state calling-hour laws
   // Call Status
   status: outboundContactStatusEnum('status').default('pending').notNull(),
   attemptCount: integer('attempt_count').default(0).notNull(),
   lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
   nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+  lockedAt: timestamp('locked_at', { withTimezone: true }), // Lease on a contact in 'calling', renewed while the call is live
   // Result
   callResult: outboundCallResultEnum('call_result'),
   callDurationSeconds: integer('call_duration_seconds'),
   // Custom Fields (from CSV upload)
   customFields: jsonb('custom_fields').default({}).$type<Record<string, string>>(),
-  // SMS Triggers
-  smsTriggersfred: jsonb('sms_triggers_fired').default([]).$type<string[]>(),
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
@@ -674,7 +1037,7 @@ export const outboundCallLogs = pgTable('outbound_call_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
   campaignId: uuid('campaign_id').notNull().references(() => outboundCampaigns.id, { onDelete: 'cascade' }),
   contactId: uuid('contact_id').notNull().references(() => outboundContacts.id, { onDelete: 'cascade' }),
-  // VAPI Call Info
+  // Call ID at the campaign's voice provider
   vapiCallId: text('vapi_call_id'),
   // Call Details
   attemptNumber: integer('attempt_number').notNull(),
@@ -727,6 +1090,7 @@ export const outboundContactsRelations = relations(outboundContacts, ({ one, man
     references: [outboundCampaigns.id],
   }),
   callLogs: many(outboundCallLogs),
+  smsTriggerFirings: many(smsTriggerFirings),
 }));
 
 export const outboundCallLogsRelations = relations(outboundCallLogs, ({ one }) => ({
@@ -744,6 +1108,235 @@ export const outboundCallLogsRelations = relations(outboundCallLogs, ({ one }) =
   }),
 }));
 
+// ============================================
+// USAGE LEDGER
+// ============================================
+
+// One row per billable AI request or voice call, for per-client cost rollups
+export const usageLedger = pgTable('usage_ledger', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  campaignId: uuid('campaign_id').references(() => campaigns.id, { onDelete: 'set null' }),
+  outboundCampaignId: uuid('outbound_campaign_id').references(() => outboundCampaigns.id, { onDelete: 'set null' }),
+  interactionId: uuid('interaction_id').references(() => interactions.id, { onDelete: 'set null' }),
+  outboundCallLogId: uuid('outbound_call_log_id').references(() => outboundCallLogs.id, { onDelete: 'set null' }),
+  kind: usageKindEnum('kind').notNull(),
+  provider: text('provider').notNull(), // 'openai', 'mock', 'vapi'
+  model: text('model'),
+  promptTokens: integer('prompt_tokens').default(0).notNull(),
+  completionTokens: integer('completion_tokens').default(0).notNull(),
+  costMicros: integer('cost_micros'), // Millionths of a USD; null when the model has no known price
+  durationSeconds: integer('duration_seconds'), // Voice calls only
+  costBreakdown: jsonb('cost_breakdown').$type<Record<string, number>>(), // Vendor-reported components (VAPI: llm, stt, tts, ...)
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  organizationCreatedAtIdx: index('usage_ledger_organization_created_at_idx').on(table.organizationId, table.createdAt),
+  campaignIdx: index('usage_ledger_campaign_idx').on(table.campaignId),
+  outboundCampaignIdx: index('usage_ledger_outbound_campaign_idx').on(table.outboundCampaignId),
+  interactionIdx: index('usage_ledger_interaction_idx').on(table.interactionId),
+}));
+
+export const usageLedgerRelations = relations(usageLedger, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [usageLedger.organizationId],
+    references: [organizations.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [usageLedger.campaignId],
+    references: [campaigns.id],
+  }),
+  outboundCampaign: one(outboundCampaigns, {
+    fields: [usageLedger.outboundCampaignId],
+    references: [outboundCampaigns.id],
+  }),
+}));
+
+// ============================================
+// EVENT WEBHOOKS
+// ============================================
+
+// A client's endpoint and the events pushed to it
+export const webhookSubscriptions = pgTable('webhook_subscriptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(), // Signs each delivery body (x-webhook-signature)
+  events: jsonb('events').notNull().$type<EventType[]>(),
+  description: text('description'),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  organizationIdx: index('webhook_subscriptions_organization_idx').on(table.organizationId),
+}));
+
+// One event sent to one subscription, retried by cron until delivered or out of attempts
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  subscriptionId: uuid('subscription_id').notNull().references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+  eventId: uuid('event_id').notNull(), // Shared by every subscription the event fans out to; receivers dedupe on it
+  eventType: text('event_type').notNull().$type<EventType | 'test'>(),
+  payload: jsonb('payload').notNull().$type<Record<string, unknown>>(),
+  status: eventDeliveryStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(8).notNull(),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  responseStatus: integer('response_status'), // HTTP status of the last attempt
+  responseBody: text('response_body'), // Truncated
+  durationMs: integer('duration_ms'),
+  lastError: text('last_error'),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  subscriptionCreatedAtIdx: index('webhook_deliveries_subscription_created_at_idx').on(table.subscriptionId, table.createdAt),
+  statusNextAttemptIdx: index('webhook_deliveries_status_next_attempt_idx').on(table.status, table.nextAttemptAt),
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [webhookSubscriptions.organizationId],
+    references: [organizations.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  subscription: one(webhookSubscriptions, {
+    fields: [webhookDeliveries.subscriptionId],
+    references: [webhookSubscriptions.id],
+  }),
+}));
+
+// ============================================
+// PUBLIC API KEYS
+// ============================================
+
+// Organization-scoped credential for the /api/v1 REST API; only the hash of the key is stored
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  keyPrefix: text('key_prefix').notNull(), // First characters of the key, shown to tell keys apart
+  keyHash: text('key_hash').notNull(), // SHA-256 of the full key
+  scopes: jsonb('scopes').notNull().$type<ApiKeyScope[]>(),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  keyHashIdx: uniqueIndex('api_keys_key_hash_idx').on(table.keyHash),
+  organizationIdx: index('api_keys_organization_idx').on(table.organizationId),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [apiKeys.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(users, {
+    fields: [apiKeys.createdBy],
+    references: [users.id],
+  }),
+}));
+
+// ============================================
+// DO NOT CALL
+// ============================================
+
+// An uploaded federal/state DNC file; its numbers are removed with it
+export const dncImports = pgTable('dnc_imports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }), // Null applies to every organization
+  listName: text('list_name').notNull(), // e.g. 'National DNC Registry', 'Texas DNC'
+  fileName: text('file_name'),
+  totalRows: integer('total_rows').default(0).notNull(),
+  added: integer('added').default(0).notNull(), // Numbers not already on the list
+  invalid: integer('invalid').default(0).notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  organizationIdx: index('dnc_imports_organization_idx').on(table.organizationId),
+}));
+
+// Numbers the dialer must never call; a null organization blocks the number for everyone
+export const dncNumbers = pgTable('dnc_numbers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  phoneNumber: text('phone_number').notNull(), // E.164
+  source: text('source').notNull().$type<DncSource>(),
+  reason: text('reason'),
+  importId: uuid('import_id').references(() => dncImports.id, { onDelete: 'cascade' }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  orgPhoneUnique: unique('dnc_numbers_org_phone_unique').on(table.organizationId, table.phoneNumber).nullsNotDistinct(),
+  phoneIdx: index('dnc_numbers_phone_idx').on(table.phoneNumber),
+  importIdx: index('dnc_numbers_import_idx').on(table.importId),
+}));
+
+export const dncImportsRelations = relations(dncImports, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [dncImports.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(users, {
+    fields: [dncImports.createdBy],
+    references: [users.id],
+  }),
+  numbers: many(dncNumbers),
+}));
+
+export const dncNumbersRelations = relations(dncNumbers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [dncNumbers.organizationId],
+    references: [organizations.id],
+  }),
+  import: one(dncImports, {
+    fields: [dncNumbers.importId],
+    references: [dncImports.id],
+  }),
+  creator: one(users, {
+    fields: [dncNumbers.createdBy],
+    references: [users.id],
+  }),
+}));
+
+// ============================================
+// CREDENTIAL VAULT
+// ============================================
+
+// An organization's own VAPI or Twilio account. The secret is encrypted under a
+// per-credential data key, which is wrapped by the master key named in keyId.
+export const organizationCredentials = pgTable('organization_credentials', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  provider: text('provider').notNull().$type<CredentialProvider>(),
+  accountId: text('account_id'), // Twilio Account SID; not secret, used to verify Twilio's signatures
+  secret: text('secret').notNull(), // Sealed API key or auth token
+  keyId: text('key_id').notNull(), // Master key the data key is wrapped with
+  hint: text('hint').notNull(), // Last characters of the key or token, shown to tell credentials apart
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  orgProviderUnique: unique('organization_credentials_org_provider_unique').on(table.organizationId, table.provider),
+  accountIdx: index('organization_credentials_account_idx').on(table.accountId),
+  keyIdx: index('organization_credentials_key_idx').on(table.keyId),
+}));
+
+export const organizationCredentialsRelations = relations(organizationCredentials, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationCredentials.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(users, {
+    fields: [organizationCredentials.createdBy],
+    references: [users.id],
+  }),
+}));
+
 // Export types
 export type Organization = typeof organizations.$inferSelect;
 export type NewOrganization = typeof organizations.$inferInsert;
@@ -755,16 +1348,30 @@ export type Contact = typeof contacts.$inferSelect;
 export type NewContact = typeof contacts.$inferInsert;
 export type Interaction = typeof interactions.$inferSelect;
 export type NewInteraction = typeof interactions.$inferInsert;
+export type ReanalysisJob = typeof reanalysisJobs.$inferSelect;
+export type NewReanalysisJob = typeof reanalysisJobs.$inferInsert;
+export type InteractionAnalysisHistory = typeof interactionAnalysisHistory.$inferSelect;
+export type NewInteractionAnalysisHistory = typeof interactionAnalysisHistory.$inferInsert;
 export type SmsTrigger = typeof smsTriggers.$inferSelect;
 export type NewSmsTrigger = typeof smsTriggers.$inferInsert;
 export type SmsLog = typeof smsLogs.$inferSelect;
 export type NewSmsLog = typeof smsLogs.$inferInsert;
+export type TriggerActionLog = typeof triggerActionLogs.$inferSelect;
+export type NewTriggerActionLog = typeof triggerActionLogs.$inferInsert;
+export type SmsTriggerFiring = typeof smsTriggerFirings.$inferSelect;
+export type NewSmsTriggerFiring = typeof smsTriggerFirings.$inferInsert;
+export type ScheduledSms = typeof scheduledSms.$inferSelect;
+export type NewScheduledSms = typeof scheduledSms.$inferInsert;
+export type SmsOptOut = typeof smsOptOuts.$inferSelect;
+export type NewSmsOptOut = typeof smsOptOuts.$inferInsert;
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type NewEmailTemplate = typeof emailTemplates.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 export type WebhookErrorLog = typeof webhookErrorLogs.$inferSelect;
 export type NewWebhookErrorLog = typeof webhookErrorLogs.$inferInsert;
+export type WebhookJob = typeof webhookJobs.$inferSelect;
+export type NewWebhookJob = typeof webhookJobs.$inferInsert;
 
 // Sales Portal Types
 export type SalesUser = typeof salesUsers.$inferSelect;
@@ -795,3 +1402,27 @@ export type OutboundContact = typeof outboundContacts.$inferSelect;
 export type NewOutboundContact = typeof outboundContacts.$inferInsert;
 export type OutboundCallLog = typeof outboundCallLogs.$inferSelect;
 export type NewOutboundCallLog = typeof outboundCallLogs.$inferInsert;
+
+// Usage Ledger Types
+export type UsageLedgerEntry = typeof usageLedger.$inferSelect;
+export type NewUsageLedgerEntry = typeof usageLedger.$inferInsert;
+
+// Event Webhook Types
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// API Key Types
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+// Do Not Call Types
+export type DncImport = typeof dncImports.$inferSelect;
+export type NewDncImport = typeof dncImports.$inferInsert;
+export type DncNumber = typeof dncNumbers.$inferSelect;
+export type NewDncNumber = typeof dncNumbers.$inferInsert;
+
+// Credential Vault Types
+export type OrganizationCredential = typeof organizationCredentials.$inferSelect;
+export type NewOrganizationCredential = typeof organizationCredentials.$inferInsert;
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { estimateAiCostMicros, formatMicrosAsUsd, usdToMicros } from './ai-pricing';
+
+describe('AI Pricing', () => {
+  describe('Cost Estimation', () => {
+    afterEach(() => {
+      delete process.env.AI_MODEL_PRICING;
+    });
+
+    it('should price prompt and completion tokens separately', () => {
+      // gpt-4o-mini: $0.15 / $0.60 per million tokens
+      expect(estimateAiCostMicros('gpt-4o-mini', 1000, 500)).toBe(150 + 300);
+    });
+
+    it('should match dated snapshots to the longest model prefix', () => {
+      expect(estimateAiCostMicros('gpt-4o-mini-2024-07-18', 1000, 0)).toBe(150);
+      expect(estimateAiCostMicros('gpt-4o-2024-08-06', 1000, 0)).toBe(2500);
+    });
+
+    it('should return null for unknown models', () => {
+      expect(estimateAiCostMicros('llama-3.1-70b', 1000, 1000)).toBeNull();
+    });
+
+    it('should use prices from AI_MODEL_PRICING', () => {
+      process.env.AI_MODEL_PRICING = JSON.stringify({ 'llama-3.1-70b': { input: 1, output: 2 } });
+
+      expect(estimateAiCostMicros('llama-3.1-70b', 1000, 1000)).toBe(3000);
+    });
+
+    it('should ignore invalid AI_MODEL_PRICING', () => {
+      process.env.AI_MODEL_PRICING = 'not json';
+
+      expect(estimateAiCostMicros('gpt-4o-mini', 1000, 0)).toBe(150);
+    });
+  });
+
+  describe('Formatting', () => {
+    it('should convert dollars to micros', () => {
+      expect(usdToMicros(0.1234)).toBe(123400);
+    });
+
+    it('should keep four decimals for amounts under a dollar', () => {
+      expect(formatMicrosAsUsd(1500)).toBe('$0.0015');
+      expect(formatMicrosAsUsd(12_345_678)).toBe('$12.35');
+      expect(formatMicrosAsUsd(0)).toBe('$0.00');
+      expect(formatMicrosAsUsd(null)).toBe('-');
+    });
+  });
+});
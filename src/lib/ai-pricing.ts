@@ -0,0 +1,67 @@
+// USD per million tokens. Dated snapshots (gpt-4o-mini-2024-07-18) match by prefix.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Prices for self-hosted or newer models can be supplied as JSON in
+ * AI_MODEL_PRICING, e.g. {"llama-3.1-70b": {"input": 0, "output": 0}}
+ */
+function getPricingTable(): Record<string, { input: number; output: number }> {
+  const overrides = process.env.AI_MODEL_PRICING;
+  if (!overrides) return MODEL_PRICING;
+
+  try {
+    return { ...MODEL_PRICING, ...JSON.parse(overrides) };
+  } catch {
+    console.error('AI_MODEL_PRICING is not valid JSON, using built-in prices');
+    return MODEL_PRICING;
+  }
+}
+
+/**
+ * Estimated cost of a model request in millionths of a USD, or null when the
+ * model has no known price
+ */
+export function estimateAiCostMicros(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  const pricing = getPricingTable();
+  const name = model.toLowerCase();
+
+  // Longest prefix wins so gpt-4o-mini is not priced as gpt-4o
+  const match = Object.keys(pricing)
+    .filter((key) => name === key || name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match) return null;
+
+  const { input, output } = pricing[match];
+  // Price per million tokens in USD equals price per token in micro-USD
+  return Math.round(promptTokens * input + completionTokens * output);
+}
+
+/**
+ * Convert a USD amount to millionths of a USD
+ */
+export function usdToMicros(usd: number): number {
+  return Math.round(usd * 1_000_000);
+}
+
+/**
+ * Format millionths of a USD for display; small amounts keep four decimals
+ */
+export function formatMicrosAsUsd(micros: number | null | undefined): string {
+  if (micros === null || micros === undefined) return '-';
+  const usd = micros / 1_000_000;
+  return `$${usd.toFixed(usd !== 0 && Math.abs(usd) < 1 ? 4 : 2)}`;
+}
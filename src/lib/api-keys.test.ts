@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractApiKey,
+  generateApiKey,
+  hashApiKey,
+  isApiKeyScope,
+  isWellFormedApiKey,
+} from './api-keys';
+
+describe('API Keys', () => {
+  describe('Generation', () => {
+    it('should generate unique, well-formed keys', () => {
+      const first = generateApiKey();
+      const second = generateApiKey();
+
+      expect(first.key).not.toBe(second.key);
+      expect(isWellFormedApiKey(first.key)).toBe(true);
+      expect(first.key.startsWith(first.keyPrefix)).toBe(true);
+      expect(first.keyPrefix.length).toBeLessThan(first.key.length);
+    });
+
+    it('should store a hash that matches the key', () => {
+      const { key, keyHash } = generateApiKey();
+
+      expect(keyHash).toBe(hashApiKey(key));
+      expect(keyHash).not.toContain(key);
+      expect(keyHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('Extraction', () => {
+    it('should read bearer tokens', () => {
+      expect(extractApiKey(new Headers({ Authorization: 'Bearer sk_live_abc123' }))).toBe('sk_live_abc123');
+      expect(extractApiKey(new Headers({ Authorization: 'bearer sk_live_abc123' }))).toBe('sk_live_abc123');
+    });
+
+    it('should fall back to the x-api-key header', () => {
+      expect(extractApiKey(new Headers({ 'x-api-key': ' sk_live_abc123 ' }))).toBe('sk_live_abc123');
+      expect(extractApiKey(new Headers())).toBeNull();
+    });
+
+    it('should reject other authorization schemes', () => {
+      expect(extractApiKey(new Headers({ Authorization: 'Basic dXNlcjpwYXNz' }))).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should recognize issued keys and scopes', () => {
+      expect(isWellFormedApiKey('sk_live_')).toBe(false);
+      expect(isWellFormedApiKey('whsec_abcdefabcdef')).toBe(false);
+      expect(isApiKeyScope('contacts:write')).toBe(true);
+      expect(isApiKeyScope('contacts:delete')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Organization API keys for the public /api/v1 REST API. Shared by the key
+ * management API, the admin page and request authentication.
+ */
+
+import crypto from 'crypto';
+import type { ApiKeyScope } from '@/db/schema';
+
+export const API_KEY_SCOPES: { scope: ApiKeyScope; label: string; description: string }[] = [
+  {
+    scope: 'interactions:read',
+    label: 'Read interactions',
+    description: 'List interactions and fetch their transcripts',
+  },
+  {
+    scope: 'campaigns:read',
+    label: 'Read campaigns',
+    description: 'List campaigns and read their statistics',
+  },
+  {
+    scope: 'contacts:write',
+    label: 'Upload contacts',
+    description: 'Add contacts to draft outbound campaigns',
+  },
+];
+
+// Requests per minute shared by all of an organization's keys, unless the organization has its own quota
+export const DEFAULT_API_RATE_LIMIT = 300;
+
+const API_KEY_PREFIX = 'sk_live_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return API_KEY_SCOPES.some((entry) => entry.scope === value);
+}
+
+/**
+ * SHA-256 of a key, the only form in which keys are stored
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * A new random key. The plaintext is shown once when the key is created;
+ * only the prefix and hash are kept.
+ */
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return { key, keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/**
+ * The key sent by a client, from `Authorization: Bearer <key>` or the `x-api-key` header
+ */
+export function extractApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+  }
+  return headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Whether a key looks like one this app issued, so obvious junk is rejected without a lookup
+ */
+export function isWellFormedApiKey(key: string): boolean {
+  return key.startsWith(API_KEY_PREFIX) && key.length > DISPLAY_PREFIX_LENGTH;
+}
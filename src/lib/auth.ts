@@ -1,9 +1,12 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
+import { NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, salesUsers } from '@/db/schema';
-import { eq } from 'drizzle-orm';
-import type { User, SalesUser } from '@/db/schema';
+import { users, salesUsers, apiKeys, organizations } from '@/db/schema';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import type { User, SalesUser, ApiKey, ApiKeyScope } from '@/db/schema';
+import { extractApiKey, hashApiKey, isWellFormedApiKey } from '@/lib/api-keys';
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
 
 export async function getUser() {
   const supabase = await createClient();
@@ -249,3 +252,70 @@ export async function getUserType(): Promise<'admin' | 'client_user' | 'sales' |
 
   return null;
 }
+
+// ============================================
+// API KEY AUTHENTICATION
+// ============================================
+
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000; // Limits lastUsedAt writes to one a minute per key
+
+export type ApiKeyAuthResult =
+  | { success: true; apiKey: ApiKey; headers: Record<string, string> }
+  | { success: false; response: NextResponse };
+
+/**
+ * Authenticate a public API request by its organization API key. Unlike the
+ * session helpers this never redirects: routes return `response` as is.
+ * Every query a route makes must be scoped to `apiKey.organizationId`.
+ */
+export async function requireApiKey(request: Request, scope: ApiKeyScope): Promise<ApiKeyAuthResult> {
+  const key = extractApiKey(request.headers);
+  if (!key || !isWellFormedApiKey(key)) {
+    return { success: false, response: NextResponse.json({ error: 'Missing or invalid API key' }, { status: 401 }) };
+  }
+
+  const [row] = await db
+    .select({
+      apiKey: apiKeys,
+      organizationActive: organizations.isActive,
+      organizationRateLimit: organizations.apiRateLimit,
+    })
+    .from(apiKeys)
+    .innerJoin(organizations, eq(apiKeys.organizationId, organizations.id))
+    .where(eq(apiKeys.keyHash, hashApiKey(key)))
+    .limit(1);
+
+  if (!row || row.apiKey.revokedAt || !row.organizationActive) {
+    return { success: false, response: NextResponse.json({ error: 'Missing or invalid API key' }, { status: 401 }) };
+  }
+
+  const { apiKey } = row;
+  if (!apiKey.scopes.includes(scope)) {
+    return {
+      success: false,
+      response: NextResponse.json({ error: `API key is missing the ${scope} scope` }, { status: 403 }),
+    };
+  }
+
+  // The quota is shared by all of the organization's keys
+  const rateLimit = await withRateLimit(`org:${apiKey.organizationId}`, 'api-v1', {
+    interval: RATE_LIMITS.organizationApi.interval,
+    maxRequests: row.organizationRateLimit ?? RATE_LIMITS.organizationApi.maxRequests,
+  });
+  if (!rateLimit.allowed) {
+    return { success: false, response: rateLimit.response! };
+  }
+
+  const now = new Date();
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: now })
+    .where(
+      and(
+        eq(apiKeys.id, apiKey.id),
+        or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, new Date(now.getTime() - API_KEY_TOUCH_INTERVAL_MS)))
+      )
+    );
+
+  return { success: true, apiKey, headers: rateLimit.headers };
+}
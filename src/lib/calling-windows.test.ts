@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  callingIntervals,
+  getLocalTime,
+  isCallableAt,
+  isValidDateKey,
+  localTimeToDate,
+  nextCallableTime,
+  parseTimeOfDay,
+  CallingPlan,
+} from './calling-windows';
+
+const weekdays = (startTime: string, endTime: string) =>
+  [1, 2, 3, 4, 5].map((dayOfWeek) => ({ dayOfWeek, startTime, endTime }));
+
+const plan = (overrides: Partial<CallingPlan> = {}): CallingPlan => ({
+  windows: weekdays('09:00', '17:00'),
+  blackoutDates: [],
+  defaultTimezone: 'America/New_York',
+  ...overrides,
+});
+
+const pacific = { timezone: 'America/Los_Angeles' };
+
+describe('Calling Windows', () => {
+  describe('Time parsing', () => {
+    it('should parse times of day to the minute', () => {
+      expect(parseTimeOfDay('09:30')).toBe(570);
+      expect(parseTimeOfDay('24:00')).toBe(1440);
+      expect(parseTimeOfDay('9:5')).toBeNull();
+      expect(parseTimeOfDay('12:60')).toBeNull();
+    });
+
+    it('should validate blackout dates', () => {
+      expect(isValidDateKey('2026-12-25')).toBe(true);
+      expect(isValidDateKey('2026-02-30')).toBe(false);
+      expect(isValidDateKey('12/25/2026')).toBe(false);
+    });
+  });
+
+  describe('Local time', () => {
+    it("should use the contact's local day, not the server's", () => {
+      // Tuesday 03:00 UTC is still Monday evening on the west coast
+      const local = getLocalTime(new Date('2026-01-06T03:00:00Z'), 'America/Los_Angeles');
+
+      expect(local).toEqual({ date: '2026-01-05', dayOfWeek: 1, minutes: 19 * 60 });
+    });
+
+    it('should convert local times across DST changes', () => {
+      expect(localTimeToDate('2026-03-06', 540, 'America/New_York').toISOString()).toBe('2026-03-06T14:00:00.000Z');
+      expect(localTimeToDate('2026-03-09', 540, 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+    });
+  });
+
+  describe('Eligibility', () => {
+    it('should not call a west coast contact before their window opens', () => {
+      // 10:30 in New York, 07:30 in Los Angeles
+      const now = new Date('2026-01-05T15:30:00Z');
+
+      expect(isCallableAt(now, plan(), { timezone: 'America/New_York' })).toBe(true);
+      expect(isCallableAt(now, plan(), pacific)).toBe(false);
+      expect(nextCallableTime(now, plan(), pacific)?.toISOString()).toBe('2026-01-05T17:00:00.000Z');
+    });
+
+    it('should compare minutes, not just hours', () => {
+      const windows = weekdays('09:30', '17:00');
+
+      expect(isCallableAt(new Date('2026-01-05T14:15:00Z'), plan({ windows }), {})).toBe(false);
+      expect(isCallableAt(new Date('2026-01-05T14:30:00Z'), plan({ windows }), {})).toBe(true);
+    });
+
+    it('should support several windows a day', () => {
+      const windows = [...weekdays('09:00', '12:00'), ...weekdays('13:00', '17:00')];
+      const lunch = new Date('2026-01-05T17:30:00Z'); // 12:30 in New York
+
+      expect(isCallableAt(lunch, plan({ windows }), {})).toBe(false);
+      expect(nextCallableTime(lunch, plan({ windows }), {})?.toISOString()).toBe('2026-01-05T18:00:00.000Z');
+    });
+
+    it('should skip blackout dates', () => {
+      const now = new Date('2026-01-05T15:00:00Z');
+      const blackedOut = plan({ blackoutDates: ['2026-01-05'] });
+
+      expect(isCallableAt(now, blackedOut, {})).toBe(false);
+      expect(nextCallableTime(now, blackedOut, {})?.toISOString()).toBe('2026-01-06T14:00:00.000Z');
+    });
+
+    it('should apply state calling-hour laws', () => {
+      const evening = weekdays('09:00', '21:00');
+
+      // 20:30 in Miami: allowed federally, not in Florida
+      const now = new Date('2026-01-06T01:30:00Z');
+      expect(isCallableAt(now, plan({ windows: evening }), { state: 'GA' })).toBe(true);
+      expect(isCallableAt(now, plan({ windows: evening }), { state: 'FL' })).toBe(false);
+
+      // Texas allows Sunday calls only from noon
+      const sunday = plan({ windows: [{ dayOfWeek: 0, startTime: '09:00', endTime: '17:00' }] });
+      expect(callingIntervals('2026-01-04', 0, sunday, 'TX')).toEqual([[720, 1020]]);
+      expect(callingIntervals('2026-01-04', 0, sunday, 'AL')).toEqual([]);
+    });
+
+    it('should never open before 8am even if the campaign window does', () => {
+      const early = plan({ windows: weekdays('06:00', '10:00') });
+
+      expect(callingIntervals('2026-01-05', 1, early)).toEqual([[480, 600]]);
+    });
+
+    it('should return null when no window opens', () => {
+      expect(nextCallableTime(new Date('2026-01-05T15:00:00Z'), plan({ windows: [] }), {})).toBeNull();
+    });
+  });
+});
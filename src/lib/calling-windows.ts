@@ -0,0 +1,249 @@
+/**
+ * Calling windows for outbound campaigns
+ *
+ * Whether a contact may be dialed is decided in the contact's own local time:
+ * the campaign's windows for that local day of week, minus the campaign's
+ * blackout dates, intersected with the legal calling hours of the contact's
+ * state (federal TCPA hours, 8am-9pm, where the state has no stricter rule).
+ * Times are compared to the minute.
+ */
+
+export interface CallingWindow {
+  dayOfWeek: number; // 0=Sunday, 6=Saturday
+  startTime: string; // "09:00"
+  endTime: string; // "17:30"
+}
+
+export interface CallingPlan {
+  windows: CallingWindow[];
+  blackoutDates: string[]; // "YYYY-MM-DD", in the contact's local date
+  defaultTimezone: string; // For contacts whose timezone is unknown
+}
+
+export interface ContactLocation {
+  timezone?: string | null;
+  state?: string | null; // Two-letter code
+}
+
+export interface LocalTime {
+  date: string; // "YYYY-MM-DD"
+  dayOfWeek: number;
+  minutes: number; // Minutes since local midnight
+}
+
+// [start, end) in minutes since midnight, or null when calls are not allowed that day
+type DayHours = [number, number] | null;
+
+const hours = (start: number, end: number): DayHours => [start * 60, end * 60];
+
+/**
+ * Hours per day of week (Sunday first)
+ */
+function weekRule(weekday: DayHours, saturday: DayHours = weekday, sunday: DayHours = weekday): DayHours[] {
+  return [sunday, weekday, weekday, weekday, weekday, weekday, saturday];
+}
+
+export const FEDERAL_CALLING_HOURS = weekRule(hours(8, 21));
+
+/**
+ * States whose telemarketing laws are stricter than the federal hours. State
+ * holidays on which some of these states also ban calls are not modeled;
+ * add them to a campaign as blackout dates.
+ */
+export const STATE_CALLING_HOURS: Record<string, DayHours[]> = {
+  AL: weekRule(hours(8, 20), hours(8, 20), null),
+  CT: weekRule(hours(9, 20)),
+  FL: weekRule(hours(8, 20)),
+  LA: weekRule(hours(8, 20), hours(8, 20), null),
+  MA: weekRule(hours(8, 20)),
+  MD: weekRule(hours(8, 20)),
+  MS: weekRule(hours(8, 20), hours(8, 20), null),
+  OK: weekRule(hours(8, 20)),
+  RI: weekRule(hours(9, 18), hours(10, 17), null),
+  TX: weekRule(hours(9, 21), hours(9, 21), hours(12, 21)),
+  UT: weekRule(hours(8, 21), hours(8, 21), null),
+  WA: weekRule(hours(8, 20)),
+};
+
+// How far ahead to look for the next open window
+const SEARCH_HORIZON_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minutes since midnight for "HH:MM", or null if malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (minute > 59 || hour > 24 || (hour === 24 && minute > 0)) return null;
+  return hour * 60 + minute;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidDateKey(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(date: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/**
+ * Wall-clock date, day of week and minute of an instant in a timezone
+ */
+export function getLocalTime(date: Date, timezone: string): LocalTime {
+  const { year, month, day, hour, minute } = zonedParts(date, timezone);
+  const dateKey = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+  return {
+    date: dateKey,
+    dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    minutes: hour * 60 + minute,
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at an instant
+function timezoneOffset(date: Date, timezone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timezone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a local date and minute occur in a timezone. Calling hours
+ * never fall in the small-hours DST gap, so that case is not special-cased.
+ */
+export function localTimeToDate(dateKey: string, minutes: number, timezone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  const firstGuess = wallClock - timezoneOffset(new Date(wallClock), timezone);
+  const offset = timezoneOffset(new Date(firstGuess), timezone);
+  return new Date(wallClock - offset);
+}
+
+function addDays(dateKey: string, days: number): { date: string; dayOfWeek: number } {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return { date: next.toISOString().slice(0, 10), dayOfWeek: next.getUTCDay() };
+}
+
+/**
+ * The legal calling hours for a state on a day of week
+ */
+export function legalHours(state: string | null | undefined, dayOfWeek: number): DayHours {
+  const rule = (state && STATE_CALLING_HOURS[state.toUpperCase()]) || FEDERAL_CALLING_HOURS;
+  return rule[dayOfWeek];
+}
+
+/**
+ * Open intervals on a local date, in minutes since midnight, sorted and merged
+ */
+export function callingIntervals(
+  date: string,
+  dayOfWeek: number,
+  plan: CallingPlan,
+  state?: string | null
+): Array<[number, number]> {
+  if (plan.blackoutDates.includes(date)) return [];
+
+  const legal = legalHours(state, dayOfWeek);
+  if (!legal) return [];
+
+  const intervals: Array<[number, number]> = [];
+  for (const window of plan.windows) {
+    if (window.dayOfWeek !== dayOfWeek) continue;
+
+    const start = parseTimeOfDay(window.startTime);
+    const end = parseTimeOfDay(window.endTime);
+    if (start === null || end === null) continue;
+
+    const clippedStart = Math.max(start, legal[0]);
+    const clippedEnd = Math.min(end, legal[1]);
+    if (clippedStart < clippedEnd) intervals.push([clippedStart, clippedEnd]);
+  }
+
+  intervals.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+  return merged;
+}
+
+function contactTimezone(plan: CallingPlan, contact: ContactLocation): string {
+  return contact.timezone && isValidTimezone(contact.timezone) ? contact.timezone : plan.defaultTimezone;
+}
+
+export function isCallableAt(date: Date, plan: CallingPlan, contact: ContactLocation): boolean {
+  const local = getLocalTime(date, contactTimezone(plan, contact));
+  return callingIntervals(local.date, local.dayOfWeek, plan, contact.state).some(
+    ([start, end]) => local.minutes >= start && local.minutes < end
+  );
+}
+
+/**
+ * The earliest instant at or after `after` when the contact may be called,
+ * or null if no window opens within the next month
+ */
+export function nextCallableTime(after: Date, plan: CallingPlan, contact: ContactLocation): Date | null {
+  const timezone = contactTimezone(plan, contact);
+  const local = getLocalTime(after, timezone);
+
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    const day = offset === 0 ? local : addDays(local.date, offset);
+
+    for (const [start, end] of callingIntervals(day.date, day.dayOfWeek, plan, contact.state)) {
+      if (offset === 0) {
+        if (local.minutes >= end) continue;
+        if (local.minutes >= start) return after;
+      }
+      return localTimeToDate(day.date, start, timezone);
+    }
+  }
+
+  return null;
+}
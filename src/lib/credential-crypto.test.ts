@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  isSealed,
+  openSecret,
+  parseKeyring,
+  revealSecret,
+  rewrapSecret,
+  sealSecret,
+  sealedKeyId,
+  secretHint,
+} from './credential-crypto';
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+const oldKey = newKey();
+const currentKey = newKey();
+
+const keyring = parseKeyring(`k1:${oldKey}`);
+const rotated = parseKeyring(`k2:${currentKey}, k1:${oldKey}`);
+
+describe('Credential Crypto', () => {
+  describe('Keyring', () => {
+    it('should seal with the first key listed', () => {
+      expect(rotated.currentKeyId).toBe('k2');
+      expect(rotated.keys.size).toBe(2);
+    });
+
+    it('should reject missing or malformed keys', () => {
+      expect(() => parseKeyring(undefined)).toThrow('not configured');
+      expect(() => parseKeyring('k1')).toThrow('"id:base64key"');
+      expect(() => parseKeyring(`k1:${Buffer.alloc(16).toString('base64')}`)).toThrow('32 bytes');
+      expect(() => parseKeyring(`k1:${oldKey},k1:${currentKey}`)).toThrow('listed twice');
+    });
+  });
+
+  describe('Sealing', () => {
+    it('should round-trip a secret without exposing it', () => {
+      const sealed = sealSecret('vapi-private-key-123', keyring);
+
+      expect(isSealed(sealed)).toBe(true);
+      expect(sealed).not.toContain('vapi-private-key-123');
+      expect(openSecret(sealed, keyring)).toBe('vapi-private-key-123');
+    });
+
+    it('should use a fresh data key for every secret', () => {
+      expect(sealSecret('same', keyring)).not.toBe(sealSecret('same', keyring));
+    });
+
+    it('should reject tampered secrets', () => {
+      const sealed = sealSecret('twilio-token', keyring);
+      const parts = sealed.split(':');
+      const payload = Buffer.from(parts[4], 'base64url');
+      payload[payload.length - 1] ^= 1;
+      const tampered = [...parts.slice(0, 4), payload.toString('base64url')].join(':');
+
+      expect(() => openSecret(tampered, keyring)).toThrow();
+    });
+
+    it('should fail when the master key is no longer configured', () => {
+      const sealed = sealSecret('twilio-token', keyring);
+
+      expect(() => openSecret(sealed, parseKeyring(`k2:${currentKey}`))).toThrow('"k1" is not configured');
+    });
+  });
+
+  describe('Rotation', () => {
+    it('should re-wrap the data key and keep the encrypted secret', () => {
+      const sealed = sealSecret('twilio-token', keyring);
+      const rewrapped = rewrapSecret(sealed, rotated);
+
+      expect(sealedKeyId(rewrapped)).toBe('k2');
+      expect(rewrapped.split(':').pop()).toBe(sealed.split(':').pop());
+      expect(openSecret(rewrapped, parseKeyring(`k2:${currentKey}`))).toBe('twilio-token');
+    });
+
+    it('should leave secrets already under the current key alone', () => {
+      const sealed = sealSecret('twilio-token', rotated);
+
+      expect(rewrapSecret(sealed, rotated)).toBe(sealed);
+    });
+  });
+
+  it('should pass through values saved before encryption', () => {
+    expect(revealSecret('legacy-plain-token', keyring)).toBe('legacy-plain-token');
+    expect(revealSecret(null, keyring)).toBeNull();
+  });
+
+  it('should hint at long secrets only', () => {
+    expect(secretHint('sk-1234567890abcd')).toBe('abcd');
+    expect(secretHint('short')).toBe('');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Envelope encryption for third-party credentials (voice provider keys, Twilio tokens)
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM), and
+ * the data key is encrypted ("wrapped") with a master key from the
+ * environment. Rotating the master key only re-wraps data keys; the
+ * encrypted secrets never change. A sealed value is one string:
+ *
+ *   enc:v1:<master key id>:<wrapped data key>:<encrypted secret>
+ */
+
+import crypto from 'crypto';
+import type { CredentialProvider } from '@/db/schema';
+
+export const CREDENTIAL_PROVIDERS: { provider: CredentialProvider; label: string; description: string }[] = [
+  {
+    provider: 'vapi',
+    label: 'VAPI',
+    description: 'Places outbound calls and lists the assistants and phone numbers campaigns use',
+  },
+  {
+    provider: 'retell',
+    label: 'Retell AI',
+    description: 'Places outbound calls for campaigns that use Retell agents',
+  },
+  {
+    provider: 'bland',
+    label: 'Bland AI',
+    description: 'Places outbound calls for campaigns that run Bland pathways',
+  },
+  {
+    provider: 'autocalls',
+    label: 'Autocalls',
+    description: 'Places outbound calls for campaigns that use Autocalls assistants',
+  },
+  {
+    provider: 'twilio',
+    label: 'Twilio',
+    description: 'Sends SMS from the client’s own numbers and verifies Twilio’s webhook signatures',
+  },
+];
+
+const SEALED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export interface Keyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * Master keys from CREDENTIAL_ENCRYPTION_KEYS: comma-separated `id:base64key`
+ * pairs, newest first. New secrets are sealed with the first key; older keys
+ * stay listed until rotation has re-wrapped everything under the new one.
+ */
+export function parseKeyring(value: string | undefined): Keyring {
+  if (!value?.trim()) {
+    throw new Error('CREDENTIAL_ENCRYPTION_KEYS is not configured');
+  }
+
+  const keys = new Map<string, Buffer>();
+  let currentKeyId: string | null = null;
+
+  for (const entry of value.split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(':');
+    const keyId = trimmed.slice(0, separator);
+    if (separator <= 0 || !/^[\w-]+$/.test(keyId)) {
+      throw new Error('Credential encryption keys must be "id:base64key" pairs');
+    }
+
+    const key = Buffer.from(trimmed.slice(separator + 1), 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Credential encryption key "${keyId}" must be ${KEY_LENGTH} bytes, base64-encoded`);
+    }
+    if (keys.has(keyId)) {
+      throw new Error(`Credential encryption key "${keyId}" is listed twice`);
+    }
+
+    keys.set(keyId, key);
+    currentKeyId ??= keyId;
+  }
+
+  if (!currentKeyId) {
+    throw new Error('CREDENTIAL_ENCRYPTION_KEYS is not configured');
+  }
+  return { currentKeyId, keys };
+}
+
+let cachedKeyring: Keyring | null = null;
+
+export function getKeyring(): Keyring {
+  if (!cachedKeyring) {
+    cachedKeyring = parseKeyring(process.env.CREDENTIAL_ENCRYPTION_KEYS);
+  }
+  return cachedKeyring;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function decrypt(key: Buffer, encrypted: string): Buffer {
+  const data = Buffer.from(encrypted, 'base64url');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function masterKey(keyring: Keyring, keyId: string): Buffer {
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Credential encryption key "${keyId}" is not configured`);
+  }
+  return key;
+}
+
+function splitSealed(sealed: string): { keyId: string; wrappedKey: string; payload: string } {
+  const [keyId, wrappedKey, payload] = isSealed(sealed) ? sealed.slice(SEALED_PREFIX.length).split(':') : [];
+  if (!keyId || !wrappedKey || !payload) {
+    throw new Error('Malformed sealed secret');
+  }
+  return { keyId, wrappedKey, payload };
+}
+
+/**
+ * Start of every value sealed with a master key, for finding them in SQL
+ */
+export function sealedPrefix(keyId: string): string {
+  return `${SEALED_PREFIX}${keyId}:`;
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+export function sealSecret(plaintext: string, keyring: Keyring = getKeyring()): string {
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = encrypt(masterKey(keyring, keyring.currentKeyId), dataKey);
+  const payload = encrypt(dataKey, Buffer.from(plaintext, 'utf8'));
+  return `${SEALED_PREFIX}${keyring.currentKeyId}:${wrappedKey}:${payload}`;
+}
+
+export function openSecret(sealed: string, keyring: Keyring = getKeyring()): string {
+  const { keyId, wrappedKey, payload } = splitSealed(sealed);
+  const dataKey = decrypt(masterKey(keyring, keyId), wrappedKey);
+  return decrypt(dataKey, payload).toString('utf8');
+}
+
+/**
+ * The master key a sealed secret's data key is wrapped with
+ */
+export function sealedKeyId(sealed: string): string {
+  return splitSealed(sealed).keyId;
+}
+
+/**
+ * Re-wrap a sealed secret's data key with the current master key
+ */
+export function rewrapSecret(sealed: string, keyring: Keyring = getKeyring()): string {
+  const { keyId, wrappedKey, payload } = splitSealed(sealed);
+  if (keyId === keyring.currentKeyId) return sealed;
+
+  const dataKey = decrypt(masterKey(keyring, keyId), wrappedKey);
+  const rewrapped = encrypt(masterKey(keyring, keyring.currentKeyId), dataKey);
+  return `${SEALED_PREFIX}${keyring.currentKeyId}:${rewrapped}:${payload}`;
+}
+
+/**
+ * Plaintext of a column holding a sealed secret. Values saved before
+ * encryption are returned as they are until key rotation seals them.
+ */
+export function revealSecret(value: string | null | undefined, keyring?: Keyring): string | null {
+  if (!value) return null;
+  return isSealed(value) ? openSecret(value, keyring) : value;
+}
+
+/**
+ * Last characters of a secret, enough to recognize it in the UI
+ */
+export function secretHint(secret: string): string {
+  return secret.length > 8 ? secret.slice(-4) : '';
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { customerText, detectDncRequest, parseDncFile, toDncPhoneNumber } from './dnc';
+
+describe('Do Not Call', () => {
+  describe('Request Detection', () => {
+    it('should recognize requests not to be called again', () => {
+      expect(detectDncRequest("Please don't call me again.")).toBe("don't call me again");
+      expect(detectDncRequest('Do not call this number anymore')).not.toBeNull();
+      expect(detectDncRequest('I told you, stop calling me!')).not.toBeNull();
+      expect(detectDncRequest('Take me off your calling list')).not.toBeNull();
+      expect(detectDncRequest('Put me on your do-not-call list')).not.toBeNull();
+      expect(detectDncRequest('Dont call me.')).not.toBeNull();
+    });
+
+    it('should accept typographic apostrophes', () => {
+      expect(detectDncRequest('Don’t call me again')).toBe("Don't call me again");
+    });
+
+    it('should not match ordinary conversation', () => {
+      expect(detectDncRequest("Don't call me before noon, I work nights")).toBeNull();
+      expect(detectDncRequest('Can you call me back tomorrow?')).toBeNull();
+      expect(detectDncRequest('Please add me to your mailing list')).toBeNull();
+      expect(detectDncRequest('')).toBeNull();
+      expect(detectDncRequest(null)).toBeNull();
+    });
+  });
+
+  describe('Customer Text', () => {
+    it('should keep only the customer turns', () => {
+      const turns = [
+        { role: 'assistant', content: "If you'd rather we don't call you again, just say so." },
+        { role: 'user', content: 'Sure, tell me more.' },
+      ];
+
+      expect(customerText(null, turns)).toBe('Sure, tell me more.');
+      expect(detectDncRequest(customerText(null, turns))).toBeNull();
+    });
+
+    it('should read customer lines from a flat transcript', () => {
+      const transcript = "AI: Shall I stop calling you?\nCustomer: Yes, stop calling me.\nAI: Understood.";
+
+      expect(customerText(transcript)).toBe('Yes, stop calling me.');
+    });
+
+    it('should return text without speaker labels as is', () => {
+      expect(customerText("Don't call me again")).toBe("Don't call me again");
+      expect(customerText(undefined)).toBe('');
+    });
+  });
+
+  describe('DNC Files', () => {
+    it('should normalize US numbers', () => {
+      expect(toDncPhoneNumber('(415) 555-2671')).toBe('+14155552671');
+      expect(toDncPhoneNumber('1-415-555-2671')).toBe('+14155552671');
+      expect(toDncPhoneNumber('+44 20 7946 0958')).toBeNull();
+      expect(toDncPhoneNumber('123-456-7890')).toBeNull();
+    });
+
+    it('should read the FTC area code and number layout', () => {
+      const result = parseDncFile('201,2000000\n201,2000001\r\n201,2000000\n');
+
+      expect(result.phoneNumbers).toEqual(['+12012000000', '+12012000001']);
+      expect(result.totalRows).toBe(3);
+      expect(result.invalid).toBe(0);
+    });
+
+    it('should read a single phone column and skip the header', () => {
+      const result = parseDncFile('Phone Number,Added\n"(415) 555-2671",2024-01-02\nnot a phone,\n\n');
+
+      expect(result.phoneNumbers).toEqual(['+14155552671']);
+      expect(result.totalRows).toBe(2);
+      expect(result.invalid).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Do-Not-Call list helpers shared by the dialer, contact uploads and the
+ * DNC imports: spotting "don't call me again" in what a caller said and
+ * reading federal/state DNC files.
+ */
+
+import type { DncSource } from '@/db/schema';
+
+export const DNC_SOURCE_LABELS: Record<DncSource, string> = {
+  manual: 'Added manually',
+  import: 'DNC file import',
+  call: 'Asked on a call',
+  sms_reply: 'Asked by SMS',
+};
+
+// Largest DNC file accepted in one upload (the FTC splits the national registry by area code)
+export const MAX_DNC_IMPORT_BYTES = 25 * 1024 * 1024;
+
+// Phrasings of "don't call me again"; matched against what the caller said, never the assistant
+const DNC_REQUEST_PATTERNS: RegExp[] = [
+  /\b(?:don't|dont|do not|never)\s+(?:ever\s+)?(?:call|phone|contact|ring)\s+(?:me|us|this number|here)(?:\s+(?:again|anymore|any more|ever)\b|\s*(?:[.!]|$))/i,
+  /\bstop\s+(?:calling|phoning|contacting|ringing)\s+(?:me|us|this number|here)\b/i,
+  /\b(?:take|remove|delete)\s+(?:me|us|my number|this number)\s+(?:off|from)\s+(?:your|the|this)\s+(?:call(?:ing)?\s+|contact\s+|phone\s+)?list\b/i,
+  /\b(?:put|add)\s+(?:me|us|my number|this number)\s+(?:on|to)\s+(?:your|the)\s+do[\s-]*not[\s-]*call\b/i,
+  /\bdo[\s-]*not[\s-]*call\s+(?:list|registry)\b/i,
+];
+
+/**
+ * The phrase in which a caller asked not to be called again, or null
+ */
+export function detectDncRequest(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const normalized = text.replace(/[‘’ʼ]/g, "'");
+
+  for (const pattern of DNC_REQUEST_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (match) return match[0].trim();
+  }
+  return null;
+}
+
+const CUSTOMER_ROLES = new Set(['user', 'customer']);
+const CUSTOMER_LINE = /^\s*(?:customer|user|caller)\s*:\s*(.*)$/i;
+const SPEAKER_LINE = /^\s*[a-z][a-z ]{0,20}:\s/i;
+
+/**
+ * What the caller said in a conversation: the customer turns when the
+ * transcript is split by speaker, or "Customer:" lines of a flat transcript.
+ * Text without speaker labels (an SMS body) is returned as is.
+ */
+export function customerText(
+  transcript: string | null | undefined,
+  turns?: Array<{ role: string; content: string }> | null
+): string {
+  if (turns && turns.length > 0) {
+    return turns
+      .filter((turn) => CUSTOMER_ROLES.has(turn.role.toLowerCase()))
+      .map((turn) => turn.content)
+      .join('\n');
+  }
+
+  if (!transcript) return '';
+
+  const lines = transcript.split(/\r?\n/);
+  if (!lines.some((line) => SPEAKER_LINE.test(line))) {
+    return transcript;
+  }
+
+  return lines
+    .map((line) => line.match(CUSTOMER_LINE)?.[1])
+    .filter((line): line is string => line !== undefined)
+    .join('\n');
+}
+
+export interface ParsedDncFile {
+  phoneNumbers: string[]; // E.164, deduplicated
+  totalRows: number;
+  invalid: number;
+}
+
+/**
+ * E.164 form of a US number, or null when it isn't a dialable NANP number
+ */
+export function toDncPhoneNumber(value: string): string | null {
+  let digits = value.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) {
+    digits = digits.slice(1);
+  }
+  if (!/^[2-9]\d{2}[2-9]\d{6}$/.test(digits)) {
+    return null;
+  }
+  return `+1${digits}`;
+}
+
+/**
+ * Read a DNC file. Accepts the FTC registry layout (area code and number in
+ * two columns, e.g. `201,2000000`) and the single phone column used by most
+ * state lists. A header row is skipped.
+ */
+export function parseDncFile(content: string): ParsedDncFile {
+  const phoneNumbers = new Set<string>();
+  let totalRows = 0;
+  let invalid = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    const cells = line.split(/[,;\t|]/).map((cell) => cell.trim().replace(/^"|"$/g, '').trim());
+    if (cells.every((cell) => cell === '')) continue;
+
+    // A header names its columns rather than holding digits
+    if (totalRows === 0 && !cells.some((cell) => /\d/.test(cell))) continue;
+
+    totalRows++;
+    const phoneNumber = readDncRow(cells);
+    if (phoneNumber) {
+      phoneNumbers.add(phoneNumber);
+    } else {
+      invalid++;
+    }
+  }
+
+  return { phoneNumbers: [...phoneNumbers], totalRows, invalid };
+}
+
+function readDncRow(cells: string[]): string | null {
+  const [first, second] = cells.map((cell) => cell.replace(/\D/g, ''));
+  if (first?.length === 3 && second?.length === 7) {
+    return toDncPhoneNumber(first + second);
+  }
+
+  for (const cell of cells) {
+    const phoneNumber = toDncPhoneNumber(cell);
+    if (phoneNumber) return phoneNumber;
+  }
+  return null;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildEventEnvelope, getDeliveryRetryDelayMs, isEventType, validateEndpointUrl } from './event-webhooks';
+import { createWebhookSubscriptionSchema } from './validations/webhook';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('Event Webhooks', () => {
+  describe('Retry Backoff', () => {
+    it('should wait a minute after the first attempt and double after each', () => {
+      expect(getDeliveryRetryDelayMs(1)).toBe(MINUTE_MS);
+      expect(getDeliveryRetryDelayMs(2)).toBe(2 * MINUTE_MS);
+      expect(getDeliveryRetryDelayMs(7)).toBe(64 * MINUTE_MS);
+    });
+
+    it('should cap the delay at six hours', () => {
+      expect(getDeliveryRetryDelayMs(30)).toBe(6 * 60 * MINUTE_MS);
+    });
+
+    it('should retry for about two hours with the default 8 attempts', () => {
+      const total = [1, 2, 3, 4, 5, 6, 7].reduce((sum, attempt) => sum + getDeliveryRetryDelayMs(attempt), 0);
+      expect(total).toBe(127 * MINUTE_MS);
+    });
+  });
+
+  describe('Envelope', () => {
+    it('should wrap event data with its ID, type and time', () => {
+      expect(buildEventEnvelope({
+        id: 'evt-1',
+        type: 'sms.sent',
+        organizationId: 'org-1',
+        occurredAt: new Date('2024-06-10T12:00:00Z'),
+        data: { smsLogId: 'sms-1' },
+      })).toEqual({
+        id: 'evt-1',
+        type: 'sms.sent',
+        organizationId: 'org-1',
+        occurredAt: '2024-06-10T12:00:00.000Z',
+        data: { smsLogId: 'sms-1' },
+      });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require https outside local development', () => {
+      expect(validateEndpointUrl('https://crm.example.com/hooks')).toBeNull();
+      expect(validateEndpointUrl('http://localhost:4000/hooks')).toBeNull();
+      expect(validateEndpointUrl('http://crm.example.com/hooks')).toContain('https');
+      expect(validateEndpointUrl('not a url')).toBe('Invalid URL');
+    });
+
+    it('should only accept known event types', () => {
+      expect(isEventType('interaction.created')).toBe(true);
+      expect(isEventType('interaction.deleted')).toBe(false);
+    });
+
+    it('should require at least one event and drop duplicates', () => {
+      expect(createWebhookSubscriptionSchema.safeParse({ url: 'https://crm.example.com', events: [] }).success).toBe(false);
+
+      const result = createWebhookSubscriptionSchema.safeParse({
+        url: ' https://crm.example.com ',
+        events: ['sms.sent', 'sms.sent'],
+      });
+      expect(result.success && result.data).toEqual({ url: 'https://crm.example.com', events: ['sms.sent'] });
+    });
+  });
+});
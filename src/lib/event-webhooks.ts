@@ -0,0 +1,89 @@
+/**
+ * Event webhooks: events pushed to client systems. Shared by the delivery
+ * worker, the subscription API and the admin page.
+ */
+
+import type { EventType } from '@/db/schema';
+
+export const EVENT_TYPES: { type: EventType; label: string; description: string }[] = [
+  {
+    type: 'interaction.created',
+    label: 'Interaction created',
+    description: 'A call, SMS or form submission was analyzed and stored',
+  },
+  {
+    type: 'outbound_call.completed',
+    label: 'Outbound call completed',
+    description: 'An outbound campaign call ended, answered or not',
+  },
+  {
+    type: 'sms.sent',
+    label: 'SMS sent',
+    description: 'A trigger or follow-up text was accepted by Twilio',
+  },
+  {
+    type: 'lead.stage_changed',
+    label: 'Lead stage changed',
+    description: 'A lead created from one of your callers moved to another pipeline stage',
+  },
+];
+
+// Sent with every delivery alongside the signature, so receivers can route and dedupe before parsing
+export const EVENT_TYPE_HEADER = 'x-webhook-event';
+export const EVENT_ID_HEADER = 'x-webhook-id';
+
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export function isEventType(value: string): value is EventType {
+  return EVENT_TYPES.some((event) => event.type === value);
+}
+
+/**
+ * Delay before the next attempt, doubling per attempt and capped at six hours.
+ * With the default 8 attempts a delivery is retried for about two hours.
+ */
+export function getDeliveryRetryDelayMs(attempt: number): number {
+  const delay = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The JSON body every delivery sends
+ */
+export function buildEventEnvelope(event: {
+  id: string;
+  type: EventType | 'test';
+  organizationId: string;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}): Record<string, unknown> {
+  return {
+    id: event.id,
+    type: event.type,
+    organizationId: event.organizationId,
+    occurredAt: event.occurredAt.toISOString(),
+    data: event.data,
+  };
+}
+
+/**
+ * A message for an unusable endpoint URL, or null when valid.
+ * Plain http is allowed only for local development endpoints.
+ */
+export function validateEndpointUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (url.protocol === 'https:') {
+    return null;
+  }
+  if (url.protocol === 'http:' && (url.hostname === 'localhost' || url.hostname === '127.0.0.1')) {
+    return null;
+  }
+  return 'Endpoint URL must use https';
+}
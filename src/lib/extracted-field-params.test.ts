@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExtractedFieldParams,
+  appendExtractedFieldParams,
+  getExtractedFieldValue,
+} from './extracted-field-params';
+
+describe('Extracted Field Params', () => {
+  it('should parse repeated range filters on one field', () => {
+    const { filters } = parseExtractedFieldParams(
+      new URLSearchParams('cf.budget=gte:1000&cf.budget=lte:5000&status=completed')
+    );
+
+    expect(filters).toEqual([
+      { field: 'budget', operator: 'gte', value: '1000' },
+      { field: 'budget', operator: 'lte', value: '5000' },
+    ]);
+  });
+
+  it('should keep colons inside the value', () => {
+    const { filters } = parseExtractedFieldParams(new URLSearchParams('cf.best_time=eq:10:30'));
+
+    expect(filters[0].value).toBe('10:30');
+  });
+
+  it('should ignore unknown operators and empty values', () => {
+    const { filters } = parseExtractedFieldParams(
+      new URLSearchParams('cf.budget=between:1,2&cf.city=eq:&cf.notes=nonsense')
+    );
+
+    expect(filters).toEqual([]);
+  });
+
+  it('should parse sort with a default descending order', () => {
+    expect(parseExtractedFieldParams(new URLSearchParams('sort=cf.budget')).sort).toEqual({
+      field: 'budget',
+      direction: 'desc',
+    });
+    expect(parseExtractedFieldParams(new URLSearchParams('sort=cf.budget&order=asc')).sort?.direction).toBe('asc');
+    expect(parseExtractedFieldParams(new URLSearchParams('sort=createdAt')).sort).toBeNull();
+  });
+
+  it('should round-trip through appendExtractedFieldParams', () => {
+    const params = new URLSearchParams();
+    const filters = [{ field: 'appointment_date', operator: 'gte' as const, value: '2024-06-01' }];
+    const sort = { field: 'appointment_date', direction: 'asc' as const };
+
+    appendExtractedFieldParams(params, filters, sort);
+
+    expect(parseExtractedFieldParams(params)).toEqual({ filters, sort });
+  });
+
+  it('should read values from customFields', () => {
+    const data = { summary: 'x', customFields: { budget: 2500 } };
+
+    expect(getExtractedFieldValue(data, 'budget')).toBe(2500);
+    expect(getExtractedFieldValue(data, 'missing')).toBeUndefined();
+    expect(getExtractedFieldValue(null, 'budget')).toBeUndefined();
+  });
+});
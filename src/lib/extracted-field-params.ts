@@ -0,0 +1,107 @@
+import type { ExtractionFieldType } from '@/db/schema';
+
+// Query string format shared by /api/interactions and /api/reports/export:
+//   cf.<field>=<operator>:<value>   (repeatable, e.g. cf.budget=gte:1000&cf.budget=lte:5000)
+//   sort=cf.<field>&order=asc|desc
+const PARAM_PREFIX = 'cf.';
+const MAX_FILTERS = 10;
+
+export const EXTRACTED_FIELD_OPERATORS = ['eq', 'contains', 'gte', 'lte'] as const;
+export type ExtractedFieldOperator = (typeof EXTRACTED_FIELD_OPERATORS)[number];
+
+export interface ExtractedFieldFilter {
+  field: string;
+  operator: ExtractedFieldOperator;
+  value: string;
+}
+
+export interface ExtractedFieldSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ExtractedFieldInfo {
+  name: string;
+  type: ExtractionFieldType;
+  source: 'schema' | 'discovered';
+  options?: string[];
+}
+
+/**
+ * Read extracted-field filters and sort from a request's query string.
+ * Malformed entries are ignored rather than rejected.
+ */
+export function parseExtractedFieldParams(searchParams: URLSearchParams): {
+  filters: ExtractedFieldFilter[];
+  sort: ExtractedFieldSort | null;
+} {
+  const filters: ExtractedFieldFilter[] = [];
+
+  for (const [key, raw] of searchParams.entries()) {
+    if (!key.startsWith(PARAM_PREFIX) || filters.length >= MAX_FILTERS) continue;
+
+    const field = key.slice(PARAM_PREFIX.length);
+    const separator = raw.indexOf(':');
+    if (!isValidFieldName(field) || separator === -1) continue;
+
+    const operator = raw.slice(0, separator) as ExtractedFieldOperator;
+    const value = raw.slice(separator + 1);
+    if (!EXTRACTED_FIELD_OPERATORS.includes(operator) || value === '') continue;
+
+    filters.push({ field, operator, value });
+  }
+
+  const sortParam = searchParams.get('sort');
+  const sortField = sortParam?.startsWith(PARAM_PREFIX) ? sortParam.slice(PARAM_PREFIX.length) : null;
+  const sort = sortField && isValidFieldName(sortField)
+    ? { field: sortField, direction: searchParams.get('order') === 'asc' ? 'asc' as const : 'desc' as const }
+    : null;
+
+  return { filters, sort };
+}
+
+/**
+ * Write extracted-field filters and sort onto a query string
+ */
+export function appendExtractedFieldParams(
+  params: URLSearchParams,
+  filters: ExtractedFieldFilter[],
+  sort: ExtractedFieldSort | null
+): void {
+  for (const filter of filters) {
+    params.append(`${PARAM_PREFIX}${filter.field}`, `${filter.operator}:${filter.value}`);
+  }
+
+  if (sort) {
+    params.set('sort', `${PARAM_PREFIX}${sort.field}`);
+    params.set('order', sort.direction);
+  }
+}
+
+/**
+ * Read a custom field value from an interaction's extracted data
+ */
+export function getExtractedFieldValue(
+  aiExtractedData: Record<string, unknown> | null | undefined,
+  field: string
+): unknown {
+  const customFields = aiExtractedData?.customFields;
+  if (!customFields || typeof customFields !== 'object' || Array.isArray(customFields)) {
+    return undefined;
+  }
+  return (customFields as Record<string, unknown>)[field];
+}
+
+/**
+ * Display a custom field value in a table cell or CSV column
+ */
+export function formatExtractedFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isValidFieldName(field: string): boolean {
+  return field.length > 0 && field.length <= 100;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildExtractionJsonSchema, validateExtractedFields } from './extraction-schema';
+import type { ExtractionSchemaField } from '@/db/schema';
+
+const fields: ExtractionSchemaField[] = [
+  { name: 'vehicle_count', type: 'number', required: true, description: 'Vehicles owned' },
+  { name: 'coverage', type: 'enum', required: false, description: 'Coverage wanted', options: ['basic', 'full'] },
+  { name: 'renewal_date', type: 'date', required: false, description: 'Policy renewal date' },
+  { name: 'is_homeowner', type: 'boolean', required: false, description: 'Owns a home' },
+];
+
+describe('Extraction Schema', () => {
+  describe('JSON Schema', () => {
+    it('should require every property and disallow extras for strict mode', () => {
+      const schema = buildExtractionJsonSchema(fields);
+
+      expect(schema.required).toEqual(['vehicle_count', 'coverage', 'renewal_date', 'is_homeowner']);
+      expect(schema.additionalProperties).toBe(false);
+    });
+
+    it('should make optional fields nullable', () => {
+      const properties = buildExtractionJsonSchema(fields).properties as Record<string, { type: unknown; enum?: unknown[] }>;
+
+      expect(properties.vehicle_count.type).toBe('number');
+      expect(properties.is_homeowner.type).toEqual(['boolean', 'null']);
+      expect(properties.coverage.enum).toEqual(['basic', 'full', null]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should keep valid values', () => {
+      const result = validateExtractedFields(fields, {
+        vehicle_count: 2,
+        coverage: 'full',
+        renewal_date: '2024-06-01',
+        is_homeowner: true,
+      });
+
+      expect(result.values).toEqual({
+        vehicle_count: 2,
+        coverage: 'full',
+        renewal_date: '2024-06-01',
+        is_homeowner: true,
+      });
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should coerce numeric strings and normalize dates', () => {
+      const result = validateExtractedFields(fields, {
+        vehicle_count: '3',
+        renewal_date: '2024-06-01T00:00:00Z',
+      });
+
+      expect(result.values.vehicle_count).toBe(3);
+      expect(result.values.renewal_date).toBe('2024-06-01');
+    });
+
+    it('should null out invalid values and report them', () => {
+      const result = validateExtractedFields(fields, {
+        vehicle_count: 1,
+        coverage: 'premium',
+        renewal_date: 'next spring',
+      });
+
+      expect(result.values.coverage).toBeNull();
+      expect(result.values.renewal_date).toBeNull();
+      expect(result.errors).toHaveLength(2);
+    });
+
+    it('should report missing required fields', () => {
+      const result = validateExtractedFields(fields, { vehicle_count: null });
+
+      expect(result.values.vehicle_count).toBeNull();
+      expect(result.errors).toEqual(['vehicle_count: required but not found']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { ExtractionSchemaField } from '@/db/schema';
+
+export interface ExtractedFieldsResult {
+  values: Record<string, string | number | boolean | null>;
+  errors: string[];
+}
+
+/**
+ * Build the JSON schema passed to OpenAI's structured output mode.
+ * Strict mode requires every property to be listed as required, so
+ * optional fields are expressed as nullable instead.
+ */
+export function buildExtractionJsonSchema(fields: ExtractionSchemaField[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const description = [
+      field.description,
+      field.type === 'date' ? 'ISO 8601 date (YYYY-MM-DD).' : '',
+      field.required ? '' : 'Use null if not mentioned.',
+    ].filter(Boolean).join(' ');
+
+    switch (field.type) {
+      case 'enum':
+        properties[field.name] = {
+          type: field.required ? 'string' : ['string', 'null'],
+          enum: field.required ? field.options : [...(field.options ?? []), null],
+          description,
+        };
+        break;
+      case 'date':
+        properties[field.name] = { type: field.required ? 'string' : ['string', 'null'], description };
+        break;
+      default:
+        properties[field.name] = { type: field.required ? field.type : [field.type, 'null'], description };
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: fields.map((f) => f.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Validate model output against the campaign's schema field by field, so one
+ * bad value does not discard the rest. Invalid or missing values are stored
+ * as null and reported in errors.
+ */
+export function validateExtractedFields(
+  fields: ExtractionSchemaField[],
+  raw: Record<string, unknown>
+): ExtractedFieldsResult {
+  const values: ExtractedFieldsResult['values'] = {};
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const value = raw[field.name];
+
+    if (value === null || value === undefined || value === '') {
+      values[field.name] = null;
+      if (field.required) {
+        errors.push(`${field.name}: required but not found`);
+      }
+      continue;
+    }
+
+    const parsed = fieldValueSchema(field).safeParse(value);
+    if (parsed.success) {
+      values[field.name] = parsed.data;
+    } else {
+      values[field.name] = null;
+      errors.push(`${field.name}: ${parsed.error.issues[0]?.message ?? 'invalid value'}`);
+    }
+  }
+
+  return { values, errors };
+}
+
+function fieldValueSchema(field: ExtractionSchemaField): z.ZodType<string | number | boolean> {
+  switch (field.type) {
+    case 'number':
+      return z.coerce.number().refine(Number.isFinite, 'must be a number');
+    case 'boolean':
+      return z.union([
+        z.boolean(),
+        z.enum(['true', 'false']).transform((v) => v === 'true'),
+      ]);
+    case 'enum':
+      return z.string().refine((v) => (field.options ?? []).includes(v), {
+        message: `must be one of ${(field.options ?? []).join(', ')}`,
+      });
+    case 'date':
+      return z
+        .string()
+        .refine((v) => /^\d{4}-\d{2}-\d{2}/.test(v) && !Number.isNaN(Date.parse(v)), 'must be a YYYY-MM-DD date')
+        .transform((v) => v.substring(0, 10));
+    default:
+      return z.string();
+  }
+}
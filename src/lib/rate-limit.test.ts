@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  MemoryRateLimitStore,
+  checkRateLimit,
+  getClientIp,
+  setRateLimitStore,
+  withRateLimit,
+} from './rate-limit';
+
+const config = { interval: 60000, maxRequests: 3 };
+
+describe('Rate Limit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setRateLimitStore(null);
+  });
+
+  describe('Memory store', () => {
+    it('should allow requests up to the limit', async () => {
+      const store = new MemoryRateLimitStore();
+
+      expect((await store.hit('a', config)).remaining).toBe(2);
+      expect((await store.hit('a', config)).remaining).toBe(1);
+      expect((await store.hit('a', config)).remaining).toBe(0);
+      expect((await store.hit('a', config)).allowed).toBe(false);
+      expect((await store.hit('b', config)).allowed).toBe(true);
+    });
+
+    it('should weight the previous window so limits slide', async () => {
+      const store = new MemoryRateLimitStore();
+      for (let i = 0; i < 3; i++) await store.hit('a', config);
+
+      // Just into the next window almost all of the previous one still counts
+      vi.advanceTimersByTime(61000);
+      expect((await store.hit('a', config)).allowed).toBe(true);
+      expect((await store.hit('a', config)).allowed).toBe(false);
+
+      // Halfway in, half of the previous window has slid out
+      vi.advanceTimersByTime(29000);
+      expect((await store.hit('a', config)).allowed).toBe(true);
+      expect((await store.hit('a', config)).allowed).toBe(false);
+    });
+
+    it('should forget counts older than one window', async () => {
+      const store = new MemoryRateLimitStore();
+      for (let i = 0; i < 3; i++) await store.hit('a', config);
+
+      vi.advanceTimersByTime(120000);
+      expect((await store.hit('a', config)).remaining).toBe(2);
+    });
+  });
+
+  describe('withRateLimit', () => {
+    it('should return the same headers when allowed and when limited', async () => {
+      const allowed = await withRateLimit('user-1', 'test', config);
+      expect(allowed.allowed).toBe(true);
+      expect(allowed.headers).toEqual({
+        'X-RateLimit-Limit': '3',
+        'X-RateLimit-Remaining': '2',
+        'X-RateLimit-Reset': '60',
+      });
+
+      await withRateLimit('user-1', 'test', config);
+      await withRateLimit('user-1', 'test', config);
+      const limited = await withRateLimit('user-1', 'test', config);
+
+      expect(limited.allowed).toBe(false);
+      expect(limited.response?.status).toBe(429);
+      expect(limited.response?.headers.get('X-RateLimit-Limit')).toBe('3');
+      expect(limited.response?.headers.get('X-RateLimit-Remaining')).toBe('0');
+      expect(limited.response?.headers.get('Retry-After')).toBe('60');
+    });
+
+    it('should allow requests when the store fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      setRateLimitStore({ hit: () => Promise.reject(new Error('Redis unavailable')) });
+
+      expect((await checkRateLimit('user-1:test', config)).allowed).toBe(true);
+    });
+  });
+
+  describe('Client IP', () => {
+    it('should use the first forwarded hop', () => {
+      expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7');
+      expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+      expect(getClientIp(new Headers())).toBe('unknown');
+    });
+  });
+});
@@ -1,67 +1,150 @@
 import { NextResponse } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { Redis } from '@upstash/redis';
+import { DEFAULT_API_RATE_LIMIT } from '@/lib/api-keys';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   interval: number; // Time window in milliseconds
   maxRequests: number; // Max requests per window
 }
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetIn: number; // Milliseconds until the window has room again
 }
 
-// In-memory store (for production, use Redis)
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Where request counts live. Limits are sliding windows: the previous
+ * window's count is weighted by how much of it still overlaps the window
+ * ending now, so a burst at a window boundary cannot double the limit.
+ */
+export interface RateLimitStore {
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
+}
+
+interface WindowCounts {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+const MEMORY_STORE_SWEEP_SIZE = 10000;
+
+/**
+ * Per-process store for tests and local development. Serverless instances
+ * do not share it, so production uses Redis.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, WindowCounts>();
+
+  async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowStart = now - (now % config.interval);
+
+    // Expired entries are dropped lazily instead of on a timer
+    if (this.windows.size >= MEMORY_STORE_SWEEP_SIZE) {
+      this.sweep(now, config.interval);
+    }
+
+    let counts = this.windows.get(key);
+    if (!counts || counts.windowStart < windowStart - config.interval) {
+      counts = { windowStart, current: 0, previous: 0 };
+    } else if (counts.windowStart < windowStart) {
+      counts = { windowStart, current: 0, previous: counts.current };
+    }
+    this.windows.set(key, counts);
+
+    const previousWeight = 1 - (now - windowStart) / config.interval;
+    const used = Math.floor(counts.previous * previousWeight) + counts.current;
+    const resetIn = windowStart + config.interval - now;
 
-// Clean up expired entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
+    if (used >= config.maxRequests) {
+      return { allowed: false, limit: config.maxRequests, remaining: 0, resetIn };
     }
+
+    counts.current++;
+    return { allowed: true, limit: config.maxRequests, remaining: config.maxRequests - used - 1, resetIn };
   }
-}, 60000); // Clean every minute
 
-export function getRateLimitKey(identifier: string, endpoint: string): string {
-  return `${identifier}:${endpoint}`;
+  private sweep(now: number, interval: number) {
+    for (const [key, counts] of this.windows.entries()) {
+      if (counts.windowStart + 2 * interval < now) {
+        this.windows.delete(key);
+      }
+    }
+  }
 }
 
-export function checkRateLimit(
-  key: string,
-  config: RateLimitConfig
-): { allowed: boolean; remaining: number; resetIn: number } {
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  if (!entry || entry.resetTime < now) {
-    // Create new entry
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.interval,
-    });
+/**
+ * Shared store for production, backed by @upstash/ratelimit's sliding window
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private limiters = new Map<string, Ratelimit>();
+
+  constructor(private redis: Redis) {}
+
+  async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    const result = await this.getLimiter(config).limit(key);
     return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetIn: config.interval,
+      allowed: result.success,
+      limit: result.limit,
+      remaining: Math.max(0, result.remaining),
+      resetIn: Math.max(0, result.reset - Date.now()),
     };
   }
 
-  if (entry.count >= config.maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetIn: entry.resetTime - now,
-    };
+  // One limiter per config; they share the Redis client and key prefix
+  private getLimiter(config: RateLimitConfig): Ratelimit {
+    const id = `${config.maxRequests}:${config.interval}`;
+    let limiter = this.limiters.get(id);
+    if (!limiter) {
+      limiter = new Ratelimit({
+        redis: this.redis,
+        limiter: Ratelimit.slidingWindow(config.maxRequests, `${config.interval} ms`),
+        prefix: 'ratelimit',
+      });
+      this.limiters.set(id, limiter);
+    }
+    return limiter;
   }
+}
 
-  // Increment count
-  entry.count++;
-  return {
-    allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetIn: entry.resetTime - now,
-  };
+let store: RateLimitStore | null = null;
+
+/**
+ * Redis when Upstash is configured, otherwise the per-process store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+      ? new RedisRateLimitStore(Redis.fromEnv())
+      : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+// For tests
+export function setRateLimitStore(newStore: RateLimitStore | null) {
+  store = newStore;
+}
+
+export function getRateLimitKey(identifier: string, endpoint: string): string {
+  return `${identifier}:${endpoint}`;
+}
+
+/**
+ * Count a request against a limit. Fails open: if the store is unreachable
+ * the request is allowed, since an outage must not take the API down with it.
+ */
+export async function checkRateLimit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+  try {
+    return await getRateLimitStore().hit(key, config);
+  } catch (error) {
+    console.error('[Rate Limit] Store error, allowing request:', error);
+    return { allowed: true, limit: config.maxRequests, remaining: config.maxRequests, resetIn: config.interval };
+  }
 }
 
 // Pre-configured rate limits
@@ -74,10 +157,23 @@ export const RATE_LIMITS = {
   write: { interval: 60000, maxRequests: 30 },
   // Search/heavy operations: 20 requests per minute
   search: { interval: 60000, maxRequests: 20 },
+  // Public REST API: per organization, unless the organization has its own quota
+  organizationApi: { interval: 60000, maxRequests: DEFAULT_API_RATE_LIMIT },
+  // Inbound webhooks: per campaign, and per sending IP across all campaigns
+  webhookCampaign: { interval: 60000, maxRequests: 600 },
+  webhookIp: { interval: 60000, maxRequests: 1200 },
 } as const;
 
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetIn / 1000).toString(),
+  };
+}
+
 // Helper to create rate limit response
-export function rateLimitExceeded(resetIn: number): NextResponse {
+export function rateLimitExceeded(resetIn: number, headers: Record<string, string> = {}): NextResponse {
   return NextResponse.json(
     {
       error: 'Too many requests. Please try again later.',
@@ -87,6 +183,7 @@ export function rateLimitExceeded(resetIn: number): NextResponse {
     {
       status: 429,
       headers: {
+        ...headers,
         'Retry-After': Math.ceil(resetIn / 1000).toString(),
         'X-RateLimit-Remaining': '0',
       },
@@ -95,27 +192,55 @@ export function rateLimitExceeded(resetIn: number): NextResponse {
 }
 
 // Middleware helper for API routes
-export function withRateLimit(
-  userId: string,
+export async function withRateLimit(
+  identifier: string,
   endpoint: string,
   config: RateLimitConfig = RATE_LIMITS.standard
-): { allowed: boolean; response?: NextResponse; headers: Record<string, string> } {
-  const key = getRateLimitKey(userId, endpoint);
-  const result = checkRateLimit(key, config);
-
-  const headers = {
-    'X-RateLimit-Limit': config.maxRequests.toString(),
-    'X-RateLimit-Remaining': result.remaining.toString(),
-    'X-RateLimit-Reset': Math.ceil(result.resetIn / 1000).toString(),
-  };
+): Promise<{ allowed: boolean; response?: NextResponse; headers: Record<string, string> }> {
+  const result = await checkRateLimit(getRateLimitKey(identifier, endpoint), config);
+  const headers = rateLimitHeaders(result);
 
   if (!result.allowed) {
     return {
       allowed: false,
-      response: rateLimitExceeded(result.resetIn),
+      response: rateLimitExceeded(result.resetIn, headers),
       headers,
     };
   }
 
   return { allowed: true, headers };
 }
+
+/**
+ * The caller's IP as reported by the platform proxy (first x-forwarded-for hop)
+ */
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const first = forwardedFor.split(',')[0].trim();
+    if (first) return first;
+  }
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Limit a public webhook route by campaign UUID and by sender IP. Returns the
+ * 429 response to send, or null when the request may proceed.
+ */
+export async function limitWebhookRequest(
+  headers: Headers,
+  route: string,
+  campaignUuid: string
+): Promise<NextResponse | null> {
+  const byCampaign = await withRateLimit(`campaign:${campaignUuid}`, route, RATE_LIMITS.webhookCampaign);
+  if (!byCampaign.allowed) {
+    return byCampaign.response!;
+  }
+
+  const byIp = await withRateLimit(`ip:${getClientIp(headers)}`, 'webhooks', RATE_LIMITS.webhookIp);
+  if (!byIp.allowed) {
+    return byIp.response!;
+  }
+
+  return null;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimeOfDay,
+  validateSmsSequence,
+  applyQuietHours,
+  planSequence,
+  formatDelay,
+  MAX_FOLLOW_UP_STEPS,
+} from './sms-sequence';
+
+const DAY = 24 * 60;
+
+describe('SMS Sequences', () => {
+  describe('Validation', () => {
+    it('should accept increasing delays', () => {
+      expect(validateSmsSequence({
+        followUpSteps: [
+          { delayMinutes: DAY, message: 'Still interested, {{firstName|there}}?' },
+          { delayMinutes: 3 * DAY, message: 'Last reminder' },
+        ],
+        quietHoursStart: '21:00',
+        quietHoursEnd: '08:00',
+      })).toBeNull();
+    });
+
+    it('should reject steps out of order or without a message', () => {
+      expect(validateSmsSequence({
+        followUpSteps: [
+          { delayMinutes: 3 * DAY, message: 'a' },
+          { delayMinutes: DAY, message: 'b' },
+        ],
+      })).toContain('after follow-up 1');
+      expect(validateSmsSequence({ followUpSteps: [{ delayMinutes: 0, message: 'a' }] })).not.toBeNull();
+      expect(validateSmsSequence({ followUpSteps: [{ delayMinutes: 60, message: ' ' }] })).toContain('needs a message');
+    });
+
+    it('should reject invalid templates and too many steps', () => {
+      expect(validateSmsSequence({ followUpSteps: [{ delayMinutes: 60, message: 'Hi {{name' }] })).toContain('Follow-up 1');
+
+      const steps = Array.from({ length: MAX_FOLLOW_UP_STEPS + 1 }, (_, i) => ({ delayMinutes: (i + 1) * 60, message: 'x' }));
+      expect(validateSmsSequence({ followUpSteps: steps })).not.toBeNull();
+    });
+
+    it('should require both quiet hours', () => {
+      expect(validateSmsSequence({ quietHoursStart: '21:00' })).not.toBeNull();
+      expect(validateSmsSequence({ quietHoursStart: '9pm', quietHoursEnd: '08:00' })).not.toBeNull();
+      expect(validateSmsSequence({ quietHoursStart: '', quietHoursEnd: '' })).toBeNull();
+    });
+
+    it('should parse times of day', () => {
+      expect(parseTimeOfDay('08:30')).toBe(510);
+      expect(parseTimeOfDay('24:00')).toBeNull();
+    });
+  });
+
+  describe('Quiet Hours', () => {
+    const timezone = 'America/New_York';
+
+    it('should move a late evening send to the end of quiet hours', () => {
+      // 22:30 in New York (EDT, UTC-4)
+      const sendAt = new Date('2024-06-10T02:30:00Z');
+
+      expect(applyQuietHours(sendAt, timezone, '21:00', '08:00').toISOString()).toBe('2024-06-10T12:00:00.000Z');
+    });
+
+    it('should move an early morning send to the same morning', () => {
+      const sendAt = new Date('2024-06-10T10:15:45Z'); // 06:15 EDT
+
+      expect(applyQuietHours(sendAt, timezone, '21:00', '08:00').toISOString()).toBe('2024-06-10T12:00:00.000Z');
+    });
+
+    it('should leave sends outside quiet hours alone', () => {
+      const sendAt = new Date('2024-06-10T16:00:00Z'); // 12:00 EDT
+
+      expect(applyQuietHours(sendAt, timezone, '21:00', '08:00')).toBe(sendAt);
+      expect(applyQuietHours(sendAt, timezone, null, null)).toBe(sendAt);
+    });
+
+    it('should handle quiet hours within a day', () => {
+      const sendAt = new Date('2024-06-10T16:30:00Z'); // 12:30 EDT
+
+      expect(applyQuietHours(sendAt, timezone, '12:00', '13:00').toISOString()).toBe('2024-06-10T17:00:00.000Z');
+    });
+  });
+
+  describe('Planning', () => {
+    it('should schedule each step from the start of the sequence', () => {
+      const startedAt = new Date('2024-06-10T15:00:00Z'); // 11:00 in Chicago
+      const plan = planSequence(
+        {
+          followUpSteps: [
+            { delayMinutes: DAY, message: 'one' },
+            { delayMinutes: 3 * DAY + 12 * 60, message: 'two' }, // 22:00 in Chicago
+          ],
+          quietHoursStart: '21:00',
+          quietHoursEnd: '08:00',
+        },
+        startedAt,
+        'America/Chicago'
+      );
+
+      expect(plan.map((step) => step.stepNumber)).toEqual([1, 2]);
+      expect(plan[0].sendAt.toISOString()).toBe('2024-06-11T15:00:00.000Z');
+      expect(plan[1].sendAt.toISOString()).toBe('2024-06-14T13:00:00.000Z');
+    });
+
+    it('should format delays', () => {
+      expect(formatDelay(DAY)).toBe('1 day');
+      expect(formatDelay(3 * DAY)).toBe('3 days');
+      expect(formatDelay(120)).toBe('2 hours');
+      expect(formatDelay(45)).toBe('45 min');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * SMS trigger sequences: follow-up steps sent after a trigger's first
+ * message, and quiet hours evaluated in the contact's timezone. Shared by
+ * the trigger API, the scheduler and the trigger editor.
+ */
+
+import type { SmsSequenceStep } from '@/db/schema';
+import { validateSmsTemplate } from '@/lib/sms-template';
+
+export const MAX_FOLLOW_UP_STEPS = 5;
+export const MAX_FOLLOW_UP_DELAY_MINUTES = 90 * 24 * 60; // 90 days
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface SmsSequenceSettings {
+  followUpSteps?: SmsSequenceStep[] | null;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+}
+
+/**
+ * Minutes after midnight for an 'HH:MM' time, or null when it isn't one
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * A message for the first invalid step or quiet hours setting, or null when valid
+ */
+export function validateSmsSequence(settings: SmsSequenceSettings): string | null {
+  const steps = settings.followUpSteps ?? [];
+
+  if (!Array.isArray(steps)) {
+    return 'Follow-up steps must be a list';
+  }
+  if (steps.length > MAX_FOLLOW_UP_STEPS) {
+    return `A trigger can have at most ${MAX_FOLLOW_UP_STEPS} follow-up messages`;
+  }
+
+  let previousDelay = 0;
+  for (const [index, step] of steps.entries()) {
+    const label = `Follow-up ${index + 1}`;
+
+    if (!Number.isInteger(step?.delayMinutes) || step.delayMinutes <= previousDelay) {
+      return index === 0
+        ? `${label} must be sent at least a minute after the first message`
+        : `${label} must be sent after follow-up ${index}`;
+    }
+    if (step.delayMinutes > MAX_FOLLOW_UP_DELAY_MINUTES) {
+      return `${label} is more than 90 days after the first message`;
+    }
+    if (typeof step.message !== 'string' || !step.message.trim()) {
+      return `${label} needs a message`;
+    }
+    if (step.message.length > 1600) {
+      return `${label} exceeds maximum length of 1600 characters`;
+    }
+
+    const templateError = validateSmsTemplate(step.message);
+    if (templateError) {
+      return `${label}: ${templateError}`;
+    }
+
+    previousDelay = step.delayMinutes;
+  }
+
+  const { quietHoursStart, quietHoursEnd } = settings;
+  if (quietHoursStart || quietHoursEnd) {
+    const start = parseTimeOfDay(quietHoursStart);
+    const end = parseTimeOfDay(quietHoursEnd);
+    if (start === null || end === null) {
+      return 'Quiet hours need a start and end time (HH:MM)';
+    }
+    if (start === end) {
+      return 'Quiet hours must start and end at different times';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Minutes after midnight of an instant on the wall clock of a timezone
+ */
+export function getMinutesOfDay(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Push a send time that falls inside quiet hours to the end of them.
+ * Quiet hours may wrap midnight (21:00-08:00). A DST change during the wait
+ * can shift the result by an hour, which is still outside quiet hours.
+ */
+export function applyQuietHours(
+  sendAt: Date,
+  timezone: string,
+  quietHoursStart: string | null | undefined,
+  quietHoursEnd: string | null | undefined
+): Date {
+  const start = parseTimeOfDay(quietHoursStart);
+  const end = parseTimeOfDay(quietHoursEnd);
+  if (start === null || end === null || start === end) {
+    return sendAt;
+  }
+
+  const local = getMinutesOfDay(sendAt, timezone);
+  const isQuiet = start < end
+    ? local >= start && local < end
+    : local >= start || local < end;
+  if (!isQuiet) {
+    return sendAt;
+  }
+
+  const wait = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const adjusted = new Date(sendAt.getTime() + wait * 60 * 1000);
+  adjusted.setUTCSeconds(0, 0);
+  return adjusted;
+}
+
+/**
+ * When each follow-up of a sequence started at startedAt goes out
+ */
+export function planSequence(
+  settings: SmsSequenceSettings,
+  startedAt: Date,
+  timezone: string
+): Array<{ stepNumber: number; sendAt: Date; message: string }> {
+  return (settings.followUpSteps ?? []).map((step, index) => ({
+    stepNumber: index + 1,
+    sendAt: applyQuietHours(
+      new Date(startedAt.getTime() + step.delayMinutes * 60 * 1000),
+      timezone,
+      settings.quietHoursStart,
+      settings.quietHoursEnd
+    ),
+    message: step.message,
+  }));
+}
+
+/**
+ * Short label for a delay, e.g. '30 min', '4 hours', '3 days'
+ */
+export function formatDelay(minutes: number): string {
+  if (minutes % MINUTES_PER_DAY === 0) {
+    const days = minutes / MINUTES_PER_DAY;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} min`;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTemplateVariables,
+  renderSmsTemplate,
+  extractTemplateVariables,
+  validateSmsTemplate,
+  countSmsSegments,
+  OPT_OUT_MESSAGE,
+} from './sms-template';
+
+describe('SMS Templates', () => {
+  describe('Variables', () => {
+    it('should split the caller name from extracted data', () => {
+      const variables = buildTemplateVariables({
+        campaignName: 'Spring Promo',
+        extractedData: { callerName: 'Maria de la Cruz', primaryIntent: 'request_quote' },
+      });
+
+      expect(variables.firstname).toBe('Maria');
+      expect(variables.lastname).toBe('de la Cruz');
+      expect(variables.fullname).toBe('Maria de la Cruz');
+      expect(variables.campaignname).toBe('Spring Promo');
+      expect(variables.primaryintent).toBe('request_quote');
+    });
+
+    it('should include extraction schema fields and outbound custom fields', () => {
+      const variables = buildTemplateVariables({
+        contact: { firstName: 'Sam', customFields: { policy_number: 'P-100' } },
+        extractedData: { callerName: 'Samuel', customFields: { service: 'gutter cleaning', homeowner: true } },
+      });
+
+      expect(variables.firstname).toBe('Sam');
+      expect(variables.service).toBe('gutter cleaning');
+      expect(variables.homeowner).toBe('yes');
+      expect(variables.policynumber).toBe('P-100');
+    });
+  });
+
+  describe('Rendering', () => {
+    const variables = buildTemplateVariables({
+      extractedData: { callerName: 'Jane', customFields: { service: 'tune-up' } },
+    });
+
+    it('should merge variables regardless of naming style', () => {
+      const result = renderSmsTemplate("Hi {{firstName}}, here's the link to book your {{ service }}", variables);
+
+      expect(result.text).toBe("Hi Jane, here's the link to book your tune-up");
+      expect(result.missing).toEqual([]);
+      expect(renderSmsTemplate('{{first_name}}/{{First Name}}', variables).text).toBe('Jane/Jane');
+    });
+
+    it('should use fallbacks for missing values', () => {
+      const result = renderSmsTemplate('Your {{plan|plan}} is ready', variables);
+
+      expect(result.text).toBe('Your plan is ready');
+      expect(result.missing).toEqual([]);
+    });
+
+    it('should report missing variables and tidy the gap', () => {
+      const result = renderSmsTemplate('Hi {{nickname}}, thanks for calling', variables);
+
+      expect(result.text).toBe('Hi, thanks for calling');
+      expect(result.missing).toEqual(['nickname']);
+    });
+
+    it('should list template variables once', () => {
+      expect(extractTemplateVariables('{{a}} {{b|x}} {{a}}')).toEqual(['a', 'b']);
+    });
+
+    it('should reject unbalanced braces', () => {
+      expect(validateSmsTemplate('Hi {{firstName}')).not.toBeNull();
+      expect(validateSmsTemplate('Hi {{firstName|there}}!')).toBeNull();
+    });
+  });
+
+  describe('Segments', () => {
+    it('should fit 160 GSM characters in one segment', () => {
+      expect(countSmsSegments('a'.repeat(160))).toEqual({ characters: 160, segments: 1, encoding: 'GSM-7' });
+      expect(countSmsSegments('a'.repeat(161)).segments).toBe(2);
+    });
+
+    it('should count extended GSM characters twice', () => {
+      expect(countSmsSegments('€[]').characters).toBe(6);
+    });
+
+    it('should switch to UCS-2 for emoji and other characters', () => {
+      const count = countSmsSegments('See you soon 👋');
+
+      expect(count.encoding).toBe('UCS-2');
+      expect(count.characters).toBe(15);
+      expect(countSmsSegments('ü'.repeat(10) + '✓'.repeat(61)).segments).toBe(2);
+    });
+
+    it('should include the opt-out line', () => {
+      const body = 'a'.repeat(160 - OPT_OUT_MESSAGE.length);
+
+      expect(countSmsSegments(body + OPT_OUT_MESSAGE).segments).toBe(1);
+      expect(countSmsSegments(body + 'a' + OPT_OUT_MESSAGE).segments).toBe(2);
+    });
+  });
+});
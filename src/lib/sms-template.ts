@@ -0,0 +1,153 @@
+/**
+ * SMS message templates: {{variable}} and {{variable|fallback}} merge fields,
+ * plus GSM-7/UCS-2 segment counting. Shared by the send path and the trigger
+ * editor preview.
+ */
+
+// Appended to every outgoing SMS by sendSms
+export const OPT_OUT_MESSAGE = '\nReply STOP to opt out';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w. -]+?)\s*(?:\|([^}]*))?\}\}/g;
+
+// Variables every message can use, regardless of campaign fields
+export const BUILT_IN_VARIABLES = ['firstName', 'lastName', 'fullName', 'campaignName', 'organizationName', 'phoneNumber'];
+
+export interface SmsTemplateContext {
+  campaignName?: string | null;
+  organizationName?: string | null;
+  phoneNumber?: string | null;
+  // Known contact details (outbound contacts); inbound callers come from extractedData
+  contact?: {
+    firstName?: string | null;
+    lastName?: string | null;
+    email?: string | null;
+    company?: string | null;
+    customFields?: Record<string, string> | null;
+  } | null;
+  extractedData?: Record<string, unknown> | null;
+}
+
+export interface RenderedTemplate {
+  text: string;
+  missing: string[]; // Variables with no value and no fallback
+}
+
+export interface SegmentCount {
+  characters: number;
+  segments: number;
+  encoding: 'GSM-7' | 'UCS-2';
+}
+
+/**
+ * Variable names match ignoring case and separators, so {{first_name}},
+ * {{firstName}} and {{First Name}} are the same variable
+ */
+export function normalizeVariableName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function extractTemplateVariables(template: string): string[] {
+  const names = [...template.matchAll(VARIABLE_PATTERN)].map((m) => m[1].trim());
+  return [...new Set(names)];
+}
+
+/**
+ * A message for an unbalanced or empty merge field, or null when the template is valid
+ */
+export function validateSmsTemplate(template: string): string | null {
+  const stripped = template.replace(VARIABLE_PATTERN, '');
+  if (stripped.includes('{{') || stripped.includes('}}')) {
+    return 'Template has an unclosed or invalid {{variable}}';
+  }
+  return null;
+}
+
+/**
+ * Flatten everything a message can merge into one lookup, keyed by
+ * normalized name. Contact details win over values the AI extracted.
+ */
+export function buildTemplateVariables(context: SmsTemplateContext): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const set = (name: string, value: unknown) => {
+    const formatted = formatValue(value);
+    if (formatted) variables[normalizeVariableName(name)] = formatted;
+  };
+
+  const extracted = context.extractedData ?? {};
+  for (const [name, value] of Object.entries(extracted)) {
+    if (name !== 'customFields') set(name, value);
+  }
+  const extractedFields = extracted.customFields;
+  if (extractedFields && typeof extractedFields === 'object' && !Array.isArray(extractedFields)) {
+    for (const [name, value] of Object.entries(extractedFields)) set(name, value);
+  }
+
+  const callerName = typeof extracted.callerName === 'string' ? extracted.callerName.trim() : '';
+  const [callerFirst, ...callerRest] = callerName.split(/\s+/);
+  set('firstName', callerFirst);
+  set('lastName', callerRest.join(' '));
+
+  const contact = context.contact;
+  if (contact) {
+    for (const [name, value] of Object.entries(contact.customFields ?? {})) set(name, value);
+    set('firstName', contact.firstName);
+    set('lastName', contact.lastName);
+    set('email', contact.email);
+    set('company', contact.company);
+  }
+
+  set('fullName', [variables.firstname, variables.lastname].filter(Boolean).join(' '));
+  set('campaignName', context.campaignName);
+  set('organizationName', context.organizationName);
+  set('phoneNumber', context.phoneNumber ?? extracted.phoneNumber);
+
+  return variables;
+}
+
+export function renderSmsTemplate(template: string, variables: Record<string, string>): RenderedTemplate {
+  const missing = new Set<string>();
+
+  const text = template.replace(VARIABLE_PATTERN, (_match, rawName: string, fallback: string | undefined) => {
+    const name = rawName.trim();
+    const value = variables[normalizeVariableName(name)];
+    if (value) return value;
+    if (fallback !== undefined) return fallback.trim();
+    missing.add(name);
+    return '';
+  });
+
+  return {
+    // A blank variable can leave doubled spaces ("Hi  there")
+    text: missing.size > 0 ? text.replace(/ {2,}/g, ' ').replace(/ +([,.!?])/g, '$1').trim() : text,
+    missing: [...missing],
+  };
+}
+
+// GSM 03.38 basic character set; anything else forces UCS-2
+const GSM_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+// Extension table characters take two septets
+const GSM_EXTENDED = new Set('^{}\\[~]|€\f');
+
+export function countSmsSegments(text: string): SegmentCount {
+  const chars = [...text];
+  const isGsm = chars.every((c) => GSM_BASIC.has(c) || GSM_EXTENDED.has(c));
+
+  if (isGsm) {
+    const characters = chars.reduce((sum, c) => sum + (GSM_EXTENDED.has(c) ? 2 : 1), 0);
+    return { characters, segments: characters <= 160 ? 1 : Math.ceil(characters / 153), encoding: 'GSM-7' };
+  }
+
+  // UCS-2 counts UTF-16 code units, so emoji take two
+  const characters = text.length;
+  return { characters, segments: characters <= 70 ? 1 : Math.ceil(characters / 67), encoding: 'UCS-2' };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value).trim();
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { canTriggerFire, validateRefirePolicy, describeRefirePolicy, PreviousFiring } from './sms-trigger-policy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-10T12:00:00Z');
+
+function firedDaysAgo(days: number, interactionId: string | null = null): PreviousFiring {
+  return { firedAt: new Date(now.getTime() - days * DAY_MS), interactionId };
+}
+
+describe('SMS Trigger Policy', () => {
+  describe('Re-firing', () => {
+    it('should always fire for a new contact', () => {
+      expect(canTriggerFire({ refirePolicy: 'once', cooldownDays: null, maxFires: null }, [], { interactionId: 'i1', now })).toBe(true);
+    });
+
+    it('should fire once ever by default', () => {
+      expect(canTriggerFire({ refirePolicy: 'once', cooldownDays: null, maxFires: null }, [firedDaysAgo(400)], { interactionId: 'i2', now })).toBe(false);
+    });
+
+    it('should fire again after the cooldown', () => {
+      const trigger = { refirePolicy: 'cooldown' as const, cooldownDays: 30, maxFires: null };
+
+      expect(canTriggerFire(trigger, [firedDaysAgo(31)], { interactionId: 'i2', now })).toBe(true);
+      expect(canTriggerFire(trigger, [firedDaysAgo(45), firedDaysAgo(5)], { interactionId: 'i2', now })).toBe(false);
+    });
+
+    it('should fire once per interaction', () => {
+      const trigger = { refirePolicy: 'per_interaction' as const, cooldownDays: null, maxFires: null };
+
+      expect(canTriggerFire(trigger, [firedDaysAgo(0, 'i1')], { interactionId: 'i2', now })).toBe(true);
+      expect(canTriggerFire(trigger, [firedDaysAgo(0, 'i1')], { interactionId: 'i1', now })).toBe(false);
+    });
+
+    it('should stop after the maximum number of firings', () => {
+      const trigger = { refirePolicy: 'max_count' as const, cooldownDays: null, maxFires: 2 };
+
+      expect(canTriggerFire(trigger, [firedDaysAgo(3)], { interactionId: 'i2', now })).toBe(true);
+      expect(canTriggerFire(trigger, [firedDaysAgo(3), firedDaysAgo(1)], { interactionId: 'i3', now })).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require settings for the chosen policy', () => {
+      expect(validateRefirePolicy({ refirePolicy: 'cooldown' })).not.toBeNull();
+      expect(validateRefirePolicy({ refirePolicy: 'cooldown', cooldownDays: 30 })).toBeNull();
+      expect(validateRefirePolicy({ refirePolicy: 'max_count', maxFires: 0 })).not.toBeNull();
+      expect(validateRefirePolicy({ refirePolicy: 'max_count', maxFires: 3 })).toBeNull();
+    });
+
+    it('should default to once and reject unknown policies', () => {
+      expect(validateRefirePolicy({})).toBeNull();
+      expect(validateRefirePolicy({ refirePolicy: 'always' })).toContain('Unknown');
+    });
+
+    it('should describe policies', () => {
+      expect(describeRefirePolicy({ refirePolicy: 'cooldown', cooldownDays: 30, maxFires: null })).toBe('Every 30 days');
+      expect(describeRefirePolicy({ refirePolicy: 'max_count', cooldownDays: null, maxFires: 1 })).toBe('Up to 1 time');
+    });
+  });
+});
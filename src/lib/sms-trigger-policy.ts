@@ -0,0 +1,100 @@
+/**
+ * SMS trigger re-fire policies: whether a trigger that already messaged a
+ * contact may fire for them again. Evaluated against the contact's rows in
+ * sms_trigger_firings.
+ */
+
+import type { SmsTrigger } from '@/db/schema';
+
+export type RefirePolicy = SmsTrigger['refirePolicy'];
+
+export const MAX_COOLDOWN_DAYS = 365;
+export const MAX_FIRES_LIMIT = 100;
+
+export const REFIRE_POLICY_LABELS: Record<RefirePolicy, string> = {
+  once: 'Once per contact',
+  cooldown: 'Once every N days',
+  per_interaction: 'Once per interaction',
+  max_count: 'Up to N times per contact',
+};
+
+export type RefirePolicySettings = Pick<SmsTrigger, 'refirePolicy' | 'cooldownDays' | 'maxFires'>;
+
+export interface PreviousFiring {
+  firedAt: Date;
+  interactionId: string | null; // Interaction or outbound call log the firing came from
+}
+
+/**
+ * A message for an unknown policy or a missing/out-of-range setting, or null when valid
+ */
+export function validateRefirePolicy(settings: {
+  refirePolicy?: string | null;
+  cooldownDays?: number | null;
+  maxFires?: number | null;
+}): string | null {
+  const policy = settings.refirePolicy ?? 'once';
+
+  if (!Object.hasOwn(REFIRE_POLICY_LABELS, policy)) {
+    return `Unknown re-fire policy: ${policy}`;
+  }
+  if (policy === 'cooldown') {
+    const days = settings.cooldownDays;
+    if (!Number.isInteger(days) || days! < 1 || days! > MAX_COOLDOWN_DAYS) {
+      return `Cooldown must be between 1 and ${MAX_COOLDOWN_DAYS} days`;
+    }
+  }
+  if (policy === 'max_count') {
+    const max = settings.maxFires;
+    if (!Number.isInteger(max) || max! < 1 || max! > MAX_FIRES_LIMIT) {
+      return `Maximum firings must be between 1 and ${MAX_FIRES_LIMIT}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a trigger may fire for a contact given its previous firings for them
+ */
+export function canTriggerFire(
+  trigger: RefirePolicySettings,
+  firings: PreviousFiring[],
+  context: { interactionId: string | null; now?: Date }
+): boolean {
+  if (firings.length === 0) {
+    return true;
+  }
+
+  switch (trigger.refirePolicy) {
+    case 'cooldown': {
+      const now = context.now ?? new Date();
+      const cooldownMs = (trigger.cooldownDays ?? 0) * 24 * 60 * 60 * 1000;
+      return firings.every((firing) => now.getTime() - firing.firedAt.getTime() >= cooldownMs);
+    }
+    case 'per_interaction':
+      return !context.interactionId || firings.every((firing) => firing.interactionId !== context.interactionId);
+    case 'max_count':
+      return firings.length < (trigger.maxFires ?? 1);
+    case 'once':
+    default:
+      return false;
+  }
+}
+
+/**
+ * Short description for the trigger list, e.g. 'Every 30 days'
+ */
+export function describeRefirePolicy(trigger: RefirePolicySettings): string {
+  switch (trigger.refirePolicy) {
+    case 'cooldown':
+      return `Every ${trigger.cooldownDays} day${trigger.cooldownDays === 1 ? '' : 's'}`;
+    case 'per_interaction':
+      return 'Every interaction';
+    case 'max_count':
+      return `Up to ${trigger.maxFires} time${trigger.maxFires === 1 ? '' : 's'}`;
+    case 'once':
+    default:
+      return 'Once';
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateTriggerActions,
+  validateTriggerOutputs,
+  normalizeTriggerActions,
+  describeTriggerAction,
+  parseEmailList,
+} from './trigger-actions';
+
+describe('Trigger Actions', () => {
+  describe('Validation', () => {
+    it('should accept a valid set of actions', () => {
+      expect(validateTriggerActions([
+        { type: 'email', to: 'office@acme.com; owner@acme.com', subject: 'Quote for {{fullName}}', body: 'Call them back' },
+        { type: 'webhook', url: 'https://crm.acme.com/hooks', secret: 's3cret' },
+        { type: 'create_lead', salesUserId: 'user-1' },
+        { type: 'tag', tags: ['quote'], flag: false },
+      ])).toBeNull();
+    });
+
+    it('should allow no actions', () => {
+      expect(validateTriggerActions(undefined)).toBeNull();
+      expect(validateTriggerActions([])).toBeNull();
+    });
+
+    it('should reject unknown types and bad fields', () => {
+      expect(validateTriggerActions([{ type: 'fax' }])).toContain('unknown action type');
+      expect(validateTriggerActions([{ type: 'toString' }])).toContain('unknown action type');
+      expect(validateTriggerActions([{ type: 'email', to: 'not-an-email', subject: 'Hi', body: 'Hi' }])).toContain('not-an-email');
+      expect(validateTriggerActions([{ type: 'webhook', url: 'ftp://crm.acme.com' }])).toContain('https');
+      expect(validateTriggerActions([{ type: 'create_lead', salesUserId: '' }])).toContain('sales user');
+    });
+
+    it('should require https for webhooks except to localhost', () => {
+      expect(validateTriggerActions([{ type: 'webhook', url: 'http://crm.acme.com/hooks' }])).toContain('https');
+      expect(validateTriggerActions([{ type: 'webhook', url: 'http://localhost:3001/hooks' }])).toBeNull();
+    });
+
+    it('should require a tag action to do something', () => {
+      expect(validateTriggerActions([{ type: 'tag', tags: [' '], flag: false }])).not.toBeNull();
+      expect(validateTriggerActions([{ type: 'tag', tags: [], flag: true }])).toBeNull();
+    });
+
+    it('should name the action that failed', () => {
+      expect(validateTriggerActions([
+        { type: 'tag', tags: ['ok'], flag: false },
+        { type: 'email', to: '', subject: 'Hi', body: 'Hi' },
+      ])).toMatch(/^Action 2:/);
+    });
+
+    it('should require an SMS message or an action', () => {
+      expect(validateTriggerOutputs({ smsMessage: ' ', actions: [] })).not.toBeNull();
+      expect(validateTriggerOutputs({ smsMessage: null, actions: [{ type: 'create_lead' }] })).toBeNull();
+      expect(validateTriggerOutputs({ smsMessage: 'Thanks for calling!' })).toBeNull();
+    });
+
+    it('should not allow follow-ups without an SMS message', () => {
+      expect(validateTriggerOutputs({
+        smsMessage: null,
+        actions: [{ type: 'create_lead' }],
+        followUpSteps: [{ delayMinutes: 60, message: 'Still interested?' }],
+      })).toContain('Follow-up');
+    });
+  });
+
+  describe('Normalization', () => {
+    it('should trim input and tidy recipients and tags', () => {
+      expect(normalizeTriggerActions([
+        { type: 'email', to: ' office@acme.com ;owner@acme.com ', subject: ' Quote ', body: ' Call back ' },
+        { type: 'webhook', url: ' https://crm.acme.com/hooks ', secret: '  ' },
+        { type: 'tag', tags: [' Quote', 'quote', 'VIP '], flag: true },
+      ])).toEqual([
+        { type: 'email', to: 'office@acme.com, owner@acme.com', subject: 'Quote', body: 'Call back' },
+        { type: 'webhook', url: 'https://crm.acme.com/hooks' },
+        { type: 'tag', tags: ['quote', 'vip'], flag: true },
+      ]);
+    });
+
+    it('should split recipient lists', () => {
+      expect(parseEmailList('a@x.com,, b@x.com;c@x.com')).toEqual(['a@x.com', 'b@x.com', 'c@x.com']);
+    });
+  });
+
+  describe('Descriptions', () => {
+    it('should summarize actions for the trigger list', () => {
+      expect(describeTriggerAction({ type: 'webhook', url: 'https://crm.acme.com/hooks/leads' })).toBe('Webhook to crm.acme.com');
+      expect(describeTriggerAction({ type: 'tag', tags: ['quote'], flag: true })).toBe('Tag quote + Flag');
+      expect(describeTriggerAction({ type: 'email', to: 'office@acme.com', subject: 'Hi', body: 'Hi' })).toBe('Email office@acme.com');
+    });
+  });
+});
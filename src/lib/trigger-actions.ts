@@ -0,0 +1,192 @@
+/**
+ * Trigger actions: what a trigger does besides (or instead of) texting the
+ * caller. Each action is stored on the trigger's `actions` column and its
+ * result is written to trigger_action_logs.
+ */
+
+import type { TriggerAction } from '@/db/schema';
+import { validateEndpointUrl } from '@/lib/event-webhooks';
+
+export type TriggerActionType = TriggerAction['type'];
+
+export const MAX_TRIGGER_ACTIONS = 5;
+export const MAX_EMAIL_RECIPIENTS = 10;
+export const MAX_ACTION_TAGS = 10;
+
+export const TRIGGER_ACTION_LABELS: Record<TriggerActionType, string> = {
+  email: 'Send email',
+  webhook: 'Send webhook',
+  create_lead: 'Create lead',
+  tag: 'Tag interaction',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Split a comma- or semicolon-separated recipient list
+ */
+export function parseEmailList(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Normalize tag input: trimmed, lowercased, deduplicated
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * A message for the first invalid action, or null when all are valid
+ */
+export function validateTriggerActions(actions: unknown): string | null {
+  if (actions === undefined || actions === null) {
+    return null;
+  }
+  if (!Array.isArray(actions)) {
+    return 'Actions must be a list';
+  }
+  if (actions.length > MAX_TRIGGER_ACTIONS) {
+    return `A trigger can have at most ${MAX_TRIGGER_ACTIONS} actions`;
+  }
+
+  for (const [index, action] of actions.entries()) {
+    const label = `Action ${index + 1}`;
+    if (!action || typeof action !== 'object' || !Object.hasOwn(TRIGGER_ACTION_LABELS, action.type)) {
+      return `${label}: unknown action type`;
+    }
+
+    switch ((action as TriggerAction).type) {
+      case 'email': {
+        const recipients = typeof action.to === 'string' ? parseEmailList(action.to) : [];
+        if (recipients.length === 0) {
+          return `${label}: at least one recipient is required`;
+        }
+        if (recipients.length > MAX_EMAIL_RECIPIENTS) {
+          return `${label}: at most ${MAX_EMAIL_RECIPIENTS} recipients`;
+        }
+        const invalid = recipients.find((address) => !EMAIL_PATTERN.test(address));
+        if (invalid) {
+          return `${label}: invalid email address ${invalid}`;
+        }
+        if (typeof action.subject !== 'string' || !action.subject.trim()) {
+          return `${label}: subject is required`;
+        }
+        if (typeof action.body !== 'string' || !action.body.trim()) {
+          return `${label}: body is required`;
+        }
+        break;
+      }
+      case 'webhook': {
+        const urlError = typeof action.url === 'string' ? validateEndpointUrl(action.url) : 'Invalid URL';
+        if (urlError) {
+          return `${label}: ${urlError}`;
+        }
+        if (action.secret !== undefined && typeof action.secret !== 'string') {
+          return `${label}: secret must be text`;
+        }
+        break;
+      }
+      case 'create_lead':
+        if (typeof action.salesUserId !== 'string' || !action.salesUserId) {
+          return `${label}: choose a sales user`;
+        }
+        break;
+      case 'tag': {
+        if (!Array.isArray(action.tags) || action.tags.some((tag: unknown) => typeof tag !== 'string')) {
+          return `${label}: tags must be text`;
+        }
+        const tags = normalizeTags(action.tags);
+        if (tags.length > MAX_ACTION_TAGS) {
+          return `${label}: at most ${MAX_ACTION_TAGS} tags`;
+        }
+        if (tags.length === 0 && !action.flag) {
+          return `${label}: add a tag or flag the interaction`;
+        }
+        break;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A message when a trigger would do nothing when it fires, or null when valid.
+ * Follow-ups continue from the trigger's SMS, so they need one too.
+ */
+export function validateTriggerOutputs(trigger: {
+  smsMessage?: string | null;
+  actions?: unknown[] | null;
+  followUpSteps?: unknown[] | null;
+}): string | null {
+  const hasMessage = !!trigger.smsMessage?.trim();
+
+  if (!hasMessage && (trigger.actions?.length ?? 0) === 0) {
+    return 'Add an SMS message or at least one action';
+  }
+  if (!hasMessage && (trigger.followUpSteps?.length ?? 0) > 0) {
+    return 'Follow-up messages need an SMS message to follow';
+  }
+
+  return null;
+}
+
+/**
+ * Trim user input in validated actions before storing them
+ */
+export function normalizeTriggerActions(actions: TriggerAction[] | null | undefined): TriggerAction[] {
+  return (actions ?? []).map((action): TriggerAction => {
+    switch (action.type) {
+      case 'email':
+        return {
+          type: 'email',
+          to: parseEmailList(action.to).join(', '),
+          subject: action.subject.trim(),
+          body: action.body.trim(),
+        };
+      case 'webhook':
+        return {
+          type: 'webhook',
+          url: action.url.trim(),
+          ...(action.secret?.trim() ? { secret: action.secret.trim() } : {}),
+        };
+      case 'create_lead':
+        return { type: 'create_lead', salesUserId: action.salesUserId };
+      case 'tag':
+        return { type: 'tag', tags: normalizeTags(action.tags), flag: !!action.flag };
+    }
+  });
+}
+
+/**
+ * Short description for the trigger list, e.g. 'Email office@acme.com'
+ */
+export function describeTriggerAction(action: TriggerAction): string {
+  switch (action.type) {
+    case 'email':
+      return `Email ${parseEmailList(action.to).join(', ')}`;
+    case 'webhook':
+      return `Webhook to ${safeHost(action.url)}`;
+    case 'create_lead':
+      return 'Create lead';
+    case 'tag': {
+      const parts = action.tags.length > 0 ? [`Tag ${action.tags.join(', ')}`] : [];
+      if (action.flag) {
+        parts.push('Flag');
+      }
+      return parts.join(' + ');
+    }
+  }
+}
+
+function safeHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
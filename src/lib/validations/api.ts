@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import type { ApiKeyScope } from '@/db/schema';
+import { API_KEY_SCOPES } from '@/lib/api-keys';
+
+// Organization API keys
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES.map((entry) => entry.scope) as [ApiKeyScope, ...ApiKeyScope[]]))
+    .min(1, 'Choose at least one scope')
+    .transform((scopes) => [...new Set(scopes)]),
+});
+
+// GET /api/v1/interactions query string
+export const listApiInteractionsSchema = z.object({
+  campaignId: z.string().uuid('Invalid campaign ID').optional(),
+  sourceType: z.enum(['phone', 'sms', 'web_form', 'chatbot']).optional(),
+  createdAfter: z.string().datetime({ offset: true, message: 'createdAfter must be an ISO 8601 date-time' }).optional(),
+  createdBefore: z.string().datetime({ offset: true, message: 'createdBefore must be an ISO 8601 date-time' }).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// POST /api/v1/outbound-campaigns/[id]/contacts
+export const MAX_API_CONTACTS_PER_REQUEST = 1000;
+
+export const uploadApiContactsSchema = z.object({
+  contacts: z
+    .array(
+      z.object({
+        phoneNumber: z.string().trim().min(1, 'Phone number is required'),
+        firstName: z.string().trim().min(1, 'First name is required').max(100),
+        lastName: z.string().trim().max(100).optional().nullable(),
+        email: z.string().trim().email('Invalid email').optional().nullable(),
+        customFields: z.record(z.string(), z.string()).optional(),
+      })
+    )
+    .min(1, 'At least one contact is required')
+    .max(MAX_API_CONTACTS_PER_REQUEST, `At most ${MAX_API_CONTACTS_PER_REQUEST} contacts per request`),
+});
+
+export { validateRequest } from './sales';
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ListApiInteractionsInput = z.infer<typeof listApiInteractionsSchema>;
+export type UploadApiContactsInput = z.infer<typeof uploadApiContactsSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Field names become JSON schema properties and export column names
+export const extractionSchemaFieldSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, numbers and underscores, starting with a letter')
+      .max(50),
+    type: z.enum(['string', 'number', 'enum', 'date', 'boolean']),
+    required: z.boolean().default(false),
+    description: z.string().trim().max(500).default(''),
+    options: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  })
+  .refine((field) => field.type !== 'enum' || (field.options && field.options.length > 0), {
+    message: 'Enum fields need at least one option',
+    path: ['options'],
+  });
+
+export const extractionSchemaSchema = z
+  .array(extractionSchemaFieldSchema)
+  .max(30, 'A campaign can define at most 30 extraction fields')
+  .refine((fields) => new Set(fields.map((f) => f.name)).size === fields.length, {
+    message: 'Field names must be unique',
+  });
+
+export const qualityRubricCriterionSchema = z.object({
+  name: z.string().trim().min(1, 'Criterion name is required').max(50),
+  description: z.string().trim().max(500).default(''),
+  weight: z.number().int().min(1).max(10).default(1),
+});
+
+export const qualityRubricSchema = z
+  .array(qualityRubricCriterionSchema)
+  .max(10, 'A rubric can have at most 10 criteria')
+  .refine((criteria) => new Set(criteria.map((c) => c.name)).size === criteria.length, {
+    message: 'Criterion names must be unique',
+  });
+
+// Model name passed to the AI provider; blank falls back to the provider default
+export const aiModelSchema = z
+  .string()
+  .trim()
+  .max(100)
+  .nullable()
+  .transform((value) => value || null);
+
+export { validateRequest } from './sales';
+
+export type ExtractionSchemaFieldInput = z.infer<typeof extractionSchemaFieldSchema>;
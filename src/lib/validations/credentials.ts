@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// An organization's own voice provider or Twilio account, as entered in the admin UI
+export const saveCredentialSchema = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.enum(['vapi', 'retell', 'bland', 'autocalls']),
+    apiKey: z.string().trim().min(1, 'API key is required').max(200, 'API key too long'),
+  }),
+  z.object({
+    provider: z.literal('twilio'),
+    accountSid: z.string().trim().regex(/^AC[0-9a-fA-F]{32}$/, 'Account SID must start with AC followed by 32 hex characters'),
+    authToken: z.string().trim().min(1, 'Auth token is required').max(200, 'Auth token too long'),
+  }),
+]);
+
+export { validateRequest } from './sales';
+
+export type SaveCredentialInput = z.infer<typeof saveCredentialSchema>;
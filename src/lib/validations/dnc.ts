@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Manually added Do-Not-Call number; no organization means every organization
+export const createDncNumberSchema = z.object({
+  phoneNumber: z.string().trim().min(7, 'Phone number is required').max(20, 'Phone number too long'),
+  organizationId: z.string().uuid().nullable().optional().default(null),
+  reason: z.string().trim().max(500, 'Reason too long').optional(),
+});
+
+// Form fields sent with an uploaded federal/state DNC file
+export const createDncImportSchema = z.object({
+  listName: z.string().trim().min(1, 'List name is required').max(200, 'List name too long'),
+  organizationId: z.string().uuid().nullable().optional().default(null),
+});
+
+export { validateRequest } from './sales';
+
+export type CreateDncNumberInput = z.infer<typeof createDncNumberSchema>;
+export type CreateDncImportInput = z.infer<typeof createDncImportSchema>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Campaign-level bulk re-analysis
+export const createReanalysisJobSchema = z.object({
+  onlyMissing: z.boolean().optional().default(false),
+});
+
+export { validateRequest } from './sales';
+
+export type CreateReanalysisJobInput = z.infer<typeof createReanalysisJobSchema>;
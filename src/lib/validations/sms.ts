@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Manually added SMS opt-out; no organization means every organization
+export const createSmsOptOutSchema = z.object({
+  phoneNumber: z.string().trim().min(7, 'Phone number is required').max(20, 'Phone number too long'),
+  organizationId: z.string().uuid().nullable().optional().default(null),
+});
+
+export { validateRequest } from './sales';
+
+export type CreateSmsOptOutInput = z.infer<typeof createSmsOptOutSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import type { EventType } from '@/db/schema';
+import { EVENT_TYPES, validateEndpointUrl } from '@/lib/event-webhooks';
+
+// Bulk replay of logged webhook failures
+export const bulkReplaySchema = z.object({
+  startDate: z.string().datetime('Invalid start date'),
+  endDate: z.string().datetime('Invalid end date'),
+}).refine(data => new Date(data.startDate) <= new Date(data.endDate), {
+  message: 'Start date must be before end date',
+  path: ['endDate'],
+});
+
+// Client event webhook subscriptions
+const endpointUrlSchema = z.string().trim().superRefine((url, ctx) => {
+  const error = validateEndpointUrl(url);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+const eventTypesSchema = z
+  .array(z.enum(EVENT_TYPES.map((event) => event.type) as [EventType, ...EventType[]]))
+  .min(1, 'Choose at least one event')
+  .transform((events) => [...new Set(events)]);
+
+export const createWebhookSubscriptionSchema = z.object({
+  url: endpointUrlSchema,
+  events: eventTypesSchema,
+  description: z.string().trim().max(200).optional().nullable(),
+});
+
+export const updateWebhookSubscriptionSchema = z.object({
+  url: endpointUrlSchema.optional(),
+  events: eventTypesSchema.optional(),
+  description: z.string().trim().max(200).optional().nullable(),
+  isActive: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+export { validateRequest } from './sales';
+
+export type BulkReplayInput = z.infer<typeof bulkReplaySchema>;
+export type CreateWebhookSubscriptionInput = z.infer<typeof createWebhookSubscriptionSchema>;
+export type UpdateWebhookSubscriptionInput = z.infer<typeof updateWebhookSubscriptionSchema>;
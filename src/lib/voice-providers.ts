@@ -0,0 +1,74 @@
+/**
+ * Voice providers an outbound campaign can dial through, and what each calls
+ * the agent and the number it dials from. Safe to import from the client.
+ */
+
+import type { VoiceProviderName } from '@/db/schema';
+
+export interface VoiceProviderInfo {
+  provider: VoiceProviderName;
+  label: string;
+  description: string;
+  agentLabel: string;
+  phoneNumberLabel: string;
+  phoneNumberHint: string;
+}
+
+export const VOICE_PROVIDERS: VoiceProviderInfo[] = [
+  {
+    provider: 'vapi',
+    label: 'VAPI',
+    description: 'Assistants and phone numbers are picked from the connected VAPI account',
+    agentLabel: 'Assistant',
+    phoneNumberLabel: 'Phone number',
+    phoneNumberHint: 'Phone number ID',
+  },
+  {
+    provider: 'retell',
+    label: 'Retell AI',
+    description: 'Calls from a number in the Retell account using one of its agents',
+    agentLabel: 'Agent ID',
+    phoneNumberLabel: 'From number',
+    phoneNumberHint: '+15551234567',
+  },
+  {
+    provider: 'bland',
+    label: 'Bland AI',
+    description: 'Runs a Bland pathway from one of the account’s numbers',
+    agentLabel: 'Pathway ID',
+    phoneNumberLabel: 'From number',
+    phoneNumberHint: '+15551234567',
+  },
+  {
+    provider: 'autocalls',
+    label: 'Autocalls',
+    description: 'Calls through an Autocalls.ai assistant and phone number',
+    agentLabel: 'Assistant ID',
+    phoneNumberLabel: 'Phone number ID',
+    phoneNumberHint: 'Phone number ID',
+  },
+  {
+    provider: 'fake',
+    label: 'Simulated',
+    description: 'Fake calls with scripted outcomes for development; never dials anyone',
+    agentLabel: 'Agent ID',
+    phoneNumberLabel: 'From number',
+    phoneNumberHint: '+15550000000',
+  },
+];
+
+export function isVoiceProviderName(value: unknown): value is VoiceProviderName {
+  return VOICE_PROVIDERS.some((entry) => entry.provider === value);
+}
+
+/**
+ * The fake provider is for development and tests; production campaigns can't
+ * be created with it
+ */
+export function isVoiceProviderAllowed(provider: VoiceProviderName): boolean {
+  return provider !== 'fake' || process.env.NODE_ENV !== 'production';
+}
+
+export function voiceProviderInfo(provider: VoiceProviderName): VoiceProviderInfo {
+  return VOICE_PROVIDERS.find((entry) => entry.provider === provider) ?? VOICE_PROVIDERS[0];
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  computeSignature,
+  rotateWebhookSecret,
+  verifyWebhookSignature,
+  SECRET_ROTATION_GRACE_MS,
+} from './webhook-signature';
+
+const body = JSON.stringify({ call_id: 'abc123', phone_number: '+15551234567' });
+const url = 'https://app.example.com/api/webhook/1234';
+
+function campaignWith(secret: string | null, previous: string | null = null, expiresAt: Date | null = null) {
+  return {
+    webhookSecret: secret,
+    webhookSecretPrevious: previous,
+    webhookSecretPreviousExpiresAt: expiresAt,
+  };
+}
+
+describe('Webhook Signature Verification', () => {
+  it('should accept unsigned requests when no secret is set', () => {
+    const result = verifyWebhookSignature({
+      campaign: campaignWith(null),
+      headers: new Headers(),
+      rawBody: body,
+      url,
+    });
+
+    expect(result).toEqual({ valid: true, scheme: 'unsigned' });
+  });
+
+  it('should reject unsigned requests once a secret is set', () => {
+    const result = verifyWebhookSignature({
+      campaign: campaignWith('whsec_current'),
+      headers: new Headers(),
+      rawBody: body,
+      url,
+    });
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('should accept a valid HMAC signature', () => {
+    const result = verifyWebhookSignature({
+      campaign: campaignWith('whsec_current'),
+      headers: new Headers({ 'X-Webhook-Signature': computeSignature(body, 'whsec_current') }),
+      rawBody: body,
+      url,
+    });
+
+    expect(result).toEqual({ valid: true, scheme: 'hmac' });
+  });
+
+  it('should reject a signature over a different body', () => {
+    const result = verifyWebhookSignature({
+      campaign: campaignWith('whsec_current'),
+      headers: new Headers({ 'X-Webhook-Signature': computeSignature('{}', 'whsec_current') }),
+      rawBody: body,
+      url,
+    });
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('should accept the previous secret only during the grace period', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+    const headers = new Headers({ 'X-Webhook-Signature': computeSignature(body, 'whsec_old') });
+
+    const during = verifyWebhookSignature({
+      campaign: campaignWith('whsec_new', 'whsec_old', new Date(now.getTime() + 1000)),
+      headers,
+      rawBody: body,
+      url,
+      now,
+    });
+    const after = verifyWebhookSignature({
+      campaign: campaignWith('whsec_new', 'whsec_old', new Date(now.getTime() - 1000)),
+      headers,
+      rawBody: body,
+      url,
+      now,
+    });
+
+    expect(during.valid).toBe(true);
+    expect(after.valid).toBe(false);
+  });
+
+  it('should accept a matching VAPI server secret', () => {
+    const result = verifyWebhookSignature({
+      campaign: campaignWith('whsec_current'),
+      headers: new Headers({ 'X-Vapi-Secret': 'whsec_current' }),
+      rawBody: body,
+      url,
+    });
+
+    expect(result).toEqual({ valid: true, scheme: 'vapi' });
+  });
+
+  it('should verify Twilio signatures with the auth token', () => {
+    const params = { From: '+15551234567', To: '+15559876543', Body: 'Hello' };
+    const data = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + params[key as keyof typeof params], url);
+    const signature = crypto.createHmac('sha1', 'twilio-token').update(data).digest('base64');
+
+    const result = verifyWebhookSignature({
+      campaign: campaignWith('whsec_current'),
+      headers: new Headers({ 'X-Twilio-Signature': signature }),
+      rawBody: new URLSearchParams(params).toString(),
+      url,
+      formParams: params,
+      twilioAuthToken: 'twilio-token',
+    });
+
+    expect(result).toEqual({ valid: true, scheme: 'twilio' });
+  });
+
+  describe('Secret Rotation', () => {
+    it('should keep the old secret for the grace period', () => {
+      const now = new Date('2024-01-01T12:00:00Z');
+      const rotated = rotateWebhookSecret(campaignWith('whsec_old'), now);
+
+      expect(rotated.webhookSecret).toMatch(/^whsec_[0-9a-f]{64}$/);
+      expect(rotated.webhookSecretPrevious).toBe('whsec_old');
+      expect(rotated.webhookSecretPreviousExpiresAt).toEqual(
+        new Date(now.getTime() + SECRET_ROTATION_GRACE_MS)
+      );
+    });
+
+    it('should not set a grace period for the first secret', () => {
+      const rotated = rotateWebhookSecret(campaignWith(null));
+
+      expect(rotated.webhookSecretPrevious).toBeNull();
+      expect(rotated.webhookSecretPreviousExpiresAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import twilio from 'twilio';
+
+// Generic HMAC scheme: X-Webhook-Signature: sha256=<hex HMAC-SHA256 of the raw body>
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+// VAPI sends the assistant's server secret verbatim
+export const VAPI_SECRET_HEADER = 'x-vapi-secret';
+export const TWILIO_SIGNATURE_HEADER = 'x-twilio-signature';
+
+// How long the previous secret keeps working after a rotation
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export interface WebhookSecretFields {
+  webhookSecret: string | null;
+  webhookSecretPrevious: string | null;
+  webhookSecretPreviousExpiresAt: Date | null;
+}
+
+export type SignatureVerification =
+  | { valid: true; scheme: 'unsigned' | 'hmac' | 'vapi' | 'twilio' }
+  | { valid: false; reason: string };
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Column values for rotating to a new secret. The old secret stays valid for
+ * the grace period so senders can be updated without dropping webhooks.
+ */
+export function rotateWebhookSecret(
+  campaign: WebhookSecretFields,
+  now: Date = new Date()
+): WebhookSecretFields {
+  return {
+    webhookSecret: generateWebhookSecret(),
+    webhookSecretPrevious: campaign.webhookSecret,
+    webhookSecretPreviousExpiresAt: campaign.webhookSecret
+      ? new Date(now.getTime() + SECRET_ROTATION_GRACE_MS)
+      : null,
+  };
+}
+
+export function computeSignature(rawBody: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+}
+
+/**
+ * Secrets a request may be signed with: the current one, plus the previous
+ * one until its grace period ends
+ */
+export function getActiveSecrets(campaign: WebhookSecretFields, now: Date = new Date()): string[] {
+  const secrets: string[] = [];
+
+  if (campaign.webhookSecret) {
+    secrets.push(campaign.webhookSecret);
+  }
+
+  if (
+    campaign.webhookSecretPrevious &&
+    campaign.webhookSecretPreviousExpiresAt &&
+    campaign.webhookSecretPreviousExpiresAt > now
+  ) {
+    secrets.push(campaign.webhookSecretPrevious);
+  }
+
+  return secrets;
+}
+
+/**
+ * Verify an inbound webhook against a campaign's signing secrets.
+ *
+ * Campaigns without a secret accept unsigned requests. Otherwise the request
+ * must carry one of: a valid X-Webhook-Signature, a matching VAPI server
+ * secret, or a valid X-Twilio-Signature (checked with the Twilio auth token,
+ * since that is what Twilio signs with).
+ */
+export function verifyWebhookSignature(params: {
+  campaign: WebhookSecretFields;
+  headers: Headers;
+  rawBody: string;
+  url: string;
+  formParams?: Record<string, string>;
+  twilioAuthToken?: string | null;
+  now?: Date;
+}): SignatureVerification {
+  const { campaign, headers, rawBody } = params;
+
+  if (!campaign.webhookSecret) {
+    return { valid: true, scheme: 'unsigned' };
+  }
+
+  const secrets = getActiveSecrets(campaign, params.now);
+
+  const signature = headers.get(SIGNATURE_HEADER);
+  if (signature) {
+    const matches = secrets.some((secret) => safeEqual(signature, computeSignature(rawBody, secret)));
+    return matches
+      ? { valid: true, scheme: 'hmac' }
+      : { valid: false, reason: 'Signature does not match' };
+  }
+
+  const vapiSecret = headers.get(VAPI_SECRET_HEADER);
+  if (vapiSecret) {
+    const matches = secrets.some((secret) => safeEqual(vapiSecret, secret));
+    return matches
+      ? { valid: true, scheme: 'vapi' }
+      : { valid: false, reason: 'VAPI server secret does not match' };
+  }
+
+  const twilioSignature = headers.get(TWILIO_SIGNATURE_HEADER);
+  if (twilioSignature) {
+    if (!params.twilioAuthToken) {
+      return { valid: false, reason: 'Twilio signature received but no Twilio auth token is configured' };
+    }
+
+    const matches = params.formParams
+      ? twilio.validateRequest(params.twilioAuthToken, twilioSignature, params.url, params.formParams)
+      : twilio.validateRequestWithBody(params.twilioAuthToken, twilioSignature, params.url, rawBody);
+
+    return matches
+      ? { valid: true, scheme: 'twilio' }
+      : { valid: false, reason: 'Twilio signature does not match' };
+  }
+
+  return { valid: false, reason: 'Missing webhook signature' };
+}
+
+/**
+ * The URL the sender signed. Behind a proxy req.url may not match the public
+ * URL configured with the provider, so prefer the app's public origin.
+ */
+export function getSignedUrl(reqUrl: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) {
+    return reqUrl;
+  }
+
+  const url = new URL(reqUrl);
+  return `${appUrl.replace(/\/$/, '')}${url.pathname}${url.search}`;
+}
+
+/**
+ * Mask signing secrets before returning a campaign to the browser
+ */
+export function redactWebhookSecrets<T extends WebhookSecretFields>(campaign: T): T {
+  return {
+    ...campaign,
+    webhookSecret: campaign.webhookSecret ? '••••••••' : null,
+    webhookSecretPrevious: campaign.webhookSecretPrevious ? '••••••••' : null,
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
@@ -1,8 +1,7 @@
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { parseKnownPayload, ParsedPayload } from '@/services/payload-parsers';
+import { getAiProvider, AiRequestOptions, TriggerDefinition, TriggerEvaluation } from '@/services/ai-providers';
+import { validateExtractedFields } from '@/lib/extraction-schema';
+import type { ExtractionSchemaField } from '@/db/schema';
 
 export interface ExtractedData {
   callerName?: string;
@@ -12,6 +11,7 @@ export interface ExtractedData {
   outcome?: string;
   summary?: string;
   customFields?: Record<string, unknown>;
+  schemaErrors?: string[]; // Extraction schema fields that were missing or invalid
 }
 
 export interface PayloadAnalysis {
@@ -23,69 +23,47 @@ export interface PayloadAnalysis {
   recordingUrl?: string;
   callStatus?: 'completed' | 'no_answer' | 'failed' | 'busy' | 'canceled';
   durationSeconds?: number;
+  callCost?: { totalUsd: number; breakdown?: Record<string, number> }; // Vendor-reported voice cost
+}
+
+export interface AnalyzeOptions {
+  extractionHints?: Record<string, string>;
+  extractionSchema?: ExtractionSchemaField[];
+  model?: string | null; // Per-campaign override of the provider's default model
+  onUsage?: AiRequestOptions['onUsage'];
+  throwOnEnrichmentError?: boolean; // Fail instead of falling back to the parser-only result
 }
 
 export async function analyzePayload(
   payload: Record<string, unknown>,
-  extractionHints?: Record<string, string>
+  options: AnalyzeOptions = {}
 ): Promise<PayloadAnalysis> {
-  const payloadString = JSON.stringify(payload, null, 2);
-
-  const hintsPrompt = extractionHints && Object.keys(extractionHints).length > 0
-    ? `\n\nAdditional extraction hints from campaign configuration:\n${JSON.stringify(extractionHints, null, 2)}`
-    : '';
-
-  const systemPrompt = `You are an AI assistant that analyzes webhook payloads from various communication sources (VAPI, Autocalls.ai, Twilio, web forms, chatbots). Your job is to:
-
-1. Identify the source type and platform
-2. Extract standardized fields from the payload
-3. Detect the primary intent and outcome
-4. Generate a concise summary
-
-Common payload structures:
-- VAPI: Contains "message.type": "end-of-call-report", with call details, transcript in "artifact", and analysis
-- Autocalls.ai: Contains "call_id", "phone_number", "transcript", "call_outcome"
-- Twilio: Contains "From", "To", "Body" for SMS, or call details
-- Web forms: Usually key-value pairs with form fields
-- Chatbots: Contains conversation history or messages array
-
-Return a JSON object with this structure:
-{
-  "sourceType": "phone" | "sms" | "web_form" | "chatbot",
-  "sourcePlatform": "vapi" | "autocalls" | "twilio" | "custom" | etc,
-  "extractedData": {
-    "callerName": "name if detected",
-    "phoneNumber": "phone in E.164 format if found",
-    "email": "email if found",
-    "primaryIntent": "main reason for contact",
-    "outcome": "result of interaction (appointment_set, callback_requested, info_provided, etc)",
-    "summary": "1-2 sentence summary of the interaction",
-    "customFields": { any additional relevant data }
-  },
-  "transcript": "full transcript text if available",
-  "transcriptFormatted": [{ "role": "assistant" | "user", "content": "..." }] if available,
-  "recordingUrl": "URL if available",
-  "callStatus": "completed" | "no_answer" | "failed" | "busy" | "canceled" if applicable,
-  "durationSeconds": number if available
-}${hintsPrompt}`;
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: `Analyze this webhook payload:\n\n${payloadString}` },
-    ],
-    response_format: { type: 'json_object' },
-    temperature: 0.3,
-    max_tokens: 2000,
-  });
+  const { extractionSchema } = options;
+  const requestOptions: AiRequestOptions = {
+    model: options.model || undefined,
+    extractionHints: options.extractionHints,
+    onUsage: options.onUsage,
+  };
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response from AI');
+  // Known formats are parsed exactly; the LLM only fills in the judgement fields
+  const parsed = parseKnownPayload(payload);
+  const analysis = parsed
+    ? await enrichParsedPayload(parsed, requestOptions, options.throwOnEnrichmentError)
+    : await analyzeUnknownPayload(payload, requestOptions);
+
+  if (!extractionSchema || extractionSchema.length === 0) {
+    return analysis;
   }
 
-  const result = JSON.parse(content) as PayloadAnalysis;
+  const content = parsed?.conversationText || analysis.transcript || JSON.stringify(payload, null, 2);
+  return applyExtractionSchema(analysis, content, extractionSchema, requestOptions);
+}
+
+async function analyzeUnknownPayload(
+  payload: Record<string, unknown>,
+  options: AiRequestOptions
+): Promise<PayloadAnalysis> {
+  const result = await getAiProvider().analyzePayload(payload, options);
 
   // Ensure required fields have defaults
   return {
@@ -100,13 +78,109 @@ Return a JSON object with this structure:
   };
 }
 
+/**
+ * Add summary, intent, outcome and custom fields to a deterministically parsed payload.
+ * Parsed values always win, and an LLM failure leaves the parsed result intact
+ * unless the caller asked for the error.
+ */
+async function enrichParsedPayload(
+  parsed: ParsedPayload,
+  options: AiRequestOptions,
+  throwOnError = false
+): Promise<PayloadAnalysis> {
+  const { conversationText, ...analysis } = parsed;
+
+  if (!conversationText) {
+    return analysis;
+  }
+
+  try {
+    const enriched = await getAiProvider().summarize(
+      conversationText,
+      { sourceType: analysis.sourceType, sourcePlatform: analysis.sourcePlatform },
+      options
+    );
+    const parsedData = analysis.extractedData;
+
+    return {
+      ...analysis,
+      extractedData: {
+        callerName: parsedData.callerName ?? enriched.callerName,
+        phoneNumber: parsedData.phoneNumber,
+        email: parsedData.email ?? enriched.email,
+        primaryIntent: enriched.primaryIntent,
+        outcome: enriched.outcome,
+        summary: parsedData.summary ?? enriched.summary,
+        customFields: parsedData.customFields || enriched.customFields
+          ? { ...enriched.customFields, ...parsedData.customFields }
+          : undefined,
+      },
+    };
+  } catch (error) {
+    if (throwOnError) {
+      throw error;
+    }
+    console.error('AI enrichment failed, keeping parsed payload:', error);
+    return analysis;
+  }
+}
+
+/**
+ * Extract the campaign's typed fields with structured output, validate them
+ * and merge them into customFields. A failed extraction is recorded in
+ * schemaErrors rather than failing the whole analysis.
+ */
+async function applyExtractionSchema(
+  analysis: PayloadAnalysis,
+  content: string,
+  fields: ExtractionSchemaField[],
+  options: AiRequestOptions
+): Promise<PayloadAnalysis> {
+  let values: Record<string, unknown> = {};
+  let errors: string[];
+
+  try {
+    const raw = await getAiProvider().extractFields(content, fields, options);
+    const validated = validateExtractedFields(fields, raw);
+    values = validated.values;
+    errors = validated.errors;
+  } catch (error) {
+    console.error('Structured extraction failed:', error);
+    errors = [`Structured extraction failed: ${error instanceof Error ? error.message : 'unknown error'}`];
+  }
+
+  return {
+    ...analysis,
+    extractedData: {
+      ...analysis.extractedData,
+      customFields: { ...analysis.extractedData.customFields, ...values },
+      schemaErrors: errors.length > 0 ? errors : undefined,
+    },
+  };
+}
+
 export async function evaluateTriggers(
   transcript: string | undefined,
   summary: string | undefined,
-  triggers: Array<{ id: string; intentDescription: string; priority: number }>
+  triggers: TriggerDefinition[],
+  options: Pick<AnalyzeOptions, 'model' | 'onUsage'> = {}
 ): Promise<string[]> {
+  const evaluation = await explainTriggers(transcript, summary, triggers, options);
+  return evaluation.matchedTriggerIds;
+}
+
+/**
+ * Same evaluation as evaluateTriggers, keeping the model's reasoning for
+ * each trigger (used by the trigger test panel)
+ */
+export async function explainTriggers(
+  transcript: string | undefined,
+  summary: string | undefined,
+  triggers: TriggerDefinition[],
+  options: Pick<AnalyzeOptions, 'model' | 'onUsage'> = {}
+): Promise<TriggerEvaluation> {
   if (!transcript && !summary) {
-    return [];
+    return { matchedTriggerIds: [], reasons: {} };
   }
 
   const content = transcript || summary || '';
@@ -114,45 +188,15 @@ export async function evaluateTriggers(
   // Sort triggers by priority (lower = higher priority)
   const sortedTriggers = [...triggers].sort((a, b) => a.priority - b.priority);
 
-  const triggerDescriptions = sortedTriggers.map((t, i) =>
-    `${i + 1}. ID: ${t.id} - Intent: "${t.intentDescription}"`
-  ).join('\n');
-
-  const systemPrompt = `You are an AI assistant that evaluates whether a conversation matches specific intent triggers.
-
-Given a conversation transcript or summary, determine which triggers (if any) should fire. A trigger fires if the caller's intent clearly matches the trigger's intent description.
-
-Be conservative - only return triggers where there's a clear match. Multiple triggers can match if appropriate.
-
-Return a JSON object with this structure:
-{
-  "matchedTriggerIds": ["id1", "id2"]
-}
-
-If no triggers match, return:
-{
-  "matchedTriggerIds": []
-}`;
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      {
-        role: 'user',
-        content: `Conversation content:\n${content}\n\nAvailable triggers:\n${triggerDescriptions}\n\nWhich triggers should fire?`,
-      },
-    ],
-    response_format: { type: 'json_object' },
-    temperature: 0.2,
-    max_tokens: 500,
+  const evaluation = await getAiProvider().evaluateTriggers(content, sortedTriggers, {
+    model: options.model || undefined,
+    onUsage: options.onUsage,
   });
 
-  const responseContent = response.choices[0]?.message?.content;
-  if (!responseContent) {
-    return [];
-  }
-
-  const result = JSON.parse(responseContent) as { matchedTriggerIds: string[] };
-  return result.matchedTriggerIds || [];
+  // Models occasionally echo IDs that weren't offered
+  const offered = new Set(triggers.map((t) => t.id));
+  return {
+    matchedTriggerIds: evaluation.matchedTriggerIds.filter((id) => offered.has(id)),
+    reasons: evaluation.reasons,
+  };
 }
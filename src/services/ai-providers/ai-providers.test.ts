@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createMockProvider, getAiProvider, setAiProvider, AiUsage } from './index';
+import { analyzePayload, evaluateTriggers, explainTriggers } from '@/services/ai-processor';
+import type { ExtractionSchemaField } from '@/db/schema';
+
+describe('AI Providers', () => {
+  describe('Mock Provider', () => {
+    const provider = createMockProvider();
+
+    it('should detect intent, outcome and caller details', async () => {
+      const result = await provider.summarize(
+        'Hi, my name is Jane Doe. I would like to book an appointment for Tuesday. Email me at jane@example.com.',
+        { sourceType: 'phone', sourcePlatform: 'vapi' },
+        {}
+      );
+
+      expect(result.callerName).toBe('Jane Doe');
+      expect(result.email).toBe('jane@example.com');
+      expect(result.primaryIntent).toBe('schedule_appointment');
+      expect(result.outcome).toBe('appointment_set');
+      expect(result.summary).toBe('Hi, my name is Jane Doe.');
+    });
+
+    it('should fall back to a general inquiry', async () => {
+      const result = await provider.summarize('What are your opening hours?', { sourceType: 'sms', sourcePlatform: 'twilio' }, {});
+
+      expect(result.primaryIntent).toBe('general_inquiry');
+      expect(result.outcome).toBe('info_provided');
+    });
+
+    it('should extract typed fields from labelled values', async () => {
+      const fields: ExtractionSchemaField[] = [
+        { name: 'vehicle_count', type: 'number', required: true, description: '' },
+        { name: 'plan', type: 'enum', required: false, description: '', options: ['basic', 'premium'] },
+        { name: 'start_date', type: 'date', required: false, description: '' },
+        { name: 'homeowner', type: 'boolean', required: false, description: '' },
+        { name: 'notes', type: 'string', required: false, description: '' },
+      ];
+
+      const result = await provider.extractFields(
+        'Vehicle count: 3\nThey want the Premium plan starting 2024-05-01.\nHomeowner: yes',
+        fields,
+        {}
+      );
+
+      expect(result).toEqual({
+        vehicle_count: 3,
+        plan: 'premium',
+        start_date: '2024-05-01',
+        homeowner: true,
+        notes: null,
+      });
+    });
+
+    it('should match triggers by intent keywords', async () => {
+      const evaluation = await provider.evaluateTriggers(
+        'I want to schedule an appointment next week',
+        [
+          { id: 'appointment', intentDescription: 'Caller wants to schedule an appointment', priority: 1 },
+          { id: 'refund', intentDescription: 'Customer asks for a refund', priority: 2 },
+        ],
+        {}
+      );
+
+      expect(evaluation.matchedTriggerIds).toEqual(['appointment']);
+      expect(evaluation.reasons.appointment).toContain('schedule');
+      expect(evaluation.reasons.refund).toMatch(/^0 of/);
+    });
+
+    it('should report estimated token usage', async () => {
+      const usage: AiUsage[] = [];
+      await provider.summarize('Please call me back', { sourceType: 'sms', sourcePlatform: 'twilio' }, {
+        onUsage: (u) => usage.push(u),
+      });
+
+      expect(usage).toHaveLength(1);
+      expect(usage[0]).toMatchObject({ provider: 'mock', model: 'mock', promptTokens: 5 });
+      expect(usage[0].completionTokens).toBeGreaterThan(0);
+    });
+
+    it('should return the same analysis for the same payload', async () => {
+      const payload = { name: 'Sam', phone: '555-123-4567', message: 'Can I get a quote?' };
+
+      const first = await provider.analyzePayload(payload, {});
+      const second = await provider.analyzePayload(payload, {});
+
+      expect(first).toEqual(second);
+      expect(first.sourceType).toBe('web_form');
+      expect(first.extractedData.primaryIntent).toBe('request_quote');
+      expect(first.extractedData.phoneNumber).toBe('555-123-4567');
+    });
+  });
+
+  describe('Provider Selection', () => {
+    const originalProvider = process.env.AI_PROVIDER;
+
+    afterEach(() => {
+      process.env.AI_PROVIDER = originalProvider;
+      setAiProvider(null);
+    });
+
+    it('should select the mock provider from the environment', () => {
+      process.env.AI_PROVIDER = 'mock';
+      setAiProvider(null);
+
+      expect(getAiProvider().name).toBe('mock');
+    });
+
+    it('should default to OpenAI without needing an API key up front', () => {
+      delete process.env.AI_PROVIDER;
+      setAiProvider(null);
+
+      expect(getAiProvider().name).toBe('openai');
+    });
+
+    it('should reject an unknown provider', () => {
+      process.env.AI_PROVIDER = 'nope';
+      setAiProvider(null);
+
+      expect(() => getAiProvider()).toThrow('Unknown AI_PROVIDER');
+    });
+  });
+
+  describe('Pipeline with Mock Provider', () => {
+    beforeEach(() => {
+      setAiProvider(createMockProvider());
+    });
+
+    afterEach(() => {
+      setAiProvider(null);
+    });
+
+    it('should analyze a known payload end to end without API keys', async () => {
+      const analysis = await analyzePayload(
+        {
+          message: {
+            type: 'end-of-call-report',
+            customer: { number: '+15551234567' },
+            artifact: { transcript: 'AI: Hello\nUser: This is Maria Lopez, please call me back tomorrow.' },
+          },
+        },
+        {
+          extractionSchema: [
+            { name: 'callback_day', type: 'enum', required: true, description: '', options: ['today', 'tomorrow'] },
+          ],
+        }
+      );
+
+      expect(analysis.sourcePlatform).toBe('vapi');
+      expect(analysis.extractedData.phoneNumber).toBe('+15551234567');
+      expect(analysis.extractedData.callerName).toBe('Maria Lopez');
+      expect(analysis.extractedData.primaryIntent).toBe('callback_request');
+      expect(analysis.extractedData.customFields).toEqual({ callback_day: 'tomorrow' });
+      expect(analysis.extractedData.schemaErrors).toBeUndefined();
+    });
+
+    it('should report usage for every model request in the analysis', async () => {
+      const usage: AiUsage[] = [];
+      await analyzePayload(
+        { name: 'Sam', message: 'I need a quote' },
+        {
+          extractionSchema: [{ name: 'budget', type: 'number', required: false, description: '' }],
+          onUsage: (u) => usage.push(u),
+        }
+      );
+
+      // Analysis plus structured extraction
+      expect(usage).toHaveLength(2);
+    });
+
+    it('should evaluate triggers through the active provider', async () => {
+      const matched = await evaluateTriggers(
+        undefined,
+        'Customer asked for a refund on their order',
+        [{ id: 'refund', intentDescription: 'Customer asks for a refund', priority: 1 }]
+      );
+
+      expect(matched).toEqual(['refund']);
+    });
+
+    it('should explain every trigger and drop IDs that were not offered', async () => {
+      setAiProvider({
+        ...createMockProvider(),
+        evaluateTriggers: async () => ({
+          matchedTriggerIds: ['refund', 'made-up'],
+          reasons: { refund: 'Caller asked for their money back', pricing: 'No pricing question' },
+        }),
+      });
+
+      const evaluation = await explainTriggers(
+        'I want my money back',
+        undefined,
+        [
+          { id: 'refund', intentDescription: 'Customer asks for a refund', priority: 1 },
+          { id: 'pricing', intentDescription: 'Caller asks about pricing', priority: 2 },
+        ]
+      );
+
+      expect(evaluation.matchedTriggerIds).toEqual(['refund']);
+      expect(evaluation.reasons.pricing).toBe('No pricing question');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * AI Providers - Selects the LLM backend used by the analysis pipeline
+ *
+ * AI_PROVIDER=openai (default) talks to OpenAI, or to any OpenAI-compatible
+ * server when OPENAI_BASE_URL is set. AI_PROVIDER=mock uses the rule-based
+ * provider, which needs no API key or network access.
+ */
+
+import { createOpenAiProvider } from './openai';
+import { createMockProvider } from './mock';
+import type { AiProvider } from './types';
+
+export type {
+  AiProvider,
+  AiRequestOptions,
+  AiUsage,
+  ConversationScores,
+  ConversationTurn,
+  TriggerDefinition,
+  TriggerEvaluation,
+} from './types';
+export { createOpenAiProvider } from './openai';
+export { createMockProvider } from './mock';
+
+export const DEFAULT_AI_MODEL = 'gpt-4o-mini';
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * The provider configured by environment, created on first use
+ */
+export function getAiProvider(): AiProvider {
+  activeProvider ??= createProviderFromEnv();
+  return activeProvider;
+}
+
+/**
+ * Override the active provider, or pass null to go back to the environment
+ * configuration. Intended for tests.
+ */
+export function setAiProvider(provider: AiProvider | null): void {
+  activeProvider = provider;
+}
+
+function createProviderFromEnv(): AiProvider {
+  const name = (process.env.AI_PROVIDER || 'openai').toLowerCase();
+
+  switch (name) {
+    case 'openai':
+      return createOpenAiProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL || undefined,
+        defaultModel: process.env.AI_MODEL || DEFAULT_AI_MODEL,
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}". Expected "openai" or "mock".`);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Mock Provider - Deterministic, rule-based stand-in for an LLM
+ *
+ * Uses regexes and keyword tables so the full ingest pipeline runs in CI and
+ * local development without API keys or network access. The same input
+ * always produces the same output.
+ */
+
+import type { ExtractionSchemaField } from '@/db/schema';
+import type { ExtractedData, PayloadAnalysis } from '@/services/ai-processor';
+import type { AiProvider, AiRequestOptions, TriggerEvaluation } from './types';
+
+const PHONE_PATTERN = /\+?1?[\s.-]?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const NAME_PATTERN = /\b(?:[Mm]y name is|[Tt]his is|I am|I'm)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/;
+const DATE_PATTERN = /\b(\d{4}-\d{2}-\d{2})\b/;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/;
+const MAX_SUMMARY_LENGTH = 200;
+
+// First matching rule wins, so more specific intents come first
+const INTENT_RULES: Array<{ intent: string; outcome: string; keywords: string[] }> = [
+  { intent: 'cancel', outcome: 'cancellation_requested', keywords: ['cancel', 'unsubscribe'] },
+  { intent: 'complaint', outcome: 'escalated', keywords: ['complaint', 'refund', 'unhappy', 'problem'] },
+  { intent: 'schedule_appointment', outcome: 'appointment_set', keywords: ['appointment', 'schedule', 'book'] },
+  { intent: 'request_quote', outcome: 'info_provided', keywords: ['quote', 'price', 'pricing', 'cost', 'estimate'] },
+  { intent: 'callback_request', outcome: 'callback_requested', keywords: ['call back', 'callback', 'call me'] },
+];
+
+const POSITIVE_WORDS = new Set([
+  'thanks', 'thank', 'great', 'perfect', 'happy', 'appreciate', 'excellent', 'wonderful',
+  'love', 'helpful', 'awesome', 'glad', 'good', 'pleased',
+]);
+const NEGATIVE_WORDS = new Set([
+  'angry', 'terrible', 'awful', 'frustrated', 'frustrating', 'ridiculous', 'unacceptable', 'worst',
+  'hate', 'disappointed', 'complaint', 'upset', 'problem', 'bad', 'never', 'useless',
+]);
+
+const TOPIC_RULES: Array<{ topic: string; keywords: string[] }> = [
+  { topic: 'appointment', keywords: ['appointment', 'schedule', 'book', 'reschedule'] },
+  { topic: 'pricing', keywords: ['quote', 'price', 'pricing', 'cost', 'estimate'] },
+  { topic: 'billing', keywords: ['bill', 'billing', 'invoice', 'charge', 'refund', 'payment'] },
+  { topic: 'cancellation', keywords: ['cancel', 'cancellation', 'unsubscribe'] },
+  { topic: 'complaint', keywords: ['complaint', 'unhappy', 'manager', 'supervisor'] },
+  { topic: 'callback', keywords: ['call back', 'callback', 'call me'] },
+];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'for', 'from', 'has', 'have', 'in', 'is', 'of', 'on', 'or',
+  'the', 'their', 'they', 'to', 'wants', 'with', 'caller', 'customer', 'about',
+]);
+
+export function createMockProvider(): AiProvider {
+  return {
+    name: 'mock',
+
+    async analyzePayload(payload, options) {
+      const content = collectText(payload);
+      const extractedData = summarizeText(content);
+      reportUsage(options, content, extractedData);
+
+      return {
+        sourceType: detectSourceType(payload),
+        sourcePlatform: 'custom',
+        extractedData: {
+          ...extractedData,
+          phoneNumber: content.match(PHONE_PATTERN)?.[0].trim(),
+        },
+        transcript: typeof payload.transcript === 'string' ? payload.transcript : undefined,
+      };
+    },
+
+    async summarize(content, _context, options) {
+      const extractedData = summarizeText(content);
+      reportUsage(options, content, extractedData);
+      return extractedData;
+    },
+
+    async extractFields(content, fields, options) {
+      const values: Record<string, unknown> = {};
+      for (const field of fields) {
+        values[field.name] = extractField(content, field);
+      }
+      reportUsage(options, content, values);
+      return values;
+    },
+
+    async scoreConversation(turns, rubric, options) {
+      const turnScores = turns.map((turn, index) => ({ index, score: lexiconScore(turn.content) }));
+      const callerScores = turnScores.filter((t) => turns[t.index].role !== 'assistant');
+      const scored = callerScores.length > 0 ? callerScores : turnScores;
+      const sentimentScore = scored.length > 0
+        ? Math.round((scored.reduce((sum, t) => sum + t.score, 0) / scored.length) * 100) / 100
+        : 0;
+
+      const text = turns.map((t) => t.content).join('\n').toLowerCase();
+      const topics = TOPIC_RULES
+        .filter((rule) => rule.keywords.some((k) => text.includes(k)))
+        .map((rule) => rule.topic);
+
+      // Agents lose points for negative turns of their own
+      const agentNegative = turnScores.some((t) => turns[t.index].role === 'assistant' && t.score < 0);
+      const quality = rubric?.map((criterion) => ({
+        criterion: criterion.name,
+        score: agentNegative ? 4 : 8,
+      }));
+
+      const scores = { sentimentScore, turnScores, topics, quality, escalationReasons: [] };
+      reportUsage(options, text, scores);
+      return scores;
+    },
+
+    async evaluateTriggers(content, triggers, options) {
+      const words = new Set(tokenize(content));
+      const evaluation: TriggerEvaluation = { matchedTriggerIds: [], reasons: {} };
+
+      for (const trigger of triggers) {
+        const keywords = tokenize(trigger.intentDescription).filter((w) => !STOP_WORDS.has(w));
+        const hits = keywords.filter((w) => words.has(w));
+        const matched = keywords.length > 0 && hits.length >= Math.ceil(keywords.length / 2);
+
+        if (matched) evaluation.matchedTriggerIds.push(trigger.id);
+        evaluation.reasons[trigger.id] = `${hits.length} of ${keywords.length} intent keywords found${
+          hits.length > 0 ? `: ${hits.join(', ')}` : ''
+        }`;
+      }
+
+      reportUsage(options, content, evaluation);
+      return evaluation;
+    },
+  };
+}
+
+// Approximate ~4 characters per token so usage accounting works without a real model
+function reportUsage(options: AiRequestOptions, input: string, output: unknown): void {
+  options.onUsage?.({
+    provider: 'mock',
+    model: 'mock',
+    promptTokens: Math.ceil(input.length / 4),
+    completionTokens: Math.ceil(JSON.stringify(output).length / 4),
+  });
+}
+
+function summarizeText(content: string): ExtractedData {
+  const lower = content.toLowerCase();
+  const rule = INTENT_RULES.find((r) => r.keywords.some((k) => lower.includes(k)));
+  const firstSentence = content.trim().split(/(?<=[.!?])\s+/)[0] ?? '';
+
+  return {
+    callerName: content.match(NAME_PATTERN)?.[1],
+    email: content.match(EMAIL_PATTERN)?.[0],
+    primaryIntent: rule?.intent ?? 'general_inquiry',
+    outcome: rule?.outcome ?? 'info_provided',
+    summary: firstSentence ? firstSentence.substring(0, MAX_SUMMARY_LENGTH) : undefined,
+  };
+}
+
+/**
+ * Look for "label: value" or "label is value" using the field name. Enum
+ * options and ISO dates also match anywhere in the content.
+ */
+function extractField(content: string, field: ExtractionSchemaField): unknown {
+  const label = field.name.replace(/_/g, '[ _]');
+  const labelled = content.match(new RegExp(`\\b${label}\\s*(?::|=|\\bis\\b)\\s*([^\\n,.;]+)`, 'i'))?.[1]?.trim();
+  const lower = content.toLowerCase();
+
+  switch (field.type) {
+    case 'enum':
+      return (field.options ?? []).find((o) => (labelled ?? lower).toLowerCase().includes(o.toLowerCase())) ?? null;
+    case 'boolean':
+      if (!labelled) return null;
+      return /^(yes|true|y)\b/i.test(labelled) ? true : /^(no|false|n)\b/i.test(labelled) ? false : null;
+    case 'number': {
+      const match = (labelled ?? '').replace(/,/g, '').match(NUMBER_PATTERN);
+      return match ? Number(match[0]) : null;
+    }
+    case 'date':
+      return (labelled ?? content).match(DATE_PATTERN)?.[1] ?? null;
+    default:
+      return labelled ?? null;
+  }
+}
+
+function detectSourceType(payload: Record<string, unknown>): PayloadAnalysis['sourceType'] {
+  const keys = Object.keys(payload).map((k) => k.toLowerCase());
+  if (keys.some((k) => k === 'messages' || k === 'conversation' || k === 'chat')) return 'chatbot';
+  if (keys.some((k) => k === 'transcript' || k === 'recording_url' || k === 'call_id' || k === 'duration')) return 'phone';
+  if (keys.some((k) => k === 'body' || k === 'sms' || k === 'text')) return 'sms';
+  return 'web_form';
+}
+
+function collectText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(collectText).filter(Boolean).join('\n');
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, v]) => {
+        const text = collectText(v);
+        return text && typeof v !== 'object' ? `${key}: ${text}` : text;
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+// (positive - negative) / matched words, so the score stays within -1..1
+function lexiconScore(text: string): number {
+  const words = tokenize(text);
+  const positive = words.filter((w) => POSITIVE_WORDS.has(w)).length;
+  const negative = words.filter((w) => NEGATIVE_WORDS.has(w)).length;
+  const total = positive + negative;
+  return total === 0 ? 0 : Math.round(((positive - negative) / total) * 100) / 100;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
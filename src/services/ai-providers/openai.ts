@@ -0,0 +1,254 @@
+/**
+ * OpenAI Provider - Chat completions against OpenAI or any
+ * OpenAI-compatible endpoint (vLLM, Ollama, LiteLLM, etc.)
+ */
+
+import OpenAI from 'openai';
+import { buildExtractionJsonSchema } from '@/lib/extraction-schema';
+import type { ExtractedData, PayloadAnalysis } from '@/services/ai-processor';
+import type { AiProvider, AiRequestOptions, ConversationScores, TriggerEvaluation } from './types';
+
+export interface OpenAiProviderConfig {
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel: string;
+}
+
+export function createOpenAiProvider(config: OpenAiProviderConfig): AiProvider {
+  // Created on first use so importing the pipeline never requires an API key
+  let client: OpenAI | null = null;
+  const getClient = () => {
+    client ??= new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+    return client;
+  };
+
+  async function complete(
+    params: Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'model'>,
+    options: AiRequestOptions
+  ): Promise<string | null> {
+    const model = options.model || config.defaultModel;
+    const response = await getClient().chat.completions.create({ ...params, model });
+
+    options.onUsage?.({
+      provider: 'openai',
+      model: response.model || model,
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    });
+
+    return response.choices[0]?.message?.content || null;
+  }
+
+  async function completeJson<T>(
+    params: Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'model'>,
+    options: AiRequestOptions
+  ): Promise<T> {
+    const content = await complete(params, options);
+    if (!content) {
+      throw new Error('No response from AI');
+    }
+    return JSON.parse(content) as T;
+  }
+
+  return {
+    name: 'openai',
+
+    async analyzePayload(payload, options) {
+      const payloadString = JSON.stringify(payload, null, 2);
+
+      const systemPrompt = `You are an AI assistant that analyzes webhook payloads from various communication sources (VAPI, Autocalls.ai, Twilio, web forms, chatbots). Your job is to:
+
+1. Identify the source type and platform
+2. Extract standardized fields from the payload
+3. Detect the primary intent and outcome
+4. Generate a concise summary
+
+Common payload structures:
+- VAPI: Contains "message.type": "end-of-call-report", with call details, transcript in "artifact", and analysis
+- Autocalls.ai: Contains "call_id", "phone_number", "transcript", "call_outcome"
+- Twilio: Contains "From", "To", "Body" for SMS, or call details
+- Web forms: Usually key-value pairs with form fields
+- Chatbots: Contains conversation history or messages array
+
+Return a JSON object with this structure:
+{
+  "sourceType": "phone" | "sms" | "web_form" | "chatbot",
+  "sourcePlatform": "vapi" | "autocalls" | "twilio" | "custom" | etc,
+  "extractedData": {
+    "callerName": "name if detected",
+    "phoneNumber": "phone in E.164 format if found",
+    "email": "email if found",
+    "primaryIntent": "main reason for contact",
+    "outcome": "result of interaction (appointment_set, callback_requested, info_provided, etc)",
+    "summary": "1-2 sentence summary of the interaction",
+    "customFields": { any additional relevant data }
+  },
+  "transcript": "full transcript text if available",
+  "transcriptFormatted": [{ "role": "assistant" | "user", "content": "..." }] if available,
+  "recordingUrl": "URL if available",
+  "callStatus": "completed" | "no_answer" | "failed" | "busy" | "canceled" if applicable,
+  "durationSeconds": number if available
+}${formatHintsPrompt(options.extractionHints)}`;
+
+      return completeJson<PayloadAnalysis>({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Analyze this webhook payload:\n\n${payloadString}` },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.3,
+        max_tokens: 2000,
+      }, options);
+    },
+
+    async summarize(content, context, options) {
+      const systemPrompt = `You are an AI assistant that analyzes a ${context.sourceType.replace('_', ' ')} interaction from ${context.sourcePlatform}. Transcript, recording and call details have already been extracted. Your job is to:
+
+1. Detect the primary intent and outcome
+2. Generate a concise summary
+3. Extract the caller's name, email and any other relevant details
+
+Return a JSON object with this structure:
+{
+  "callerName": "name if detected",
+  "email": "email if found",
+  "primaryIntent": "main reason for contact",
+  "outcome": "result of interaction (appointment_set, callback_requested, info_provided, etc)",
+  "summary": "1-2 sentence summary of the interaction",
+  "customFields": { any additional relevant data }
+}${formatHintsPrompt(options.extractionHints)}`;
+
+      return completeJson<ExtractedData>({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Analyze this interaction:\n\n${content.substring(0, 20000)}` },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.3,
+        max_tokens: 1000,
+      }, options);
+    },
+
+    async extractFields(content, fields, options) {
+      const fieldList = fields
+        .map((f) => `- ${f.name} (${f.type}${f.required ? ', required' : ''}): ${f.description}`)
+        .join('\n');
+
+      const systemPrompt = `You extract structured data from customer interactions. Fill in each field from the content only; do not guess values that are not stated or clearly implied.
+
+Fields:
+${fieldList}${formatHintsPrompt(options.extractionHints)}`;
+
+      return completeJson<Record<string, unknown>>({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: content.substring(0, 20000) },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'extracted_fields',
+            strict: true,
+            schema: buildExtractionJsonSchema(fields),
+          },
+        },
+        temperature: 0,
+        max_tokens: 1000,
+      }, options);
+    },
+
+    async scoreConversation(turns, rubric, options) {
+      const transcript = turns
+        .map((turn, index) => `[${index}] ${turn.role}: ${turn.content}`)
+        .join('\n')
+        .substring(0, 20000);
+
+      const rubricPrompt = rubric && rubric.length > 0
+        ? `\n\nScore the assistant (the agent, not the caller) from 0 to 10 on each criterion:\n${rubric
+          .map((c) => `- ${c.name}: ${c.description}`)
+          .join('\n')}`
+        : '';
+
+      const systemPrompt = `You analyze customer conversations for a call center. Turns are numbered; "user" is the customer and "assistant" is the agent or bot.
+
+1. Rate the customer's overall sentiment from -1 (very negative) to 1 (very positive)
+2. Rate the sentiment of each turn from -1 to 1
+3. List up to 5 short topic tags (1-3 lowercase words each, e.g. "billing", "appointment")
+4. List any escalation or complaint signals, such as asking for a manager, threatening to cancel or take legal action, or strong frustration${rubricPrompt}
+
+Return a JSON object with this structure:
+{
+  "sentimentScore": number,
+  "turnScores": [{ "index": number, "score": number }],
+  "topics": ["..."],
+  "quality": [{ "criterion": "criterion name", "score": number, "notes": "one short sentence" }],
+  "escalationReasons": ["short description of each signal"]
+}`;
+
+      return completeJson<ConversationScores>({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: transcript },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+        max_tokens: 1500,
+      }, options);
+    },
+
+    async evaluateTriggers(content, triggers, options) {
+      const triggerDescriptions = triggers.map((t, i) =>
+        `${i + 1}. ID: ${t.id} - Intent: "${t.intentDescription}"`
+      ).join('\n');
+
+      const systemPrompt = `You are an AI assistant that evaluates whether a conversation matches specific intent triggers.
+
+Given a conversation transcript or summary, determine which triggers (if any) should fire. A trigger fires if the caller's intent clearly matches the trigger's intent description.
+
+Be conservative - only return triggers where there's a clear match. Multiple triggers can match if appropriate.
+
+Return a JSON object with this structure:
+{
+  "matchedTriggerIds": ["id1", "id2"],
+  "reasons": {
+    "id1": "One sentence on why the caller's intent matches",
+    "id3": "One sentence on why it does not match"
+  }
+}
+
+Include a reason for every trigger. If no triggers match, return an empty "matchedTriggerIds" array.`;
+
+      const response = await complete({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          {
+            role: 'user',
+            content: `Conversation content:\n${content}\n\nAvailable triggers:\n${triggerDescriptions}\n\nWhich triggers should fire?`,
+          },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+        max_tokens: 300 + triggers.length * 60,
+      }, options);
+
+      if (!response) {
+        return { matchedTriggerIds: [], reasons: {} };
+      }
+
+      const result = JSON.parse(response) as Partial<TriggerEvaluation>;
+      return {
+        matchedTriggerIds: result.matchedTriggerIds || [],
+        reasons: result.reasons || {},
+      };
+    },
+  };
+}
+
+function formatHintsPrompt(extractionHints?: Record<string, string>): string {
+  return extractionHints && Object.keys(extractionHints).length > 0
+    ? `\n\nAdditional extraction hints from campaign configuration:\n${JSON.stringify(extractionHints, null, 2)}`
+    : '';
+}
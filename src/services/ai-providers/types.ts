@@ -0,0 +1,74 @@
+import type { ExtractedData, PayloadAnalysis } from '@/services/ai-processor';
+import type { ExtractionSchemaField, QualityRubricCriterion } from '@/db/schema';
+
+export interface AiUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiRequestOptions {
+  model?: string; // Falls back to the provider's default model
+  extractionHints?: Record<string, string>;
+  onUsage?: (usage: AiUsage) => void; // Called once per completed model request
+}
+
+export interface TriggerDefinition {
+  id: string;
+  intentDescription: string;
+  priority: number;
+}
+
+export interface TriggerEvaluation {
+  matchedTriggerIds: string[];
+  reasons: Record<string, string>; // Per trigger ID: why it did or did not match
+}
+
+export interface ConversationTurn {
+  role: string; // 'assistant' (agent/bot) or 'user' (caller)
+  content: string;
+}
+
+export interface ConversationScores {
+  sentimentScore: number; // -1 to 1 for the conversation as a whole
+  turnScores?: Array<{ index: number; score: number }>; // -1 to 1 per turn
+  topics: string[];
+  quality?: Array<{ criterion: string; score: number; notes?: string }>; // 0-10 per rubric criterion
+  escalationReasons: string[];
+}
+
+export interface AiProvider {
+  readonly name: string;
+
+  /** Full analysis of a payload no deterministic parser recognized */
+  analyzePayload(payload: Record<string, unknown>, options: AiRequestOptions): Promise<PayloadAnalysis>;
+
+  /** Summary, intent, outcome and contact details for already-parsed conversation text */
+  summarize(
+    content: string,
+    context: Pick<PayloadAnalysis, 'sourceType' | 'sourcePlatform'>,
+    options: AiRequestOptions
+  ): Promise<ExtractedData>;
+
+  /** Raw values for a campaign's extraction schema; the caller validates them */
+  extractFields(
+    content: string,
+    fields: ExtractionSchemaField[],
+    options: AiRequestOptions
+  ): Promise<Record<string, unknown>>;
+
+  /** Sentiment, topics, escalation and (when a rubric is given) agent quality */
+  scoreConversation(
+    turns: ConversationTurn[],
+    rubric: QualityRubricCriterion[] | null,
+    options: AiRequestOptions
+  ): Promise<ConversationScores>;
+
+  /** Triggers whose intent the conversation matches, with the reasoning for each trigger */
+  evaluateTriggers(
+    content: string,
+    triggers: TriggerDefinition[],
+    options: AiRequestOptions
+  ): Promise<TriggerEvaluation>;
+}
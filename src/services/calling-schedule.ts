@@ -0,0 +1,55 @@
+/**
+ * Calling Schedule - When the dialer may call each outbound contact
+ *
+ * Loads a campaign's windows and blackout dates into a CallingPlan (see
+ * lib/calling-windows) and resolves each contact's timezone and state.
+ * Contacts that can't be called yet get the next eligible time stored in
+ * nextAttemptAt, so the dialer doesn't pick them up again until then.
+ */
+
+import { db } from '@/db';
+import { outboundSchedules } from '@/db/schema';
+import type { OutboundCampaign, OutboundContact } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { CallingPlan, ContactLocation, nextCallableTime } from '@/lib/calling-windows';
+import { detectStateFromAreaCode } from '@/services/contact-upload-service';
+
+// Used for contacts without a detected timezone when a campaign's schedules don't name one
+export const DEFAULT_CALLING_TIMEZONE = 'America/New_York';
+
+// When no window opens within the search horizon, look again after this long
+const NO_WINDOW_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+export async function loadCallingPlan(
+  campaign: Pick<OutboundCampaign, 'id' | 'blackoutDates'>
+): Promise<CallingPlan> {
+  const schedules = await db
+    .select()
+    .from(outboundSchedules)
+    .where(and(eq(outboundSchedules.campaignId, campaign.id), eq(outboundSchedules.isActive, true)));
+
+  return {
+    windows: schedules.map((s) => ({ dayOfWeek: s.dayOfWeek, startTime: s.startTime, endTime: s.endTime })),
+    blackoutDates: campaign.blackoutDates ?? [],
+    defaultTimezone: schedules[0]?.timezone ?? DEFAULT_CALLING_TIMEZONE,
+  };
+}
+
+/**
+ * Where a contact is, for local time and state law. Contacts uploaded before
+ * states were recorded fall back to their area code.
+ */
+export function contactLocation(contact: Pick<OutboundContact, 'timezone' | 'state' | 'areaCode'>): ContactLocation {
+  return {
+    timezone: contact.timezone,
+    state: contact.state ?? (contact.areaCode ? detectStateFromAreaCode(contact.areaCode) : null),
+  };
+}
+
+/**
+ * The time to store in nextAttemptAt for a contact that may not be called
+ * before `earliest`: the first open window from then on
+ */
+export function nextAttemptTime(plan: CallingPlan, location: ContactLocation, earliest: Date): Date {
+  return nextCallableTime(earliest, plan, location) ?? new Date(earliest.getTime() + NO_WINDOW_RECHECK_MS);
+}
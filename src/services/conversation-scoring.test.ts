@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  scoreConversation,
+  computeQualityScore,
+  detectEscalationLanguage,
+  mergeTopicTags,
+  normalizeTopics,
+  sentimentFromScore,
+  DEFAULT_QUALITY_RUBRIC,
+} from './conversation-scoring';
+import { createMockProvider, setAiProvider, AiProvider, AiUsage } from '@/services/ai-providers';
+
+describe('Conversation Scoring', () => {
+  describe('Helpers', () => {
+    it('should bucket sentiment scores', () => {
+      expect(sentimentFromScore(0.6)).toBe('positive');
+      expect(sentimentFromScore(0.1)).toBe('neutral');
+      expect(sentimentFromScore(-0.25)).toBe('negative');
+    });
+
+    it('should weight criterion scores into a 0-100 score', () => {
+      const rubric = [
+        { name: 'greeting', description: '', weight: 1 },
+        { name: 'resolution', description: '', weight: 3 },
+      ];
+
+      expect(computeQualityScore(rubric, [
+        { criterion: 'greeting', score: 10 },
+        { criterion: 'resolution', score: 6 },
+      ])).toBe(70);
+    });
+
+    it('should leave unscored criteria out of the quality score', () => {
+      const rubric = [
+        { name: 'greeting', description: '', weight: 1 },
+        { name: 'resolution', description: '', weight: 3 },
+      ];
+
+      expect(computeQualityScore(rubric, [{ criterion: 'greeting', score: 8 }])).toBe(80);
+      expect(computeQualityScore(rubric, [])).toBeNull();
+    });
+
+    it('should detect escalation language', () => {
+      expect(detectEscalationLanguage('I want to speak to a manager right now')).toEqual([
+        'Asked for a manager or supervisor',
+      ]);
+      expect(detectEscalationLanguage('This is unacceptable, I will call my lawyer')).toEqual([
+        'Legal threat',
+        'Strong frustration',
+      ]);
+      expect(detectEscalationLanguage('Thanks, see you Tuesday')).toEqual([]);
+    });
+
+    it('should normalize topics into tags', () => {
+      expect(normalizeTopics(['Billing Issue', 'billing issue', ' Refunds ', 42, ''])).toEqual([
+        'billing-issue',
+        'refunds',
+      ]);
+      expect(normalizeTopics(['a', 'b', 'c', 'd', 'e', 'f'])).toHaveLength(5);
+    });
+
+    it('should merge topic tags without duplicates', () => {
+      expect(mergeTopicTags(['vip', 'billing'], ['billing', 'refunds'])).toEqual(['vip', 'billing', 'refunds']);
+      expect(mergeTopicTags(null, ['refunds'])).toEqual(['refunds']);
+    });
+  });
+
+  describe('Scoring with Mock Provider', () => {
+    beforeEach(() => {
+      setAiProvider(createMockProvider());
+    });
+
+    afterEach(() => {
+      setAiProvider(null);
+    });
+
+    it('should score sentiment per call and per turn', async () => {
+      const result = await scoreConversation(
+        {
+          transcriptFormatted: [
+            { role: 'assistant', content: 'Hello, thanks for calling Acme.' },
+            { role: 'user', content: 'Great, I would love to book a cleaning. Thank you!' },
+          ],
+        },
+        {}
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.sentiment).toBe('positive');
+      expect(result!.analysis.turnSentiments?.map((t) => t.role)).toEqual(['assistant', 'user']);
+      expect(result!.flagged).toBe(false);
+    });
+
+    it('should score agent quality against the default rubric', async () => {
+      const result = await scoreConversation(
+        {
+          transcriptFormatted: [
+            { role: 'assistant', content: 'Hi, how can I help?' },
+            { role: 'user', content: 'I need a quote' },
+          ],
+        },
+        { qualityRubric: [] }
+      );
+
+      expect(result!.analysis.quality?.map((q) => q.criterion)).toEqual(
+        DEFAULT_QUALITY_RUBRIC.map((c) => c.name)
+      );
+      expect(result!.qualityScore).toBe(80);
+    });
+
+    it('should not score quality without agent turns', async () => {
+      const result = await scoreConversation({ transcript: 'Please call me back about my order' }, {});
+
+      expect(result!.qualityScore).toBeNull();
+      expect(result!.analysis.quality).toBeUndefined();
+    });
+
+    it('should flag escalation found in the caller turns', async () => {
+      const result = await scoreConversation(
+        {
+          transcriptFormatted: [
+            { role: 'ai', content: 'How can I help?' },
+            { role: 'user', content: 'I want to speak to a supervisor about my bill.' },
+          ],
+        },
+        {}
+      );
+
+      expect(result!.flagged).toBe(true);
+      expect(result!.analysis.escalation.reasons).toContain('Asked for a manager or supervisor');
+    });
+
+    it('should report usage for the scoring request', async () => {
+      const usage: AiUsage[] = [];
+      await scoreConversation({ summary: 'Caller asked about pricing' }, {}, { onUsage: (u) => usage.push(u) });
+
+      expect(usage).toHaveLength(1);
+    });
+
+    it('should return null with nothing to score', async () => {
+      expect(await scoreConversation({ transcript: '  ' }, {})).toBeNull();
+    });
+
+    it('should return null when the provider fails', async () => {
+      setAiProvider({
+        ...createMockProvider(),
+        scoreConversation: async () => {
+          throw new Error('boom');
+        },
+      } as AiProvider);
+
+      expect(await scoreConversation({ transcript: 'Hello' }, {})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Conversation Scoring - Sentiment, topics, agent quality and escalation
+ *
+ * Runs after payload analysis. Escalation language is also matched with fixed
+ * patterns so a complaint is flagged even when the model misses it. Scoring
+ * failures are logged and return null; they never fail ingest.
+ */
+
+import { getAiProvider, AiRequestOptions, ConversationTurn } from '@/services/ai-providers';
+import type { ConversationAnalysis, QualityRubricCriterion, Sentiment } from '@/db/schema';
+
+const MAX_TURNS = 200;
+const MAX_TOPICS = 5;
+const SENTIMENT_THRESHOLD = 0.25;
+const AGENT_ROLES = new Set(['assistant', 'ai', 'agent', 'bot']);
+
+export const DEFAULT_QUALITY_RUBRIC: QualityRubricCriterion[] = [
+  { name: 'greeting', description: 'Opened politely and identified the business', weight: 1 },
+  { name: 'understanding', description: "Understood the caller's need without making them repeat themselves", weight: 2 },
+  { name: 'resolution', description: 'Resolved the request or set a clear next step', weight: 3 },
+  { name: 'professionalism', description: 'Stayed courteous, accurate and on-topic', weight: 2 },
+];
+
+const ESCALATION_PATTERNS: Array<{ reason: string; pattern: RegExp }> = [
+  { reason: 'Asked for a manager or supervisor', pattern: /\b(speak|talk) (to|with) (a|your|the) (manager|supervisor)\b/i },
+  { reason: 'Complaint', pattern: /\b(file|make|lodge) a complaint\b|\bi want to complain\b/i },
+  { reason: 'Legal threat', pattern: /\b(lawyer|attorney|sue you|legal action)\b/i },
+  { reason: 'Threatened to cancel', pattern: /\bcancel (my|the) (account|service|subscription|contract)\b/i },
+  { reason: 'Regulatory threat', pattern: /\b(better business bureau|bbb|report you)\b/i },
+  { reason: 'Strong frustration', pattern: /\b(unacceptable|ridiculous|worst service|fed up)\b/i },
+];
+
+export interface ScoringInput {
+  transcript?: string | null;
+  transcriptFormatted?: Array<{ role: string; content: string }> | null;
+  summary?: string | null;
+}
+
+export interface ScoringResult {
+  sentiment: Sentiment;
+  qualityScore: number | null;
+  flagged: boolean;
+  analysis: ConversationAnalysis;
+}
+
+/**
+ * Score a conversation. Agent quality is only scored when the conversation
+ * has agent turns; the campaign rubric is used, or the default rubric if the
+ * campaign has none.
+ */
+export async function scoreConversation(
+  input: ScoringInput,
+  campaign: { qualityRubric?: QualityRubricCriterion[] | null; aiModel?: string | null },
+  options: Pick<AiRequestOptions, 'onUsage'> = {}
+): Promise<ScoringResult | null> {
+  const turns = buildTurns(input);
+  if (!turns.some((t) => t.content.trim())) {
+    return null;
+  }
+
+  const hasAgent = turns.some((t) => t.role === 'assistant');
+  const rubric = hasAgent
+    ? (campaign.qualityRubric && campaign.qualityRubric.length > 0 ? campaign.qualityRubric : DEFAULT_QUALITY_RUBRIC)
+    : null;
+
+  try {
+    const scores = await getAiProvider().scoreConversation(turns, rubric, {
+      model: campaign.aiModel || undefined,
+      onUsage: options.onUsage,
+    });
+
+    const sentimentScore = clamp(Number(scores.sentimentScore) || 0, -1, 1);
+    const callerText = turns.filter((t) => t.role !== 'assistant').map((t) => t.content).join('\n');
+    const escalationReasons = unique([...detectEscalationLanguage(callerText), ...(scores.escalationReasons ?? [])]);
+    const quality = rubric ? normalizeQuality(rubric, scores.quality) : undefined;
+
+    return {
+      sentiment: sentimentFromScore(sentimentScore),
+      qualityScore: rubric && quality ? computeQualityScore(rubric, quality) : null,
+      flagged: escalationReasons.length > 0,
+      analysis: {
+        sentimentScore,
+        turnSentiments: scores.turnScores
+          ?.filter((t) => turns[t.index])
+          .map((t) => {
+            const score = clamp(Number(t.score) || 0, -1, 1);
+            return { index: t.index, role: turns[t.index].role, sentiment: sentimentFromScore(score), score };
+          }),
+        topics: normalizeTopics(scores.topics ?? []),
+        quality,
+        escalation: { detected: escalationReasons.length > 0, reasons: escalationReasons },
+        analyzedAt: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error('Conversation scoring failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Add topic tags to an interaction's existing tags without duplicates
+ */
+export function mergeTopicTags(existing: string[] | null | undefined, topics: string[]): string[] {
+  return unique([...(existing ?? []), ...topics]);
+}
+
+export function sentimentFromScore(score: number): Sentiment {
+  if (score >= SENTIMENT_THRESHOLD) return 'positive';
+  if (score <= -SENTIMENT_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Weighted average of criterion scores (0-10) as a 0-100 score. Criteria the
+ * model did not score are left out of the average.
+ */
+export function computeQualityScore(
+  rubric: QualityRubricCriterion[],
+  quality: Array<{ criterion: string; score: number }>
+): number | null {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const criterion of rubric) {
+    const result = quality.find((q) => q.criterion === criterion.name);
+    if (!result) continue;
+    weighted += result.score * criterion.weight;
+    totalWeight += criterion.weight;
+  }
+
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 10) : null;
+}
+
+/**
+ * Escalation and complaint phrases found in the caller's side of the conversation
+ */
+export function detectEscalationLanguage(text: string): string[] {
+  return ESCALATION_PATTERNS.filter((p) => p.pattern.test(text)).map((p) => p.reason);
+}
+
+export function normalizeTopics(topics: unknown[]): string[] {
+  const normalized = topics
+    .filter((t): t is string => typeof t === 'string')
+    .map((t) => t.trim().toLowerCase().replace(/\s+/g, '-').substring(0, 30))
+    .filter(Boolean);
+  return unique(normalized).slice(0, MAX_TOPICS);
+}
+
+function buildTurns(input: ScoringInput): ConversationTurn[] {
+  if (input.transcriptFormatted && input.transcriptFormatted.length > 0) {
+    // Turn indexes must line up with transcriptFormatted, so empty turns are kept
+    return input.transcriptFormatted
+      .slice(0, MAX_TURNS)
+      .map((t) => ({ role: AGENT_ROLES.has(t.role) ? 'assistant' : 'user', content: t.content ?? '' }));
+  }
+
+  // Without speaker turns the whole text is treated as the caller's
+  const content = input.transcript?.trim() || input.summary?.trim();
+  return content ? [{ role: 'user', content }] : [];
+}
+
+// Keep only rubric criteria, with scores clamped to 0-10
+function normalizeQuality(
+  rubric: QualityRubricCriterion[],
+  quality: Array<{ criterion: string; score: number; notes?: string }> | undefined
+): ConversationAnalysis['quality'] {
+  const names = new Set(rubric.map((c) => c.name));
+  return (quality ?? [])
+    .filter((q) => names.has(q.criterion))
+    .map((q) => ({ criterion: q.criterion, score: clamp(Number(q.score) || 0, 0, 10), notes: q.notes }));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,213 @@
+/**
+ * Credential Vault - Organizations' own voice provider and Twilio accounts
+ *
+ * Secrets are sealed before they are stored (see lib/credential-crypto) and
+ * opened only on the server, when a call or SMS needs them; after saving, the
+ * API hands out a hint of the secret, never the secret. Organizations that
+ * haven't connected an account use the platform's from the environment.
+ */
+
+import { db } from '@/db';
+import { campaigns, organizationCredentials, outboundCampaigns } from '@/db/schema';
+import type { CredentialProvider, VoiceProviderName } from '@/db/schema';
+import { and, eq, isNotNull, ne, not, like } from 'drizzle-orm';
+import {
+  getKeyring,
+  isSealed,
+  openSecret,
+  revealSecret,
+  rewrapSecret,
+  sealSecret,
+  sealedPrefix,
+  secretHint,
+} from '@/lib/credential-crypto';
+
+export interface TwilioCredentials {
+  accountSid: string;
+  authToken: string;
+}
+
+// Everything but the sealed secret, which never leaves the server
+export const credentialColumns = {
+  id: organizationCredentials.id,
+  organizationId: organizationCredentials.organizationId,
+  provider: organizationCredentials.provider,
+  accountId: organizationCredentials.accountId,
+  hint: organizationCredentials.hint,
+  createdBy: organizationCredentials.createdBy,
+  createdAt: organizationCredentials.createdAt,
+  updatedAt: organizationCredentials.updatedAt,
+};
+
+/**
+ * Store an organization's credential for a provider, replacing any it had
+ */
+export async function saveCredential(params: {
+  organizationId: string;
+  provider: CredentialProvider;
+  secret: string;
+  accountId?: string | null;
+  createdBy?: string | null;
+}) {
+  const secret = sealSecret(params.secret);
+  const keyId = getKeyring().currentKeyId;
+  const hint = secretHint(params.secret);
+  const now = new Date();
+
+  const [credential] = await db
+    .insert(organizationCredentials)
+    .values({
+      organizationId: params.organizationId,
+      provider: params.provider,
+      accountId: params.accountId ?? null,
+      secret,
+      keyId,
+      hint,
+      createdBy: params.createdBy ?? null,
+    })
+    .onConflictDoUpdate({
+      target: [organizationCredentials.organizationId, organizationCredentials.provider],
+      set: {
+        accountId: params.accountId ?? null,
+        secret,
+        keyId,
+        hint,
+        createdBy: params.createdBy ?? null,
+        updatedAt: now,
+      },
+    })
+    .returning(credentialColumns);
+
+  return credential;
+}
+
+async function openCredential(organizationId: string, provider: CredentialProvider) {
+  const [credential] = await db
+    .select({ accountId: organizationCredentials.accountId, secret: organizationCredentials.secret })
+    .from(organizationCredentials)
+    .where(and(
+      eq(organizationCredentials.organizationId, organizationId),
+      eq(organizationCredentials.provider, provider)
+    ))
+    .limit(1);
+
+  return credential ? { accountId: credential.accountId, secret: openSecret(credential.secret) } : null;
+}
+
+// Platform keys used for organizations that haven't connected their own account
+const VOICE_API_KEY_ENV: Record<Exclude<VoiceProviderName, 'fake'>, string> = {
+  vapi: 'VAPI_PRIVATE_KEY',
+  retell: 'RETELL_API_KEY',
+  bland: 'BLAND_API_KEY',
+  autocalls: 'AUTOCALLS_API_KEY',
+};
+
+/**
+ * The API key to place an organization's calls through a voice provider with.
+ * The fake provider needs none.
+ */
+export async function getVoiceApiKey(organizationId: string, provider: VoiceProviderName): Promise<string | null> {
+  if (provider === 'fake') return null;
+
+  const credential = await openCredential(organizationId, provider);
+  return credential?.secret ?? process.env[VOICE_API_KEY_ENV[provider]] ?? null;
+}
+
+/**
+ * The Twilio account to send an organization's SMS from
+ */
+export async function getTwilioCredentials(organizationId: string): Promise<TwilioCredentials | null> {
+  const credential = await openCredential(organizationId, 'twilio');
+  if (credential?.accountId) {
+    return { accountSid: credential.accountId, authToken: credential.secret };
+  }
+
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  return accountSid && authToken ? { accountSid, authToken } : null;
+}
+
+/**
+ * Twilio account for a campaign: its own override, else its organization's
+ */
+export async function getCampaignTwilioCredentials(campaign: {
+  organizationId: string;
+  twilioOverride: boolean;
+  twilioAccountSid: string | null;
+  twilioAuthToken: string | null;
+}): Promise<TwilioCredentials | null> {
+  const overrideToken = campaign.twilioOverride ? revealSecret(campaign.twilioAuthToken) : null;
+  if (campaign.twilioAccountSid && overrideToken) {
+    return { accountSid: campaign.twilioAccountSid, authToken: overrideToken };
+  }
+  return getTwilioCredentials(campaign.organizationId);
+}
+
+/**
+ * Auth token of a connected Twilio account, by Account SID
+ */
+export async function findTwilioAuthToken(accountSid: string): Promise<string | null> {
+  const [credential] = await db
+    .select({ secret: organizationCredentials.secret })
+    .from(organizationCredentials)
+    .where(and(
+      eq(organizationCredentials.provider, 'twilio'),
+      eq(organizationCredentials.accountId, accountSid)
+    ))
+    .limit(1);
+
+  return credential ? openSecret(credential.secret) : null;
+}
+
+/**
+ * Re-wrap every stored secret under the current master key, sealing campaign
+ * Twilio tokens saved before encryption along the way. Run after putting a
+ * new key first in CREDENTIAL_ENCRYPTION_KEYS; the old key can be removed
+ * once this has finished.
+ */
+export async function rotateCredentialKeys(): Promise<{ credentials: number; campaignTokens: number }> {
+  const { currentKeyId } = getKeyring();
+
+  const stale = await db
+    .select({ id: organizationCredentials.id, secret: organizationCredentials.secret })
+    .from(organizationCredentials)
+    .where(ne(organizationCredentials.keyId, currentKeyId));
+
+  for (const credential of stale) {
+    await db
+      .update(organizationCredentials)
+      .set({ secret: rewrapSecret(credential.secret), keyId: currentKeyId, updatedAt: new Date() })
+      .where(eq(organizationCredentials.id, credential.id));
+  }
+
+  // Campaign-level Twilio overrides not yet under the current key
+  const notCurrent = (column: typeof campaigns.twilioAuthToken | typeof outboundCampaigns.twilioAuthToken) =>
+    and(isNotNull(column), not(like(column, `${sealedPrefix(currentKeyId)}%`)));
+  const reseal = (value: string) => (isSealed(value) ? rewrapSecret(value) : sealSecret(value));
+
+  const inboundTokens = await db
+    .select({ id: campaigns.id, token: campaigns.twilioAuthToken })
+    .from(campaigns)
+    .where(notCurrent(campaigns.twilioAuthToken));
+
+  for (const campaign of inboundTokens) {
+    await db
+      .update(campaigns)
+      .set({ twilioAuthToken: reseal(campaign.token!) })
+      .where(eq(campaigns.id, campaign.id));
+  }
+
+  const outboundTokens = await db
+    .select({ id: outboundCampaigns.id, token: outboundCampaigns.twilioAuthToken })
+    .from(outboundCampaigns)
+    .where(notCurrent(outboundCampaigns.twilioAuthToken));
+
+  for (const campaign of outboundTokens) {
+    await db
+      .update(outboundCampaigns)
+      .set({ twilioAuthToken: reseal(campaign.token!) })
+      .where(eq(outboundCampaigns.id, campaign.id));
+  }
+
+  return { credentials: stale.length, campaignTokens: inboundTokens.length + outboundTokens.length };
+}
@@ -0,0 +1,158 @@
+/**
+ * Do-Not-Call - Numbers the dialer must never call
+ *
+ * Entries are global (organizationId null, e.g. the federal registry) or
+ * belong to one organization. Contact uploads drop listed numbers, and the
+ * dialer checks again right before each call since numbers can be added
+ * after a contact was uploaded. Calling a listed number costs our clients
+ * a fine, so every check treats a global entry as binding for everyone.
+ */
+
+import { db } from '@/db';
+import { dncImports, dncNumbers, outboundCampaigns, outboundContacts } from '@/db/schema';
+import type { DncImport, DncNumber, DncSource } from '@/db/schema';
+import { and, eq, inArray, isNull, or } from 'drizzle-orm';
+import { parseDncFile } from '@/lib/dnc';
+
+// Numbers per lookup or insert statement
+const BATCH_SIZE = 1000;
+
+function scopeCondition(organizationId: string | null) {
+  return organizationId
+    ? or(isNull(dncNumbers.organizationId), eq(dncNumbers.organizationId, organizationId))
+    : isNull(dncNumbers.organizationId);
+}
+
+export async function addDncNumber(params: {
+  phoneNumber: string;
+  organizationId: string | null;
+  source: DncSource;
+  reason?: string | null;
+  createdBy?: string | null;
+}): Promise<DncNumber | null> {
+  const [entry] = await db
+    .insert(dncNumbers)
+    .values({
+      phoneNumber: params.phoneNumber,
+      organizationId: params.organizationId,
+      source: params.source,
+      reason: params.reason ?? null,
+      createdBy: params.createdBy ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return entry ?? null;
+}
+
+/**
+ * The numbers among `phoneNumbers` an organization may not call
+ */
+export async function findDncNumbers(phoneNumbers: string[], organizationId: string): Promise<Set<string>> {
+  const listed = new Set<string>();
+  const unique = [...new Set(phoneNumbers)];
+
+  for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+    const rows = await db
+      .select({ phoneNumber: dncNumbers.phoneNumber })
+      .from(dncNumbers)
+      .where(and(
+        inArray(dncNumbers.phoneNumber, unique.slice(i, i + BATCH_SIZE)),
+        scopeCondition(organizationId)
+      ));
+    for (const row of rows) listed.add(row.phoneNumber);
+  }
+
+  return listed;
+}
+
+export async function isOnDncList(phoneNumber: string, organizationId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: dncNumbers.id })
+    .from(dncNumbers)
+    .where(and(eq(dncNumbers.phoneNumber, phoneNumber), scopeCondition(organizationId)))
+    .limit(1);
+
+  return !!row;
+}
+
+/**
+ * Record a caller's own request not to be called, and stop any calls to them
+ * still waiting in the organization's outbound campaigns
+ */
+export async function recordDncRequest(params: {
+  phoneNumber: string;
+  organizationId: string;
+  source: Extract<DncSource, 'call' | 'sms_reply'>;
+  reason: string;
+}): Promise<number> {
+  await addDncNumber(params);
+
+  const campaignIds = db
+    .select({ id: outboundCampaigns.id })
+    .from(outboundCampaigns)
+    .where(eq(outboundCampaigns.organizationId, params.organizationId));
+
+  const stopped = await db
+    .update(outboundContacts)
+    .set({ status: 'dnc', nextAttemptAt: null, updatedAt: new Date() })
+    .where(and(
+      eq(outboundContacts.phoneNumber, params.phoneNumber),
+      inArray(outboundContacts.campaignId, campaignIds),
+      inArray(outboundContacts.status, ['pending', 'queued'])
+    ))
+    .returning({ id: outboundContacts.id });
+
+  return stopped.length;
+}
+
+/**
+ * Load a federal or state DNC file. Numbers already on the list in the same
+ * scope are kept as they are and not counted as added.
+ */
+export async function importDncFile(params: {
+  content: string;
+  listName: string;
+  fileName?: string | null;
+  organizationId: string | null;
+  createdBy?: string | null;
+}): Promise<DncImport> {
+  const parsed = parseDncFile(params.content);
+
+  const [dncImport] = await db
+    .insert(dncImports)
+    .values({
+      organizationId: params.organizationId,
+      listName: params.listName,
+      fileName: params.fileName ?? null,
+      totalRows: parsed.totalRows,
+      invalid: parsed.invalid,
+      createdBy: params.createdBy ?? null,
+    })
+    .returning();
+
+  let added = 0;
+  for (let i = 0; i < parsed.phoneNumbers.length; i += BATCH_SIZE) {
+    const inserted = await db
+      .insert(dncNumbers)
+      .values(parsed.phoneNumbers.slice(i, i + BATCH_SIZE).map((phoneNumber) => ({
+        organizationId: params.organizationId,
+        phoneNumber,
+        source: 'import' as const,
+        reason: params.listName,
+        importId: dncImport.id,
+        createdBy: params.createdBy ?? null,
+      })))
+      .onConflictDoNothing()
+      .returning({ id: dncNumbers.id });
+    added += inserted.length;
+  }
+
+  const [updated] = await db
+    .update(dncImports)
+    .set({ added })
+    .where(eq(dncImports.id, dncImport.id))
+    .returning();
+
+  return updated;
+}
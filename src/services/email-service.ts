@@ -3,7 +3,9 @@ import { db } from '@/db';
 import { emailTemplates } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+// Created on first send: the Resend constructor throws without an API key,
+// which would break every module that imports this one in local dev and tests
+let resend: Resend | null = null;
 
 const FROM_EMAIL_RAW = process.env.FROM_EMAIL || process.env.EMAIL_FROM || 'noreply@botmakers.agency';
 const APP_NAME = process.env.NEXT_PUBLIC_APP_NAME || 'BotMakers Portal';
@@ -16,7 +18,7 @@ const FROM_EMAIL = FROM_EMAIL_RAW.includes('<')
   : `${APP_NAME} <${FROM_EMAIL_RAW}>`;
 
 interface SendEmailParams {
-  to: string;
+  to: string | string[];
   subject: string;
   html: string;
 }
@@ -30,6 +32,7 @@ export async function sendEmail(params: SendEmailParams): Promise<{ success: boo
       return { success: true };
     }
 
+    resend ??= new Resend(process.env.RESEND_API_KEY);
     const { error } = await resend.emails.send({
       from: FROM_EMAIL,
       to: params.to,
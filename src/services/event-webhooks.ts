@@ -0,0 +1,279 @@
+/**
+ * Event Webhooks - Push platform events to client systems
+ *
+ * Publishing an event writes one delivery row per active subscription of the
+ * organization that wants it; nothing is sent inline, so publishing never
+ * slows down the ingest pipeline or SMS sending. A cron worker claims due
+ * deliveries, POSTs the signed JSON envelope and retries non-2xx responses
+ * and network errors with exponential backoff until the delivery runs out
+ * of attempts.
+ */
+
+import crypto from 'crypto';
+import { db } from '@/db';
+import { webhookDeliveries, webhookSubscriptions } from '@/db/schema';
+import type { Campaign, EventType, Interaction, WebhookDelivery, WebhookSubscription } from '@/db/schema';
+import { and, asc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { computeSignature, SIGNATURE_HEADER } from '@/lib/webhook-signature';
+import {
+  buildEventEnvelope,
+  getDeliveryRetryDelayMs,
+  EVENT_ID_HEADER,
+  EVENT_TYPE_HEADER,
+} from '@/lib/event-webhooks';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000; // Reclaim deliveries whose worker died
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export interface ProcessDeliveriesResult {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Queue an event for every active subscription of the organization that
+ * includes it. Errors are logged, never thrown: the event's own work has
+ * already happened and must not fail because of a client's webhook.
+ */
+export async function publishEvent(
+  organizationId: string,
+  type: EventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const subscriptions = await db
+      .select({ id: webhookSubscriptions.id })
+      .from(webhookSubscriptions)
+      .where(
+        and(
+          eq(webhookSubscriptions.organizationId, organizationId),
+          eq(webhookSubscriptions.isActive, true),
+          sql`${webhookSubscriptions.events} @> ${JSON.stringify([type])}::jsonb`
+        )
+      );
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const eventId = crypto.randomUUID();
+    const payload = buildEventEnvelope({ id: eventId, type, organizationId, occurredAt: new Date(), data });
+
+    await db.insert(webhookDeliveries).values(
+      subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        eventId,
+        eventType: type,
+        payload,
+      }))
+    );
+  } catch (error) {
+    console.error(`[Event Webhooks] Failed to publish ${type} for organization ${organizationId}:`, error);
+  }
+}
+
+/**
+ * The interaction.created payload, shared by every place interactions are stored
+ */
+export function interactionEventData(
+  interaction: Interaction,
+  campaign: Pick<Campaign, 'id' | 'name'>
+): Record<string, unknown> {
+  return {
+    interactionId: interaction.id,
+    interactionNumber: interaction.interactionNumber,
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    sourceType: interaction.sourceType,
+    sourcePlatform: interaction.sourcePlatform,
+    phoneNumber: interaction.phoneNumber,
+    callStatus: interaction.callStatus,
+    durationSeconds: interaction.durationSeconds,
+    recordingUrl: interaction.recordingUrl,
+    summary: interaction.aiSummary,
+    extractedData: interaction.aiExtractedData,
+    sentiment: interaction.sentiment,
+    qualityScore: interaction.qualityScore,
+    tags: interaction.tags,
+    flagged: interaction.flagged,
+    createdAt: interaction.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Send a test event to one subscription right away and return the logged delivery.
+ * Test deliveries are not retried.
+ */
+export async function sendTestEvent(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const eventId = crypto.randomUUID();
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      subscriptionId: subscription.id,
+      eventId,
+      eventType: 'test',
+      payload: buildEventEnvelope({
+        id: eventId,
+        type: 'test',
+        organizationId: subscription.organizationId,
+        occurredAt: new Date(),
+        data: { message: 'This is a test event. Respond with a 2xx status to acknowledge it.' },
+      }),
+      status: 'delivering',
+      attempts: 1,
+      maxAttempts: 1,
+      lockedAt: new Date(),
+    })
+    .returning();
+
+  return attemptDelivery(delivery, subscription);
+}
+
+/**
+ * Atomically claim due deliveries so overlapping cron invocations never
+ * send the same delivery twice
+ */
+export async function claimDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  const now = new Date();
+  const staleLockCutoff = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+
+  const dueDeliveries = db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(
+      or(
+        and(
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, now)
+        ),
+        and(
+          eq(webhookDeliveries.status, 'delivering'),
+          lt(webhookDeliveries.lockedAt, staleLockCutoff)
+        )
+      )
+    )
+    .orderBy(asc(webhookDeliveries.nextAttemptAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(webhookDeliveries)
+    .set({
+      status: 'delivering',
+      lockedAt: now,
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(webhookDeliveries.id, dueDeliveries))
+    .returning();
+}
+
+/**
+ * Send a batch of due deliveries (called by the cron route)
+ */
+export async function processEventDeliveries(
+  options: { limit?: number } = {}
+): Promise<ProcessDeliveriesResult> {
+  const results: ProcessDeliveriesResult = { claimed: 0, delivered: 0, retried: 0, failed: 0 };
+
+  const deliveries = await claimDeliveries(options.limit ?? 50);
+  results.claimed = deliveries.length;
+  if (deliveries.length === 0) {
+    return results;
+  }
+
+  const subscriptions = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(inArray(webhookSubscriptions.id, [...new Set(deliveries.map((d) => d.subscriptionId))]));
+  const subscriptionsById = new Map(subscriptions.map((s) => [s.id, s]));
+
+  for (const delivery of deliveries) {
+    const subscription = subscriptionsById.get(delivery.subscriptionId);
+
+    // Disabled after the event was queued: give up rather than surprise the client later
+    if (!subscription?.isActive) {
+      await db
+        .update(webhookDeliveries)
+        .set({ status: 'failed', lockedAt: null, lastError: 'Subscription disabled', updatedAt: new Date() })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      results.failed++;
+      continue;
+    }
+
+    const updated = await attemptDelivery(delivery, subscription);
+    if (updated.status === 'delivered') {
+      results.delivered++;
+    } else if (updated.status === 'pending') {
+      results.retried++;
+    } else {
+      results.failed++;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * POST a claimed delivery and record the outcome: delivered, pending for
+ * another attempt, or failed once its attempts are used up
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const startedAt = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: computeSignature(body, subscription.secret),
+        [EVENT_TYPE_HEADER]: delivery.eventType,
+        [EVENT_ID_HEADER]: delivery.eventId,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    if (!response.ok) {
+      error = `Endpoint returned HTTP ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : 'Request failed';
+  }
+
+  const now = new Date();
+  const outcome = error === null
+    ? { status: 'delivered' as const, deliveredAt: now }
+    : delivery.attempts >= delivery.maxAttempts
+      ? { status: 'failed' as const }
+      : { status: 'pending' as const, nextAttemptAt: new Date(now.getTime() + getDeliveryRetryDelayMs(delivery.attempts)) };
+
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set({
+      ...outcome,
+      lockedAt: null,
+      responseStatus,
+      responseBody,
+      durationMs: Date.now() - startedAt,
+      lastError: error,
+      updatedAt: now,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+
+  return updated;
+}
@@ -0,0 +1,114 @@
+/**
+ * Extracted Fields - Query helpers for aiExtractedData.customFields
+ *
+ * Lets interaction lists and exports filter and sort on the custom fields
+ * the AI extracts, and discovers which fields a campaign actually has.
+ */
+
+import { db } from '@/db';
+import { interactions } from '@/db/schema';
+import type { Campaign, ExtractionFieldType } from '@/db/schema';
+import { sql, SQL } from 'drizzle-orm';
+import type {
+  ExtractedFieldFilter,
+  ExtractedFieldSort,
+  ExtractedFieldInfo,
+} from '@/lib/extracted-field-params';
+
+const NUMERIC_PATTERN = '^-?[0-9]+(\\.[0-9]+)?$';
+const DISCOVERY_SAMPLE_SIZE = 500;
+
+function fieldText(field: string): SQL {
+  return sql`(${interactions.aiExtractedData} -> 'customFields' ->> ${field})`;
+}
+
+// Non-numeric values become null instead of failing the cast
+function fieldNumber(field: string): SQL {
+  const text = fieldText(field);
+  return sql`(case when ${text} ~ ${NUMERIC_PATTERN} then ${text}::numeric end)`;
+}
+
+function isNumeric(value: string): boolean {
+  return new RegExp(NUMERIC_PATTERN).test(value);
+}
+
+/**
+ * Build WHERE conditions for extracted-field filters. Range operators compare
+ * numerically for numeric values and as text otherwise, which orders ISO
+ * dates correctly.
+ */
+export function extractedFieldConditions(filters: ExtractedFieldFilter[]): SQL[] {
+  return filters.map(({ field, operator, value }) => {
+    switch (operator) {
+      case 'eq':
+        return sql`lower(${fieldText(field)}) = lower(${value})`;
+      case 'contains':
+        return sql`${fieldText(field)} ilike ${`%${value}%`}`;
+      case 'gte':
+        return isNumeric(value)
+          ? sql`${fieldNumber(field)} >= ${Number(value)}`
+          : sql`${fieldText(field)} >= ${value}`;
+      case 'lte':
+        return isNumeric(value)
+          ? sql`${fieldNumber(field)} <= ${Number(value)}`
+          : sql`${fieldText(field)} <= ${value}`;
+    }
+  });
+}
+
+/**
+ * ORDER BY for an extracted field: numeric values sort numerically, the rest
+ * as text, and interactions without the field last
+ */
+export function extractedFieldOrderBy(sort: ExtractedFieldSort): SQL[] {
+  const direction = sort.direction === 'asc' ? sql`asc` : sql`desc`;
+  return [
+    sql`${fieldNumber(sort.field)} ${direction} nulls last`,
+    sql`${fieldText(sort.field)} ${direction} nulls last`,
+  ];
+}
+
+/**
+ * Fields available for a campaign: its extraction schema first, then any
+ * other keys seen in recent interactions
+ */
+export async function discoverExtractedFields(campaign: Campaign): Promise<ExtractedFieldInfo[]> {
+  const schemaFields: ExtractedFieldInfo[] = (campaign.extractionSchema ?? []).map((field) => ({
+    name: field.name,
+    type: field.type,
+    source: 'schema',
+    options: field.options,
+  }));
+
+  const rows = await db.execute<{ key: string; json_type: string; occurrences: number }>(sql`
+    select f.key, jsonb_typeof(f.value) as json_type, count(*)::int as occurrences
+    from (
+      select ${interactions.aiExtractedData} -> 'customFields' as custom_fields
+      from ${interactions}
+      where ${interactions.campaignId} = ${campaign.id}
+        and jsonb_typeof(${interactions.aiExtractedData} -> 'customFields') = 'object'
+      order by ${interactions.createdAt} desc
+      limit ${DISCOVERY_SAMPLE_SIZE}
+    ) recent, jsonb_each(recent.custom_fields) f
+    where jsonb_typeof(f.value) in ('string', 'number', 'boolean')
+    group by f.key, jsonb_typeof(f.value)
+    order by occurrences desc
+  `);
+
+  const known = new Set(schemaFields.map((f) => f.name));
+  const discovered: ExtractedFieldInfo[] = [];
+
+  for (const row of rows) {
+    if (known.has(row.key)) continue;
+    known.add(row.key);
+    discovered.push({ name: row.key, type: jsonTypeToFieldType(row.json_type), source: 'discovered' });
+  }
+
+  return [...schemaFields, ...discovered];
+}
+
+function jsonTypeToFieldType(jsonType: string): ExtractionFieldType {
+  if (jsonType === 'number') return 'number';
+  if (jsonType === 'boolean') return 'boolean';
+  return 'string';
+}
@@ -0,0 +1,187 @@
+/**
+ * Inbound SMS - Replies received on our Twilio numbers
+ *
+ * Replies are matched to campaigns by the number they were sent to. Keyword
+ * replies (STOP/START/HELP) update the opt-out list and are recorded directly;
+ * any other reply goes through the webhook queue like an inbound SMS webhook,
+ * so it is analyzed and can fire triggers. Replies and STOPs cancel pending
+ * trigger follow-ups.
+ */
+
+import { db } from '@/db';
+import { campaigns, contacts, interactions, organizations, outboundCampaigns, webhookJobs, Campaign } from '@/db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { generateHash } from '@/lib/utils';
+import { enqueueWebhookJob } from '@/services/webhook-queue';
+import { upsertContact } from '@/services/webhook-processor';
+import { cancelScheduledSms } from '@/services/sms-sequences';
+import { publishEvent, interactionEventData } from '@/services/event-webhooks';
+import {
+  parseSmsKeyword,
+  resolveOptOutScope,
+  optOutNumber,
+  optInNumber,
+  keywordReply,
+  SmsKeyword,
+} from '@/services/sms-opt-out';
+
+export interface InboundSms {
+  from: string;
+  to: string;
+  body: string;
+  params: Record<string, string>; // Every field Twilio posted
+}
+
+export interface InboundSmsResult {
+  keyword: SmsKeyword | null;
+  reply: string | null;
+  campaignId: string | null;
+  interactionId?: string;
+  jobId?: string;
+  duplicate?: boolean;
+}
+
+const KEYWORD_TAGS: Record<SmsKeyword, string> = {
+  stop: 'sms-opt-out',
+  start: 'sms-opt-in',
+  help: 'sms-help',
+};
+
+/**
+ * Inbound and outbound campaigns that send from a number
+ */
+export async function findCampaignsForNumber(phoneNumber: string) {
+  const [inbound, outbound] = await Promise.all([
+    db.select().from(campaigns).where(eq(campaigns.twilioPhoneNumber, phoneNumber)),
+    db
+      .select({ id: outboundCampaigns.id, organizationId: outboundCampaigns.organizationId })
+      .from(outboundCampaigns)
+      .where(eq(outboundCampaigns.twilioPhoneNumber, phoneNumber)),
+  ]);
+
+  return { inbound, outbound };
+}
+
+export async function handleInboundSms(
+  sms: InboundSms,
+  senders: Awaited<ReturnType<typeof findCampaignsForNumber>>
+): Promise<InboundSmsResult> {
+  const keyword = parseSmsKeyword(sms.body);
+  const campaign = await pickCampaign(sms.from, senders.inbound);
+  const payloadHash = generateHash(JSON.stringify(sms.params));
+
+  // Any reply ends the follow-up sequences this number sent; HELP and START don't count as one
+  if (!keyword || keyword === 'stop') {
+    await cancelScheduledSms(
+      sms.from,
+      senders.inbound.map((c) => c.id),
+      keyword === 'stop' ? 'opted_out' : 'replied'
+    );
+  }
+
+  if (!keyword) {
+    if (!campaign) {
+      return { keyword, reply: null, campaignId: null };
+    }
+
+    // Twilio retries deliveries it didn't see acknowledged
+    const existingJob = await db.query.webhookJobs.findFirst({
+      where: and(eq(webhookJobs.campaignId, campaign.id), eq(webhookJobs.payloadHash, payloadHash)),
+    });
+    if (existingJob) {
+      return { keyword, reply: null, campaignId: campaign.id, jobId: existingJob.id, duplicate: true };
+    }
+
+    const job = await enqueueWebhookJob({
+      campaignId: campaign.id,
+      rawBody: JSON.stringify(sms.params),
+      payloadHash,
+    });
+    return { keyword, reply: null, campaignId: campaign.id, jobId: job.id };
+  }
+
+  const organizationIds = [...senders.inbound, ...senders.outbound].map((c) => c.organizationId);
+  const scope = resolveOptOutScope(organizationIds);
+
+  if (keyword === 'stop') {
+    await optOutNumber({
+      phoneNumber: sms.from,
+      organizationId: scope,
+      keyword: sms.body.trim().toUpperCase(),
+      source: 'inbound_sms',
+      campaignId: campaign?.id,
+    });
+  } else if (keyword === 'start') {
+    await optInNumber(sms.from, scope);
+  }
+
+  const [organization] = scope
+    ? await db.select().from(organizations).where(eq(organizations.id, scope)).limit(1)
+    : [];
+  const reply = keywordReply(keyword, organization ?? null);
+
+  if (!campaign) {
+    return { keyword, reply, campaignId: null };
+  }
+
+  const existing = await db.query.interactions.findFirst({
+    where: and(eq(interactions.campaignId, campaign.id), eq(interactions.payloadHash, payloadHash)),
+  });
+  if (existing) {
+    return { keyword, reply, campaignId: campaign.id, interactionId: existing.id, duplicate: true };
+  }
+
+  const contactId = await upsertContact(campaign.id, sms.from);
+  const [interaction] = await db
+    .insert(interactions)
+    .values({
+      campaignId: campaign.id,
+      contactId,
+      sourceType: 'sms',
+      sourcePlatform: 'twilio',
+      phoneNumber: sms.from,
+      callStatus: 'completed',
+      transcript: sms.body,
+      transcriptFormatted: [
+        { role: 'user', content: sms.body },
+        { role: 'assistant', content: reply },
+      ],
+      aiSummary: `Replied ${sms.body.trim().toUpperCase()}. ${reply}`,
+      rawPayload: sms.params,
+      payloadHash,
+      tags: [KEYWORD_TAGS[keyword]],
+    })
+    .returning();
+
+  await publishEvent(campaign.organizationId, 'interaction.created', interactionEventData(interaction, campaign));
+
+  return { keyword, reply, campaignId: campaign.id, interactionId: interaction.id };
+}
+
+/**
+ * The campaign a reply belongs to: the one that already knows the sender,
+ * otherwise the newest active campaign on the number
+ */
+async function pickCampaign(from: string, candidates: Campaign[]): Promise<Campaign | null> {
+  if (candidates.length === 0) return null;
+  if (candidates.length === 1) return candidates[0];
+
+  const [known] = await db
+    .select({ campaignId: contacts.campaignId })
+    .from(contacts)
+    .where(and(
+      eq(contacts.phoneNumber, from),
+      inArray(contacts.campaignId, candidates.map((c) => c.id))
+    ))
+    .orderBy(desc(contacts.createdAt))
+    .limit(1);
+
+  if (known) {
+    return candidates.find((c) => c.id === known.campaignId) ?? null;
+  }
+
+  const active = candidates
+    .filter((c) => c.isActive)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  return active[0] ?? null;
+}
@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { dncNumbers, organizations, outboundCampaigns, outboundContacts, outboundSchedules } from '@/db/schema';
+import type { OutboundCampaign, OutboundContact } from '@/db/schema';
+import { availableCallSlots, claimContacts, postCallStatus, settleCall } from './outbound-dialer';
+import { loadCallingPlan } from '@/services/calling-schedule';
+
+vi.mock('@/db', async () => ({ db: await (await import('@/test/db')).createTestDb() }));
+
+// Wednesday noon in New York, inside the campaign's 09:00-17:00 windows
+const NOON = new Date('2024-05-01T16:00:00Z');
+
+async function seedCallingContact(): Promise<{ campaign: OutboundCampaign; contact: OutboundContact }> {
+  const [organization] = await db.insert(organizations).values({ name: 'Acme' }).returning();
+  const [campaign] = await db
+    .insert(outboundCampaigns)
+    .values({
+      organizationId: organization.id,
+      name: 'Spring outreach',
+      status: 'running',
+      vapiAssistantId: 'assistant',
+      vapiPhoneNumberId: 'number',
+      maxRetries: 2,
+      retryDelayHours: 4,
+    })
+    .returning();
+  await db.insert(outboundSchedules).values(
+    [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+      campaignId: campaign.id,
+      dayOfWeek,
+      startTime: '09:00',
+      endTime: '17:00',
+    }))
+  );
+  const [contact] = await db
+    .insert(outboundContacts)
+    .values({
+      campaignId: campaign.id,
+      phoneNumber: '+15551234567',
+      firstName: 'Jane',
+      timezone: 'America/New_York',
+      status: 'calling',
+      attemptCount: 1,
+      lockedAt: NOON,
+      lastAttemptAt: NOON,
+    })
+    .returning();
+  return { campaign, contact };
+}
+
+describe('Outbound Dialer', () => {
+  describe('Call Slots', () => {
+    it('should fill the campaign up to its own limit', () => {
+      expect(availableCallSlots({ campaignLimit: 5, campaignCalls: 2, numberLimit: 10, numberCalls: 2 })).toBe(3);
+    });
+
+    it('should share the phone number limit with other campaigns', () => {
+      expect(availableCallSlots({ campaignLimit: 5, campaignCalls: 0, numberLimit: 10, numberCalls: 8 })).toBe(2);
+    });
+
+    it('should never go negative when over a limit', () => {
+      expect(availableCallSlots({ campaignLimit: 5, campaignCalls: 0, numberLimit: 10, numberCalls: 12 })).toBe(0);
+      expect(availableCallSlots({ campaignLimit: 2, campaignCalls: 3, numberLimit: 10, numberCalls: 3 })).toBe(0);
+    });
+  });
+
+  describe('Post-Call Status', () => {
+    it('should complete answered contacts', () => {
+      expect(postCallStatus('answered', 1, 2)).toBe('completed');
+    });
+
+    it('should queue contacts with attempts left for a retry', () => {
+      expect(postCallStatus('no_answer', 1, 2)).toBe('queued');
+      expect(postCallStatus('busy', 2, 2)).toBe('queued');
+      expect(postCallStatus('failed', 1, 2)).toBe('queued');
+      expect(postCallStatus('canceled', 1, 2)).toBe('queued');
+    });
+
+    it('should complete contacts out of attempts', () => {
+      expect(postCallStatus('voicemail', 3, 2)).toBe('completed');
+    });
+  });
+
+  describe('Settling Calls', () => {
+    let campaign: OutboundCampaign;
+    let contact: OutboundContact;
+
+    beforeEach(async () => {
+      ({ campaign, contact } = await seedCallingContact());
+    });
+
+    const answered = {
+      attemptNumber: 1,
+      callResult: 'answered' as const,
+      durationSeconds: 60,
+      transcript: 'AI: Hello\nCustomer: Hi',
+    };
+
+    it('should settle an attempt only once', async () => {
+      expect(await settleCall(campaign, contact, answered, NOON)).toMatchObject({ status: 'completed' });
+      expect(await settleCall(campaign, contact, answered, NOON)).toBeNull();
+
+      const [stats] = await db
+        .select({ called: outboundCampaigns.contactsCalled, answered: outboundCampaigns.contactsAnswered })
+        .from(outboundCampaigns)
+        .where(eq(outboundCampaigns.id, campaign.id));
+      expect(stats).toEqual({ called: 1, answered: 1 });
+    });
+
+    it('should claim an unanswered contact again once its retry is due', async () => {
+      const settled = await settleCall(campaign, contact, { ...answered, callResult: 'no_answer', transcript: null }, NOON);
+      expect(settled).toMatchObject({ status: 'queued' });
+      const retryAt = settled!.nextAttemptAt!;
+      const plan = await loadCallingPlan(campaign);
+
+      const early = await claimContacts(campaign, plan, new Date(retryAt.getTime() - 60 * 1000));
+      expect(early.contacts).toHaveLength(0);
+
+      const due = await claimContacts(campaign, plan, retryAt);
+      expect(due.contacts).toHaveLength(1);
+      expect(due.contacts[0]).toMatchObject({ id: contact.id, status: 'calling', attemptCount: 2, callResult: 'no_answer' });
+    });
+
+    it('should put a caller who asks not to be called on the DNC list', async () => {
+      const settled = await settleCall(
+        campaign,
+        contact,
+        { ...answered, transcript: "AI: Hello\nCustomer: Please don't call me again." },
+        NOON
+      );
+      expect(settled).toMatchObject({ status: 'dnc', nextAttemptAt: null });
+
+      const entries = await db.select().from(dncNumbers).where(eq(dncNumbers.phoneNumber, contact.phoneNumber));
+      expect(entries).toMatchObject([{ organizationId: campaign.organizationId, source: 'call' }]);
+    });
+
+    it('should ignore a late report for an attempt the contact has moved past', async () => {
+      await db
+        .update(outboundContacts)
+        .set({ attemptCount: 2 })
+        .where(eq(outboundContacts.id, contact.id));
+
+      expect(await settleCall(campaign, contact, answered, NOON)).toBeNull();
+
+      const [current] = await db.select().from(outboundContacts).where(eq(outboundContacts.id, contact.id));
+      expect(current.status).toBe('calling');
+      expect(current.lockedAt).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Outbound Dialer - Claiming contacts to call and settling finished calls
+ *
+ * The dialer cron runs every minute and invocations can overlap. Contacts are
+ * claimed in a transaction holding an advisory lock on the phone number the
+ * campaign dials from, so counting live calls and claiming new ones can't interleave
+ * with another invocation dialing from the same number, and the cap on live
+ * calls holds across every campaign sharing it.
+ *
+ * A claimed contact holds a lease (lockedAt). The end-of-call webhook releases
+ * it; when the webhook never arrives, the reaper asks the campaign's voice
+ * provider what became of the call once the lease runs out.
+ */
+
+import { db } from '@/db';
+import { outboundCampaigns, outboundContacts, outboundCallLogs } from '@/db/schema';
+import type { OutboundCampaign, OutboundContact } from '@/db/schema';
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { CallingPlan, isCallableAt } from '@/lib/calling-windows';
+import { customerText, detectDncRequest } from '@/lib/dnc';
+import { loadCallingPlan, contactLocation, nextAttemptTime } from '@/services/calling-schedule';
+import { recordDncRequest } from '@/services/dnc';
+import { getVoiceApiKey } from '@/services/credential-vault';
+import { getVoiceProvider } from '@/services/voice-providers';
+
+export const CALL_LEASE_MS = 15 * 60 * 1000; // Check on calls that haven't reported back
+const ABANDON_CALL_MS = 2 * 60 * 60 * 1000; // Give up on calls the provider can't tell us about
+const CANDIDATE_LIMIT = 100; // Contacts examined per claim; those outside their window are deferred
+const REAP_BATCH_SIZE = 50;
+
+// Live calls allowed on one phone number, across all campaigns using it
+export const MAX_CALLS_PER_PHONE_NUMBER = Number(process.env.VAPI_MAX_CALLS_PER_PHONE_NUMBER) || 10;
+
+type ContactStatus = OutboundContact['status'];
+type CallResult = NonNullable<OutboundContact['callResult']>;
+
+export interface ClaimContactsResult {
+  contacts: OutboundContact[];
+  deferred: number;
+}
+
+export interface ReapStaleCallsResult {
+  checked: number;
+  settled: number;
+  stillActive: number;
+  errors: string[];
+}
+
+export interface SettledCall {
+  status: ContactStatus;
+  nextAttemptAt: Date | null;
+  dncRequest: string | null;
+}
+
+/**
+ * Where providers that take a callback per call report a campaign's calls,
+ * when the app has a public URL
+ */
+export function outboundWebhookUrl(webhookUuid: string): string | undefined {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return appUrl ? `${appUrl.replace(/\/$/, '')}/api/outbound-webhook/${webhookUuid}` : undefined;
+}
+
+/**
+ * Calls that may start now, under both the campaign's and the phone number's limit
+ */
+export function availableCallSlots(params: {
+  campaignLimit: number;
+  campaignCalls: number;
+  numberLimit: number;
+  numberCalls: number;
+}): number {
+  return Math.max(0, Math.min(
+    params.campaignLimit - params.campaignCalls,
+    params.numberLimit - params.numberCalls
+  ));
+}
+
+/**
+ * A contact's status after a call. Answered contacts and contacts out of
+ * attempts are done; the rest are queued for a retry at nextAttemptAt, with
+ * this attempt's outcome kept in callResult.
+ */
+export function postCallStatus(callResult: CallResult, attemptCount: number, maxRetries: number): ContactStatus {
+  if (callResult === 'answered' || attemptCount >= maxRetries + 1) return 'completed';
+  return 'queued';
+}
+
+/**
+ * Claim up to the available slots of a campaign's due contacts, marking them
+ * `calling` under a fresh lease. Due contacts outside their calling window get
+ * their next window stored instead.
+ */
+export async function claimContacts(
+  campaign: OutboundCampaign,
+  plan: CallingPlan,
+  now = new Date()
+): Promise<ClaimContactsResult> {
+  const phoneNumberId = campaign.vapiPhoneNumberId!;
+  const lockKey = `outbound-dialer:${campaign.voiceProvider}:${phoneNumberId}`;
+
+  return db.transaction(async (tx) => {
+    // Held until commit; serializes claims for every campaign on this number
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${lockKey}::text))`);
+
+    const [active] = await tx
+      .select({
+        campaignCalls: sql<number>`count(*) filter (where ${outboundContacts.campaignId} = ${campaign.id})`.mapWith(Number),
+        numberCalls: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(outboundContacts)
+      .innerJoin(outboundCampaigns, eq(outboundContacts.campaignId, outboundCampaigns.id))
+      .where(and(
+        eq(outboundContacts.status, 'calling'),
+        eq(outboundCampaigns.voiceProvider, campaign.voiceProvider),
+        eq(outboundCampaigns.vapiPhoneNumberId, phoneNumberId)
+      ));
+
+    const slots = availableCallSlots({
+      campaignLimit: campaign.maxConcurrentCalls,
+      campaignCalls: active.campaignCalls,
+      numberLimit: MAX_CALLS_PER_PHONE_NUMBER,
+      numberCalls: active.numberCalls,
+    });
+    if (slots === 0) {
+      return { contacts: [], deferred: 0 };
+    }
+
+    // nextAttemptAt holds both retry delays and closed windows
+    const candidates = await tx
+      .select()
+      .from(outboundContacts)
+      .where(and(
+        eq(outboundContacts.campaignId, campaign.id),
+        inArray(outboundContacts.status, ['pending', 'queued']),
+        or(isNull(outboundContacts.nextAttemptAt), lte(outboundContacts.nextAttemptAt, now)),
+        lt(outboundContacts.attemptCount, campaign.maxRetries + 1)
+      ))
+      .orderBy(asc(outboundContacts.nextAttemptAt), asc(outboundContacts.createdAt))
+      .limit(CANDIDATE_LIMIT)
+      .for('update', { skipLocked: true });
+
+    const callableIds: string[] = [];
+    let deferred = 0;
+    for (const contact of candidates) {
+      if (callableIds.length === slots) break;
+
+      const location = contactLocation(contact);
+      if (isCallableAt(now, plan, location)) {
+        callableIds.push(contact.id);
+        continue;
+      }
+
+      await tx
+        .update(outboundContacts)
+        .set({ nextAttemptAt: nextAttemptTime(plan, location, now), updatedAt: now })
+        .where(eq(outboundContacts.id, contact.id));
+      deferred++;
+    }
+
+    if (callableIds.length === 0) {
+      return { contacts: [], deferred };
+    }
+
+    const contacts = await tx
+      .update(outboundContacts)
+      .set({
+        status: 'calling',
+        lockedAt: now,
+        lastAttemptAt: now,
+        attemptCount: sql`${outboundContacts.attemptCount} + 1`,
+        updatedAt: now,
+      })
+      .where(inArray(outboundContacts.id, callableIds))
+      .returning();
+
+    return { contacts, deferred };
+  });
+}
+
+/**
+ * Move a contact out of `calling` once its call is over: schedule a retry or
+ * finish it, honor a request not to be called again, and count the call in
+ * the campaign's stats. Only the first report of an attempt settles it; a
+ * late or repeated one, or one for an attempt the contact has moved past,
+ * changes nothing and returns null.
+ */
+export async function settleCall(
+  campaign: OutboundCampaign,
+  contact: OutboundContact,
+  call: {
+    attemptNumber: number;
+    callResult: CallResult;
+    durationSeconds: number | null;
+    transcript: string | null;
+    messages?: Array<{ role: string; content: string }> | null;
+  },
+  now = new Date()
+): Promise<SettledCall | null> {
+  const { callResult } = call;
+  let status = postCallStatus(callResult, call.attemptNumber, campaign.maxRetries);
+  let nextAttemptAt: Date | null = null;
+
+  if (status !== 'completed') {
+    nextAttemptAt = nextAttemptTime(
+      await loadCallingPlan(campaign),
+      contactLocation(contact),
+      new Date(now.getTime() + campaign.retryDelayHours * 60 * 60 * 1000)
+    );
+  }
+
+  // A caller who asks not to be called again is never dialed again by this organization.
+  // Recorded before settling, since a report is never retried once the contact
+  // has left `calling`; the DNC insert is idempotent.
+  const dncRequest = detectDncRequest(customerText(call.transcript ?? '', call.messages));
+  if (dncRequest) {
+    status = 'dnc';
+    nextAttemptAt = null;
+    await recordDncRequest({
+      phoneNumber: contact.phoneNumber,
+      organizationId: campaign.organizationId,
+      source: 'call',
+      reason: dncRequest,
+    });
+  }
+
+  const isAnswered = callResult === 'answered';
+  const isFailed = !isAnswered && status === 'completed'; // Out of attempts without an answer
+
+  const settled = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(outboundContacts)
+      .set({
+        status,
+        callResult,
+        callDurationSeconds: call.durationSeconds,
+        nextAttemptAt,
+        lockedAt: null,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(outboundContacts.id, contact.id),
+        eq(outboundContacts.status, 'calling'),
+        eq(outboundContacts.attemptCount, call.attemptNumber)
+      ))
+      .returning({ id: outboundContacts.id });
+
+    if (!row) return false;
+
+    await tx
+      .update(outboundCampaigns)
+      .set({
+        contactsCalled: sql`${outboundCampaigns.contactsCalled} + 1`,
+        contactsAnswered: isAnswered
+          ? sql`${outboundCampaigns.contactsAnswered} + 1`
+          : outboundCampaigns.contactsAnswered,
+        contactsFailed: isFailed
+          ? sql`${outboundCampaigns.contactsFailed} + 1`
+          : outboundCampaigns.contactsFailed,
+        updatedAt: now,
+      })
+      .where(eq(outboundCampaigns.id, campaign.id));
+
+    return true;
+  });
+
+  if (!settled) return null;
+
+  return { status, nextAttemptAt, dncRequest };
+}
+
+/**
+ * Mark a campaign completed once no contact is left to call
+ */
+export async function completeCampaignIfDone(campaignId: string): Promise<boolean> {
+  const [{ remaining }] = await db
+    .select({ remaining: sql<number>`count(*)`.mapWith(Number) })
+    .from(outboundContacts)
+    .where(and(
+      eq(outboundContacts.campaignId, campaignId),
+      sql`${outboundContacts.status} NOT IN ('completed', 'failed', 'dnc', 'skipped')`
+    ));
+
+  if (remaining > 0) return false;
+
+  await db
+    .update(outboundCampaigns)
+    .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+    .where(eq(outboundCampaigns.id, campaignId));
+  return true;
+}
+
+/**
+ * Settle contacts whose lease ran out while still `calling`, usually because
+ * the end-of-call webhook never arrived. Calls the provider reports as live get
+ * a new lease. Settled calls skip the AI analysis and SMS triggers the webhook
+ * would have run.
+ */
+export async function reapStaleCalls(now = new Date()): Promise<ReapStaleCallsResult> {
+  const result: ReapStaleCallsResult = { checked: 0, settled: 0, stillActive: 0, errors: [] };
+  const leaseCutoff = new Date(now.getTime() - CALL_LEASE_MS);
+  const abandonCutoff = new Date(now.getTime() - ABANDON_CALL_MS);
+
+  // Renewing the lease first keeps overlapping runs from settling a call twice
+  const staleContacts = db
+    .select({ id: outboundContacts.id })
+    .from(outboundContacts)
+    .where(and(
+      eq(outboundContacts.status, 'calling'),
+      or(
+        lt(outboundContacts.lockedAt, leaseCutoff),
+        // Claimed before leases existed
+        and(
+          isNull(outboundContacts.lockedAt),
+          or(isNull(outboundContacts.lastAttemptAt), lt(outboundContacts.lastAttemptAt, leaseCutoff))
+        )
+      )
+    ))
+    .limit(REAP_BATCH_SIZE)
+    .for('update', { skipLocked: true });
+
+  const contacts = await db
+    .update(outboundContacts)
+    .set({ lockedAt: now })
+    .where(inArray(outboundContacts.id, staleContacts))
+    .returning();
+
+  const campaigns = new Map<string, OutboundCampaign>();
+  const apiKeys = new Map<string, string | null>();
+
+  for (const contact of contacts) {
+    result.checked++;
+
+    try {
+      let campaign = campaigns.get(contact.campaignId);
+      if (!campaign) {
+        [campaign] = await db
+          .select()
+          .from(outboundCampaigns)
+          .where(eq(outboundCampaigns.id, contact.campaignId))
+          .limit(1);
+        campaigns.set(contact.campaignId, campaign);
+      }
+
+      // The attempt the lease was taken for; settling only applies to it
+      const attemptNumber = contact.attemptCount;
+      const [callLog] = await db
+        .select()
+        .from(outboundCallLogs)
+        .where(and(
+          eq(outboundCallLogs.contactId, contact.id),
+          eq(outboundCallLogs.attemptNumber, attemptNumber)
+        ))
+        .orderBy(desc(outboundCallLogs.createdAt))
+        .limit(1);
+
+      // The dialer stopped before the call was placed or logged
+      if (!callLog?.vapiCallId) {
+        const failed = { attemptNumber, callResult: 'failed' as const, durationSeconds: null, transcript: null };
+        if (await settleCall(campaign, contact, failed, now)) result.settled++;
+        continue;
+      }
+
+      // The webhook logged the call but stopped before updating the contact
+      if (callLog.endedAt) {
+        const settled = await settleCall(campaign, contact, {
+          attemptNumber,
+          callResult: callLog.callResult ?? 'failed',
+          durationSeconds: callLog.durationSeconds,
+          transcript: callLog.transcript,
+          messages: callLog.transcriptFormatted,
+        }, now);
+        if (settled) result.settled++;
+        continue;
+      }
+
+      const provider = getVoiceProvider(campaign.voiceProvider);
+      const keyId = `${campaign.organizationId}:${provider.name}`;
+      if (!apiKeys.has(keyId)) {
+        apiKeys.set(keyId, await getVoiceApiKey(campaign.organizationId, provider.name));
+      }
+      const apiKey = apiKeys.get(keyId);
+
+      let call;
+      try {
+        if (provider.requiresApiKey && !apiKey) throw new Error(`No ${provider.name} API key available`);
+        call = await provider.getCall(apiKey ?? '', callLog.vapiCallId);
+      } catch (fetchError) {
+        if (contact.lastAttemptAt && contact.lastAttemptAt > abandonCutoff) throw fetchError;
+
+        const failed = { attemptNumber, callResult: 'failed' as const, durationSeconds: null, transcript: null };
+        if (await settleCall(campaign, contact, failed, now)) result.settled++;
+        continue;
+      }
+
+      if (!call.ended) {
+        result.stillActive++;
+        continue;
+      }
+
+      const callResult = call.result ?? 'failed';
+
+      await db
+        .update(outboundCallLogs)
+        .set({
+          callResult,
+          durationSeconds: call.durationSeconds,
+          transcript: call.transcript,
+          transcriptFormatted: call.messages,
+          recordingUrl: call.recordingUrl,
+          aiSummary: call.summary,
+          aiExtractedData: call.structuredData,
+          rawPayload: call.raw,
+          endedAt: call.endedAt ?? now,
+        })
+        .where(eq(outboundCallLogs.id, callLog.id));
+
+      const settled = await settleCall(campaign, contact, {
+        attemptNumber,
+        callResult,
+        durationSeconds: call.durationSeconds,
+        transcript: call.transcript,
+        messages: call.messages,
+      }, now);
+      if (settled) result.settled++;
+    } catch (error) {
+      result.errors.push(`Contact ${contact.id}: ${error instanceof Error ? error.message : 'Reconciliation failed'}`);
+    }
+  }
+
+  for (const campaign of campaigns.values()) {
+    if (campaign.status === 'running') {
+      await completeCampaignIfDone(campaign.id);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,98 @@
+import type { PayloadAnalysis } from '@/services/ai-processor';
+import {
+  PayloadParser,
+  ParsedPayload,
+  isRecord,
+  asString,
+  asNumber,
+  formatTranscript,
+} from './types';
+
+/**
+ * Autocalls.ai call webhook: { call_id, phone_number, transcript, call_outcome, ... }
+ */
+export const autocallsParser: PayloadParser = {
+  platform: 'autocalls',
+
+  matches(payload) {
+    return (
+      asString(payload.call_id) !== undefined &&
+      (asString(payload.phone_number) !== undefined || asString(payload.customer_phone) !== undefined)
+    );
+  },
+
+  parse(payload) {
+    const { transcript, transcriptFormatted } = parseTranscript(payload.transcript);
+    const extracted = isRecord(payload.extracted_variables)
+      ? payload.extracted_variables
+      : isRecord(payload.variables)
+        ? payload.variables
+        : undefined;
+
+    return {
+      sourceType: 'phone',
+      sourcePlatform: 'autocalls',
+      extractedData: {
+        callerName: asString(payload.customer_name) ?? asString(payload.name),
+        phoneNumber: asString(payload.phone_number) ?? asString(payload.customer_phone),
+        email: asString(payload.email),
+        summary: asString(payload.summary),
+        customFields: extracted,
+      },
+      transcript,
+      transcriptFormatted,
+      recordingUrl: asString(payload.recording_url) ?? asString(payload.recording),
+      callStatus: mapOutcome(asString(payload.call_outcome) ?? asString(payload.status), !!transcript),
+      durationSeconds: roundOrUndefined(
+        asNumber(payload.duration) ?? asNumber(payload.call_duration) ?? asNumber(payload.duration_seconds)
+      ),
+      conversationText: transcript,
+    } satisfies ParsedPayload;
+  },
+};
+
+function roundOrUndefined(value: number | undefined): number | undefined {
+  return value !== undefined ? Math.round(value) : undefined;
+}
+
+// Transcript is either plain text or an array of { role|speaker, text|content }
+function parseTranscript(value: unknown): {
+  transcript?: string;
+  transcriptFormatted?: Array<{ role: string; content: string }>;
+} {
+  if (typeof value === 'string') {
+    return { transcript: asString(value) };
+  }
+
+  if (!Array.isArray(value)) {
+    return {};
+  }
+
+  const turns = value
+    .filter(isRecord)
+    .map((turn) => {
+      const speaker = (asString(turn.role) ?? asString(turn.speaker) ?? '').toLowerCase();
+      const role = ['assistant', 'agent', 'ai', 'bot'].includes(speaker) ? 'assistant' : 'user';
+      const content = asString(turn.text) ?? asString(turn.content) ?? asString(turn.message);
+      return content ? { role, content } : null;
+    })
+    .filter((turn): turn is { role: string; content: string } => turn !== null);
+
+  if (turns.length === 0) {
+    return {};
+  }
+
+  return { transcript: formatTranscript(turns), transcriptFormatted: turns };
+}
+
+function mapOutcome(outcome: string | undefined, hasTranscript: boolean): PayloadAnalysis['callStatus'] {
+  const normalized = outcome?.toLowerCase().replace(/[\s-]/g, '_') ?? '';
+
+  if (['no_answer', 'not_answered', 'unanswered', 'voicemail'].includes(normalized)) return 'no_answer';
+  if (normalized === 'busy') return 'busy';
+  if (['failed', 'error'].includes(normalized)) return 'failed';
+  if (['canceled', 'cancelled'].includes(normalized)) return 'canceled';
+  if (normalized || hasTranscript) return 'completed';
+
+  return undefined;
+}
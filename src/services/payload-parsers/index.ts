@@ -0,0 +1,42 @@
+/**
+ * Payload Parsers - Deterministic parsing of known webhook formats
+ *
+ * Parsers are tried in order; the first match fills transcript, recording,
+ * duration and status exactly. The LLM is then only needed for summary,
+ * intent and custom fields, or for payloads no parser recognizes.
+ */
+
+import type { PayloadParser, ParsedPayload } from './types';
+import { vapiParser } from './vapi';
+import { autocallsParser } from './autocalls';
+import { twilioSmsParser, twilioVoiceParser } from './twilio';
+import { webFormParser } from './web-form';
+
+export type { PayloadParser, ParsedPayload } from './types';
+
+const parsers: PayloadParser[] = [
+  vapiParser,
+  autocallsParser,
+  twilioVoiceParser,
+  twilioSmsParser,
+  webFormParser,
+];
+
+/**
+ * Add a parser ahead of the built-in ones
+ */
+export function registerPayloadParser(parser: PayloadParser): void {
+  parsers.unshift(parser);
+}
+
+export function findPayloadParser(payload: Record<string, unknown>): PayloadParser | undefined {
+  return parsers.find((parser) => parser.matches(payload));
+}
+
+/**
+ * Parse a payload with the first matching parser, or return null for unknown formats
+ */
+export function parseKnownPayload(payload: Record<string, unknown>): ParsedPayload | null {
+  const parser = findPayloadParser(payload);
+  return parser ? parser.parse(payload) : null;
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { parseKnownPayload, findPayloadParser } from './index';
+
+describe('Payload Parsers', () => {
+  describe('VAPI', () => {
+    const payload = {
+      message: {
+        type: 'end-of-call-report',
+        endedReason: 'customer-ended-call',
+        startedAt: '2024-01-01T10:00:00.000Z',
+        endedAt: '2024-01-01T10:02:05.400Z',
+        customer: { number: '+15551234567' },
+        artifact: {
+          transcript: 'AI: Hello\nUser: I need a quote',
+          recordingUrl: 'https://example.com/recording.wav',
+          messages: [
+            { role: 'system', message: 'You are a helpful assistant' },
+            { role: 'bot', message: 'Hello' },
+            { role: 'user', message: 'I need a quote' },
+          ],
+        },
+        analysis: { summary: 'Caller wants a quote.' },
+      },
+    };
+
+    it('should parse an end-of-call report without the LLM', () => {
+      const result = parseKnownPayload(payload);
+
+      expect(result?.sourcePlatform).toBe('vapi');
+      expect(result?.sourceType).toBe('phone');
+      expect(result?.extractedData.phoneNumber).toBe('+15551234567');
+      expect(result?.extractedData.summary).toBe('Caller wants a quote.');
+      expect(result?.recordingUrl).toBe('https://example.com/recording.wav');
+      expect(result?.durationSeconds).toBe(125);
+      expect(result?.callStatus).toBe('completed');
+    });
+
+    it('should map roles and skip system messages', () => {
+      const result = parseKnownPayload(payload);
+
+      expect(result?.transcriptFormatted).toEqual([
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: 'I need a quote' },
+      ]);
+    });
+
+    it('should map unanswered calls', () => {
+      const result = parseKnownPayload({
+        message: { ...payload.message, endedReason: 'customer-did-not-answer' },
+      });
+
+      expect(result?.callStatus).toBe('no_answer');
+    });
+
+    it('should read call details placed beside the message', () => {
+      const result = parseKnownPayload({
+        message: { type: 'end-of-call-report' },
+        call: { customer: { number: '+15551234567' } },
+        artifact: { transcript: 'AI: Hello' },
+      });
+
+      expect(result?.extractedData.phoneNumber).toBe('+15551234567');
+      expect(result?.transcript).toBe('AI: Hello');
+    });
+
+    it('should read the reported call cost', () => {
+      const result = parseKnownPayload({
+        message: {
+          ...payload.message,
+          cost: 0.1234,
+          costBreakdown: { llm: 0.02, stt: 0.01, tts: 0.03, vapi: 0.05, analysisCostBreakdown: {} },
+        },
+      });
+
+      expect(result?.callCost).toEqual({
+        totalUsd: 0.1234,
+        breakdown: { llm: 0.02, stt: 0.01, tts: 0.03, vapi: 0.05 },
+      });
+    });
+  });
+
+  describe('Autocalls', () => {
+    it('should parse call fields', () => {
+      const result = parseKnownPayload({
+        call_id: 'abc123',
+        phone_number: '+15551234567',
+        transcript: 'Hello, this is a test call',
+        call_outcome: 'completed',
+        duration: '42.6',
+      });
+
+      expect(result?.sourcePlatform).toBe('autocalls');
+      expect(result?.transcript).toBe('Hello, this is a test call');
+      expect(result?.callStatus).toBe('completed');
+      expect(result?.durationSeconds).toBe(43);
+    });
+
+    it('should map no-answer outcomes', () => {
+      const result = parseKnownPayload({
+        call_id: 'abc123',
+        phone_number: '+15551234567',
+        call_outcome: 'No Answer',
+      });
+
+      expect(result?.callStatus).toBe('no_answer');
+      expect(result?.conversationText).toBeUndefined();
+    });
+  });
+
+  describe('Twilio', () => {
+    it('should parse inbound SMS', () => {
+      const result = parseKnownPayload({
+        MessageSid: 'SM123',
+        From: '+15551234567',
+        To: '+15559876543',
+        Body: 'I want to schedule an appointment',
+      });
+
+      expect(result?.sourceType).toBe('sms');
+      expect(result?.sourcePlatform).toBe('twilio');
+      expect(result?.extractedData.phoneNumber).toBe('+15551234567');
+      expect(result?.transcript).toBe('I want to schedule an appointment');
+    });
+
+    it('should use the callee as the customer on outbound calls', () => {
+      const result = parseKnownPayload({
+        CallSid: 'CA123',
+        CallStatus: 'no-answer',
+        Direction: 'outbound-api',
+        From: '+15559876543',
+        To: '+15551234567',
+        CallDuration: '0',
+      });
+
+      expect(result?.sourceType).toBe('phone');
+      expect(result?.extractedData.phoneNumber).toBe('+15551234567');
+      expect(result?.callStatus).toBe('no_answer');
+      expect(result?.durationSeconds).toBe(0);
+    });
+  });
+
+  describe('Web Forms', () => {
+    it('should map standard fields and keep the rest as custom fields', () => {
+      const result = parseKnownPayload({
+        first_name: 'John',
+        last_name: 'Doe',
+        Email: 'john@example.com',
+        phone: '555-123-4567',
+        message: 'Please call me back',
+        budget: '5000',
+      });
+
+      expect(result?.sourceType).toBe('web_form');
+      expect(result?.extractedData.callerName).toBe('John Doe');
+      expect(result?.extractedData.email).toBe('john@example.com');
+      expect(result?.extractedData.phoneNumber).toBe('555-123-4567');
+      expect(result?.extractedData.customFields).toEqual({ budget: '5000' });
+      expect(result?.transcript).toBe('Please call me back');
+    });
+
+    it('should not match nested payloads', () => {
+      expect(findPayloadParser({ email: 'a@b.com', data: { foo: 'bar' } })).toBeUndefined();
+    });
+  });
+
+  it('should return null for unknown formats', () => {
+    expect(parseKnownPayload({ event: 'something', data: { id: 1 } })).toBeNull();
+  });
+});
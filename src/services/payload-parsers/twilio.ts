@@ -0,0 +1,101 @@
+import type { PayloadAnalysis } from '@/services/ai-processor';
+import { PayloadParser, ParsedPayload, asString, asNumber } from './types';
+
+/**
+ * Twilio messaging webhook: { MessageSid, From, To, Body, ... }
+ */
+export const twilioSmsParser: PayloadParser = {
+  platform: 'twilio',
+
+  matches(payload) {
+    return (
+      (asString(payload.MessageSid) !== undefined || asString(payload.SmsSid) !== undefined) &&
+      asString(payload.From) !== undefined
+    ) || (
+      asString(payload.From) !== undefined &&
+      asString(payload.To) !== undefined &&
+      typeof payload.Body === 'string'
+    );
+  },
+
+  parse(payload) {
+    const body = asString(payload.Body);
+
+    return {
+      sourceType: 'sms',
+      sourcePlatform: 'twilio',
+      extractedData: {
+        phoneNumber: asString(payload.From),
+        customFields: numMediaField(payload),
+      },
+      transcript: body,
+      transcriptFormatted: body ? [{ role: 'user', content: body }] : undefined,
+      conversationText: body,
+    } satisfies ParsedPayload;
+  },
+};
+
+/**
+ * Twilio voice status callback: { CallSid, From, To, CallStatus, CallDuration, ... }
+ */
+export const twilioVoiceParser: PayloadParser = {
+  platform: 'twilio',
+
+  matches(payload) {
+    return asString(payload.CallSid) !== undefined && asString(payload.CallStatus) !== undefined;
+  },
+
+  parse(payload) {
+    // For calls we placed, the customer is the callee
+    const direction = asString(payload.Direction) ?? 'inbound';
+    const customerNumber = direction.startsWith('outbound')
+      ? asString(payload.To)
+      : asString(payload.From);
+    const transcript = asString(payload.TranscriptionText);
+    const duration = asNumber(payload.CallDuration) ?? asNumber(payload.RecordingDuration);
+
+    return {
+      sourceType: 'phone',
+      sourcePlatform: 'twilio',
+      extractedData: {
+        callerName: asString(payload.CallerName),
+        phoneNumber: customerNumber,
+      },
+      transcript,
+      recordingUrl: asString(payload.RecordingUrl),
+      callStatus: mapCallStatus(asString(payload.CallStatus)),
+      durationSeconds: duration !== undefined ? Math.round(duration) : undefined,
+      conversationText: transcript,
+    } satisfies ParsedPayload;
+  },
+};
+
+function numMediaField(payload: Record<string, unknown>): Record<string, unknown> | undefined {
+  const numMedia = asNumber(payload.NumMedia);
+  if (!numMedia) return undefined;
+
+  const mediaUrls = Array.from({ length: numMedia }, (_, i) => asString(payload[`MediaUrl${i}`]))
+    .filter((url): url is string => !!url);
+
+  return { mediaUrls };
+}
+
+/**
+ * Map Twilio CallStatus values to our call status
+ */
+export function mapCallStatus(status: string | undefined): PayloadAnalysis['callStatus'] {
+  switch (status?.toLowerCase()) {
+    case 'completed':
+      return 'completed';
+    case 'no-answer':
+      return 'no_answer';
+    case 'busy':
+      return 'busy';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'canceled';
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,52 @@
+import type { PayloadAnalysis } from '@/services/ai-processor';
+
+export interface ParsedPayload extends PayloadAnalysis {
+  // Human-readable content handed to the LLM for summary, intent and custom fields
+  conversationText?: string;
+}
+
+export interface PayloadParser {
+  platform: string;
+  matches(payload: Record<string, unknown>): boolean;
+  parse(payload: Record<string, unknown>): ParsedPayload;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+export function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+export function durationBetween(start: unknown, end: unknown): number | undefined {
+  const startTime = typeof start === 'string' ? Date.parse(start) : NaN;
+  const endTime = typeof end === 'string' ? Date.parse(end) : NaN;
+  if (Number.isNaN(startTime) || Number.isNaN(endTime) || endTime < startTime) {
+    return undefined;
+  }
+  return Math.round((endTime - startTime) / 1000);
+}
+
+export function formatTranscript(turns: Array<{ role: string; content: string }>): string {
+  return turns
+    .map((turn) => `${turn.role === 'assistant' ? 'AI' : 'Customer'}: ${turn.content}`)
+    .join('\n');
+}
@@ -0,0 +1,120 @@
+import type { PayloadAnalysis } from '@/services/ai-processor';
+import {
+  PayloadParser,
+  ParsedPayload,
+  isRecord,
+  asString,
+  asNumber,
+  durationBetween,
+  formatTranscript,
+} from './types';
+
+const END_OF_CALL_REPORT = 'end-of-call-report';
+
+/**
+ * VAPI server message: { message: { type: 'end-of-call-report', call, artifact, analysis, ... } }
+ * Older payloads put call/artifact next to message instead of inside it.
+ */
+export const vapiParser: PayloadParser = {
+  platform: 'vapi',
+
+  matches(payload) {
+    const message = isRecord(payload.message) ? payload.message : undefined;
+    return message?.type === END_OF_CALL_REPORT || payload.type === END_OF_CALL_REPORT;
+  },
+
+  parse(payload) {
+    const message = isRecord(payload.message) ? payload.message : payload;
+    const call = pickRecord(message.call, payload.call);
+    const artifact = pickRecord(message.artifact, payload.artifact);
+    const analysis = pickRecord(message.analysis, payload.analysis, call.analysis);
+    const customer = pickRecord(message.customer, call.customer);
+
+    const transcriptFormatted = formatMessages(artifact.messages ?? message.messages ?? call.messages);
+    const transcript =
+      asString(artifact.transcript) ??
+      asString(message.transcript) ??
+      asString(call.transcript) ??
+      (transcriptFormatted.length > 0 ? formatTranscript(transcriptFormatted) : undefined);
+
+    const durationSeconds = asNumber(message.durationSeconds) ?? durationBetween(
+      message.startedAt ?? call.startedAt,
+      message.endedAt ?? call.endedAt
+    );
+
+    const structuredData = isRecord(analysis.structuredData) ? analysis.structuredData : undefined;
+    const cost = asNumber(message.cost) ?? asNumber(call.cost);
+
+    return {
+      sourceType: 'phone',
+      sourcePlatform: 'vapi',
+      extractedData: {
+        callerName: asString(customer.name),
+        phoneNumber: asString(customer.number),
+        summary: asString(analysis.summary) ?? asString(message.summary) ?? asString(call.summary),
+        customFields: structuredData,
+      },
+      transcript,
+      transcriptFormatted: transcriptFormatted.length > 0 ? transcriptFormatted : undefined,
+      recordingUrl:
+        asString(artifact.recordingUrl) ??
+        asString(message.recordingUrl) ??
+        asString(call.recordingUrl),
+      callStatus: mapEndedReason(asString(message.endedReason) ?? asString(call.endedReason), !!transcript),
+      durationSeconds: durationSeconds !== undefined ? Math.round(durationSeconds) : undefined,
+      callCost: cost !== undefined
+        ? { totalUsd: cost, breakdown: formatCostBreakdown(message.costBreakdown ?? call.costBreakdown) }
+        : undefined,
+      conversationText: transcript,
+    } satisfies ParsedPayload;
+  },
+};
+
+/**
+ * Keep the numeric components of VAPI's costBreakdown (llm, stt, tts, vapi, transport, total)
+ */
+export function formatCostBreakdown(breakdown: unknown): Record<string, number> | undefined {
+  if (!isRecord(breakdown)) return undefined;
+
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(breakdown)) {
+    const amount = asNumber(value);
+    if (amount !== undefined) result[key] = amount;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function pickRecord(...candidates: unknown[]): Record<string, unknown> {
+  return (candidates.find(isRecord) as Record<string, unknown> | undefined) ?? {};
+}
+
+function formatMessages(messages: unknown): Array<{ role: string; content: string }> {
+  if (!Array.isArray(messages)) return [];
+
+  return messages
+    .filter(isRecord)
+    .map((m) => {
+      const role = m.role === 'bot' || m.role === 'assistant' ? 'assistant' : m.role === 'user' ? 'user' : null;
+      const content = asString(m.message) ?? asString(m.content);
+      return role && content ? { role, content } : null;
+    })
+    .filter((m): m is { role: string; content: string } => m !== null);
+}
+
+/**
+ * Map VAPI endedReason values to our call status
+ */
+export function mapEndedReason(
+  endedReason: string | undefined,
+  hasTranscript: boolean
+): PayloadAnalysis['callStatus'] {
+  const reason = endedReason?.toLowerCase() ?? '';
+
+  if (reason.includes('did-not-answer') || reason.includes('no-answer')) return 'no_answer';
+  if (reason.includes('busy')) return 'busy';
+  if (reason.includes('canceled') || reason.includes('cancelled')) return 'canceled';
+  if (reason.includes('error') || reason.includes('failed')) return 'failed';
+  if (reason || hasTranscript) return 'completed';
+
+  return undefined;
+}
@@ -0,0 +1,82 @@
+import { PayloadParser, ParsedPayload, isRecord, asString } from './types';
+
+const NAME_KEYS = ['name', 'full_name', 'fullname', 'your_name'];
+const FIRST_NAME_KEYS = ['first_name', 'firstname', 'fname'];
+const LAST_NAME_KEYS = ['last_name', 'lastname', 'lname'];
+const EMAIL_KEYS = ['email', 'email_address', 'emailaddress', 'your_email'];
+const PHONE_KEYS = ['phone', 'phone_number', 'phonenumber', 'mobile', 'mobile_phone', 'tel', 'telephone', 'cell'];
+const MESSAGE_KEYS = ['message', 'comments', 'comment', 'notes', 'inquiry', 'enquiry', 'details', 'question'];
+
+const KNOWN_KEYS = new Set([
+  ...NAME_KEYS,
+  ...FIRST_NAME_KEYS,
+  ...LAST_NAME_KEYS,
+  ...EMAIL_KEYS,
+  ...PHONE_KEYS,
+  ...MESSAGE_KEYS,
+]);
+
+/**
+ * Generic form post: a flat object of fields with at least an email or phone
+ */
+export const webFormParser: PayloadParser = {
+  platform: 'web_form',
+
+  matches(payload) {
+    const values = Object.values(payload);
+    const isFlat = values.every((value) => !isRecord(value) && !Array.isArray(value));
+    if (!isFlat) return false;
+
+    const fields = normalizeKeys(payload);
+    return pick(fields, EMAIL_KEYS) !== undefined || pick(fields, PHONE_KEYS) !== undefined;
+  },
+
+  parse(payload) {
+    const fields = normalizeKeys(payload);
+
+    const firstName = pick(fields, FIRST_NAME_KEYS);
+    const lastName = pick(fields, LAST_NAME_KEYS);
+    const callerName =
+      pick(fields, NAME_KEYS) ??
+      ([firstName, lastName].filter(Boolean).join(' ') || undefined);
+
+    const message = pick(fields, MESSAGE_KEYS);
+
+    // Anything we don't map to a standard field is kept as a custom field
+    const customFields = Object.fromEntries(
+      Object.entries(payload).filter(([key]) => !KNOWN_KEYS.has(normalizeKey(key)))
+    );
+
+    return {
+      sourceType: 'web_form',
+      sourcePlatform: 'web_form',
+      extractedData: {
+        callerName,
+        phoneNumber: pick(fields, PHONE_KEYS),
+        email: pick(fields, EMAIL_KEYS),
+        customFields: Object.keys(customFields).length > 0 ? customFields : undefined,
+      },
+      transcript: message,
+      conversationText: Object.entries(payload)
+        .filter(([, value]) => asString(value) !== undefined)
+        .map(([key, value]) => `${key}: ${asString(value)}`)
+        .join('\n'),
+    } satisfies ParsedPayload;
+  },
+};
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[\s-]/g, '_');
+}
+
+function normalizeKeys(payload: Record<string, unknown>): Map<string, unknown> {
+  return new Map(Object.entries(payload).map(([key, value]) => [normalizeKey(key), value]));
+}
+
+function pick(fields: Map<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = asString(fields.get(key));
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
@@ -0,0 +1,66 @@
+/**
+ * Public API - Shapes returned by the /api/v1 REST API
+ *
+ * Responses are built field by field rather than returning rows as stored,
+ * so internal columns (raw payloads, webhook secrets, Twilio credentials)
+ * never leak and adding a column never changes the public contract.
+ */
+
+import { db } from '@/db';
+import { campaigns } from '@/db/schema';
+import type { Campaign, Interaction } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Subquery of an organization's campaign IDs, for scoping interaction queries
+ */
+export function organizationCampaignIds(organizationId: string) {
+  return db
+    .select({ id: campaigns.id })
+    .from(campaigns)
+    .where(eq(campaigns.organizationId, organizationId));
+}
+
+export function toPublicCampaign(campaign: Campaign): Record<string, unknown> {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    description: campaign.description,
+    campaignType: campaign.campaignType,
+    phoneNumber: campaign.twilioPhoneNumber,
+    isActive: campaign.isActive,
+    extractionFields: (campaign.extractionSchema ?? []).map((field) => ({ name: field.name, type: field.type })),
+    createdAt: campaign.createdAt.toISOString(),
+  };
+}
+
+/**
+ * An interaction as listed; the transcript is only included when fetching a single interaction
+ */
+export function toPublicInteraction(
+  interaction: Interaction,
+  options: { includeTranscript?: boolean } = {}
+): Record<string, unknown> {
+  return {
+    id: interaction.id,
+    interactionNumber: interaction.interactionNumber,
+    campaignId: interaction.campaignId,
+    sourceType: interaction.sourceType,
+    sourcePlatform: interaction.sourcePlatform,
+    phoneNumber: interaction.phoneNumber,
+    callStatus: interaction.callStatus,
+    durationSeconds: interaction.durationSeconds,
+    recordingUrl: interaction.recordingUrl,
+    summary: interaction.aiSummary,
+    extractedData: interaction.aiExtractedData,
+    sentiment: interaction.sentiment,
+    qualityScore: interaction.qualityScore,
+    tags: interaction.tags,
+    flagged: interaction.flagged,
+    createdAt: interaction.createdAt.toISOString(),
+    ...(options.includeTranscript && {
+      transcript: interaction.transcript,
+      transcriptTurns: interaction.transcriptFormatted,
+    }),
+  };
+}
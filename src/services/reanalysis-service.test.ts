@@ -0,0 +1,113 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { campaigns, interactionAnalysisHistory, interactions, organizations, reanalysisJobs, users } from '@/db/schema';
+import type { Campaign, Interaction } from '@/db/schema';
+import { createMockProvider, setAiProvider } from '@/services/ai-providers';
+import { createReanalysisJob, processReanalysisJobs, reanalyzeInteraction } from './reanalysis-service';
+
+vi.mock('@/db', async () => ({ db: await (await import('@/test/db')).createTestDb() }));
+
+// A VAPI report carries its own summary; intent and outcome come from the AI provider
+const rawPayload = {
+  message: {
+    type: 'end-of-call-report',
+    endedReason: 'customer-ended-call',
+    customer: { number: '+15551234567' },
+    artifact: {
+      transcript: 'AI: Hello\nUser: I need a quote for a new roof',
+      messages: [
+        { role: 'bot', message: 'Hello' },
+        { role: 'user', message: 'I need a quote for a new roof' },
+      ],
+    },
+    analysis: { summary: 'Caller needs a quote for a new roof.' },
+  },
+};
+
+function failingProvider() {
+  return {
+    ...createMockProvider(),
+    summarize: async () => {
+      throw new Error('Provider unavailable');
+    },
+  };
+}
+
+async function seedInteraction(): Promise<{ campaign: Campaign; interaction: Interaction }> {
+  const [organization] = await db.insert(organizations).values({ name: 'Acme' }).returning();
+  const [campaign] = await db
+    .insert(campaigns)
+    .values({ organizationId: organization.id, name: 'Roofing leads' })
+    .returning();
+  const [interaction] = await db
+    .insert(interactions)
+    .values({
+      campaignId: campaign.id,
+      sourceType: 'phone',
+      sourcePlatform: 'vapi',
+      rawPayload,
+      aiSummary: 'Caller wants a roofing quote.',
+      aiExtractedData: { summary: 'Caller wants a roofing quote.', primaryIntent: 'quote', outcome: 'callback' },
+    })
+    .returning();
+  return { campaign, interaction };
+}
+
+describe('Reanalysis Service', () => {
+  afterEach(() => {
+    setAiProvider(null);
+  });
+
+  it('should replace the extraction and keep the previous one in history', async () => {
+    setAiProvider(createMockProvider());
+    const { campaign, interaction } = await seedInteraction();
+
+    const updated = await reanalyzeInteraction(interaction, campaign, { reason: 'manual' });
+
+    expect(updated.aiSummary).toBe('Caller needs a quote for a new roof.');
+
+    const history = await db
+      .select()
+      .from(interactionAnalysisHistory)
+      .where(eq(interactionAnalysisHistory.interactionId, interaction.id));
+    expect(history).toHaveLength(1);
+    expect(history[0].aiSummary).toBe('Caller wants a roofing quote.');
+  });
+
+  it('should fail and keep the previous extraction when the AI provider fails', async () => {
+    setAiProvider(failingProvider());
+    const { campaign, interaction } = await seedInteraction();
+
+    await expect(
+      reanalyzeInteraction(interaction, campaign, { reason: 'manual' })
+    ).rejects.toThrow('Provider unavailable');
+
+    const [stored] = await db.select().from(interactions).where(eq(interactions.id, interaction.id));
+    expect(stored.aiSummary).toBe('Caller wants a roofing quote.');
+    expect(stored.aiExtractedData).toEqual(interaction.aiExtractedData);
+
+    const history = await db
+      .select()
+      .from(interactionAnalysisHistory)
+      .where(eq(interactionAnalysisHistory.interactionId, interaction.id));
+    expect(history).toHaveLength(0);
+  });
+
+  it('should count a failed enrichment against the bulk job', async () => {
+    setAiProvider(failingProvider());
+    const { campaign } = await seedInteraction();
+    const [admin] = await db.insert(users).values({ id: crypto.randomUUID(), email: 'admin@example.com', role: 'admin' }).returning();
+    const job = await createReanalysisJob({ campaignId: campaign.id, onlyMissing: false, requestedBy: admin.id });
+
+    const result = await processReanalysisJobs();
+
+    expect(result.interactionsReanalyzed).toBe(0);
+    expect(result.interactionsFailed).toBe(1);
+
+    const [stored] = await db.select().from(reanalysisJobs).where(eq(reanalysisJobs.id, job.id));
+    expect(stored.failedCount).toBe(1);
+    expect(stored.lastError).toContain('Provider unavailable');
+  });
+});
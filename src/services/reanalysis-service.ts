@@ -0,0 +1,282 @@
+/**
+ * Reanalysis Service - Re-runs AI analysis on stored interaction payloads
+ *
+ * Used after a campaign's extraction hints change, or to repair interactions
+ * that were stored without analysis. The previous extraction is kept in
+ * interaction_analysis_history so admins can compare. SMS triggers are
+ * deliberately not re-evaluated.
+ */
+
+import { db } from '@/db';
+import { campaigns, interactions, interactionAnalysisHistory, reanalysisJobs } from '@/db/schema';
+import type { Campaign, Interaction, ReanalysisJob } from '@/db/schema';
+import { eq, and, or, gt, lt, asc, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+import { analyzePayload } from '@/services/ai-processor';
+import { normalizePhoneNumber, validatePhoneNumber } from '@/services/sms-service';
+import { upsertContact } from '@/services/webhook-processor';
+import { recordAiUsage } from '@/services/usage-ledger';
+import { scoreConversation, mergeTopicTags } from '@/services/conversation-scoring';
+import type { AiUsage } from '@/services/ai-providers';
+
+const BATCH_SIZE = 20;
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface ProcessReanalysisJobsResult {
+  jobsProcessed: number;
+  interactionsReanalyzed: number;
+  interactionsFailed: number;
+  errors: string[];
+}
+
+/**
+ * Re-analyze one interaction against its raw payload with the campaign's current hints
+ */
+export async function reanalyzeInteraction(
+  interaction: Interaction,
+  campaign: Campaign,
+  context: { reason: 'manual' | 'bulk'; userId?: string; reanalysisJobId?: string }
+): Promise<Interaction> {
+  if (!interaction.rawPayload) {
+    throw new Error('Interaction has no raw payload to analyze');
+  }
+
+  const aiUsage: AiUsage[] = [];
+  const analysis = await analyzePayload(interaction.rawPayload, {
+    extractionHints: campaign.aiExtractionHints as Record<string, string> | undefined,
+    extractionSchema: campaign.extractionSchema ?? undefined,
+    model: campaign.aiModel,
+    onUsage: (usage) => aiUsage.push(usage),
+    // A parser-only result would overwrite a good extraction, so fail the re-run instead
+    throwOnEnrichmentError: true,
+  });
+
+  const transcriptFormatted = interaction.transcriptFormatted ?? analysis.transcriptFormatted;
+  const scoring = await scoreConversation(
+    {
+      transcript: interaction.transcript ?? analysis.transcript,
+      transcriptFormatted,
+      summary: analysis.extractedData.summary,
+    },
+    campaign,
+    { onUsage: (usage) => aiUsage.push(usage) }
+  );
+
+  await recordAiUsage('ai_reanalysis', aiUsage, {
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+    interactionId: interaction.id,
+  });
+
+  // Keep the previous extraction for comparison
+  await db.insert(interactionAnalysisHistory).values({
+    interactionId: interaction.id,
+    aiSummary: interaction.aiSummary,
+    aiExtractedData: interaction.aiExtractedData,
+    sourcePlatform: interaction.sourcePlatform,
+    reason: context.reason,
+    reanalysisJobId: context.reanalysisJobId,
+    createdBy: context.userId,
+  });
+
+  // Interactions stored by the old fallback branch have no platform or caller details
+  const isFallback = !interaction.sourcePlatform;
+
+  let phoneNumber = interaction.phoneNumber;
+  let contactId = interaction.contactId;
+  if (!phoneNumber && analysis.extractedData.phoneNumber) {
+    const normalizedPhone = normalizePhoneNumber(analysis.extractedData.phoneNumber);
+    if (validatePhoneNumber(normalizedPhone)) {
+      phoneNumber = normalizedPhone;
+      contactId = contactId ?? await upsertContact(campaign.id, normalizedPhone);
+    }
+  }
+
+  const [updated] = await db
+    .update(interactions)
+    .set({
+      sourceType: isFallback ? analysis.sourceType : interaction.sourceType,
+      sourcePlatform: interaction.sourcePlatform ?? analysis.sourcePlatform,
+      phoneNumber,
+      contactId,
+      callStatus: interaction.callStatus ?? analysis.callStatus,
+      durationSeconds: interaction.durationSeconds ?? analysis.durationSeconds,
+      transcript: interaction.transcript ?? analysis.transcript,
+      transcriptFormatted,
+      recordingUrl: interaction.recordingUrl ?? analysis.recordingUrl,
+      aiSummary: analysis.extractedData.summary ?? null,
+      aiExtractedData: analysis.extractedData as Record<string, unknown>,
+      // A failed scoring pass keeps the previous scores; manual flags are never cleared
+      ...(scoring && {
+        tags: mergeTopicTags(interaction.tags, scoring.analysis.topics),
+        flagged: interaction.flagged || scoring.flagged,
+        sentiment: scoring.sentiment,
+        qualityScore: scoring.qualityScore,
+        conversationAnalysis: scoring.analysis,
+      }),
+    })
+    .where(eq(interactions.id, interaction.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Queue a bulk re-analysis of a campaign's interactions
+ */
+export async function createReanalysisJob(params: {
+  campaignId: string;
+  onlyMissing: boolean;
+  requestedBy: string;
+}): Promise<ReanalysisJob> {
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(interactions)
+    .where(reanalysisScope(params.campaignId, params.onlyMissing));
+
+  const [job] = await db
+    .insert(reanalysisJobs)
+    .values({
+      campaignId: params.campaignId,
+      onlyMissing: params.onlyMissing,
+      totalCount: count,
+      requestedBy: params.requestedBy,
+    })
+    .returning();
+
+  return job;
+}
+
+/**
+ * Advance every active re-analysis job by one batch (called by the cron route)
+ */
+export async function processReanalysisJobs(): Promise<ProcessReanalysisJobsResult> {
+  const results: ProcessReanalysisJobsResult = {
+    jobsProcessed: 0,
+    interactionsReanalyzed: 0,
+    interactionsFailed: 0,
+    errors: [],
+  };
+
+  const jobs = await claimReanalysisJobs();
+
+  for (const job of jobs) {
+    try {
+      const [campaign] = await db
+        .select()
+        .from(campaigns)
+        .where(eq(campaigns.id, job.campaignId))
+        .limit(1);
+
+      if (!campaign) {
+        throw new Error('Campaign not found');
+      }
+
+      const batch = await db
+        .select()
+        .from(interactions)
+        .where(
+          and(
+            reanalysisScope(job.campaignId, job.onlyMissing),
+            gt(interactions.interactionNumber, job.lastInteractionNumber)
+          )
+        )
+        .orderBy(asc(interactions.interactionNumber))
+        .limit(BATCH_SIZE);
+
+      let processed = 0;
+      let failed = 0;
+      let lastError = job.lastError;
+
+      for (const interaction of batch) {
+        try {
+          await reanalyzeInteraction(interaction, campaign, {
+            reason: 'bulk',
+            userId: job.requestedBy ?? undefined,
+            reanalysisJobId: job.id,
+          });
+          processed++;
+        } catch (error) {
+          failed++;
+          lastError = `Interaction ${interaction.id}: ${error instanceof Error ? error.message : 'Analysis failed'}`;
+          results.errors.push(lastError);
+        }
+      }
+
+      const isDone = batch.length < BATCH_SIZE;
+
+      await db
+        .update(reanalysisJobs)
+        .set({
+          status: isDone ? 'completed' : 'running',
+          processedCount: sql`${reanalysisJobs.processedCount} + ${processed}`,
+          failedCount: sql`${reanalysisJobs.failedCount} + ${failed}`,
+          lastInteractionNumber: batch.length > 0
+            ? batch[batch.length - 1].interactionNumber
+            : job.lastInteractionNumber,
+          lastError,
+          lockedAt: null,
+          completedAt: isDone ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(reanalysisJobs.id, job.id));
+
+      results.jobsProcessed++;
+      results.interactionsReanalyzed += processed;
+      results.interactionsFailed += failed;
+    } catch (jobError) {
+      const errorMessage = jobError instanceof Error ? jobError.message : 'Job failed';
+      results.errors.push(`Job ${job.id}: ${errorMessage}`);
+
+      await db
+        .update(reanalysisJobs)
+        .set({
+          status: 'failed',
+          lastError: errorMessage,
+          lockedAt: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(reanalysisJobs.id, job.id));
+    }
+  }
+
+  return results;
+}
+
+// Interactions a job covers: those with a payload, optionally only unanalyzed ones
+function reanalysisScope(campaignId: string, onlyMissing: boolean) {
+  return and(
+    eq(interactions.campaignId, campaignId),
+    isNotNull(interactions.rawPayload),
+    onlyMissing ? isNull(interactions.aiSummary) : undefined
+  );
+}
+
+async function claimReanalysisJobs(): Promise<ReanalysisJob[]> {
+  const now = new Date();
+  const staleLockCutoff = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+
+  const claimable = db
+    .select({ id: reanalysisJobs.id })
+    .from(reanalysisJobs)
+    .where(
+      and(
+        inArray(reanalysisJobs.status, ['pending', 'running']),
+        or(isNull(reanalysisJobs.lockedAt), lt(reanalysisJobs.lockedAt, staleLockCutoff))
+      )
+    )
+    .orderBy(asc(reanalysisJobs.createdAt))
+    .limit(5)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(reanalysisJobs)
+    .set({
+      status: 'running',
+      lockedAt: now,
+      startedAt: sql`coalesce(${reanalysisJobs.startedAt}, now())`,
+      updatedAt: now,
+    })
+    .where(inArray(reanalysisJobs.id, claimable))
+    .returning();
+}
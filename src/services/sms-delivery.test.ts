@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mapTwilioStatus, statusesBefore, computeDeliveryRate, getStatusCallbackUrl } from './sms-delivery';
+
+describe('SMS Delivery', () => {
+  describe('Status Mapping', () => {
+    it('should map Twilio message statuses', () => {
+      expect(mapTwilioStatus('accepted')).toBe('queued');
+      expect(mapTwilioStatus('sending')).toBe('queued');
+      expect(mapTwilioStatus('sent')).toBe('sent');
+      expect(mapTwilioStatus('Delivered')).toBe('delivered');
+      expect(mapTwilioStatus('undelivered')).toBe('undelivered');
+      expect(mapTwilioStatus('canceled')).toBe('failed');
+    });
+
+    it('should ignore unknown statuses', () => {
+      expect(mapTwilioStatus('receiving')).toBeNull();
+      expect(mapTwilioStatus(undefined)).toBeNull();
+    });
+  });
+
+  describe('Status Ordering', () => {
+    it('should only move a log forward', () => {
+      expect(statusesBefore('sent')).toEqual(['pending', 'queued']);
+      expect(statusesBefore('delivered')).toEqual(['pending', 'queued', 'sent']);
+    });
+
+    it('should never update blocked messages', () => {
+      expect(statusesBefore('failed')).not.toContain('blocked');
+    });
+
+    it('should not let a late queued callback undo a final status', () => {
+      expect(statusesBefore('queued')).toEqual(['pending']);
+    });
+  });
+
+  describe('Delivery Rate', () => {
+    it('should count only messages with a final status', () => {
+      expect(computeDeliveryRate({ delivered: 9, undelivered: 1, failed: 0 })).toBe(0.9);
+    });
+
+    it('should return null before any message finishes', () => {
+      expect(computeDeliveryRate({ delivered: 0, undelivered: 0, failed: 0 })).toBeNull();
+    });
+  });
+
+  describe('Callback URL', () => {
+    const originalUrl = process.env.NEXT_PUBLIC_APP_URL;
+
+    afterEach(() => {
+      if (originalUrl === undefined) {
+        delete process.env.NEXT_PUBLIC_APP_URL;
+      } else {
+        process.env.NEXT_PUBLIC_APP_URL = originalUrl;
+      }
+    });
+
+    it('should build the callback from the public app URL', () => {
+      process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com/';
+
+      expect(getStatusCallbackUrl()).toBe('https://app.example.com/api/twilio/status');
+    });
+
+    it('should skip the callback without a public URL', () => {
+      delete process.env.NEXT_PUBLIC_APP_URL;
+
+      expect(getStatusCallbackUrl()).toBeUndefined();
+    });
+  });
+});
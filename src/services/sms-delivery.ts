@@ -0,0 +1,145 @@
+/**
+ * SMS Delivery - Twilio message status callbacks and delivery metrics
+ *
+ * Twilio reports each status change to the statusCallback URL given when the
+ * message is sent. Callbacks can arrive out of order, so a log only moves
+ * forward (queued -> sent -> delivered/undelivered/failed).
+ */
+
+import { db } from '@/db';
+import { smsLogs, smsStatusEnum } from '@/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+export type SmsStatus = (typeof smsStatusEnum.enumValues)[number];
+
+export interface DeliveryStats {
+  total: number;
+  queued: number;
+  sent: number;
+  delivered: number;
+  undelivered: number;
+  failed: number;
+  blocked: number;
+  deliveryRate: number | null; // Delivered share of messages with a final status, 0-1
+}
+
+// Twilio MessageStatus -> our status
+const TWILIO_STATUSES: Record<string, SmsStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+const STATUS_RANK: Record<SmsStatus, number> = {
+  pending: 0,
+  queued: 1,
+  sent: 2,
+  delivered: 3,
+  undelivered: 3,
+  failed: 3,
+  blocked: 3,
+};
+
+export function mapTwilioStatus(status: string | null | undefined): SmsStatus | null {
+  return status ? TWILIO_STATUSES[status.toLowerCase()] ?? null : null;
+}
+
+/**
+ * Statuses a log may move to the given status from. Final statuses never
+ * change, and messages we blocked were never handed to Twilio.
+ */
+export function statusesBefore(status: SmsStatus): SmsStatus[] {
+  return (Object.keys(STATUS_RANK) as SmsStatus[]).filter(
+    (s) => s !== 'blocked' && STATUS_RANK[s] < STATUS_RANK[status]
+  );
+}
+
+/**
+ * The statusCallback URL for outgoing messages, when the app has a public URL
+ */
+export function getStatusCallbackUrl(): string | undefined {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return appUrl ? `${appUrl.replace(/\/$/, '')}/api/twilio/status` : undefined;
+}
+
+/**
+ * Apply a Twilio status callback to its log. Returns false when the message is
+ * unknown or the callback is older than the status we already have.
+ */
+export async function applyStatusCallback(params: {
+  messageSid: string;
+  messageStatus: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+  now?: Date;
+}): Promise<boolean> {
+  const status = mapTwilioStatus(params.messageStatus);
+  if (!status) {
+    return false;
+  }
+
+  const now = params.now ?? new Date();
+  const errorCode = params.errorCode ? Number(params.errorCode) : null;
+
+  const updated = await db
+    .update(smsLogs)
+    .set({
+      status,
+      statusUpdatedAt: now,
+      ...(status === 'delivered' && { deliveredAt: now }),
+      ...(errorCode !== null && !Number.isNaN(errorCode) && {
+        errorCode,
+        errorMessage: params.errorMessage || `Message ${status}`,
+      }),
+    })
+    .where(and(
+      eq(smsLogs.twilioSid, params.messageSid),
+      inArray(smsLogs.status, statusesBefore(status))
+    ))
+    .returning({ id: smsLogs.id });
+
+  return updated.length > 0;
+}
+
+export function computeDeliveryRate(stats: Pick<DeliveryStats, 'delivered' | 'undelivered' | 'failed'>): number | null {
+  const finished = stats.delivered + stats.undelivered + stats.failed;
+  return finished > 0 ? stats.delivered / finished : null;
+}
+
+/**
+ * Delivery counts per trigger, keyed by trigger ID
+ */
+export async function getTriggerDeliveryStats(triggerIds: string[]): Promise<Record<string, DeliveryStats>> {
+  if (triggerIds.length === 0) {
+    return {};
+  }
+
+  const count = (status: SmsStatus) =>
+    sql<number>`count(*) filter (where ${smsLogs.status} = ${status})`.mapWith(Number);
+
+  const rows = await db
+    .select({
+      triggerId: smsLogs.triggerId,
+      total: sql<number>`count(*)`.mapWith(Number),
+      queued: sql<number>`count(*) filter (where ${smsLogs.status} in ('pending', 'queued'))`.mapWith(Number),
+      sent: count('sent'),
+      delivered: count('delivered'),
+      undelivered: count('undelivered'),
+      failed: count('failed'),
+      blocked: count('blocked'),
+    })
+    .from(smsLogs)
+    .where(inArray(smsLogs.triggerId, triggerIds))
+    .groupBy(smsLogs.triggerId);
+
+  return Object.fromEntries(
+    rows.map(({ triggerId, ...stats }) => [triggerId, { ...stats, deliveryRate: computeDeliveryRate(stats) }])
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseSmsKeyword, resolveOptOutScope, keywordReply, describeOptOut } from './sms-opt-out';
+import type { SmsOptOut } from '@/db/schema';
+
+describe('SMS Opt-Out', () => {
+  describe('Keyword Parsing', () => {
+    it('should recognize opt-out keywords in any case', () => {
+      expect(parseSmsKeyword('STOP')).toBe('stop');
+      expect(parseSmsKeyword(' stop ')).toBe('stop');
+      expect(parseSmsKeyword('Unsubscribe')).toBe('stop');
+      expect(parseSmsKeyword('cancel.')).toBe('stop');
+    });
+
+    it('should recognize opt-in and help keywords', () => {
+      expect(parseSmsKeyword('START')).toBe('start');
+      expect(parseSmsKeyword('unstop')).toBe('start');
+      expect(parseSmsKeyword('help')).toBe('help');
+      expect(parseSmsKeyword('INFO')).toBe('help');
+    });
+
+    it('should only match keywords sent on their own', () => {
+      expect(parseSmsKeyword('Please stop calling me about the quote')).toBeNull();
+      expect(parseSmsKeyword('')).toBeNull();
+      expect(parseSmsKeyword(undefined)).toBeNull();
+    });
+  });
+
+  describe('Scope', () => {
+    it('should scope to the only organization sending from the number', () => {
+      expect(resolveOptOutScope(['org-1', 'org-1'])).toBe('org-1');
+    });
+
+    it('should opt out globally from shared or unknown numbers', () => {
+      expect(resolveOptOutScope(['org-1', 'org-2'])).toBeNull();
+      expect(resolveOptOutScope([])).toBeNull();
+    });
+  });
+
+  describe('Replies', () => {
+    const organization = { name: 'Acme Plumbing', phone: '+15550001111', contactEmail: null };
+
+    it('should confirm opt-out in the organization name', () => {
+      expect(keywordReply('stop', organization)).toBe(
+        'You have been unsubscribed and will not receive more messages from Acme Plumbing. Reply START to resubscribe.'
+      );
+    });
+
+    it('should include contact details in the help reply', () => {
+      expect(keywordReply('help', organization)).toBe(
+        'Acme Plumbing: For help contact +15550001111. Msg & data rates may apply. Reply STOP to opt out, START to resubscribe.'
+      );
+      expect(keywordReply('help', null)).toBe('Msg & data rates may apply. Reply STOP to opt out, START to resubscribe.');
+    });
+
+    it('should describe why a send was refused', () => {
+      const optOut = { organizationId: null, keyword: 'STOP' } as SmsOptOut;
+
+      expect(describeOptOut(optOut)).toBe('Recipient opted out of all messages (replied STOP)');
+      expect(describeOptOut({ ...optOut, organizationId: 'org-1', keyword: null })).toBe(
+        'Recipient opted out of this organization (added by an admin)'
+      );
+    });
+  });
+});
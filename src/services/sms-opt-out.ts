@@ -0,0 +1,124 @@
+/**
+ * SMS Opt-Out - STOP/START/HELP keywords and the opt-out list
+ *
+ * A STOP sent to a number that only one organization sends from opts the
+ * caller out of that organization. A STOP sent to a number shared by several
+ * organizations (or one we can't match) opts them out everywhere, since any of
+ * those organizations could message them from it again.
+ */
+
+import { db } from '@/db';
+import { smsOptOuts, SmsOptOut } from '@/db/schema';
+import { and, eq, isNull, or } from 'drizzle-orm';
+
+export type SmsKeyword = 'stop' | 'start' | 'help';
+
+// Carrier (CTIA) standard keywords, matched when they are the whole message
+const KEYWORDS: Record<SmsKeyword, string[]> = {
+  stop: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE'],
+  start: ['START', 'UNSTOP', 'YES', 'SUBSCRIBE'],
+  help: ['HELP', 'INFO'],
+};
+
+export function parseSmsKeyword(body: string | null | undefined): SmsKeyword | null {
+  const word = (body ?? '').trim().replace(/[.!?]+$/, '').toUpperCase();
+  if (!word) return null;
+
+  for (const [keyword, words] of Object.entries(KEYWORDS) as Array<[SmsKeyword, string[]]>) {
+    if (words.includes(word)) return keyword;
+  }
+  return null;
+}
+
+/**
+ * The organization a STOP to a number applies to, or null for a global opt-out
+ */
+export function resolveOptOutScope(organizationIds: string[]): string | null {
+  const unique = [...new Set(organizationIds)];
+  return unique.length === 1 ? unique[0] : null;
+}
+
+export async function optOutNumber(params: {
+  phoneNumber: string;
+  organizationId: string | null;
+  keyword?: string | null;
+  source: 'inbound_sms' | 'manual';
+  campaignId?: string | null;
+  createdBy?: string | null;
+}): Promise<void> {
+  await db
+    .insert(smsOptOuts)
+    .values({
+      phoneNumber: params.phoneNumber,
+      organizationId: params.organizationId,
+      keyword: params.keyword ?? null,
+      source: params.source,
+      campaignId: params.campaignId ?? null,
+      createdBy: params.createdBy ?? null,
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Remove the opt-out a STOP in the same scope would have created. A START to
+ * one organization's number does not lift a global opt-out.
+ */
+export async function optInNumber(phoneNumber: string, organizationId: string | null): Promise<number> {
+  const removed = await db
+    .delete(smsOptOuts)
+    .where(and(
+      eq(smsOptOuts.phoneNumber, phoneNumber),
+      organizationId ? eq(smsOptOuts.organizationId, organizationId) : isNull(smsOptOuts.organizationId)
+    ))
+    .returning({ id: smsOptOuts.id });
+
+  return removed.length;
+}
+
+/**
+ * The opt-out blocking messages from an organization to a number, if any.
+ * Global opt-outs take precedence.
+ */
+export async function findOptOut(phoneNumber: string, organizationId: string): Promise<SmsOptOut | null> {
+  const rows = await db
+    .select()
+    .from(smsOptOuts)
+    .where(and(
+      eq(smsOptOuts.phoneNumber, phoneNumber),
+      or(isNull(smsOptOuts.organizationId), eq(smsOptOuts.organizationId, organizationId))
+    ));
+
+  return rows.find((row) => row.organizationId === null) ?? rows[0] ?? null;
+}
+
+export function describeOptOut(optOut: SmsOptOut): string {
+  const via = optOut.keyword ? `replied ${optOut.keyword}` : 'added by an admin';
+  return optOut.organizationId
+    ? `Recipient opted out of this organization (${via})`
+    : `Recipient opted out of all messages (${via})`;
+}
+
+/**
+ * Auto-reply for a keyword, in the sender's name when it is one organization
+ */
+export function keywordReply(
+  keyword: SmsKeyword,
+  organization: { name: string; phone?: string | null; contactEmail?: string | null } | null
+): string {
+  const sender = organization?.name ?? 'us';
+
+  switch (keyword) {
+    case 'stop':
+      return `You have been unsubscribed and will not receive more messages from ${sender}. Reply START to resubscribe.`;
+    case 'start':
+      return `You have been resubscribed to messages from ${sender}. Reply STOP to opt out.`;
+    case 'help': {
+      const contact = organization?.phone || organization?.contactEmail;
+      return [
+        organization ? `${organization.name}:` : null,
+        contact ? `For help contact ${contact}.` : null,
+        'Msg & data rates may apply. Reply STOP to opt out, START to resubscribe.',
+      ].filter(Boolean).join(' ');
+    }
+  }
+}
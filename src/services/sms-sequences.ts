@@ -0,0 +1,283 @@
+/**
+ * SMS Sequences - Delayed follow-ups for SMS triggers
+ *
+ * A trigger sends its first message immediately. Its follow-up steps are
+ * rendered when it fires and stored in scheduled_sms, and a cron worker sends
+ * them once due. Pending follow-ups are canceled when the contact replies or
+ * opts out, or when the trigger is deactivated.
+ */
+
+import { db } from '@/db';
+import { campaigns, scheduledSms, smsTriggers } from '@/db/schema';
+import type { ScheduledSms, SmsTrigger } from '@/db/schema';
+import { and, asc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { applyQuietHours, planSequence } from '@/lib/sms-sequence';
+import { renderSmsTemplate } from '@/lib/sms-template';
+import { revealSecret } from '@/lib/credential-crypto';
+import { sendSms } from '@/services/sms-service';
+import { findOptOut } from '@/services/sms-opt-out';
+import { extractAreaCode, detectTimezoneFromAreaCode } from '@/services/contact-upload-service';
+
+const DEFAULT_TIMEZONE = 'America/Chicago';
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // Reclaim messages whose worker died
+
+export type ScheduledSmsCancelReason = 'replied' | 'opted_out' | 'trigger_inactive' | 'restarted';
+
+export interface ProcessScheduledSmsResult {
+  claimed: number;
+  sent: number;
+  failed: number;
+  canceled: number;
+  deferred: number; // Reached during quiet hours and moved to their end
+  errors: string[];
+}
+
+/**
+ * Timezone for quiet hours, from the US area code of the number
+ */
+export function getContactTimezone(phoneNumber: string): string {
+  const areaCode = extractAreaCode(phoneNumber);
+  return (areaCode && detectTimezoneFromAreaCode(areaCode)) || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Schedule a trigger's follow-up steps after its first message was sent.
+ * Steps are rendered now with the variables of the interaction that fired it.
+ * A trigger firing again for a contact replaces its unsent follow-ups.
+ */
+export async function scheduleSequence(
+  trigger: SmsTrigger,
+  target: { campaignId: string; contactId: string; interactionId: string; phoneNumber: string },
+  variables: Record<string, string>,
+  startedAt: Date = new Date()
+): Promise<number> {
+  await db
+    .update(scheduledSms)
+    .set({ status: 'canceled', cancelReason: 'restarted', updatedAt: new Date() })
+    .where(
+      and(
+        eq(scheduledSms.triggerId, trigger.id),
+        eq(scheduledSms.contactId, target.contactId),
+        eq(scheduledSms.status, 'pending')
+      )
+    );
+
+  const timezone = getContactTimezone(target.phoneNumber);
+  const steps = planSequence(trigger, startedAt, timezone);
+  if (steps.length === 0) {
+    return 0;
+  }
+
+  await db.insert(scheduledSms).values(
+    steps.map((step) => ({
+      triggerId: trigger.id,
+      campaignId: target.campaignId,
+      contactId: target.contactId,
+      interactionId: target.interactionId,
+      stepNumber: step.stepNumber,
+      toNumber: target.phoneNumber,
+      message: renderSmsTemplate(step.message, variables).text,
+      timezone,
+      sendAt: step.sendAt,
+    }))
+  );
+
+  return steps.length;
+}
+
+/**
+ * Cancel pending follow-ups to a number from the given campaigns
+ */
+export async function cancelScheduledSms(
+  toNumber: string,
+  campaignIds: string[],
+  reason: ScheduledSmsCancelReason
+): Promise<number> {
+  if (campaignIds.length === 0) {
+    return 0;
+  }
+
+  const canceled = await db
+    .update(scheduledSms)
+    .set({ status: 'canceled', cancelReason: reason, updatedAt: new Date() })
+    .where(
+      and(
+        eq(scheduledSms.toNumber, toNumber),
+        inArray(scheduledSms.campaignId, campaignIds),
+        eq(scheduledSms.status, 'pending')
+      )
+    )
+    .returning({ id: scheduledSms.id });
+
+  return canceled.length;
+}
+
+/**
+ * Cancel every pending follow-up of a trigger that was deactivated
+ */
+export async function cancelTriggerFollowUps(triggerId: string): Promise<number> {
+  const canceled = await db
+    .update(scheduledSms)
+    .set({ status: 'canceled', cancelReason: 'trigger_inactive', updatedAt: new Date() })
+    .where(and(eq(scheduledSms.triggerId, triggerId), eq(scheduledSms.status, 'pending')))
+    .returning({ id: scheduledSms.id });
+
+  return canceled.length;
+}
+
+/**
+ * Atomically claim due messages so overlapping cron invocations never
+ * send the same follow-up twice
+ */
+export async function claimScheduledSms(limit: number): Promise<ScheduledSms[]> {
+  const now = new Date();
+  const staleLockCutoff = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+
+  const dueMessages = db
+    .select({ id: scheduledSms.id })
+    .from(scheduledSms)
+    .where(
+      or(
+        and(
+          eq(scheduledSms.status, 'pending'),
+          lte(scheduledSms.sendAt, now)
+        ),
+        and(
+          eq(scheduledSms.status, 'sending'),
+          lt(scheduledSms.lockedAt, staleLockCutoff)
+        )
+      )
+    )
+    .orderBy(asc(scheduledSms.sendAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(scheduledSms)
+    .set({ status: 'sending', lockedAt: now, updatedAt: now })
+    .where(inArray(scheduledSms.id, dueMessages))
+    .returning();
+}
+
+/**
+ * Send a batch of due follow-ups (called by the cron route)
+ */
+export async function processScheduledSms(
+  options: { limit?: number } = {}
+): Promise<ProcessScheduledSmsResult> {
+  const results: ProcessScheduledSmsResult = {
+    claimed: 0,
+    sent: 0,
+    failed: 0,
+    canceled: 0,
+    deferred: 0,
+    errors: [],
+  };
+
+  const messages = await claimScheduledSms(options.limit ?? 50);
+  results.claimed = messages.length;
+
+  for (const message of messages) {
+    try {
+      const outcome = await sendScheduledSms(message);
+      results[outcome]++;
+    } catch (sendError) {
+      const errorMessage = sendError instanceof Error ? sendError.message : 'Unknown send error';
+      results.errors.push(`Scheduled SMS ${message.id}: ${errorMessage}`);
+      results.failed++;
+
+      await db
+        .update(scheduledSms)
+        .set({ status: 'failed', lockedAt: null, lastError: errorMessage, updatedAt: new Date() })
+        .where(eq(scheduledSms.id, message.id));
+    }
+  }
+
+  return results;
+}
+
+async function sendScheduledSms(
+  message: ScheduledSms
+): Promise<'sent' | 'failed' | 'canceled' | 'deferred'> {
+  const [row] = await db
+    .select({ trigger: smsTriggers, campaign: campaigns })
+    .from(smsTriggers)
+    .innerJoin(campaigns, eq(smsTriggers.campaignId, campaigns.id))
+    .where(eq(smsTriggers.id, message.triggerId))
+    .limit(1);
+
+  const fromNumber = row?.campaign.twilioPhoneNumber;
+  if (!row || !row.trigger.isActive || !row.campaign.isActive || !fromNumber) {
+    await finishScheduledSms(message.id, { status: 'canceled', cancelReason: 'trigger_inactive' });
+    return 'canceled';
+  }
+  const { trigger, campaign } = row;
+
+  // STOP replies cancel eagerly; this also catches numbers an admin opted out
+  if (await findOptOut(message.toNumber, campaign.organizationId)) {
+    await finishScheduledSms(message.id, { status: 'canceled', cancelReason: 'opted_out' });
+    return 'canceled';
+  }
+
+  // A late cron run or a quiet hours change can land a due message inside quiet hours
+  const now = new Date();
+  const sendAt = applyQuietHours(now, message.timezone, trigger.quietHoursStart, trigger.quietHoursEnd);
+  if (sendAt > now) {
+    await finishScheduledSms(message.id, { status: 'pending', sendAt });
+    return 'deferred';
+  }
+
+  const result = await sendSms({
+    toNumber: message.toNumber,
+    fromNumber,
+    message: message.message,
+    interactionId: message.interactionId ?? undefined,
+    triggerId: trigger.id,
+    contactId: message.contactId,
+    organizationId: campaign.organizationId,
+    twilioAccountSid: campaign.twilioOverride
+      ? campaign.twilioAccountSid || undefined
+      : undefined,
+    twilioAuthToken: campaign.twilioOverride
+      ? revealSecret(campaign.twilioAuthToken) || undefined
+      : undefined,
+  });
+
+  await finishScheduledSms(message.id, {
+    status: result.success ? 'sent' : 'failed',
+    smsLogId: result.smsLogId,
+    lastError: result.error ?? null,
+  });
+
+  return result.success ? 'sent' : 'failed';
+}
+
+async function finishScheduledSms(
+  id: string,
+  changes: Partial<typeof scheduledSms.$inferInsert>
+): Promise<void> {
+  await db
+    .update(scheduledSms)
+    .set({ ...changes, lockedAt: null, updatedAt: new Date() })
+    .where(eq(scheduledSms.id, id));
+}
+
+/**
+ * Pending follow-up counts per trigger, for the trigger list
+ */
+export async function getPendingFollowUpCounts(triggerIds: string[]): Promise<Record<string, number>> {
+  if (triggerIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db
+    .select({
+      triggerId: scheduledSms.triggerId,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(scheduledSms)
+    .where(and(inArray(scheduledSms.triggerId, triggerIds), eq(scheduledSms.status, 'pending')))
+    .groupBy(scheduledSms.triggerId);
+
+  return Object.fromEntries(rows.map((row) => [row.triggerId, row.count]));
+}
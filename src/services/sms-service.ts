@@ -1,7 +1,13 @@
 import twilio from 'twilio';
 import { db } from '@/db';
-import { smsLogs, contacts } from '@/db/schema';
+import { smsLogs, campaigns, outboundCampaigns } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { findOptOut, describeOptOut } from '@/services/sms-opt-out';
+import { getStatusCallbackUrl, mapTwilioStatus } from '@/services/sms-delivery';
+import { OPT_OUT_MESSAGE } from '@/lib/sms-template';
+import { publishEvent } from '@/services/event-webhooks';
+import { findTwilioAuthToken, getTwilioCredentials } from '@/services/credential-vault';
+import { revealSecret } from '@/lib/credential-crypto';
 
 interface SendSmsParams {
   toNumber: string;
@@ -10,6 +16,7 @@ interface SendSmsParams {
   interactionId?: string;
   triggerId: string;
   contactId: string;
+  organizationId: string; // Whose opt-out list applies
   twilioAccountSid?: string;
   twilioAuthToken?: string;
 }
@@ -17,21 +24,58 @@ interface SendSmsParams {
 interface SendSmsResult {
   success: boolean;
   twilioSid?: string;
+  smsLogId?: string;
   error?: string;
+  optedOut?: boolean;
 }
 
-function getTwilioClient(accountSid?: string, authToken?: string) {
-  const sid = accountSid || process.env.TWILIO_ACCOUNT_SID;
-  const token = authToken || process.env.TWILIO_AUTH_TOKEN;
+/**
+ * Client for the account to send from: the campaign's own credentials when it
+ * overrides them, else the organization's connected account or the platform's
+ */
+async function getTwilioClient(organizationId: string, accountSid?: string, authToken?: string) {
+  const credentials = accountSid && authToken
+    ? { accountSid, authToken }
+    : await getTwilioCredentials(organizationId);
 
-  if (!sid || !token) {
+  if (!credentials) {
     throw new Error('Twilio credentials not configured');
   }
 
-  return twilio(sid, token);
+  return twilio(credentials.accountSid, credentials.authToken);
 }
 
-const OPT_OUT_MESSAGE = '\nReply STOP to opt out';
+/**
+ * Auth token Twilio signs webhooks for an account with: the platform
+ * account's, a connected organization account's, or a campaign's own
+ * credentials when it overrides them
+ */
+export async function getTwilioAuthToken(accountSid: string | null | undefined): Promise<string | null> {
+  if (!accountSid || accountSid === process.env.TWILIO_ACCOUNT_SID) {
+    return process.env.TWILIO_AUTH_TOKEN || null;
+  }
+
+  const connected = await findTwilioAuthToken(accountSid);
+  if (connected) {
+    return connected;
+  }
+
+  const [inbound] = await db
+    .select({ authToken: campaigns.twilioAuthToken })
+    .from(campaigns)
+    .where(and(eq(campaigns.twilioAccountSid, accountSid), eq(campaigns.twilioOverride, true)))
+    .limit(1);
+  if (inbound?.authToken) {
+    return revealSecret(inbound.authToken);
+  }
+
+  const [outbound] = await db
+    .select({ authToken: outboundCampaigns.twilioAuthToken })
+    .from(outboundCampaigns)
+    .where(and(eq(outboundCampaigns.twilioAccountSid, accountSid), eq(outboundCampaigns.twilioOverride, true)))
+    .limit(1);
+  return revealSecret(outbound?.authToken);
+}
 
 export async function sendSms(params: SendSmsParams): Promise<SendSmsResult> {
   const {
@@ -41,6 +85,7 @@ export async function sendSms(params: SendSmsParams): Promise<SendSmsResult> {
     interactionId,
     triggerId,
     contactId,
+    organizationId,
     twilioAccountSid,
     twilioAuthToken,
   } = params;
@@ -48,6 +93,26 @@ export async function sendSms(params: SendSmsParams): Promise<SendSmsResult> {
   // Add opt-out message
   const fullMessage = message + OPT_OUT_MESSAGE;
 
+  // Never message a number that replied STOP; log the refusal for the audit trail
+  const optOut = await findOptOut(toNumber, organizationId);
+  if (optOut) {
+    const reason = describeOptOut(optOut);
+    console.warn(`[SMS] Not sending to ${toNumber}: ${reason}`);
+
+    const [blockedLog] = await db.insert(smsLogs).values({
+      interactionId,
+      triggerId,
+      contactId,
+      toNumber,
+      fromNumber,
+      message: fullMessage,
+      status: 'blocked',
+      errorMessage: reason,
+    }).returning({ id: smsLogs.id });
+
+    return { success: false, smsLogId: blockedLog.id, error: reason, optedOut: true };
+  }
+
   // Create initial log entry
   const [logEntry] = await db
     .insert(smsLogs)
@@ -63,60 +128,60 @@ export async function sendSms(params: SendSmsParams): Promise<SendSmsResult> {
     .returning();
 
   try {
-    const client = getTwilioClient(twilioAccountSid, twilioAuthToken);
+    const client = await getTwilioClient(organizationId, twilioAccountSid, twilioAuthToken);
 
     const result = await client.messages.create({
       body: fullMessage,
       to: toNumber,
       from: fromNumber,
+      statusCallback: getStatusCallbackUrl(),
     });
 
-    // Update log with success
+    // Update log with Twilio's initial status; callbacks take it from there
     await db
       .update(smsLogs)
       .set({
-        status: 'sent',
+        status: mapTwilioStatus(result.status) ?? 'sent',
         twilioSid: result.sid,
+        statusUpdatedAt: new Date(),
       })
       .where(eq(smsLogs.id, logEntry.id));
 
-    // Update contact's triggered list
-    const [contact] = await db
-      .select()
-      .from(contacts)
-      .where(eq(contacts.id, contactId))
-      .limit(1);
-
-    if (contact) {
-      const currentTriggers = (contact.smsTriggersfred as string[]) || [];
-      if (!currentTriggers.includes(triggerId)) {
-        await db
-          .update(contacts)
-          .set({
-            smsTriggersfred: [...currentTriggers, triggerId],
-          })
-          .where(eq(contacts.id, contactId));
-      }
-    }
+    await publishEvent(organizationId, 'sms.sent', {
+      smsLogId: logEntry.id,
+      twilioSid: result.sid,
+      to: toNumber,
+      from: fromNumber,
+      message: fullMessage,
+      triggerId,
+      interactionId: interactionId ?? null,
+      contactId,
+    });
 
     return {
       success: true,
       twilioSid: result.sid,
+      smsLogId: logEntry.id,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // Twilio RestExceptions carry the numeric error code
+    const errorCode = typeof (error as { code?: unknown })?.code === 'number' ? (error as { code: number }).code : null;
 
     // Update log with failure
     await db
       .update(smsLogs)
       .set({
         status: 'failed',
+        errorCode,
         errorMessage,
+        statusUpdatedAt: new Date(),
       })
       .where(eq(smsLogs.id, logEntry.id));
 
     return {
       success: false,
+      smsLogId: logEntry.id,
       error: errorMessage,
     };
   }
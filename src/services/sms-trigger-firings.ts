@@ -0,0 +1,77 @@
+/**
+ * SMS Trigger Firings - History of triggers sent to each contact
+ *
+ * A firing is recorded when a trigger matches and its first message is sent
+ * or, for triggers without a message, at least one of its actions succeeds.
+ * Candidate triggers are filtered through their re-fire policy against this
+ * history before the AI evaluates them.
+ */
+
+import { db } from '@/db';
+import { smsTriggerFirings } from '@/db/schema';
+import type { SmsTrigger } from '@/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { canTriggerFire, PreviousFiring } from '@/lib/sms-trigger-policy';
+
+// Inbound contacts and outbound contacts live in separate tables
+export type FiringTarget =
+  | { contactId: string; outboundContactId?: undefined }
+  | { outboundContactId: string; contactId?: undefined };
+
+/**
+ * Triggers whose re-fire policy lets them fire for this contact now
+ */
+export async function filterFireableTriggers<T extends SmsTrigger>(
+  triggers: T[],
+  target: FiringTarget,
+  interactionId: string | null
+): Promise<T[]> {
+  if (triggers.length === 0) {
+    return [];
+  }
+
+  const firings = await db
+    .select({
+      triggerId: smsTriggerFirings.triggerId,
+      firedAt: smsTriggerFirings.firedAt,
+      interactionId: smsTriggerFirings.interactionId,
+      outboundCallLogId: smsTriggerFirings.outboundCallLogId,
+    })
+    .from(smsTriggerFirings)
+    .where(
+      and(
+        inArray(smsTriggerFirings.triggerId, triggers.map((t) => t.id)),
+        target.contactId
+          ? eq(smsTriggerFirings.contactId, target.contactId)
+          : eq(smsTriggerFirings.outboundContactId, target.outboundContactId!)
+      )
+    );
+
+  const byTrigger = new Map<string, PreviousFiring[]>();
+  for (const firing of firings) {
+    const previous = byTrigger.get(firing.triggerId) ?? [];
+    previous.push({ firedAt: firing.firedAt, interactionId: firing.interactionId ?? firing.outboundCallLogId });
+    byTrigger.set(firing.triggerId, previous);
+  }
+
+  const now = new Date();
+  return triggers.filter((trigger) =>
+    canTriggerFire(trigger, byTrigger.get(trigger.id) ?? [], { interactionId, now })
+  );
+}
+
+export async function recordTriggerFiring(firing: FiringTarget & {
+  triggerId: string;
+  interactionId?: string;
+  outboundCallLogId?: string;
+  smsLogId?: string;
+}): Promise<void> {
+  await db.insert(smsTriggerFirings).values({
+    triggerId: firing.triggerId,
+    contactId: firing.contactId,
+    outboundContactId: firing.outboundContactId,
+    interactionId: firing.interactionId,
+    outboundCallLogId: firing.outboundCallLogId,
+    smsLogId: firing.smsLogId,
+  });
+}
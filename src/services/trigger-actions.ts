@@ -0,0 +1,269 @@
+/**
+ * Trigger Actions - Non-SMS work a matched trigger performs
+ *
+ * Actions run after the trigger's SMS (if it has one): email the client's
+ * office, POST a JSON payload to their CRM, create a lead for a sales user,
+ * or tag/flag the interaction. Each action is independent; one failing does
+ * not stop the rest. Every attempt is written to trigger_action_logs, the
+ * same way sms_logs records each message.
+ */
+
+import { db } from '@/db';
+import { interactions, leadActivities, leadStages, leads, salesUsers, triggerActionLogs } from '@/db/schema';
+import type { Campaign, SmsTrigger, TriggerAction } from '@/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { sendEmail } from '@/services/email-service';
+import { renderSmsTemplate } from '@/lib/sms-template';
+import { computeSignature, SIGNATURE_HEADER } from '@/lib/webhook-signature';
+import { normalizeTags, parseEmailList } from '@/lib/trigger-actions';
+import { validateEndpointUrl } from '@/lib/event-webhooks';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAX_LOGGED_RESPONSE_LENGTH = 1000;
+
+export interface TriggerActionContext {
+  campaign: Pick<Campaign, 'id' | 'name' | 'organizationId'>;
+  interactionId: string | null;
+  outboundCallLogId?: string | null; // Outbound calls have a call log instead of an interaction
+  phoneNumber: string;
+  summary?: string;
+  extractedData: Record<string, unknown>;
+  variables: Record<string, string>; // Merge variables, as built for the trigger's SMS
+}
+
+interface ActionOutcome {
+  success: boolean;
+  target: string | null;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Run all of a trigger's actions, logging each result.
+ * Returns how many succeeded and failed.
+ */
+export async function runTriggerActions(
+  trigger: Pick<SmsTrigger, 'id' | 'name' | 'actions'>,
+  context: TriggerActionContext
+): Promise<{ succeeded: number; failed: number }> {
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const action of trigger.actions ?? []) {
+    let outcome: ActionOutcome;
+    try {
+      outcome = await runAction(action, trigger, context);
+    } catch (error) {
+      outcome = {
+        success: false,
+        target: null,
+        error: error instanceof Error ? error.message : 'Unknown action error',
+      };
+    }
+
+    if (outcome.success) {
+      succeeded++;
+    } else {
+      failed++;
+      console.error(`[Trigger Actions] ${action.type} action for trigger ${trigger.id} failed:`, outcome.error);
+    }
+
+    await db.insert(triggerActionLogs).values({
+      triggerId: trigger.id,
+      interactionId: context.interactionId,
+      outboundCallLogId: context.outboundCallLogId ?? null,
+      actionType: action.type,
+      status: outcome.success ? 'success' : 'failed',
+      target: outcome.target,
+      details: outcome.details,
+      errorMessage: outcome.error,
+    });
+  }
+
+  return { succeeded, failed };
+}
+
+function runAction(
+  action: TriggerAction,
+  trigger: Pick<SmsTrigger, 'id' | 'name'>,
+  context: TriggerActionContext
+): Promise<ActionOutcome> {
+  switch (action.type) {
+    case 'email':
+      return sendEmailAction(action, context);
+    case 'webhook':
+      return sendWebhookAction(action, trigger, context);
+    case 'create_lead':
+      return createLeadAction(action, trigger, context);
+    case 'tag':
+      return tagInteractionAction(action, context);
+  }
+}
+
+async function sendEmailAction(
+  action: Extract<TriggerAction, { type: 'email' }>,
+  context: TriggerActionContext
+): Promise<ActionOutcome> {
+  const recipients = parseEmailList(action.to);
+  const subject = renderSmsTemplate(action.subject, context.variables).text;
+  const body = renderSmsTemplate(action.body, context.variables).text;
+
+  const result = await sendEmail({
+    to: recipients,
+    subject,
+    html: `<div style="font-family: sans-serif; white-space: pre-wrap;">${escapeHtml(body)}</div>`,
+  });
+
+  return {
+    success: result.success,
+    target: recipients.join(', '),
+    details: { subject },
+    error: result.error,
+  };
+}
+
+async function sendWebhookAction(
+  action: Extract<TriggerAction, { type: 'webhook' }>,
+  trigger: Pick<SmsTrigger, 'id' | 'name'>,
+  context: TriggerActionContext
+): Promise<ActionOutcome> {
+  // Triggers saved before https was required must not push caller data in cleartext
+  const urlError = validateEndpointUrl(action.url);
+  if (urlError) {
+    return { success: false, target: action.url, error: urlError };
+  }
+
+  const body = JSON.stringify({
+    event: 'trigger.fired',
+    firedAt: new Date().toISOString(),
+    trigger: { id: trigger.id, name: trigger.name },
+    campaign: { id: context.campaign.id, name: context.campaign.name },
+    interactionId: context.interactionId,
+    outboundCallLogId: context.outboundCallLogId ?? null,
+    phoneNumber: context.phoneNumber,
+    summary: context.summary ?? null,
+    extractedData: context.extractedData,
+  });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (action.secret) {
+    headers[SIGNATURE_HEADER] = computeSignature(body, action.secret);
+  }
+
+  const response = await fetch(action.url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  const responseBody = (await response.text().catch(() => '')).slice(0, MAX_LOGGED_RESPONSE_LENGTH);
+
+  return {
+    success: response.ok,
+    target: action.url,
+    details: { status: response.status, response: responseBody },
+    error: response.ok ? undefined : `Webhook returned HTTP ${response.status}`,
+  };
+}
+
+async function createLeadAction(
+  action: Extract<TriggerAction, { type: 'create_lead' }>,
+  trigger: Pick<SmsTrigger, 'id' | 'name'>,
+  context: TriggerActionContext
+): Promise<ActionOutcome> {
+  const [salesUser] = await db
+    .select({ id: salesUsers.id, fullName: salesUsers.fullName, isActive: salesUsers.isActive })
+    .from(salesUsers)
+    .where(eq(salesUsers.id, action.salesUserId))
+    .limit(1);
+
+  if (!salesUser || !salesUser.isActive) {
+    return { success: false, target: action.salesUserId, error: 'Sales user not found or inactive' };
+  }
+
+  // Default stage, falling back to the first by order
+  const [defaultStage] = await db
+    .select({ id: leadStages.id })
+    .from(leadStages)
+    .where(eq(leadStages.isDefault, true))
+    .limit(1);
+
+  let stageId = defaultStage?.id;
+  if (!stageId) {
+    const [firstStage] = await db
+      .select({ id: leadStages.id })
+      .from(leadStages)
+      .orderBy(leadStages.order)
+      .limit(1);
+    stageId = firstStage?.id;
+  }
+
+  const { variables } = context;
+  const [lead] = await db
+    .insert(leads)
+    .values({
+      salesUserId: salesUser.id,
+      organizationId: context.campaign.organizationId,
+      stageId,
+      firstName: variables.firstName || 'Unknown',
+      lastName: variables.lastName || 'Caller',
+      email: variables.email || null,
+      phone: context.phoneNumber,
+      company: variables.company || null,
+      source: context.campaign.name,
+      notes: context.summary || null,
+      status: 'new',
+    })
+    .returning({ id: leads.id });
+
+  await db.insert(leadActivities).values({
+    leadId: lead.id,
+    userId: null,
+    userType: 'admin',
+    activityType: 'note',
+    title: 'Lead created',
+    description: `Created by the "${trigger.name}" trigger`,
+    metadata: { triggerId: trigger.id, interactionId: context.interactionId },
+  });
+
+  return {
+    success: true,
+    target: salesUser.fullName,
+    details: { leadId: lead.id, salesUserId: salesUser.id },
+  };
+}
+
+async function tagInteractionAction(
+  action: Extract<TriggerAction, { type: 'tag' }>,
+  context: TriggerActionContext
+): Promise<ActionOutcome> {
+  const tags = normalizeTags(action.tags);
+  const target = [...tags, ...(action.flag ? ['flagged'] : [])].join(', ');
+
+  if (!context.interactionId) {
+    return { success: false, target, error: 'No interaction to tag' };
+  }
+
+  // Merge into the existing tags without duplicates
+  await db
+    .update(interactions)
+    .set({
+      tags: sql`(
+        SELECT coalesce(jsonb_agg(DISTINCT tag), '[]'::jsonb)
+        FROM jsonb_array_elements_text(coalesce(${interactions.tags}, '[]'::jsonb) || ${JSON.stringify(tags)}::jsonb) AS tag
+      )`,
+      ...(action.flag ? { flagged: true } : {}),
+    })
+    .where(eq(interactions.id, context.interactionId));
+
+  return { success: true, target, details: { tags, flagged: action.flag } };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { computeHitRate, mapWithConcurrency } from './trigger-simulation';
+
+describe('Trigger Simulation', () => {
+  describe('Hit Rate', () => {
+    it('should divide matches by evaluated interactions', () => {
+      expect(computeHitRate(3, 12)).toBe(0.25);
+    });
+
+    it('should return null when nothing was evaluated', () => {
+      expect(computeHitRate(0, 0)).toBeNull();
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should keep input order', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 2, async (ms) => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return ms * 2;
+      });
+
+      expect(results).toEqual([60, 20, 40]);
+    });
+
+    it('should limit calls in flight', async () => {
+      let inFlight = 0;
+      let peak = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+      });
+
+      expect(peak).toBe(3);
+    });
+
+    it('should handle an empty list', async () => {
+      expect(await mapWithConcurrency([], 5, async () => 1)).toEqual([]);
+    });
+  });
+});
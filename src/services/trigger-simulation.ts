@@ -0,0 +1,182 @@
+/**
+ * Trigger Simulation - Dry runs of SMS triggers for the triggers admin page
+ *
+ * Simulation runs a campaign's triggers against a pasted transcript or a past
+ * interaction and reports what would fire and why. Backtesting runs a single
+ * (possibly unsaved) trigger over recent interactions to measure how often it
+ * matches. Neither sends SMS or records firings; model usage is still billed
+ * to the organization's usage ledger.
+ */
+
+import { db } from '@/db';
+import { interactions } from '@/db/schema';
+import type { Campaign, SmsTrigger } from '@/db/schema';
+import { and, desc, eq, isNotNull, or } from 'drizzle-orm';
+import { explainTriggers } from '@/services/ai-processor';
+import { filterFireableTriggers } from '@/services/sms-trigger-firings';
+import { recordAiUsage } from '@/services/usage-ledger';
+import type { AiUsage } from '@/services/ai-providers';
+
+export const MAX_BACKTEST_INTERACTIONS = 50;
+const BACKTEST_CONCURRENCY = 5;
+const MAX_BACKTEST_SAMPLES = 10;
+
+export interface TriggerSimulationResult {
+  triggerId: string;
+  name: string;
+  priority: number;
+  matched: boolean;
+  reason: string | null;
+  blockedByPolicy: boolean; // Already fired for this contact and its re-fire policy rules it out
+}
+
+export interface BacktestInteraction {
+  interactionId: string;
+  interactionNumber: number;
+  createdAt: Date;
+  summary: string | null;
+  reason: string | null;
+}
+
+export interface BacktestResult {
+  evaluated: number;
+  matched: number;
+  failed: number;
+  hitRate: number | null; // matched / evaluated
+  matches: BacktestInteraction[]; // Most recent matches, up to MAX_BACKTEST_SAMPLES
+  misses: BacktestInteraction[]; // Most recent non-matches, to check the trigger isn't too narrow
+}
+
+/**
+ * Which of the campaign's triggers would fire for a conversation.
+ * With a contact, triggers their re-fire policy rules out are flagged too.
+ */
+export async function simulateTriggers(
+  campaign: Campaign,
+  triggers: SmsTrigger[],
+  input: { transcript?: string; summary?: string; contactId?: string | null; interactionId?: string }
+): Promise<TriggerSimulationResult[]> {
+  const usage: AiUsage[] = [];
+  const evaluation = await explainTriggers(
+    input.transcript,
+    input.summary,
+    triggers.map((t) => ({ id: t.id, intentDescription: t.intentDescription, priority: t.priority })),
+    { model: campaign.aiModel, onUsage: (u) => usage.push(u) }
+  );
+
+  await recordAiUsage('ai_trigger_evaluation', usage, {
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+  });
+
+  const fireable = input.contactId
+    ? new Set((await filterFireableTriggers(triggers, { contactId: input.contactId }, input.interactionId ?? null)).map((t) => t.id))
+    : null;
+
+  return [...triggers]
+    .sort((a, b) => a.priority - b.priority)
+    .map((trigger) => ({
+      triggerId: trigger.id,
+      name: trigger.name,
+      priority: trigger.priority,
+      matched: evaluation.matchedTriggerIds.includes(trigger.id),
+      reason: evaluation.reasons[trigger.id] ?? null,
+      blockedByPolicy: fireable ? !fireable.has(trigger.id) : false,
+    }));
+}
+
+/**
+ * Run one trigger over the campaign's most recent interactions and report its hit rate
+ */
+export async function backtestTrigger(
+  campaign: Campaign,
+  trigger: { intentDescription: string },
+  limit: number
+): Promise<BacktestResult> {
+  const recent = await db
+    .select({
+      id: interactions.id,
+      interactionNumber: interactions.interactionNumber,
+      transcript: interactions.transcript,
+      aiSummary: interactions.aiSummary,
+      createdAt: interactions.createdAt,
+    })
+    .from(interactions)
+    .where(
+      and(
+        eq(interactions.campaignId, campaign.id),
+        or(isNotNull(interactions.transcript), isNotNull(interactions.aiSummary))
+      )
+    )
+    .orderBy(desc(interactions.createdAt))
+    .limit(Math.min(limit, MAX_BACKTEST_INTERACTIONS));
+
+  const usage: AiUsage[] = [];
+  const outcomes = await mapWithConcurrency(recent, BACKTEST_CONCURRENCY, async (interaction) => {
+    try {
+      const evaluation = await explainTriggers(
+        interaction.transcript ?? undefined,
+        interaction.aiSummary ?? undefined,
+        [{ id: 'backtest', intentDescription: trigger.intentDescription, priority: 1 }],
+        { model: campaign.aiModel, onUsage: (u) => usage.push(u) }
+      );
+
+      return {
+        matched: evaluation.matchedTriggerIds.includes('backtest'),
+        sample: {
+          interactionId: interaction.id,
+          interactionNumber: interaction.interactionNumber,
+          createdAt: interaction.createdAt,
+          summary: interaction.aiSummary,
+          reason: evaluation.reasons.backtest ?? null,
+        },
+      };
+    } catch (error) {
+      console.error(`[Trigger Backtest] Interaction ${interaction.id} failed:`, error);
+      return null;
+    }
+  });
+
+  await recordAiUsage('ai_trigger_evaluation', usage, {
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+  });
+
+  const evaluated = outcomes.filter((o) => o !== null);
+  const matched = evaluated.filter((o) => o.matched);
+
+  return {
+    evaluated: evaluated.length,
+    matched: matched.length,
+    failed: outcomes.length - evaluated.length,
+    hitRate: computeHitRate(matched.length, evaluated.length),
+    matches: matched.slice(0, MAX_BACKTEST_SAMPLES).map((o) => o.sample),
+    misses: evaluated.filter((o) => !o.matched).slice(0, MAX_BACKTEST_SAMPLES).map((o) => o.sample),
+  };
+}
+
+export function computeHitRate(matched: number, evaluated: number): number | null {
+  return evaluated > 0 ? matched / evaluated : null;
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight, keeping input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,207 @@
+/**
+ * Usage Ledger - Records AI token usage and voice call costs
+ *
+ * Every model request and vendor-reported call cost becomes a ledger row tied
+ * to its organization, campaign and interaction or call log, so client billing
+ * (per minute and per AI action) can be reconciled from our own data.
+ */
+
+import { db } from '@/db';
+import { usageLedger, usageKindEnum, campaigns, outboundCampaigns, organizations } from '@/db/schema';
+import { and, eq, gte, lte, inArray, sql, SQL } from 'drizzle-orm';
+import { estimateAiCostMicros, usdToMicros } from '@/lib/ai-pricing';
+import type { AiUsage } from '@/services/ai-providers';
+
+export type UsageKind = (typeof usageKindEnum.enumValues)[number];
+
+export interface UsageContext {
+  organizationId: string;
+  campaignId?: string | null;
+  outboundCampaignId?: string | null;
+  interactionId?: string | null;
+  outboundCallLogId?: string | null;
+}
+
+export interface VoiceCallUsage {
+  provider: string;
+  costUsd?: number;
+  durationSeconds?: number | null;
+  breakdown?: Record<string, number>;
+}
+
+export interface UsageTotals {
+  aiRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  aiCostMicros: number;
+  voiceCalls: number;
+  voiceSeconds: number;
+  voiceCostMicros: number;
+}
+
+export interface UsageRollup {
+  totals: UsageTotals;
+  byOrganization: Array<UsageTotals & { organizationId: string; organizationName: string | null }>;
+  byCampaign: Array<UsageTotals & {
+    campaignId: string | null;
+    outboundCampaignId: string | null;
+    campaignName: string | null;
+    organizationName: string | null;
+  }>;
+}
+
+/**
+ * Write one ledger row per model request. Failures are logged and swallowed so
+ * accounting never fails ingest.
+ */
+export async function recordAiUsage(
+  kind: Exclude<UsageKind, 'voice_call'>,
+  usage: AiUsage[],
+  context: UsageContext
+): Promise<void> {
+  if (usage.length === 0) return;
+
+  try {
+    await db.insert(usageLedger).values(
+      usage.map((u) => ({
+        ...context,
+        kind,
+        provider: u.provider,
+        model: u.model,
+        promptTokens: u.promptTokens,
+        completionTokens: u.completionTokens,
+        costMicros: estimateAiCostMicros(u.model, u.promptTokens, u.completionTokens),
+      }))
+    );
+  } catch (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+}
+
+/**
+ * Record the vendor-reported cost and duration of a voice call. VAPI can send
+ * several end events for one outbound call, so the latest figures replace
+ * any earlier row for the same call log.
+ */
+export async function recordVoiceCallUsage(call: VoiceCallUsage, context: UsageContext): Promise<void> {
+  if (call.costUsd === undefined && !call.durationSeconds) return;
+
+  try {
+    if (context.outboundCallLogId) {
+      await db
+        .delete(usageLedger)
+        .where(and(
+          eq(usageLedger.outboundCallLogId, context.outboundCallLogId),
+          eq(usageLedger.kind, 'voice_call')
+        ));
+    }
+
+    await db.insert(usageLedger).values({
+      ...context,
+      kind: 'voice_call',
+      provider: call.provider,
+      costMicros: call.costUsd !== undefined ? usdToMicros(call.costUsd) : null,
+      durationSeconds: call.durationSeconds ?? null,
+      costBreakdown: call.breakdown,
+    });
+  } catch (error) {
+    console.error('Failed to record voice call usage:', error);
+  }
+}
+
+function totalsColumns() {
+  const isVoice = sql`${usageLedger.kind} = 'voice_call'`;
+  const total = (expression: SQL) => sql<number>`coalesce(${expression}, 0)`.mapWith(Number);
+
+  return {
+    aiRequests: total(sql`count(*) filter (where not ${isVoice})`),
+    promptTokens: total(sql`sum(${usageLedger.promptTokens})`),
+    completionTokens: total(sql`sum(${usageLedger.completionTokens})`),
+    aiCostMicros: total(sql`sum(${usageLedger.costMicros}) filter (where not ${isVoice})`),
+    voiceCalls: total(sql`count(*) filter (where ${isVoice})`),
+    voiceSeconds: total(sql`sum(${usageLedger.durationSeconds}) filter (where ${isVoice})`),
+    voiceCostMicros: total(sql`sum(${usageLedger.costMicros}) filter (where ${isVoice})`),
+  };
+}
+
+/**
+ * Usage totals for a date range, rolled up per organization and per campaign.
+ * organizationIds restricts the rollup; campaignId may be inbound or outbound.
+ */
+export async function getUsageRollup(params: {
+  start: Date;
+  end: Date;
+  organizationIds?: string[];
+  campaignId?: string | null;
+}): Promise<UsageRollup> {
+  const conditions: SQL[] = [
+    gte(usageLedger.createdAt, params.start),
+    lte(usageLedger.createdAt, params.end),
+  ];
+
+  if (params.organizationIds) {
+    if (params.organizationIds.length === 0) {
+      return { totals: emptyTotals(), byOrganization: [], byCampaign: [] };
+    }
+    conditions.push(inArray(usageLedger.organizationId, params.organizationIds));
+  }
+
+  if (params.campaignId) {
+    conditions.push(sql`(${usageLedger.campaignId} = ${params.campaignId} or ${usageLedger.outboundCampaignId} = ${params.campaignId})`);
+  }
+
+  const where = and(...conditions);
+  const columns = totalsColumns();
+
+  const [[totals], byOrganization, byCampaign] = await Promise.all([
+    db.select(columns).from(usageLedger).where(where),
+
+    db
+      .select({
+        organizationId: usageLedger.organizationId,
+        organizationName: organizations.name,
+        ...columns,
+      })
+      .from(usageLedger)
+      .leftJoin(organizations, eq(usageLedger.organizationId, organizations.id))
+      .where(where)
+      .groupBy(usageLedger.organizationId, organizations.name)
+      .orderBy(sql`coalesce(sum(${usageLedger.costMicros}), 0) desc`),
+
+    db
+      .select({
+        campaignId: usageLedger.campaignId,
+        outboundCampaignId: usageLedger.outboundCampaignId,
+        campaignName: sql<string | null>`coalesce(${campaigns.name}, ${outboundCampaigns.name})`,
+        organizationName: organizations.name,
+        ...columns,
+      })
+      .from(usageLedger)
+      .leftJoin(campaigns, eq(usageLedger.campaignId, campaigns.id))
+      .leftJoin(outboundCampaigns, eq(usageLedger.outboundCampaignId, outboundCampaigns.id))
+      .leftJoin(organizations, eq(usageLedger.organizationId, organizations.id))
+      .where(where)
+      .groupBy(
+        usageLedger.campaignId,
+        usageLedger.outboundCampaignId,
+        campaigns.name,
+        outboundCampaigns.name,
+        organizations.name
+      )
+      .orderBy(sql`coalesce(sum(${usageLedger.costMicros}), 0) desc`),
+  ]);
+
+  return { totals: totals ?? emptyTotals(), byOrganization, byCampaign };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    aiRequests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    aiCostMicros: 0,
+    voiceCalls: 0,
+    voiceSeconds: 0,
+    voiceCostMicros: 0,
+  };
+}
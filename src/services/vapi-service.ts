@@ -1,8 +1,8 @@
 /**
  * VAPI Service - Handles integration with VAPI.ai for outbound calling
  *
- * IMPORTANT: VAPI API keys are NOT stored in the database.
- * Keys are provided per-session by the admin and passed to each function.
+ * Keys are passed to each function; callers get an organization's key from
+ * the credential vault. The dialer reaches VAPI through voice-providers/vapi.
  */
 
 const VAPI_BASE_URL = 'https://api.vapi.ai';
@@ -75,6 +75,7 @@ export interface VapiCall {
     recordingUrl?: string;
     transcript?: string;
   };
+  cost?: number;
   costBreakdown?: {
     llm?: number;
     stt?: number;
@@ -0,0 +1,99 @@
+/**
+ * Autocalls Provider - Outbound calls through Autocalls.ai assistants
+ *
+ * Calls report to the webhook set on the assistant, with the same payload the
+ * inbound Autocalls parser reads. AUTOCALLS_API_URL points at another
+ * deployment of the same API.
+ */
+
+import { autocallsParser } from '@/services/payload-parsers/autocalls';
+import { isRecord, asString, asNumber } from '@/services/payload-parsers/types';
+import { providerRequest } from './request';
+import type { VoiceCall, VoiceCallResult, VoiceProvider } from './types';
+
+const AUTOCALLS_BASE_URL = 'https://app.autocalls.ai/api';
+
+// Outcomes Autocalls reports while the call is still going
+const LIVE_STATUSES = ['queued', 'initiated', 'ringing', 'in_progress', 'ongoing'];
+
+export function createAutocallsProvider(baseUrl = process.env.AUTOCALLS_API_URL || AUTOCALLS_BASE_URL): VoiceProvider {
+  const request = <T>(apiKey: string, endpoint: string, options?: RequestInit) =>
+    providerRequest<T>('Autocalls', `${baseUrl.replace(/\/$/, '')}${endpoint}`, { Authorization: `Bearer ${apiKey}` }, options);
+
+  return {
+    name: 'autocalls',
+    requiresApiKey: true,
+
+    async testConnection(apiKey) {
+      try {
+        await request(apiKey, '/user/me');
+        return { success: true, message: 'Connected successfully.' };
+      } catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : 'Failed to connect to Autocalls' };
+      }
+    },
+
+    async createCall(apiKey, params) {
+      const result = await request<Record<string, unknown>>(apiKey, '/user/make_call', {
+        method: 'POST',
+        body: JSON.stringify({
+          assistant_id: params.agentId,
+          phone_number_id: params.phoneNumberId,
+          phone_number: params.customerNumber,
+          variables: { ...params.variables, customer_name: params.customerName },
+        }),
+      });
+      const id = asString(result.call_id) ?? asString(result.id);
+      if (!id) {
+        throw new Error(asString(result.message) ?? 'Autocalls did not return a call ID');
+      }
+      return { id };
+    },
+
+    async getCall(apiKey, callId) {
+      const result = await request<Record<string, unknown>>(apiKey, `/user/calls/${callId}`);
+      return toVoiceCall(isRecord(result.data) ? result.data : result);
+    },
+
+    async endCall(apiKey, callId) {
+      await request(apiKey, `/user/calls/${callId}/end`, { method: 'POST' });
+    },
+
+    parseWebhook(payload) {
+      if (!isRecord(payload) || !autocallsParser.matches(payload)) return null;
+      return toVoiceCall(payload);
+    },
+  };
+}
+
+function toVoiceCall(call: Record<string, unknown>): VoiceCall {
+  const parsed = autocallsParser.parse(call);
+  const outcome = (asString(call.call_outcome) ?? asString(call.status))?.toLowerCase().replace(/[\s-]/g, '_');
+  const ended = outcome !== undefined ? !LIVE_STATUSES.includes(outcome) : !!parsed.transcript;
+  const endedAt = asString(call.ended_at) ?? asString(call.end_time);
+
+  return {
+    id: String(call.call_id ?? call.id),
+    ended,
+    result: ended ? mapResult(outcome, !!parsed.transcript) : null,
+    customerNumber: parsed.extractedData.phoneNumber,
+    durationSeconds: parsed.durationSeconds ?? null,
+    transcript: parsed.transcript ?? '',
+    messages: parsed.transcriptFormatted ?? null,
+    recordingUrl: parsed.recordingUrl,
+    summary: parsed.extractedData.summary,
+    structuredData: parsed.extractedData.customFields,
+    endedAt: endedAt ? new Date(endedAt) : undefined,
+    costUsd: asNumber(call.cost) ?? asNumber(call.price),
+    raw: call,
+  };
+}
+
+function mapResult(outcome: string | undefined, hasTranscript: boolean): VoiceCallResult {
+  if (outcome === 'voicemail') return 'voicemail';
+  if (outcome === 'busy') return 'busy';
+  if (outcome && ['no_answer', 'not_answered', 'unanswered'].includes(outcome)) return 'no_answer';
+  if (outcome && ['failed', 'error'].includes(outcome)) return 'failed';
+  if (outcome && ['canceled', 'cancelled'].includes(outcome)) return 'canceled';
+  return hasTranscript ? 'answered' : 'no_answer';
+}
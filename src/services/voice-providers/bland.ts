@@ -0,0 +1,103 @@
+/**
+ * Bland Provider - Outbound calls through Bland AI pathways
+ *
+ * The campaign's agent is a pathway ID and its number is one of the account's
+ * numbers in E.164. Bland posts the finished call to the webhook sent with it.
+ */
+
+import { isRecord, asString, asNumber, formatTranscript } from '@/services/payload-parsers/types';
+import { providerRequest } from './request';
+import type { VoiceCall, VoiceCallResult, VoiceProvider } from './types';
+
+const BLAND_BASE_URL = 'https://api.bland.ai/v1';
+
+export function createBlandProvider(): VoiceProvider {
+  // Bland takes the bare key, without a Bearer prefix
+  const request = <T>(apiKey: string, endpoint: string, options?: RequestInit) =>
+    providerRequest<T>('Bland', `${BLAND_BASE_URL}${endpoint}`, { Authorization: apiKey }, options);
+
+  return {
+    name: 'bland',
+    requiresApiKey: true,
+
+    async testConnection(apiKey) {
+      try {
+        await request(apiKey, '/me');
+        return { success: true, message: 'Connected successfully.' };
+      } catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : 'Failed to connect to Bland' };
+      }
+    },
+
+    async createCall(apiKey, params) {
+      const result = await request<Record<string, unknown>>(apiKey, '/calls', {
+        method: 'POST',
+        body: JSON.stringify({
+          phone_number: params.customerNumber,
+          from: params.phoneNumberId,
+          pathway_id: params.agentId,
+          request_data: { ...params.variables, customer_name: params.customerName },
+          webhook: params.webhookUrl,
+        }),
+      });
+      if (!asString(result.call_id)) {
+        throw new Error(asString(result.message) ?? 'Bland did not return a call ID');
+      }
+      return { id: String(result.call_id) };
+    },
+
+    async getCall(apiKey, callId) {
+      return toVoiceCall(await request<Record<string, unknown>>(apiKey, `/calls/${callId}`));
+    },
+
+    async endCall(apiKey, callId) {
+      await request(apiKey, `/calls/${callId}/stop`, { method: 'POST' });
+    },
+
+    // The webhook body is the call itself
+    parseWebhook(payload) {
+      if (!isRecord(payload) || !asString(payload.call_id)) return null;
+      return toVoiceCall(payload);
+    },
+  };
+}
+
+function toVoiceCall(call: Record<string, unknown>): VoiceCall {
+  const status = asString(call.status)?.toLowerCase() ?? '';
+  const ended = call.completed === true || ['completed', 'failed', 'busy', 'no-answer', 'canceled'].includes(status);
+
+  const messages = Array.isArray(call.transcripts)
+    ? call.transcripts
+        .filter(isRecord)
+        .filter((turn) => turn.user === 'user' || turn.user === 'assistant')
+        .map((turn) => ({ role: String(turn.user), content: asString(turn.text) ?? '' }))
+    : null;
+  const transcript = asString(call.concatenated_transcript) ?? (messages ? formatTranscript(messages) : '');
+  const minutes = asNumber(call.call_length);
+  const endedAt = asString(call.end_at);
+
+  return {
+    id: String(call.call_id),
+    ended,
+    result: ended ? mapResult(status, asString(call.answered_by), !!asString(call.error_message), transcript) : null,
+    customerNumber: asString(call.to),
+    durationSeconds: minutes !== undefined ? Math.round(minutes * 60) : null,
+    transcript,
+    messages,
+    recordingUrl: asString(call.recording_url),
+    summary: asString(call.summary),
+    structuredData: isRecord(call.analysis) ? call.analysis : undefined,
+    endedAt: endedAt ? new Date(endedAt) : undefined,
+    costUsd: asNumber(call.price),
+    raw: call,
+  };
+}
+
+function mapResult(status: string, answeredBy: string | undefined, hasError: boolean, transcript: string): VoiceCallResult {
+  if (status === 'busy') return 'busy';
+  if (status === 'no-answer' || answeredBy === 'no-answer') return 'no_answer';
+  if (status === 'canceled') return 'canceled';
+  if (status === 'failed' || (hasError && !transcript)) return 'failed';
+  if (answeredBy === 'voicemail') return 'voicemail';
+  return transcript ? 'answered' : 'no_answer';
+}
@@ -0,0 +1,161 @@
+/**
+ * Fake Provider - Simulated calls for local development and tests
+ *
+ * Needs no API key or network access. The outcome depends on the last digit
+ * of the number dialed, so the same contact always gets the same result:
+ *
+ *   0-4 answered, 5 answered and asks not to be called again,
+ *   6-7 no answer, 8 voicemail, 9 busy
+ *
+ * Numbers with fewer than 10 digits are rejected like an invalid destination.
+ * Calls are stateless: everything needed to replay one is in its ID. When the
+ * dialer passes a webhook URL the end-of-call event is posted to it once the
+ * call is over; the reaper settles calls whose event got lost or rejected.
+ */
+
+import { isRecord, asString, asNumber, formatTranscript } from '@/services/payload-parsers/types';
+import type { VoiceCall, VoiceCallResult, VoiceProvider } from './types';
+
+const COST_PER_MINUTE_USD = 0.05;
+
+interface FakeProviderOptions {
+  callDurationMs?: number; // Wall-clock time before a call reports that it ended
+  now?: () => number;
+  deliverWebhook?: (url: string, payload: Record<string, unknown>) => void;
+}
+
+interface Script {
+  result: VoiceCallResult;
+  seconds: number;
+  turns: Array<{ role: string; content: string }>;
+}
+
+const GREETING = { role: 'assistant', content: 'Hi, this is Alex calling on behalf of our team. Is now a good time to talk?' };
+
+const ANSWERED: Script = {
+  result: 'answered',
+  seconds: 74,
+  turns: [
+    GREETING,
+    { role: 'user', content: 'Sure, I have a couple of minutes.' },
+    { role: 'assistant', content: 'Great. We have openings next week. Would you like me to book an appointment?' },
+    { role: 'user', content: 'Yes, Tuesday morning works for me. Thanks!' },
+    { role: 'assistant', content: 'You are booked for Tuesday at 10am. You will get a confirmation by text.' },
+  ],
+};
+
+const DNC_REQUEST: Script = {
+  result: 'answered',
+  seconds: 18,
+  turns: [
+    GREETING,
+    { role: 'user', content: 'No thanks. Please take me off your calling list.' },
+    { role: 'assistant', content: 'Understood, we will not call you again. Have a good day.' },
+  ],
+};
+
+const SCRIPTS: Record<string, Script> = {
+  5: DNC_REQUEST,
+  6: { result: 'no_answer', seconds: 0, turns: [] },
+  7: { result: 'no_answer', seconds: 0, turns: [] },
+  8: { result: 'voicemail', seconds: 22, turns: [] },
+  9: { result: 'busy', seconds: 0, turns: [] },
+};
+
+export function createFakeProvider(options: FakeProviderOptions = {}): VoiceProvider {
+  const callDurationMs = options.callDurationMs ?? 5000;
+  const now = options.now ?? Date.now;
+  const deliverWebhook = options.deliverWebhook ?? postWebhook;
+
+  return {
+    name: 'fake',
+    requiresApiKey: false,
+
+    async testConnection() {
+      return { success: true, message: 'Fake provider: calls are simulated.' };
+    },
+
+    async createCall(_apiKey, params) {
+      const digits = params.customerNumber.replace(/\D/g, '');
+      if (digits.length < 10) {
+        throw new Error(`Invalid destination number: ${params.customerNumber}`);
+      }
+
+      const id = `fake_${now()}_${digits}_${Math.random().toString(36).slice(2, 8)}`;
+
+      if (params.webhookUrl) {
+        const webhookUrl = params.webhookUrl;
+        const timer = setTimeout(() => {
+          deliverWebhook(webhookUrl, { type: 'call-ended', call: simulateCall(id, now()) });
+        }, callDurationMs);
+        timer.unref?.();
+      }
+
+      return { id };
+    },
+
+    async getCall(_apiKey, callId) {
+      return toVoiceCall(simulateCall(callId, now()));
+    },
+
+    async endCall() {
+      // Simulated calls end on their own
+    },
+
+    // { type: 'call-ended', call }, as delivered by createCall
+    parseWebhook(payload) {
+      if (!isRecord(payload) || !isRecord(payload.call) || !asString(payload.call.id)?.startsWith('fake_')) return null;
+      return toVoiceCall(payload.call);
+    },
+  };
+
+  function simulateCall(callId: string, at: number): Record<string, unknown> {
+    const [, startedAt, digits] = callId.split('_');
+    if (!startedAt || !digits) {
+      throw new Error(`Unknown fake call: ${callId}`);
+    }
+
+    const script = SCRIPTS[digits.slice(-1)] ?? ANSWERED;
+    const endsAt = Number(startedAt) + callDurationMs;
+    const ended = at >= endsAt;
+
+    return {
+      id: callId,
+      status: ended ? 'ended' : 'in-progress',
+      result: ended ? script.result : null,
+      customerNumber: `+${digits}`,
+      durationSeconds: ended ? script.seconds : null,
+      messages: ended ? script.turns : [],
+      endedAt: ended ? new Date(endsAt).toISOString() : null,
+      costUsd: ended ? Math.round((script.seconds / 60) * COST_PER_MINUTE_USD * 10000) / 10000 : null,
+    };
+  }
+}
+
+function toVoiceCall(call: Record<string, unknown>): VoiceCall {
+  const messages = Array.isArray(call.messages)
+    ? call.messages.filter(isRecord).map((turn) => ({ role: String(turn.role), content: String(turn.content) }))
+    : [];
+  const endedAt = asString(call.endedAt);
+
+  return {
+    id: String(call.id),
+    ended: call.status === 'ended',
+    result: (asString(call.result) as VoiceCallResult | undefined) ?? null,
+    customerNumber: asString(call.customerNumber),
+    durationSeconds: asNumber(call.durationSeconds) ?? null,
+    transcript: formatTranscript(messages),
+    messages: messages.length > 0 ? messages : null,
+    endedAt: endedAt ? new Date(endedAt) : undefined,
+    costUsd: asNumber(call.costUsd),
+    raw: call,
+  };
+}
+
+function postWebhook(url: string, payload: Record<string, unknown>): void {
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  }).catch((error) => console.error('[Fake Voice] Webhook delivery failed:', error));
+}
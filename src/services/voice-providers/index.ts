@@ -0,0 +1,60 @@
+/**
+ * Voice Providers - Places and tracks outbound calls for a campaign
+ *
+ * Each outbound campaign names the provider it dials through. Providers map
+ * their calls and webhooks to one VoiceCall shape, so the dialer, the reaper
+ * and the outbound webhook don't depend on any one platform.
+ */
+
+import type { VoiceProviderName } from '@/db/schema';
+import { createVapiProvider } from './vapi';
+import { createRetellProvider } from './retell';
+import { createBlandProvider } from './bland';
+import { createAutocallsProvider } from './autocalls';
+import { createFakeProvider } from './fake';
+import type { VoiceProvider } from './types';
+
+export type { CreateCallParams, VoiceCall, VoiceCallResult, VoiceProvider } from './types';
+export { createVapiProvider } from './vapi';
+export { createRetellProvider } from './retell';
+export { createBlandProvider } from './bland';
+export { createAutocallsProvider } from './autocalls';
+export { createFakeProvider } from './fake';
+
+const factories: Record<VoiceProviderName, () => VoiceProvider> = {
+  vapi: createVapiProvider,
+  retell: createRetellProvider,
+  bland: createBlandProvider,
+  autocalls: () => createAutocallsProvider(),
+  fake: () => createFakeProvider(),
+};
+
+const activeProviders = new Map<VoiceProviderName, VoiceProvider>();
+
+/**
+ * The provider a campaign dials through, created on first use
+ */
+export function getVoiceProvider(name: VoiceProviderName): VoiceProvider {
+  let provider = activeProviders.get(name);
+  if (!provider) {
+    const factory = factories[name];
+    if (!factory) {
+      throw new Error(`Unknown voice provider "${name}"`);
+    }
+    provider = factory();
+    activeProviders.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Override a provider, or pass null to go back to the built-in one. Intended
+ * for tests.
+ */
+export function setVoiceProvider(name: VoiceProviderName, provider: VoiceProvider | null): void {
+  if (provider) {
+    activeProviders.set(name, provider);
+  } else {
+    activeProviders.delete(name);
+  }
+}
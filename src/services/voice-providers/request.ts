@@ -0,0 +1,29 @@
+import { isRecord, asString } from '@/services/payload-parsers/types';
+
+/**
+ * JSON request to a provider's REST API, throwing the provider's own error
+ * message when it sends one
+ */
+export async function providerRequest<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  options: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const error: unknown = await response.json().catch(() => null);
+    const message = isRecord(error) ? asString(error.message) ?? asString(error.error) : undefined;
+    throw new Error(message || `${label} API error: ${response.status}`);
+  }
+
+  return response.json();
+}
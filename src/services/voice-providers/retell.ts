@@ -0,0 +1,121 @@
+/**
+ * Retell Provider - Outbound calls through Retell AI agents
+ *
+ * Retell dials from a number bought or imported into the account, given in
+ * E.164 rather than by ID, and reports to the webhook URL set on the agent.
+ */
+
+import { isRecord, asString, asNumber, formatTranscript } from '@/services/payload-parsers/types';
+import { providerRequest } from './request';
+import type { VoiceCall, VoiceCallResult, VoiceProvider } from './types';
+
+const RETELL_BASE_URL = 'https://api.retellai.com';
+
+// Retell's disconnection_reason values for calls nobody picked up
+const UNANSWERED_REASONS: Record<string, VoiceCallResult> = {
+  dial_busy: 'busy',
+  dial_no_answer: 'no_answer',
+  voicemail_reached: 'voicemail',
+  dial_failed: 'failed',
+  invalid_destination: 'failed',
+  telephony_provider_permission_denied: 'failed',
+  telephony_provider_unavailable: 'failed',
+  concurrency_limit_reached: 'failed',
+  no_valid_payment: 'failed',
+  scam_detected: 'failed',
+};
+
+export function createRetellProvider(): VoiceProvider {
+  const request = <T>(apiKey: string, endpoint: string, options?: RequestInit) =>
+    providerRequest<T>('Retell', `${RETELL_BASE_URL}${endpoint}`, { Authorization: `Bearer ${apiKey}` }, options);
+
+  return {
+    name: 'retell',
+    requiresApiKey: true,
+
+    async testConnection(apiKey) {
+      try {
+        const agents = await request<unknown[]>(apiKey, '/list-agents');
+        return { success: true, message: `Connected successfully. Found ${agents.length} agent(s).` };
+      } catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : 'Failed to connect to Retell' };
+      }
+    },
+
+    async createCall(apiKey, params) {
+      const call = await request<Record<string, unknown>>(apiKey, '/v2/create-phone-call', {
+        method: 'POST',
+        body: JSON.stringify({
+          from_number: params.phoneNumberId,
+          to_number: params.customerNumber,
+          override_agent_id: params.agentId,
+          retell_llm_dynamic_variables: params.variables,
+          metadata: params.customerName ? { customer_name: params.customerName } : undefined,
+        }),
+      });
+      return { id: String(call.call_id) };
+    },
+
+    async getCall(apiKey, callId) {
+      return toVoiceCall(await request<Record<string, unknown>>(apiKey, `/v2/get-call/${callId}`));
+    },
+
+    async endCall() {
+      throw new Error('Retell does not support ending phone calls over the API');
+    },
+
+    // { event: 'call_started' | 'call_ended' | 'call_analyzed', call }. Both of the last two
+    // carry the ended call; only call_analyzed, which has the summary, finishes it.
+    parseWebhook(payload) {
+      if (!isRecord(payload) || !isRecord(payload.call) || !asString(payload.call.call_id)) return null;
+      return toVoiceCall(payload.call, payload.event === 'call_analyzed');
+    },
+  };
+}
+
+function toVoiceCall(call: Record<string, unknown>, finalEvent = true): VoiceCall {
+  const status = asString(call.call_status);
+  const ended = finalEvent && (status === 'ended' || status === 'error');
+  const analysis = isRecord(call.call_analysis) ? call.call_analysis : {};
+  const cost = isRecord(call.call_cost) ? call.call_cost : {};
+
+  const messages = Array.isArray(call.transcript_object)
+    ? call.transcript_object.filter(isRecord).map((turn) => ({
+        role: turn.role === 'agent' ? 'assistant' : 'user',
+        content: asString(turn.content) ?? '',
+      }))
+    : null;
+  const transcript = asString(call.transcript) ?? (messages ? formatTranscript(messages) : '');
+
+  const start = asNumber(call.start_timestamp);
+  const end = asNumber(call.end_timestamp);
+  const cents = asNumber(cost.combined_cost);
+
+  return {
+    id: String(call.call_id),
+    ended,
+    result: ended ? mapResult(status, asString(call.disconnection_reason), analysis.in_voicemail === true, transcript) : null,
+    customerNumber: asString(call.to_number),
+    durationSeconds: start !== undefined && end !== undefined ? Math.round((end - start) / 1000) : null,
+    transcript,
+    messages,
+    recordingUrl: asString(call.recording_url),
+    summary: asString(analysis.call_summary),
+    structuredData: isRecord(analysis.custom_analysis_data) ? analysis.custom_analysis_data : undefined,
+    endedAt: end !== undefined ? new Date(end) : undefined,
+    costUsd: cents !== undefined ? cents / 100 : undefined,
+    raw: call,
+  };
+}
+
+function mapResult(
+  status: string | undefined,
+  reason: string | undefined,
+  inVoicemail: boolean,
+  transcript: string
+): VoiceCallResult {
+  if (inVoicemail) return 'voicemail';
+  if (reason && UNANSWERED_REASONS[reason]) return UNANSWERED_REASONS[reason];
+  if (status === 'error' || reason?.startsWith('error')) return 'failed';
+  return transcript ? 'answered' : 'no_answer';
+}
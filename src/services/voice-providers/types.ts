@@ -0,0 +1,56 @@
+import type { VoiceProviderName } from '@/db/schema';
+
+export type VoiceCallResult = 'answered' | 'no_answer' | 'busy' | 'failed' | 'voicemail' | 'canceled';
+
+export interface CreateCallParams {
+  agentId: string; // Assistant, agent or pathway configured at the provider
+  phoneNumberId: string; // Number to call from: the provider's ID, or E.164 for providers that dial by number
+  customerNumber: string;
+  customerName?: string;
+  variables?: Record<string, string>; // Template values for the agent's prompt
+  webhookUrl?: string; // Used by providers that take a callback per call; the rest use their dashboard setting
+}
+
+/**
+ * A call as every provider reports it, once mapped to our call results
+ */
+export interface VoiceCall {
+  id: string;
+  ended: boolean;
+  result: VoiceCallResult | null; // Set once the call has ended
+  customerNumber?: string;
+  durationSeconds: number | null;
+  transcript: string;
+  messages: Array<{ role: string; content: string }> | null; // role is 'assistant' or 'user'
+  recordingUrl?: string;
+  summary?: string;
+  structuredData?: Record<string, unknown>;
+  endedAt?: Date;
+  costUsd?: number;
+  costBreakdown?: Record<string, number>;
+  raw: Record<string, unknown>; // The provider's own call object, stored on the call log
+}
+
+export interface VoiceProvider {
+  readonly name: VoiceProviderName;
+
+  /** Whether calls need an API key from the credential vault or environment */
+  readonly requiresApiKey: boolean;
+
+  /** Cheap authenticated request, used to check a key before it is saved */
+  testConnection(apiKey: string): Promise<{ success: boolean; message: string }>;
+
+  /** Start dialing; returns the provider's call ID */
+  createCall(apiKey: string, params: CreateCallParams): Promise<{ id: string }>;
+
+  getCall(apiKey: string, callId: string): Promise<VoiceCall>;
+
+  /** Hang up a call in progress */
+  endCall(apiKey: string, callId: string): Promise<void>;
+
+  /**
+   * The call a webhook payload reports on, or null for payloads without one.
+   * Only the one final event a provider sends per call is marked ended.
+   */
+  parseWebhook(payload: unknown): VoiceCall | null;
+}
@@ -0,0 +1,81 @@
+/**
+ * VAPI Provider - Outbound calls through VAPI assistants
+ *
+ * VAPI reports to the server URL set on the assistant or phone number, so the
+ * per-call webhook URL is not sent.
+ */
+
+import {
+  VapiCall,
+  calculateCallDuration,
+  createOutboundCall,
+  endVapiCall,
+  formatVapiTranscript,
+  getVapiCall,
+  mapVapiStatusToResult,
+  testVapiConnection,
+} from '@/services/vapi-service';
+import { formatCostBreakdown } from '@/services/payload-parsers/vapi';
+import { isRecord } from '@/services/payload-parsers/types';
+import type { VoiceCall, VoiceProvider } from './types';
+
+export function createVapiProvider(): VoiceProvider {
+  return {
+    name: 'vapi',
+    requiresApiKey: true,
+
+    testConnection: testVapiConnection,
+
+    async createCall(apiKey, params) {
+      const call = await createOutboundCall(apiKey, {
+        assistantId: params.agentId,
+        phoneNumberId: params.phoneNumberId,
+        customerNumber: params.customerNumber,
+        customerName: params.customerName,
+        assistantOverrides: params.variables ? { variableValues: params.variables } : undefined,
+      });
+      return { id: call.id };
+    },
+
+    async getCall(apiKey, callId) {
+      const call = await getVapiCall(apiKey, callId);
+      return toVoiceCall(call, call.status === 'ended');
+    },
+
+    async endCall(apiKey, callId) {
+      await endVapiCall(apiKey, callId);
+    },
+
+    // Server messages: { type, call } or { message: { type, call } }. Status updates can
+    // also show an ended call; only the end-of-call report, sent once, finishes it.
+    parseWebhook(payload) {
+      if (!isRecord(payload)) return null;
+      const message = isRecord(payload.message) ? payload.message : undefined;
+      const eventType = payload.type ?? message?.type;
+      const call = (payload.call ?? message?.call) as VapiCall | undefined;
+
+      if (!isRecord(call) || !call.id) return null;
+      return toVoiceCall(call, eventType === 'end-of-call-report');
+    },
+  };
+}
+
+function toVoiceCall(call: VapiCall, ended: boolean): VoiceCall {
+  return {
+    id: call.id,
+    ended,
+    // An end event can arrive before the call object says 'ended'; that maps to canceled
+    result: ended ? mapVapiStatusToResult(call) : null,
+    customerNumber: call.customer?.number,
+    durationSeconds: calculateCallDuration(call),
+    transcript: call.transcript || formatVapiTranscript(call.messages),
+    messages: call.messages?.map((m) => ({ role: m.role, content: m.message || '' })) || null,
+    recordingUrl: call.recordingUrl || call.artifact?.recordingUrl,
+    summary: call.analysis?.summary || call.summary,
+    structuredData: call.analysis?.structuredData,
+    endedAt: call.endedAt ? new Date(call.endedAt) : undefined,
+    costUsd: call.cost,
+    costBreakdown: formatCostBreakdown(call.costBreakdown),
+    raw: call as unknown as Record<string, unknown>,
+  };
+}
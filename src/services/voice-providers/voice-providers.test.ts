@@ -0,0 +1,236 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createAutocallsProvider,
+  createBlandProvider,
+  createFakeProvider,
+  createRetellProvider,
+  createVapiProvider,
+  getVoiceProvider,
+  setVoiceProvider,
+} from './index';
+import { customerText, detectDncRequest } from '@/lib/dnc';
+
+describe('Voice Providers', () => {
+  describe('Fake Provider', () => {
+    let clock = 1_700_000_000_000;
+    const provider = createFakeProvider({ callDurationMs: 5000, now: () => clock, deliverWebhook: () => {} });
+
+    const call = async (customerNumber: string) => {
+      const { id } = await provider.createCall('', { agentId: 'agent', phoneNumberId: '+15550000000', customerNumber });
+      return id;
+    };
+
+    it('should report calls as live until they have run their length', async () => {
+      const id = await call('+1 (555) 123-4560');
+
+      expect((await provider.getCall('', id)).ended).toBe(false);
+
+      clock += 5000;
+      const ended = await provider.getCall('', id);
+      expect(ended.ended).toBe(true);
+      expect(ended.result).toBe('answered');
+      expect(ended.customerNumber).toBe('+15551234560');
+    });
+
+    it('should pick the outcome from the last digit of the number', async () => {
+      const ids = await Promise.all(['+15551234561', '+15551234566', '+15551234568', '+15551234569'].map(call));
+      clock += 5000;
+
+      const results = await Promise.all(ids.map(async (id) => (await provider.getCall('', id)).result));
+      expect(results).toEqual(['answered', 'no_answer', 'voicemail', 'busy']);
+    });
+
+    it('should give answered calls a transcript, duration and cost', async () => {
+      const id = await call('+15551234562');
+      clock += 5000;
+      const result = await provider.getCall('', id);
+
+      expect(result.transcript).toMatch(/^AI: Hi, this is Alex/);
+      expect(result.messages?.[1]).toEqual({ role: 'user', content: 'Sure, I have a couple of minutes.' });
+      expect(result.durationSeconds).toBeGreaterThan(0);
+      expect(result.costUsd).toBeGreaterThan(0);
+    });
+
+    it('should simulate a Do-Not-Call request on numbers ending in 5', async () => {
+      const id = await call('+15551234565');
+      clock += 5000;
+      const result = await provider.getCall('', id);
+
+      expect(result.result).toBe('answered');
+      expect(detectDncRequest(customerText(result.transcript, result.messages))).not.toBeNull();
+    });
+
+    it('should reject numbers too short to dial', async () => {
+      await expect(call('12345')).rejects.toThrow('Invalid destination number');
+    });
+
+    it('should post the end of the call to the webhook URL', async () => {
+      vi.useFakeTimers();
+      try {
+        const deliveries: Array<{ url: string; payload: Record<string, unknown> }> = [];
+        const webhookProvider = createFakeProvider({
+          callDurationMs: 5000,
+          now: () => Date.now(),
+          deliverWebhook: (url, payload) => deliveries.push({ url, payload }),
+        });
+
+        const { id } = await webhookProvider.createCall('', {
+          agentId: 'agent',
+          phoneNumberId: '+15550000000',
+          customerNumber: '+15551234567',
+          webhookUrl: 'https://app.example.com/api/outbound-webhook/abc',
+        });
+        expect(deliveries).toHaveLength(0);
+
+        vi.advanceTimersByTime(5000);
+        expect(deliveries).toHaveLength(1);
+        expect(deliveries[0].url).toBe('https://app.example.com/api/outbound-webhook/abc');
+
+        const parsed = webhookProvider.parseWebhook(deliveries[0].payload);
+        expect(parsed).toMatchObject({ id, ended: true, result: 'no_answer' });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should ignore webhooks from other providers', () => {
+      expect(provider.parseWebhook({ type: 'end-of-call-report', call: { id: 'vapi-call' } })).toBeNull();
+    });
+  });
+
+  describe('Webhook parsing', () => {
+    it('should map a VAPI end-of-call report', () => {
+      const call = createVapiProvider().parseWebhook({
+        message: {
+          type: 'end-of-call-report',
+          call: {
+            id: 'call-1',
+            status: 'ended',
+            endedReason: 'customer-did-not-answer',
+            startedAt: '2024-05-01T10:00:00Z',
+            endedAt: '2024-05-01T10:00:30Z',
+            cost: 0.12,
+            costBreakdown: { llm: 0.02, total: 0.12 },
+          },
+        },
+      });
+
+      expect(call).toMatchObject({
+        id: 'call-1',
+        ended: true,
+        result: 'no_answer',
+        durationSeconds: 30,
+        costUsd: 0.12,
+        costBreakdown: { llm: 0.02, total: 0.12 },
+      });
+    });
+
+    it('should treat VAPI status updates as live calls', () => {
+      const provider = createVapiProvider();
+      const ringing = provider.parseWebhook({ message: { type: 'status-update', call: { id: 'call-1', status: 'ringing' } } });
+      const hungUp = provider.parseWebhook({ message: { type: 'status-update', call: { id: 'call-1', status: 'ended' } } });
+
+      expect(ringing).toMatchObject({ ended: false, result: null });
+      expect(hungUp).toMatchObject({ ended: false, result: null });
+      expect(createVapiProvider().parseWebhook({ message: { type: 'status-update' } })).toBeNull();
+    });
+
+    it('should map a Retell call', () => {
+      const provider = createRetellProvider();
+      const answered = provider.parseWebhook({
+        event: 'call_analyzed',
+        call: {
+          call_id: 'retell-1',
+          call_status: 'ended',
+          to_number: '+15551234567',
+          start_timestamp: 1714557600000,
+          end_timestamp: 1714557645000,
+          disconnection_reason: 'user_hangup',
+          transcript_object: [
+            { role: 'agent', content: 'Hello!' },
+            { role: 'user', content: 'Hi there.' },
+          ],
+          call_cost: { combined_cost: 12.5 },
+          call_analysis: { call_summary: 'Quick hello' },
+        },
+      });
+
+      expect(answered).toMatchObject({
+        ended: true,
+        result: 'answered',
+        durationSeconds: 45,
+        transcript: 'AI: Hello!\nCustomer: Hi there.',
+        summary: 'Quick hello',
+        costUsd: 0.125,
+      });
+
+      const busy = provider.parseWebhook({
+        event: 'call_analyzed',
+        call: { call_id: 'retell-2', call_status: 'ended', disconnection_reason: 'dial_busy' },
+      });
+      expect(busy?.result).toBe('busy');
+
+      const live = provider.parseWebhook({ event: 'call_started', call: { call_id: 'retell-3', call_status: 'ongoing' } });
+      expect(live).toMatchObject({ ended: false, result: null });
+    });
+
+    it('should finish a Retell call on call_analyzed only', () => {
+      const provider = createRetellProvider();
+      const call = { call_id: 'retell-4', call_status: 'ended', disconnection_reason: 'dial_no_answer' };
+
+      // Retell sends both events for every call; settling on each would count and bill it twice
+      const events = ['call_ended', 'call_analyzed'].map((event) => provider.parseWebhook({ event, call }));
+
+      expect(events.map((e) => e?.ended)).toEqual([false, true]);
+      expect(events[1]?.result).toBe('no_answer');
+    });
+
+    it('should map a Bland call', () => {
+      const call = createBlandProvider().parseWebhook({
+        call_id: 'bland-1',
+        completed: true,
+        status: 'completed',
+        answered_by: 'voicemail',
+        call_length: 0.5,
+        price: 0.045,
+        to: '+15551234567',
+      });
+
+      expect(call).toMatchObject({ ended: true, result: 'voicemail', durationSeconds: 30, costUsd: 0.045 });
+    });
+
+    it('should map an Autocalls call', () => {
+      const provider = createAutocallsProvider('https://autocalls.example.com/api');
+
+      expect(provider.parseWebhook({ call_id: 'ac-1', phone_number: '+15551234567', call_outcome: 'voicemail' }))
+        .toMatchObject({ ended: true, result: 'voicemail' });
+      expect(provider.parseWebhook({
+        call_id: 'ac-2',
+        phone_number: '+15551234567',
+        status: 'completed',
+        transcript: [{ speaker: 'agent', text: 'Hello' }, { speaker: 'customer', text: 'Hi' }],
+        duration: 42,
+      })).toMatchObject({ ended: true, result: 'answered', durationSeconds: 42, transcript: 'AI: Hello\nCustomer: Hi' });
+    });
+  });
+
+  describe('Registry', () => {
+    afterEach(() => {
+      setVoiceProvider('vapi', null);
+    });
+
+    it('should return the built-in provider by name', () => {
+      expect(getVoiceProvider('fake').name).toBe('fake');
+      expect(getVoiceProvider('retell')).toBe(getVoiceProvider('retell'));
+    });
+
+    it('should allow overriding a provider', () => {
+      const fake = createFakeProvider();
+      setVoiceProvider('vapi', fake);
+      expect(getVoiceProvider('vapi')).toBe(fake);
+
+      setVoiceProvider('vapi', null);
+      expect(getVoiceProvider('vapi').name).toBe('vapi');
+    });
+  });
+});
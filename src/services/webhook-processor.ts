@@ -0,0 +1,335 @@
+import { db } from '@/db';
+import { interactions, contacts, smsTriggers, webhookErrorLogs, organizations } from '@/db/schema';
+import type { Campaign } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { analyzePayload, evaluateTriggers, PayloadAnalysis } from '@/services/ai-processor';
+import { sendSms, normalizePhoneNumber, validatePhoneNumber } from '@/services/sms-service';
+import { recordAiUsage, recordVoiceCallUsage } from '@/services/usage-ledger';
+import { scoreConversation, mergeTopicTags } from '@/services/conversation-scoring';
+import type { AiUsage } from '@/services/ai-providers';
+import { buildTemplateVariables, renderSmsTemplate } from '@/lib/sms-template';
+import { scheduleSequence } from '@/services/sms-sequences';
+import { filterFireableTriggers, recordTriggerFiring } from '@/services/sms-trigger-firings';
+import { runTriggerActions } from '@/services/trigger-actions';
+import { publishEvent, interactionEventData } from '@/services/event-webhooks';
+import { customerText, detectDncRequest } from '@/lib/dnc';
+import { recordDncRequest } from '@/services/dnc';
+import { revealSecret } from '@/lib/credential-crypto';
+
+export interface InboundProcessingResult {
+  interactionId: string;
+  sourceType: PayloadAnalysis['sourceType'];
+  sourcePlatform: string;
+  smsSent: number;
+}
+
+/**
+ * Run the full ingest pipeline for an inbound webhook payload:
+ * AI analysis, contact upsert, interaction creation and SMS triggers.
+ *
+ * Throws if analysis (AI enrichment included), DNC recording or the
+ * interaction insert fails so the caller can retry.
+ * Trigger failures are logged but do not fail the job, since the interaction
+ * has already been stored and retrying would duplicate it.
+ */
+export async function processInboundPayload(
+  campaign: Campaign,
+  payload: Record<string, unknown>,
+  payloadHash: string
+): Promise<InboundProcessingResult> {
+  // Analyze payload with AI
+  const aiUsage: AiUsage[] = [];
+  const analysis = await analyzePayload(payload, {
+    extractionHints: campaign.aiExtractionHints as Record<string, string> | undefined,
+    extractionSchema: campaign.extractionSchema ?? undefined,
+    model: campaign.aiModel,
+    onUsage: (usage) => aiUsage.push(usage),
+    // An LLM outage should back off and retry, not store an unenriched interaction
+    throwOnEnrichmentError: true,
+  });
+
+  const scoring = await scoreConversation(
+    {
+      transcript: analysis.transcript,
+      transcriptFormatted: analysis.transcriptFormatted,
+      summary: analysis.extractedData.summary,
+    },
+    campaign,
+    { onUsage: (usage) => aiUsage.push(usage) }
+  );
+
+  // Get or create contact
+  let contactId: string | null = null;
+  const phoneNumber = analysis.extractedData.phoneNumber;
+  const normalizedPhone = phoneNumber ? normalizePhoneNumber(phoneNumber) : null;
+
+  if (normalizedPhone && validatePhoneNumber(normalizedPhone)) {
+    contactId = await upsertContact(campaign.id, normalizedPhone);
+  }
+
+  // Callers and SMS repliers asking not to be called go on the organization's DNC list.
+  // Recorded before the interaction so a failure fails the job and the retry delivers it.
+  if (contactId && normalizedPhone && (analysis.sourceType === 'phone' || analysis.sourceType === 'sms')) {
+    const dncRequest = detectDncRequest(customerText(analysis.transcript, analysis.transcriptFormatted));
+    if (dncRequest) {
+      await recordDncRequest({
+        phoneNumber: normalizedPhone,
+        organizationId: campaign.organizationId,
+        source: analysis.sourceType === 'sms' ? 'sms_reply' : 'call',
+        reason: dncRequest,
+      });
+    }
+  }
+
+  // Create interaction record
+  const [interaction] = await db
+    .insert(interactions)
+    .values({
+      campaignId: campaign.id,
+      contactId,
+      sourceType: analysis.sourceType,
+      sourcePlatform: analysis.sourcePlatform,
+      phoneNumber: normalizedPhone,
+      callStatus: analysis.callStatus,
+      durationSeconds: analysis.durationSeconds,
+      transcript: analysis.transcript,
+      transcriptFormatted: analysis.transcriptFormatted,
+      recordingUrl: analysis.recordingUrl,
+      aiSummary: analysis.extractedData.summary,
+      aiExtractedData: analysis.extractedData as Record<string, unknown>,
+      rawPayload: payload,
+      payloadHash,
+      tags: mergeTopicTags([], scoring?.analysis.topics ?? []),
+      flagged: scoring?.flagged ?? false,
+      sentiment: scoring?.sentiment,
+      qualityScore: scoring?.qualityScore,
+      conversationAnalysis: scoring?.analysis,
+    })
+    .returning();
+
+  const usageContext = {
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+    interactionId: interaction.id,
+  };
+  await recordAiUsage('ai_analysis', aiUsage, usageContext);
+  if (analysis.callCost) {
+    await recordVoiceCallUsage({
+      provider: analysis.sourcePlatform,
+      costUsd: analysis.callCost.totalUsd,
+      durationSeconds: analysis.durationSeconds,
+      breakdown: analysis.callCost.breakdown,
+    }, usageContext);
+  }
+
+  let smsSent = 0;
+
+  // Evaluate SMS triggers if we have a transcript or summary and a contact
+  if (contactId && normalizedPhone && (analysis.transcript || analysis.extractedData.summary)) {
+    try {
+      smsSent = await fireSmsTriggers(campaign, analysis, {
+        interactionId: interaction.id,
+        contactId,
+        phoneNumber: normalizedPhone,
+      });
+    } catch (triggerError) {
+      console.error('Webhook trigger evaluation error:', triggerError);
+
+      await db.insert(webhookErrorLogs).values({
+        campaignId: campaign.id,
+        rawBody: JSON.stringify(payload).substring(0, 10000),
+        errorType: 'trigger_error',
+        errorMessage:
+          triggerError instanceof Error
+            ? triggerError.message
+            : 'Unknown trigger error',
+      });
+    }
+  }
+
+  await publishEvent(campaign.organizationId, 'interaction.created', {
+    ...interactionEventData(interaction, campaign),
+    smsSent,
+  });
+
+  return {
+    interactionId: interaction.id,
+    sourceType: analysis.sourceType,
+    sourcePlatform: analysis.sourcePlatform,
+    smsSent,
+  };
+}
+
+/**
+ * Find or create the campaign contact for a normalized phone number
+ */
+export async function upsertContact(campaignId: string, phoneNumber: string): Promise<string> {
+  const [existingContact] = await db
+    .select()
+    .from(contacts)
+    .where(
+      and(
+        eq(contacts.campaignId, campaignId),
+        eq(contacts.phoneNumber, phoneNumber)
+      )
+    )
+    .limit(1);
+
+  if (existingContact) {
+    return existingContact.id;
+  }
+
+  const [newContact] = await db
+    .insert(contacts)
+    .values({ campaignId, phoneNumber })
+    .onConflictDoNothing()
+    .returning();
+
+  if (newContact) {
+    return newContact.id;
+  }
+
+  // Another worker created the contact between our select and insert
+  const [racedContact] = await db
+    .select()
+    .from(contacts)
+    .where(
+      and(
+        eq(contacts.campaignId, campaignId),
+        eq(contacts.phoneNumber, phoneNumber)
+      )
+    )
+    .limit(1);
+
+  return racedContact.id;
+}
+
+async function fireSmsTriggers(
+  campaign: Campaign,
+  analysis: PayloadAnalysis,
+  target: { interactionId: string; contactId: string; phoneNumber: string }
+): Promise<number> {
+  // Get active triggers for this campaign; without a Twilio number only their actions can run
+  const activeTriggers = (
+    await db
+      .select()
+      .from(smsTriggers)
+      .where(
+        and(
+          eq(smsTriggers.campaignId, campaign.id),
+          eq(smsTriggers.isActive, true)
+        )
+      )
+  ).filter((t) => (campaign.twilioPhoneNumber && t.smsMessage) || (t.actions?.length ?? 0) > 0);
+
+  if (activeTriggers.length === 0) {
+    return 0;
+  }
+
+  // Drop triggers whose re-fire policy rules out this contact
+  const eligibleTriggers = await filterFireableTriggers(
+    activeTriggers,
+    { contactId: target.contactId },
+    target.interactionId
+  );
+
+  if (eligibleTriggers.length === 0) {
+    return 0;
+  }
+
+  // Evaluate which triggers match
+  const aiUsage: AiUsage[] = [];
+  const matchedTriggerIds = await evaluateTriggers(
+    analysis.transcript,
+    analysis.extractedData.summary,
+    eligibleTriggers.map((t) => ({
+      id: t.id,
+      intentDescription: t.intentDescription,
+      priority: t.priority,
+    })),
+    { model: campaign.aiModel, onUsage: (usage) => aiUsage.push(usage) }
+  );
+
+  await recordAiUsage('ai_trigger_evaluation', aiUsage, {
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+    interactionId: target.interactionId,
+  });
+
+  let sent = 0;
+  if (matchedTriggerIds.length === 0) {
+    return sent;
+  }
+
+  const [organization] = await db
+    .select({ name: organizations.name })
+    .from(organizations)
+    .where(eq(organizations.id, campaign.organizationId))
+    .limit(1);
+
+  const variables = buildTemplateVariables({
+    campaignName: campaign.name,
+    organizationName: organization?.name,
+    phoneNumber: target.phoneNumber,
+    extractedData: analysis.extractedData as Record<string, unknown>,
+  });
+
+  // Send SMS and run actions for each matched trigger
+  for (const triggerId of matchedTriggerIds) {
+    const trigger = eligibleTriggers.find((t) => t.id === triggerId);
+    if (!trigger) continue;
+
+    let smsResult: Awaited<ReturnType<typeof sendSms>> | null = null;
+    if (trigger.smsMessage && campaign.twilioPhoneNumber) {
+      const { text, missing } = renderSmsTemplate(trigger.smsMessage, variables);
+      if (missing.length > 0) {
+        console.warn(`[SMS] Trigger ${trigger.id} sent without values for: ${missing.join(', ')}`);
+      }
+
+      smsResult = await sendSms({
+        toNumber: target.phoneNumber,
+        fromNumber: campaign.twilioPhoneNumber,
+        message: text,
+        interactionId: target.interactionId,
+        triggerId: trigger.id,
+        contactId: target.contactId,
+        organizationId: campaign.organizationId,
+        twilioAccountSid: campaign.twilioOverride
+          ? campaign.twilioAccountSid || undefined
+          : undefined,
+        twilioAuthToken: campaign.twilioOverride
+          ? revealSecret(campaign.twilioAuthToken) || undefined
+          : undefined,
+      });
+    }
+
+    const actionResults = await runTriggerActions(trigger, {
+      campaign,
+      interactionId: target.interactionId,
+      phoneNumber: target.phoneNumber,
+      summary: analysis.extractedData.summary,
+      extractedData: analysis.extractedData as Record<string, unknown>,
+      variables,
+    });
+
+    if (!smsResult?.success && actionResults.succeeded === 0) continue;
+
+    await recordTriggerFiring({
+      triggerId: trigger.id,
+      contactId: target.contactId,
+      interactionId: target.interactionId,
+      smsLogId: smsResult?.smsLogId,
+    });
+
+    if (!smsResult?.success) continue;
+    sent++;
+
+    try {
+      await scheduleSequence(trigger, { campaignId: campaign.id, ...target }, variables);
+    } catch (error) {
+      console.error(`[SMS] Failed to schedule follow-ups for trigger ${trigger.id}:`, error);
+    }
+  }
+
+  return sent;
+}
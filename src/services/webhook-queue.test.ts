@@ -0,0 +1,174 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { campaigns, interactions, organizations, webhookErrorLogs, webhookJobs } from '@/db/schema';
+import type { Campaign, WebhookJob } from '@/db/schema';
+import { createMockProvider, setAiProvider } from '@/services/ai-providers';
+import { claimWebhookJobs, enqueueWebhookJob, getRetryDelayMs, processWebhookJobs } from './webhook-queue';
+
+vi.mock('@/db', async () => ({ db: await (await import('@/test/db')).createTestDb() }));
+
+const rawBody = JSON.stringify({
+  message: {
+    type: 'end-of-call-report',
+    endedReason: 'customer-ended-call',
+    customer: { number: '+15551234567' },
+    artifact: {
+      transcript: 'AI: Hello\nUser: I need a quote',
+      messages: [
+        { role: 'bot', message: 'Hello' },
+        { role: 'user', message: 'I need a quote' },
+      ],
+    },
+  },
+});
+
+// Past the ten-minute lease a worker holds on a claimed job
+const STALE_LOCK = new Date(Date.now() - 11 * 60 * 1000);
+
+function failingProvider() {
+  return {
+    ...createMockProvider(),
+    summarize: async () => {
+      throw new Error('OpenAI unavailable');
+    },
+  };
+}
+
+async function reload(job: WebhookJob): Promise<WebhookJob> {
+  const [current] = await db.select().from(webhookJobs).where(eq(webhookJobs.id, job.id));
+  return current;
+}
+
+describe('Webhook Queue', () => {
+  describe('Retry Backoff', () => {
+    it('should wait 30 seconds after the first attempt', () => {
+      expect(getRetryDelayMs(1)).toBe(30 * 1000);
+    });
+
+    it('should double the delay for each attempt', () => {
+      expect(getRetryDelayMs(2)).toBe(60 * 1000);
+      expect(getRetryDelayMs(3)).toBe(120 * 1000);
+      expect(getRetryDelayMs(4)).toBe(240 * 1000);
+    });
+
+    it('should cap the delay at one hour', () => {
+      expect(getRetryDelayMs(20)).toBe(60 * 60 * 1000);
+    });
+
+    it('should treat attempt 0 like the first attempt', () => {
+      expect(getRetryDelayMs(0)).toBe(30 * 1000);
+    });
+  });
+
+  describe('Processing Jobs', () => {
+    let campaign: Campaign;
+
+    beforeEach(async () => {
+      await db.delete(webhookJobs);
+      setAiProvider(createMockProvider());
+      const [organization] = await db.insert(organizations).values({ name: 'Acme' }).returning();
+      [campaign] = await db
+        .insert(campaigns)
+        .values({ organizationId: organization.id, name: 'Inbound calls' })
+        .returning();
+    });
+
+    afterEach(() => {
+      setAiProvider(null);
+    });
+
+    const enqueue = () => enqueueWebhookJob({ campaignId: campaign.id, rawBody, payloadHash: 'hash' });
+
+    it('should claim due jobs and leave future ones', async () => {
+      const due = await enqueue();
+      const later = await enqueue();
+      await db
+        .update(webhookJobs)
+        .set({ nextRunAt: new Date(Date.now() + 60 * 1000) })
+        .where(eq(webhookJobs.id, later.id));
+
+      const claimed = await claimWebhookJobs(10);
+
+      expect(claimed).toMatchObject([{ id: due.id, status: 'processing', attempts: 1 }]);
+      expect(claimed[0].lockedAt).not.toBeNull();
+    });
+
+    it('should never hand the same job to overlapping claims', async () => {
+      for (let i = 0; i < 4; i++) await enqueue();
+
+      const [first, second] = await Promise.all([claimWebhookJobs(3), claimWebhookJobs(3)]);
+      const ids = [...first, ...second].map((job) => job.id);
+
+      expect(ids).toHaveLength(4);
+      expect(new Set(ids).size).toBe(4);
+      expect(await claimWebhookJobs(10)).toHaveLength(0);
+    });
+
+    it('should reclaim a job only once its worker lease has run out', async () => {
+      const job = await enqueue();
+      await claimWebhookJobs(10);
+
+      expect(await claimWebhookJobs(10)).toHaveLength(0);
+
+      await db.update(webhookJobs).set({ lockedAt: STALE_LOCK }).where(eq(webhookJobs.id, job.id));
+      expect(await claimWebhookJobs(10)).toMatchObject([{ id: job.id, attempts: 2 }]);
+    });
+
+    it('should complete a job with an interaction', async () => {
+      const job = await enqueue();
+
+      const result = await processWebhookJobs();
+
+      expect(result).toMatchObject({ claimed: 1, completed: 1, retried: 0 });
+      const current = await reload(job);
+      expect(current.status).toBe('completed');
+      expect(current.interactionId).not.toBeNull();
+    });
+
+    it('should back off and retry when AI enrichment fails', async () => {
+      setAiProvider(failingProvider());
+      const job = await enqueue();
+      const startedAt = Date.now();
+
+      const result = await processWebhookJobs();
+
+      expect(result).toMatchObject({ claimed: 1, completed: 0, retried: 1 });
+      const current = await reload(job);
+      expect(current).toMatchObject({ status: 'pending', attempts: 1, lockedAt: null, lastError: 'OpenAI unavailable' });
+      expect(current.nextRunAt.getTime()).toBeGreaterThanOrEqual(startedAt + getRetryDelayMs(1));
+
+      const stored = await db.select().from(interactions).where(eq(interactions.campaignId, campaign.id));
+      expect(stored).toHaveLength(0);
+    });
+
+    it('should dead-letter a job that fails its final attempt', async () => {
+      setAiProvider(failingProvider());
+      const job = await enqueue();
+      await db.update(webhookJobs).set({ attempts: 4 }).where(eq(webhookJobs.id, job.id));
+
+      const result = await processWebhookJobs();
+
+      expect(result).toMatchObject({ claimed: 1, deadLettered: 1 });
+      expect((await reload(job)).status).toBe('dead');
+
+      const logged = await db.select().from(webhookErrorLogs).where(eq(webhookErrorLogs.campaignId, campaign.id));
+      expect(logged).toMatchObject([{ errorType: 'processing_error', payloadHash: 'hash' }]);
+      expect(logged[0].errorMessage).toContain('Failed after 5 attempts');
+    });
+
+    it('should dead-letter a job whose worker died on its final attempt instead of reclaiming it', async () => {
+      const job = await enqueue();
+      await db
+        .update(webhookJobs)
+        .set({ status: 'processing', attempts: 5, lockedAt: STALE_LOCK })
+        .where(eq(webhookJobs.id, job.id));
+
+      const result = await processWebhookJobs();
+
+      expect(result).toMatchObject({ claimed: 0, deadLettered: 1 });
+      expect(await reload(job)).toMatchObject({ status: 'dead', lockedAt: null });
+    });
+  });
+});
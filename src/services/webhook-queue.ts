@@ -0,0 +1,241 @@
+/**
+ * Webhook Queue - Postgres-backed job queue for inbound webhook processing
+ *
+ * The webhook route only persists the raw body and returns 202. A cron worker
+ * claims pending jobs, runs the ingest pipeline, retries failures with
+ * exponential backoff and dead-letters jobs that exhaust their attempts.
+ */
+
+import { db } from '@/db';
+import { campaigns, webhookJobs, webhookErrorLogs } from '@/db/schema';
+import type { WebhookJob } from '@/db/schema';
+import { eq, and, or, lte, lt, gte, asc, inArray, sql } from 'drizzle-orm';
+import { processInboundPayload } from '@/services/webhook-processor';
+import { recordReplayOutcome } from '@/services/webhook-replay';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30 seconds
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // Reclaim jobs whose worker died
+
+export interface ProcessWebhookJobsResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+  errors: string[];
+}
+
+/**
+ * Delay before the next attempt, doubling per attempt and capped at one hour
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Persist a raw webhook body for asynchronous processing
+ */
+export async function enqueueWebhookJob(params: {
+  campaignId: string;
+  rawBody: string;
+  payloadHash: string;
+}): Promise<WebhookJob> {
+  const [job] = await db
+    .insert(webhookJobs)
+    .values({
+      campaignId: params.campaignId,
+      rawBody: params.rawBody,
+      payloadHash: params.payloadHash,
+    })
+    .returning();
+
+  return job;
+}
+
+/**
+ * Atomically claim due jobs so overlapping cron invocations never
+ * process the same job twice
+ */
+export async function claimWebhookJobs(limit: number): Promise<WebhookJob[]> {
+  const now = new Date();
+  const staleLockCutoff = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+
+  const dueJobs = db
+    .select({ id: webhookJobs.id })
+    .from(webhookJobs)
+    .where(
+      or(
+        and(
+          eq(webhookJobs.status, 'pending'),
+          lte(webhookJobs.nextRunAt, now)
+        ),
+        and(
+          eq(webhookJobs.status, 'processing'),
+          lt(webhookJobs.lockedAt, staleLockCutoff),
+          lt(webhookJobs.attempts, webhookJobs.maxAttempts)
+        )
+      )
+    )
+    .orderBy(asc(webhookJobs.nextRunAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(webhookJobs)
+    .set({
+      status: 'processing',
+      lockedAt: now,
+      attempts: sql`${webhookJobs.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(webhookJobs.id, dueJobs))
+    .returning();
+}
+
+/**
+ * Process a batch of due webhook jobs (called by the cron route)
+ */
+export async function processWebhookJobs(
+  options: { limit?: number } = {}
+): Promise<ProcessWebhookJobsResult> {
+  const results: ProcessWebhookJobsResult = {
+    claimed: 0,
+    completed: 0,
+    retried: 0,
+    deadLettered: 0,
+    errors: [],
+  };
+
+  results.deadLettered += await deadLetterAbandonedJobs();
+
+  const jobs = await claimWebhookJobs(options.limit ?? 25);
+  results.claimed = jobs.length;
+
+  for (const job of jobs) {
+    try {
+      const interactionId = await runWebhookJob(job);
+
+      await db
+        .update(webhookJobs)
+        .set({
+          status: 'completed',
+          interactionId,
+          lockedAt: null,
+          lastError: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(webhookJobs.id, job.id));
+
+      if (job.errorLogId) {
+        await recordReplayOutcome(job.errorLogId, { success: true, interactionId }, job);
+      }
+
+      results.completed++;
+    } catch (jobError) {
+      const errorMessage =
+        jobError instanceof Error ? jobError.message : 'Unknown processing error';
+      results.errors.push(`Job ${job.id}: ${errorMessage}`);
+
+      if (job.attempts >= job.maxAttempts) {
+        await deadLetterJob(job, errorMessage);
+        results.deadLettered++;
+      } else {
+        await db
+          .update(webhookJobs)
+          .set({
+            status: 'pending',
+            lockedAt: null,
+            lastError: errorMessage,
+            nextRunAt: new Date(Date.now() + getRetryDelayMs(job.attempts)),
+            updatedAt: new Date(),
+          })
+          .where(eq(webhookJobs.id, job.id));
+        results.retried++;
+      }
+    }
+  }
+
+  return results;
+}
+
+async function runWebhookJob(job: WebhookJob): Promise<string> {
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, job.campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    throw new Error('Campaign not found');
+  }
+
+  // Live webhooks are validated at ingest; replayed bodies may have been truncated
+  const payload = JSON.parse(job.rawBody) as Record<string, unknown>;
+  const result = await processInboundPayload(campaign, payload, job.payloadHash);
+
+  return result.interactionId;
+}
+
+/**
+ * Dead-letter jobs whose worker died during their final attempt; they are
+ * never reclaimed, so a job that crashes every worker cannot loop forever
+ */
+async function deadLetterAbandonedJobs(): Promise<number> {
+  const staleLockCutoff = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const errorMessage = 'Worker stopped during the final attempt';
+
+  const jobs = await db
+    .update(webhookJobs)
+    .set({
+      status: 'dead',
+      lockedAt: null,
+      lastError: errorMessage,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(webhookJobs.status, 'processing'),
+        lt(webhookJobs.lockedAt, staleLockCutoff),
+        gte(webhookJobs.attempts, webhookJobs.maxAttempts)
+      )
+    )
+    .returning();
+
+  for (const job of jobs) {
+    await reportDeadJob(job, errorMessage);
+  }
+
+  return jobs.length;
+}
+
+async function deadLetterJob(job: WebhookJob, errorMessage: string): Promise<void> {
+  await db
+    .update(webhookJobs)
+    .set({
+      status: 'dead',
+      lockedAt: null,
+      lastError: errorMessage,
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookJobs.id, job.id));
+
+  await reportDeadJob(job, errorMessage);
+}
+
+async function reportDeadJob(job: WebhookJob, errorMessage: string): Promise<void> {
+  // Replays report back to the row they came from instead of logging a new error
+  if (job.errorLogId) {
+    await recordReplayOutcome(job.errorLogId, { success: false, error: errorMessage }, job);
+    return;
+  }
+
+  await db.insert(webhookErrorLogs).values({
+    campaignId: job.campaignId,
+    rawBody: job.rawBody.substring(0, 10000),
+    payloadHash: job.payloadHash,
+    errorType: 'processing_error',
+    errorMessage: `Failed after ${job.attempts} attempts: ${errorMessage}`,
+  });
+}
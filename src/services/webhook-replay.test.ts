@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { campaigns, interactions, organizations, webhookErrorLogs, webhookJobs } from '@/db/schema';
+import type { Campaign, WebhookErrorLog } from '@/db/schema';
+import { createMockProvider, setAiProvider } from '@/services/ai-providers';
+import { queueWebhookReplays, replayWebhookError } from './webhook-replay';
+import { processWebhookJobs } from './webhook-queue';
+
+vi.mock('@/db', async () => ({ db: await (await import('@/test/db')).createTestDb() }));
+
+const rawBody = JSON.stringify({
+  message: {
+    type: 'end-of-call-report',
+    endedReason: 'customer-ended-call',
+    customer: { number: '+15551234567' },
+    artifact: {
+      transcript: 'AI: Hello\nUser: I need a quote',
+      messages: [
+        { role: 'bot', message: 'Hello' },
+        { role: 'user', message: 'I need a quote' },
+      ],
+    },
+    analysis: { summary: 'Caller wants a quote.' },
+  },
+});
+
+// The hash of the body as received, which a truncated raw_body would no longer reproduce
+const PAYLOAD_HASH = 'received-body-hash';
+
+async function logFailure(campaign: Campaign, values: Partial<WebhookErrorLog> = {}): Promise<WebhookErrorLog> {
+  const [errorLog] = await db
+    .insert(webhookErrorLogs)
+    .values({
+      campaignId: campaign.id,
+      rawBody,
+      payloadHash: PAYLOAD_HASH,
+      errorType: 'processing_error',
+      errorMessage: 'AI provider unavailable',
+      ...values,
+    })
+    .returning();
+  return errorLog;
+}
+
+async function campaignInteractions(campaign: Campaign) {
+  return db.select().from(interactions).where(eq(interactions.campaignId, campaign.id));
+}
+
+describe('Webhook Replay', () => {
+  let campaign: Campaign;
+
+  beforeEach(async () => {
+    setAiProvider(createMockProvider());
+    const [organization] = await db.insert(organizations).values({ name: 'Acme' }).returning();
+    [campaign] = await db
+      .insert(campaigns)
+      .values({ organizationId: organization.id, name: 'Inbound calls' })
+      .returning();
+  });
+
+  afterEach(() => {
+    setAiProvider(null);
+  });
+
+  it('should replay a logged failure and replace its fallback interaction', async () => {
+    const [fallback] = await db
+      .insert(interactions)
+      .values({ campaignId: campaign.id, sourceType: 'phone', payloadHash: PAYLOAD_HASH })
+      .returning();
+    const errorLog = await logFailure(campaign);
+
+    const result = await replayWebhookError(errorLog);
+
+    const stored = await campaignInteractions(campaign);
+    expect(stored).toHaveLength(1);
+    expect(stored[0].id).not.toBe(fallback.id);
+    expect(result).toEqual({ success: true, interactionId: stored[0].id });
+    expect(stored[0].payloadHash).toBe(PAYLOAD_HASH);
+
+    const [logged] = await db.select().from(webhookErrorLogs).where(eq(webhookErrorLogs.id, errorLog.id));
+    expect(logged).toMatchObject({ replayStatus: 'succeeded', replayCount: 1, replayInteractionId: stored[0].id });
+  });
+
+  it('should replay a double submit only once', async () => {
+    const errorLog = await logFailure(campaign);
+
+    const results = await Promise.all([replayWebhookError(errorLog), replayWebhookError(errorLog)]);
+
+    expect(results.filter((result) => result === null)).toHaveLength(1);
+    expect(await campaignInteractions(campaign)).toHaveLength(1);
+  });
+
+  it('should queue each replayable failure once and link the outcome back', async () => {
+    const pending = await logFailure(campaign);
+    await logFailure(campaign, { replayStatus: 'succeeded' });
+    await logFailure(campaign, { errorType: 'trigger_error' });
+    const range = {
+      campaignId: campaign.id,
+      startDate: new Date(Date.now() - 60 * 60 * 1000),
+      endDate: new Date(Date.now() + 60 * 60 * 1000),
+    };
+
+    expect(await queueWebhookReplays(range)).toEqual({ queued: 1 });
+    expect(await queueWebhookReplays(range)).toEqual({ queued: 0 });
+
+    const jobs = await db.select().from(webhookJobs).where(eq(webhookJobs.campaignId, campaign.id));
+    expect(jobs).toMatchObject([{ errorLogId: pending.id, payloadHash: PAYLOAD_HASH }]);
+
+    await processWebhookJobs();
+
+    const [logged] = await db.select().from(webhookErrorLogs).where(eq(webhookErrorLogs.id, pending.id));
+    expect(logged.replayStatus).toBe('succeeded');
+    expect(await campaignInteractions(campaign)).toHaveLength(1);
+  });
+});
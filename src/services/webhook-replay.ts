@@ -0,0 +1,192 @@
+/**
+ * Webhook Replay - Re-runs the ingest pipeline on bodies stored in webhook_error_logs
+ *
+ * Single replays run inline so the admin sees the outcome immediately.
+ * Bulk replays are handed to the webhook job queue and report back to the
+ * original error row when the job completes or is dead-lettered.
+ */
+
+import { db } from '@/db';
+import { campaigns, interactions, webhookErrorLogs, webhookJobs } from '@/db/schema';
+import type { WebhookErrorLog } from '@/db/schema';
+import { eq, and, ne, gte, lte, isNull, inArray, or, sql } from 'drizzle-orm';
+import { processInboundPayload } from '@/services/webhook-processor';
+import { generateHash } from '@/lib/utils';
+
+// Error types whose stored body can be pushed through the pipeline again.
+// trigger_error rows already produced an interaction, so replaying would duplicate it.
+export const REPLAYABLE_ERROR_TYPES = ['processing_error', 'server_error'];
+
+const MAX_BULK_REPLAY = 1000;
+
+export type ReplayResult =
+  | { success: true; interactionId: string }
+  | { success: false; error: string };
+
+export function isReplayable(errorLog: Pick<WebhookErrorLog, 'campaignId' | 'rawBody' | 'errorType'>): boolean {
+  return (
+    !!errorLog.campaignId &&
+    !!errorLog.rawBody &&
+    REPLAYABLE_ERROR_TYPES.includes(errorLog.errorType)
+  );
+}
+
+/**
+ * Replay a single logged webhook through the full ingest pipeline.
+ * Returns null when the row is already queued or replayed, so a double
+ * submit never runs the pipeline twice.
+ */
+export async function replayWebhookError(errorLog: WebhookErrorLog): Promise<ReplayResult | null> {
+  if (!isReplayable(errorLog)) {
+    return { success: false, error: `Error type '${errorLog.errorType}' cannot be replayed` };
+  }
+
+  const [claimed] = await claimReplays([errorLog.id]);
+  if (!claimed) {
+    return null;
+  }
+
+  const rawBody = errorLog.rawBody!;
+  const payloadHash = errorLog.payloadHash ?? generateHash(rawBody);
+  let result: ReplayResult;
+
+  try {
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, errorLog.campaignId!))
+      .limit(1);
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      // Stored bodies are capped at 10,000 characters
+      throw new Error('Stored body is not valid JSON (it may have been truncated)');
+    }
+
+    const processed = await processInboundPayload(campaign, payload, payloadHash);
+    result = { success: true, interactionId: processed.interactionId };
+  } catch (error) {
+    result = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown replay error',
+    };
+  }
+
+  await recordReplayOutcome(errorLog.id, result, {
+    campaignId: errorLog.campaignId!,
+    payloadHash,
+  });
+
+  return result;
+}
+
+/**
+ * Queue replays for every replayable error logged for a campaign in a time range
+ */
+export async function queueWebhookReplays(params: {
+  campaignId: string;
+  startDate: Date;
+  endDate: Date;
+}): Promise<{ queued: number }> {
+  const errorLogs = await db
+    .select()
+    .from(webhookErrorLogs)
+    .where(
+      and(
+        eq(webhookErrorLogs.campaignId, params.campaignId),
+        inArray(webhookErrorLogs.errorType, REPLAYABLE_ERROR_TYPES),
+        gte(webhookErrorLogs.createdAt, params.startDate),
+        lte(webhookErrorLogs.createdAt, params.endDate),
+        or(
+          isNull(webhookErrorLogs.replayStatus),
+          eq(webhookErrorLogs.replayStatus, 'failed')
+        )
+      )
+    )
+    .limit(MAX_BULK_REPLAY);
+
+  const replayable = errorLogs.filter(isReplayable);
+  if (replayable.length === 0) {
+    return { queued: 0 };
+  }
+
+  // Rows claimed by a concurrent replay in the meantime are left to it
+  return db.transaction(async (tx) => {
+    const claimedIds = new Set(
+      (await claimReplays(replayable.map((e) => e.id), tx)).map((row) => row.id)
+    );
+    const claimed = replayable.filter((errorLog) => claimedIds.has(errorLog.id));
+
+    if (claimed.length > 0) {
+      await tx.insert(webhookJobs).values(
+        claimed.map((errorLog) => ({
+          campaignId: params.campaignId,
+          rawBody: errorLog.rawBody!,
+          payloadHash: errorLog.payloadHash ?? generateHash(errorLog.rawBody!),
+          errorLogId: errorLog.id,
+        }))
+      );
+    }
+
+    return { queued: claimed.length };
+  });
+}
+
+/**
+ * Link the replay outcome back to the original error row. On success, the bare
+ * fallback interaction created when the webhook first failed is removed so the
+ * replayed interaction replaces it.
+ */
+export async function recordReplayOutcome(
+  errorLogId: string,
+  result: ReplayResult,
+  source: { campaignId: string; payloadHash: string }
+): Promise<void> {
+  await db
+    .update(webhookErrorLogs)
+    .set({
+      replayStatus: result.success ? 'succeeded' : 'failed',
+      replayInteractionId: result.success ? result.interactionId : null,
+      replayError: result.success ? null : result.error,
+      replayCount: sql`${webhookErrorLogs.replayCount} + 1`,
+      lastReplayedAt: new Date(),
+    })
+    .where(eq(webhookErrorLogs.id, errorLogId));
+
+  if (result.success) {
+    await db
+      .delete(interactions)
+      .where(
+        and(
+          eq(interactions.campaignId, source.campaignId),
+          eq(interactions.payloadHash, source.payloadHash),
+          ne(interactions.id, result.interactionId),
+          isNull(interactions.sourcePlatform),
+          isNull(interactions.aiSummary)
+        )
+      );
+  }
+}
+
+// Mark rows queued unless another replay already holds them; returns the rows claimed
+function claimReplays(errorLogIds: string[], executor: Pick<typeof db, 'update'> = db) {
+  return executor
+    .update(webhookErrorLogs)
+    .set({ replayStatus: 'queued', replayError: null })
+    .where(
+      and(
+        inArray(webhookErrorLogs.id, errorLogIds),
+        or(
+          isNull(webhookErrorLogs.replayStatus),
+          eq(webhookErrorLogs.replayStatus, 'failed')
+        )
+      )
+    )
+    .returning({ id: webhookErrorLogs.id });
+}
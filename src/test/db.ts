@@ -0,0 +1,20 @@
+/**
+ * In-memory Postgres (PGlite) with every migration applied, for tests of
+ * services that query the database. Each test file mocks '@/db' with its own
+ * and runs in the node environment (`// @vitest-environment node`), since
+ * PGlite can't load under jsdom:
+ *
+ *   vi.mock('@/db', async () => ({ db: await (await import('@/test/db')).createTestDb() }));
+ */
+
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '@/db/schema';
+
+export async function createTestDb() {
+  const db = drizzle(new PGlite(), { schema });
+  await migrate(db, { migrationsFolder: path.resolve(__dirname, '../db/migrations') });
+  return db;
+}